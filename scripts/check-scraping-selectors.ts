@@ -0,0 +1,80 @@
+import { FinvizSignalService } from '../src/services/external-signals/finviz-signal';
+import { InvestingSignalService } from '../src/services/external-signals/investing-signal';
+import { MarketWatchSignalService } from '../src/services/external-signals/marketwatch-signal';
+import {
+  ScrapingHelper,
+  ScrapingMode,
+} from '../src/services/external-signals/scraping-helper';
+import { SelectorHealthReport } from '../src/services/external-signals/selector-health';
+import { TradingViewSignalService } from '../src/services/external-signals/tradingview-signal';
+import { Logger } from '../src/utils/logger';
+
+const logger = new Logger('SelectorHealthCheck');
+
+const MODES: ScrapingMode[] = ['live', 'record', 'replay'];
+
+/**
+ * 使い方:
+ *   npm run signals:check-selectors -- [SYMBOL...] [--mode=live|record|replay] [--dir=./data/scraping-fixtures]
+ *
+ * --mode=record でHTMLを保存し、--mode=replay で保存済みHTMLに対してオフラインで検査する
+ */
+async function checkScrapingSelectors(): Promise<void> {
+  const args = process.argv.slice(2);
+  const flags = args.filter((arg) => arg.startsWith('--'));
+  const symbols = args.filter((arg) => !arg.startsWith('--'));
+  if (symbols.length === 0) symbols.push('AAPL');
+
+  const modeFlag = flags.find((flag) => flag.startsWith('--mode='));
+  const dirFlag = flags.find((flag) => flag.startsWith('--dir='));
+  const mode = (modeFlag?.split('=')[1] ?? 'live') as ScrapingMode;
+  if (!MODES.includes(mode)) {
+    logger.error(`❌ 未対応のモード: ${mode} (${MODES.join(', ')})`);
+    process.exit(1);
+  }
+
+  ScrapingHelper.configureFixtures({
+    mode,
+    ...(dirFlag ? { fixtureDir: dirFlag.split('=')[1] } : {}),
+  });
+
+  const services = [
+    new FinvizSignalService(),
+    new TradingViewSignalService(),
+    new InvestingSignalService(),
+    new MarketWatchSignalService(),
+  ];
+
+  const reports: SelectorHealthReport[] = [];
+  try {
+    for (const symbol of symbols) {
+      for (const service of services) {
+        const report = await service.checkSelectorHealth(symbol);
+        reports.push(report);
+
+        if (report.error) {
+          logger.error(`❌ ${report.source} ${symbol}: ${report.error}`);
+        } else if (report.healthy) {
+          logger.info(`✅ ${report.source} ${symbol}: 全項目取得`);
+        } else {
+          logger.warn(
+            `⚠️ ${report.source} ${symbol}: 空の項目 ${report.emptyFields.join(', ')}`
+          );
+        }
+      }
+    }
+  } finally {
+    await ScrapingHelper.close();
+  }
+
+  const unhealthy = reports.filter((r) => !r.healthy).length;
+  logger.info(
+    `\n📊 セレクタ検査結果: ${reports.length - unhealthy}/${reports.length} 正常`
+  );
+  if (unhealthy > 0) process.exitCode = 1;
+}
+
+checkScrapingSelectors().catch((error) => {
+  logger.error('❌ セレクタ検査に失敗しました:', error);
+  process.exit(1);
+});
@@ -1,11 +1,21 @@
 import { Logger } from '../src/utils/logger';
 import { DayTradingScheduler } from '../src/trading/day-trading-scheduler';
+import { SchedulerStateJournal } from '../src/trading/scheduler-state-journal';
+import { KillSwitch } from '../src/trading/kill-switch';
 import { SignalAggregatorService } from '../src/services/signal-aggregator-service';
 import { HybridMarketDataService } from '../src/services/hybrid-market-data-service';
 import { InteractiveBrokersIntegration } from '../src/brokers/interactive-brokers-integration';
 import { YahooFinanceSignalService } from '../src/services/external-signals/yahoo-finance-signal';
 import { TradeDataCollector } from '../src/analytics/trade-data-collector';
-import { defaultDayTradingConfig } from '../src/config/day-trading-config';
+import {
+  defaultDayTradingConfig,
+  toSourceWeights,
+} from '../src/config/day-trading-config';
+import { SignalOutcomeStore } from '../src/services/signal-outcome-store';
+import {
+  SignalOutcomeTracker,
+  createOutcomePriceProvider,
+} from '../src/services/signal-outcome-tracker';
 import { ibConfig } from '../src/config/interactive-brokers-config';
 
 const logger = new Logger('DailyTradingRunner');
@@ -52,24 +62,60 @@ async function runDailyTrading(): Promise<void> {
     // シグナル統合サービス（Yahoo Financeのみ）
     const signalServices = [new YahooFinanceSignalService()];
 
-    const signalAggregator = new SignalAggregatorService(signalServices, {
-      requiredVoteRatio: { 1: 1.0 },
-      minSources: 1,
-      timeout: 30000,
-    });
+    const signalOutcomeStore = new SignalOutcomeStore();
+    const signalAggregator = new SignalAggregatorService(
+      signalServices,
+      {
+        requiredVoteRatio: { 1: 1.0 },
+        minSources: 1,
+        timeout: 30000,
+        mode: defaultDayTradingConfig.aggregationMode || 'majority',
+        sourceWeights: toSourceWeights(defaultDayTradingConfig.signalSources),
+      },
+      {
+        // 取得したシグナルを価格付きで記録（accuracy モードの的中率に使用）
+        store: signalOutcomeStore,
+        getPrice: async (symbol) =>
+          (await marketDataService.getMarketData(symbol)).price,
+      }
+    );
     logger.info('✅ シグナル統合サービス初期化');
 
+    // シグナル結果判定ジョブ（30分後・引け・翌日引けの値動きで正誤を記録）
+    const signalOutcomeTracker = new SignalOutcomeTracker(
+      signalOutcomeStore,
+      createOutcomePriceProvider(marketDataService)
+    );
+    signalOutcomeTracker.start();
+
     // データ収集サービス
     const dataCollector = new TradeDataCollector();
     await dataCollector.initialize();
     logger.info('✅ データ収集サービス初期化');
 
+    // キルスイッチ（停止状態は再起動後も維持され、明示的な再稼働まで取引しない）
+    const killSwitch = new KillSwitch({
+      maxDailyLoss: defaultDayTradingConfig.riskManagement.maxDailyLoss ?? null,
+      ...defaultDayTradingConfig.killSwitch,
+    });
+    await killSwitch.load();
+    killSwitch.attachBroker(ibIntegration);
+    killSwitch.startWatching();
+    if (killSwitch.isHalted()) {
+      logger.warn(
+        `🛑 キルスイッチ停止中のため新規購入は行いません: ${killSwitch.getState().reason}`
+      );
+    }
+    logger.info('✅ キルスイッチ初期化');
+
     // デイトレードスケジューラー
     const scheduler = new DayTradingScheduler(
       defaultDayTradingConfig,
       signalAggregator,
       marketDataService,
-      ibIntegration
+      ibIntegration,
+      new SchedulerStateJournal(), // 異常終了時の状態復元用
+      killSwitch
     );
 
     logger.info('✅ デイトレードスケジューラー初期化');
@@ -115,6 +161,10 @@ async function runDailyTrading(): Promise<void> {
       });
     });
 
+    killSwitch.on('tripped', (state) => {
+      logger.error(`🛑 キルスイッチ作動 [${state.trigger}]: ${state.reason}`);
+    });
+
     scheduler.on('error', (error) => {
       logger.error('❌ スケジューラーエラー:', error);
     });
@@ -137,6 +187,8 @@ async function runDailyTrading(): Promise<void> {
     process.on('SIGINT', async () => {
       logger.info('\n⚠️ 停止シグナルを受信...');
       await scheduler.stop();
+      signalOutcomeTracker.stop();
+      killSwitch.stopWatching();
       await ibIntegration.disconnect();
 
       // 日次レポート生成
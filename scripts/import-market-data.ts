@@ -0,0 +1,66 @@
+import { HistoricalInterval } from '../src/services/data-integration-service';
+import { LocalMarketDataStore } from '../src/services/local-market-data-store';
+import { Logger } from '../src/utils/logger';
+
+const logger = new Logger('MarketDataImporter');
+
+const TIMEFRAMES: HistoricalInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+
+/**
+ * 使い方:
+ *   npm run data:import -- <file.csv|file.parquet> <symbol> <market> [timeframe] [--replace] [--dir=./data/market-data]
+ */
+async function importMarketData(): Promise<void> {
+  const args = process.argv.slice(2);
+  const flags = args.filter((arg) => arg.startsWith('--'));
+  const [filePath, symbol, market, timeframe = '1d'] = args.filter(
+    (arg) => !arg.startsWith('--')
+  );
+
+  if (!filePath || !symbol || !market) {
+    logger.error(
+      '❌ 引数不足: <file> <symbol> <market> [timeframe] [--replace] [--dir=...]'
+    );
+    process.exit(1);
+  }
+
+  if (!TIMEFRAMES.includes(timeframe as HistoricalInterval)) {
+    logger.error(`❌ 未対応の足種: ${timeframe} (${TIMEFRAMES.join(', ')})`);
+    process.exit(1);
+  }
+
+  const dirFlag = flags.find((flag) => flag.startsWith('--dir='));
+  const store = new LocalMarketDataStore(dirFlag?.split('=')[1]);
+
+  const result = await store.importFile(
+    filePath,
+    { symbol, market, timeframe: timeframe as HistoricalInterval },
+    { merge: !flags.includes('--replace') }
+  );
+
+  const { version, quality } = result;
+  logger.info(
+    `✅ 取り込み完了: ${symbol}_${market} ${timeframe} v${version.version}`
+  );
+  logger.info(
+    `   バー数: ${version.barCount} (${version.firstDate} 〜 ${version.lastDate})`
+  );
+  logger.info(
+    `   入力行: ${quality.totalRows} / 不正: ${quality.invalidRows} / 重複: ${quality.duplicates.length}`
+  );
+
+  if (quality.gaps.length > 0) {
+    logger.warn(`⚠️ ギャップ ${quality.gaps.length}件（祝日を含む可能性あり）`);
+    quality.gaps.slice(0, 10).forEach((gap) => {
+      logger.warn(
+        `   ${gap.from.toISOString()} → ${gap.to.toISOString()} (${gap.missingBars}本欠落)`
+      );
+    });
+  }
+}
+
+// 実行
+importMarketData().catch((error) => {
+  logger.error('❌ 取り込みエラー:', error);
+  process.exit(1);
+});
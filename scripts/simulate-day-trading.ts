@@ -0,0 +1,92 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  IntradaySchedulerSimulation,
+  IntradaySimulationConfig,
+} from '../src/backtesting/intraday-scheduler-simulation';
+import {
+  VerificationPattern,
+  verificationPatterns,
+} from '../src/config/verification-trading-config';
+import { Logger } from '../src/utils/logger';
+
+const logger = new Logger('DayTradingSimulation');
+
+/**
+ * 使い方:
+ *   npm run simulate:day-trading -- <start YYYY-MM-DD> <end YYYY-MM-DD>
+ *     [--patterns=conservative,standard,aggressive] [--universe=file] [--signals=file]
+ *     [--dir=./data/market-data] [--capital=100000] [--out=./data/simulation]
+ */
+async function simulateDayTrading(): Promise<void> {
+  const args = process.argv.slice(2);
+  const flag = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.split('=')[1];
+  const [start, end] = args.filter((arg) => !arg.startsWith('--'));
+
+  if (!start || !end) {
+    logger.error(
+      '❌ 引数不足: <start YYYY-MM-DD> <end YYYY-MM-DD> [--patterns=...] [--universe=...] [--signals=...] [--dir=...] [--capital=...] [--out=...]'
+    );
+    process.exit(1);
+  }
+
+  const patterns = (
+    flag('patterns') ?? 'conservative,standard,aggressive'
+  ).split(',') as VerificationPattern[];
+  const unknown = patterns.filter((p) => !(p in verificationPatterns));
+  if (unknown.length > 0) {
+    logger.error(`❌ 未対応のパターン: ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+
+  const outputDir = flag('out') ?? './data/simulation';
+  const config: Partial<IntradaySimulationConfig> &
+    Pick<IntradaySimulationConfig, 'startDate' | 'endDate'> = {
+    startDate: new Date(`${start}T00:00:00.000Z`),
+    endDate: new Date(`${end}T23:59:59.999Z`),
+    patterns,
+    universeFile: flag('universe'),
+    outputDir,
+  };
+  if (flag('signals')) config.signalRecordsFile = flag('signals');
+  if (flag('dir')) config.marketDataDir = flag('dir');
+  if (flag('capital')) config.initialCapital = parseFloat(flag('capital')!);
+
+  const simulation = new IntradaySchedulerSimulation(config);
+  simulation.on('dayCompleted', ({ pattern, date, unrealized }) =>
+    logger.info(
+      `📊 ${pattern} ${date} 完了 (未決済損益: $${unrealized.toFixed(2)})`
+    )
+  );
+
+  const reports = await simulation.run();
+
+  const reportDir = path.join(outputDir, 'reports');
+  await mkdir(reportDir, { recursive: true });
+  const reportFile = path.join(reportDir, `day-trading_${start}_${end}.json`);
+  await writeFile(reportFile, JSON.stringify(reports, null, 2), 'utf-8');
+
+  logger.info('\n📊 シミュレーション結果');
+  for (const report of reports) {
+    const { performance, riskMetrics } = report;
+    logger.info(`\n${report.patternName} (${report.pattern})`);
+    logger.info(`   取引日数: ${report.tradingDays}日`);
+    logger.info(
+      `   リターン: ${performance.totalReturnPercent.toFixed(2)}% ($${performance.totalReturn.toFixed(2)})`
+    );
+    logger.info(
+      `   取引回数: ${performance.totalTrades}回 / 勝率: ${performance.winRate.toFixed(1)}% / PF: ${performance.profitFactor.toFixed(2)}`
+    );
+    logger.info(
+      `   最大DD: ${performance.maxDrawdownPercent.toFixed(2)}% / シャープ: ${performance.sharpeRatio.toFixed(2)} / VaR95: ${(riskMetrics.var95 * 100).toFixed(2)}%`
+    );
+  }
+  logger.info(`\n💾 レポート保存: ${reportFile}`);
+}
+
+// 実行
+simulateDayTrading().catch((error) => {
+  logger.error('❌ シミュレーションエラー:', error);
+  process.exit(1);
+});
@@ -111,17 +111,17 @@ async function testDayTradingScheduler(): Promise<void> {
     // === 結果確認 ===
     logger.info('\n📊 === 実行結果 ===');
 
-    const currentPosition = scheduler.getCurrentPosition();
-    if (currentPosition) {
-      logger.info('現在のポジション:');
-      logger.info(`  銘柄: ${currentPosition.symbol}`);
-      logger.info(`  数量: ${currentPosition.quantity}株`);
-      logger.info(`  購入価格: $${currentPosition.entryPrice.toFixed(2)}`);
-      logger.info(`  現在価格: $${currentPosition.currentPrice.toFixed(2)}`);
-      logger.info(
-        `  損益率: ${(currentPosition.profitRate * 100).toFixed(2)}%`
-      );
-      logger.info(`  損益額: $${currentPosition.profitAmount.toFixed(2)}`);
+    const positions = scheduler.getPositions();
+    if (positions.length > 0) {
+      logger.info(`現在のポジション: ${positions.length}銘柄`);
+      positions.forEach((position) => {
+        logger.info(`  銘柄: ${position.symbol}`);
+        logger.info(`  数量: ${position.quantity}株`);
+        logger.info(`  購入価格: $${position.entryPrice.toFixed(2)}`);
+        logger.info(`  現在価格: $${position.currentPrice.toFixed(2)}`);
+        logger.info(`  損益率: ${(position.profitRate * 100).toFixed(2)}%`);
+        logger.info(`  損益額: $${position.profitAmount.toFixed(2)}`);
+      });
     } else {
       logger.info('現在のポジション: なし');
     }
@@ -80,6 +80,45 @@ async function testRiskManager(): Promise<void> {
   }
 }
 
+async function testPreTradeRisk(): Promise<void> {
+  console.log('\n🧪 発注前リスクチェックテスト開始...');
+
+  try {
+    const riskManager = new RiskManager({
+      maxPositionSize: 1000000,
+      maxPortfolioRisk: 10,
+      stopLossPercent: 5,
+      takeProfitPercent: 10,
+      maxDailyLoss: 50000,
+      maxDrawdown: 20,
+    });
+
+    // 未保有銘柄の成行買い（価格なし）は現在価格がないと評価できない
+    const marketBuy = { symbol: '7203', side: 'BUY' as const, quantity: 100 };
+    const withoutQuote = riskManager.checkOrderRisk(marketBuy);
+    console.log(
+      `✅ 現在価格なしの成行買い: ${withoutQuote.allowed ? '許可' : withoutQuote.rejects.map((r) => r.code).join(',')}`
+    );
+
+    // 市場データの現在価格を反映すると成行買いを評価できる
+    riskManager.updateLastPrice('7203', 2500);
+    const withQuote = riskManager.checkOrderRisk(marketBuy);
+    console.log(
+      `✅ 現在価格ありの成行買い: ${withQuote.allowed ? '許可' : withQuote.reason}（約定代金 ${withQuote.notional}円）`
+    );
+
+    // 現在価格から大きく乖離した指値は価格カラーで拒否される
+    const farLimit = riskManager.checkOrderRisk({ ...marketBuy, price: 2800 });
+    console.log(
+      `✅ 現在価格から12%乖離した指値: ${farLimit.allowed ? '許可' : farLimit.rejects.map((r) => r.code).join(',')}`
+    );
+
+    console.log('✅ 発注前リスクチェックテスト完了');
+  } catch (error) {
+    console.error('❌ 発注前リスクチェックテストエラー:', error);
+  }
+}
+
 async function testTechnicalAnalyzer(): Promise<void> {
   console.log('\n🧪 テクニカル分析テスト開始...');
 
@@ -101,7 +140,10 @@ async function testTechnicalAnalyzer(): Promise<void> {
     }
 
     // テクニカル指標を計算
-    const indicators = TechnicalAnalyzer.calculateAllIndicators(priceData);
+    const indicators = TechnicalAnalyzer.calculateAllIndicators(
+      priceData,
+      'TEST'
+    );
     console.log(`✅ RSI: ${indicators.rsi.toFixed(2)}`);
     console.log(`✅ MACD: ${indicators.macd.macd.toFixed(2)}`);
     console.log(
@@ -402,6 +444,7 @@ async function runAllTests(): Promise<void> {
   try {
     await testFeeCalculator();
     await testRiskManager();
+    await testPreTradeRisk();
     await testTechnicalAnalyzer();
     await testPositionSizer();
     await testLSTMModel();
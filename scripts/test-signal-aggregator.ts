@@ -1,6 +1,7 @@
 import { FinvizSignalService } from '../src/services/external-signals/finviz-signal';
 import { InvestingSignalService } from '../src/services/external-signals/investing-signal';
 import { MarketWatchSignalService } from '../src/services/external-signals/marketwatch-signal';
+import { PatternSignalService } from '../src/services/external-signals/pattern-signal';
 import { ScrapingHelper } from '../src/services/external-signals/scraping-helper';
 import { TradingViewSignalService } from '../src/services/external-signals/tradingview-signal';
 import { YahooFinanceSignalService } from '../src/services/external-signals/yahoo-finance-signal';
@@ -23,6 +24,7 @@ async function testSignalAggregator(): Promise<void> {
       new InvestingSignalService(),
       new FinvizSignalService(),
       new MarketWatchSignalService(),
+      new PatternSignalService(),
     ];
 
     logger.info(`✅ ${services.length}つのサービスを登録`);
@@ -1,4 +1,5 @@
 import { prisma } from '@/core/database';
+import { lastValue, rsi, sma } from '@/features/indicators';
 import {
   AgentConfig,
   InvestmentPosition,
@@ -591,41 +592,14 @@ export class Mark1Agent {
    * 移動平均を計算
    */
   private calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return prices[prices.length - 1];
-    const recent = prices.slice(-period);
-    return recent.reduce((a, b) => a + b, 0) / recent.length;
+    return lastValue(sma(prices, period), prices[prices.length - 1]);
   }
 
   /**
    * RSIを計算
    */
   private calculateRSI(prices: number[], period: number): number {
-    if (prices.length < period + 1) return 50;
-
-    const gains: number[] = [];
-    const losses: number[] = [];
-
-    for (let i = 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      if (change > 0) {
-        gains.push(change);
-        losses.push(0);
-      } else {
-        gains.push(0);
-        losses.push(-change);
-      }
-    }
-
-    const recentGains = gains.slice(-period);
-    const recentLosses = losses.slice(-period);
-
-    const avgGain = recentGains.reduce((a, b) => a + b, 0) / period;
-    const avgLoss = recentLosses.reduce((a, b) => a + b, 0) / period;
-
-    if (avgLoss === 0) return 100;
-
-    const rs = avgGain / avgLoss;
-    return 100 - 100 / (1 + rs);
+    return lastValue(rsi(prices, period), 50);
   }
 
   /**
@@ -3,13 +3,20 @@
  * 複数の銘柄を並列で監視し、分析結果を統合
  */
 
-import { PriceData, TechnicalAnalyzer } from './technical-analyzer';
+import { FeatureFrame, featureStore } from '../features/feature-store';
+import type { HistoricalInterval } from '../services/data-integration-service';
+import {
+  PriceData,
+  TechnicalAnalyzer,
+  TechnicalIndicators,
+} from './technical-analyzer';
 
 export interface StockMonitorConfig {
   symbols: string[];
   updateInterval: number; // ミリ秒
   maxConcurrent: number; // 最大同時監視数
   riskThreshold: number; // リスク閾値
+  timeframe?: HistoricalInterval; // 足種（既定は日足）
 }
 
 export interface StockAnalysis {
@@ -18,7 +25,7 @@ export interface StockAnalysis {
   change: number;
   changePercent: number;
   volume: number;
-  technicalIndicators: any;
+  technicalIndicators: TechnicalIndicators;
   trend: {
     trend: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
     strength: number;
@@ -148,6 +155,30 @@ export class MultiStockMonitor {
     this.notifyCallbacks();
   }
 
+  /**
+   * 確定した新しいバーを反映（リアルタイム経路）
+   * 指標は特徴量ストアで1本分だけ更新し、過去のバーは再計算しない
+   */
+  onBar(symbol: string, bar: PriceData): StockAnalysis | null {
+    try {
+      const frame = featureStore.getFrame(symbol, this.timeframe);
+      frame.append(bar);
+      const analysis = this.buildAnalysis(symbol, frame);
+      if (analysis) {
+        this.analyses.set(symbol, analysis);
+        this.notifyCallbacks();
+      }
+      return analysis;
+    } catch (error) {
+      console.error(`❌ ${symbol} のバー更新エラー:`, error);
+      return null;
+    }
+  }
+
+  private get timeframe(): HistoricalInterval {
+    return this.config.timeframe ?? '1d';
+  }
+
   /**
    * 個別銘柄を分析
    */
@@ -159,48 +190,64 @@ export class MultiStockMonitor {
         return null;
       }
 
-      // テクニカル指標を計算
-      const technicalIndicators =
-        TechnicalAnalyzer.calculateAllIndicators(priceData);
+      // 特徴量ストアに未計算のバーのみ追加
+      const frame = featureStore.sync(symbol, this.timeframe, priceData);
+      return this.buildAnalysis(symbol, frame);
+    } catch (error) {
+      console.error(`❌ ${symbol} の分析エラー:`, error);
+      return null;
+    }
+  }
 
-      // トレンド分析
-      const trend = TechnicalAnalyzer.analyzeTrend(technicalIndicators);
+  /**
+   * 特徴量ストアの最新バーから分析結果を作成
+   */
+  private buildAnalysis(
+    symbol: string,
+    frame: FeatureFrame
+  ): StockAnalysis | null {
+    const rows = frame.rows;
+    if (rows.length < 2) {
+      return null;
+    }
 
-      // リスクレベルを計算
-      const riskLevel = this.calculateRiskLevel(technicalIndicators, trend);
+    // テクニカル指標
+    const technicalIndicators = TechnicalAnalyzer.fromSnapshot(frame.latest());
 
-      // 推奨アクションを決定
-      const recommendation = this.determineRecommendation(
-        technicalIndicators,
-        trend,
-        riskLevel
-      );
+    // トレンド分析
+    const trend = TechnicalAnalyzer.analyzeTrend(technicalIndicators);
 
-      // 信頼度を計算
-      const confidence = this.calculateConfidence(technicalIndicators, trend);
+    // リスクレベルを計算
+    const riskLevel = this.calculateRiskLevel(technicalIndicators, trend);
 
-      const currentPrice = priceData[priceData.length - 1].close;
-      const previousPrice = priceData[priceData.length - 2].close;
-      const change = currentPrice - previousPrice;
-      const changePercent = (change / previousPrice) * 100;
+    // 推奨アクションを決定
+    const recommendation = this.determineRecommendation(
+      technicalIndicators,
+      trend,
+      riskLevel
+    );
 
-      return {
-        symbol,
-        currentPrice,
-        change,
-        changePercent,
-        volume: priceData[priceData.length - 1].volume,
-        technicalIndicators,
-        trend,
-        riskLevel,
-        recommendation,
-        confidence,
-        lastUpdated: new Date(),
-      };
-    } catch (error) {
-      console.error(`❌ ${symbol} の分析エラー:`, error);
-      return null;
-    }
+    // 信頼度を計算
+    const confidence = this.calculateConfidence(technicalIndicators, trend);
+
+    const current = rows[rows.length - 1];
+    const previousPrice = rows[rows.length - 2].close;
+    const change = current.close - previousPrice;
+    const changePercent = (change / previousPrice) * 100;
+
+    return {
+      symbol,
+      currentPrice: current.close,
+      change,
+      changePercent,
+      volume: current.volume,
+      technicalIndicators,
+      trend,
+      riskLevel,
+      recommendation,
+      confidence,
+      lastUpdated: new Date(),
+    };
   }
 
   /**
@@ -32,6 +32,71 @@ export interface RiskParityResult {
   riskContribution: number; // リスク寄与度（%）
 }
 
+/**
+ * サイジング方式（standard: 銘柄単独の予算・リスク、correlation: 保有との相関を考慮）
+ */
+export type SizingMode = 'standard' | 'correlation';
+
+/**
+ * 相関考慮サイジングの上限
+ */
+export interface CorrelationSizingConfig {
+  maxMarginalContribution: number; // 新規銘柄のポートフォリオ分散への寄与の上限（%）
+  targetVolatility: number | null; // ブック全体の目標ボラティリティ（年率%、対 equity、null で無効）
+}
+
+/**
+ * スケジューラー・自動売買のサイジング設定
+ */
+export interface SizingModeConfig extends Partial<CorrelationSizingConfig> {
+  mode: SizingMode;
+  lookbackDays?: number; // 共分散推定に使う日足の期間
+}
+
+/**
+ * 共分散の推定値（1期間リターン）
+ */
+export interface CovarianceEstimate {
+  symbols: string[];
+  covariance: number[][];
+  periodsPerYear: number; // 年率換算の期間数（日次なら252）
+}
+
+export interface CorrelationSizingRequest {
+  symbol: string;
+  entryPrice: number;
+  equity: number; // 目標ボラティリティの基準となる評価額
+  maxValue?: number; // 予算上限（未指定時は maxPositionSize）
+  book: Array<{ symbol: string; value: number }>; // 現在の保有額（売りはマイナス）
+  covariance: CovarianceEstimate;
+  options?: Partial<CorrelationSizingConfig>;
+}
+
+export interface CorrelationSizingResult extends PositionSizingResult {
+  limitedBy:
+    | 'budget'
+    | 'marginalContribution'
+    | 'targetVolatility'
+    | 'noCovariance';
+  marginalContribution: number; // 購入後の新規銘柄のリスク寄与（%）
+  portfolioVolatility: number; // 購入後のブックのボラティリティ（年率%、対 equity）
+  bookScale: number; // 目標ボラティリティに収めるためのブック全体の縮小率（1 = 不要）
+}
+
+const DEFAULT_CORRELATION_SIZING: CorrelationSizingConfig = {
+  maxMarginalContribution: 50,
+  targetVolatility: null,
+};
+
+/**
+ * ax² + bx + c ≤ 0 を満たす x の上限（a > 0）
+ */
+function upperRoot(a: number, b: number, c: number): number | null {
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+  return (-b + Math.sqrt(discriminant)) / (2 * a);
+}
+
 export class PositionSizer {
   private config: PositionSizingConfig;
 
@@ -318,6 +383,132 @@ export class PositionSizer {
     };
   }
 
+  /**
+   * 相関考慮のポジションサイジング
+   * 保有との共分散から、新規銘柄のリスク寄与の上限と目標ボラティリティを満たす最大額を求める
+   * @param request 候補銘柄・現在の保有・共分散の推定値
+   * @returns サイジング結果（bookScale < 1 の場合は既存保有の縮小も必要）
+   */
+  calculateCorrelationAware(
+    request: CorrelationSizingRequest
+  ): CorrelationSizingResult {
+    const options = { ...DEFAULT_CORRELATION_SIZING, ...request.options };
+    const { symbols, covariance, periodsPerYear } = request.covariance;
+    const budget = Math.max(
+      0,
+      Math.min(
+        request.maxValue ?? this.config.maxPositionSize,
+        this.config.maxPositionSize
+      )
+    );
+    const index = symbols.indexOf(request.symbol);
+    const ownVariance = index >= 0 ? covariance[index][index] : 0;
+
+    // 既存ブックの重み（共分散に含まれない保有は無視）
+    const weights = symbols.map((symbol) =>
+      request.book
+        .filter((holding) => holding.symbol === symbol)
+        .reduce((sum, holding) => sum + holding.value, 0)
+    );
+    // 既存ブックの分散と、候補との共分散
+    const bookVariance = weights.reduce(
+      (sum, wi, i) =>
+        sum +
+        weights.reduce((inner, wj, j) => inner + wi * wj * covariance[i][j], 0),
+      0
+    );
+    const crossCovariance =
+      index >= 0
+        ? weights.reduce((sum, w, j) => sum + w * covariance[index][j], 0)
+        : 0;
+    const varianceAt = (x: number) =>
+      bookVariance + 2 * x * crossCovariance + x * x * ownVariance;
+
+    const toResult = (
+      value: number,
+      limitedBy: CorrelationSizingResult['limitedBy']
+    ): CorrelationSizingResult => {
+      const recommendedSize =
+        request.entryPrice > 0 ? Math.floor(value / request.entryPrice) : 0;
+      const positionValue = recommendedSize * request.entryPrice;
+      const variance = varianceAt(positionValue);
+      const portfolioVolatility =
+        request.equity > 0
+          ? (Math.sqrt(Math.max(variance, 0) * periodsPerYear) /
+              request.equity) *
+            100
+          : 0;
+      // 1期間の標準偏差を候補銘柄のリスク金額とする
+      const riskAmount = positionValue * Math.sqrt(ownVariance);
+
+      return {
+        recommendedSize,
+        positionValue,
+        riskAmount,
+        riskPercent:
+          request.equity > 0 ? (riskAmount / request.equity) * 100 : 0,
+        method: 'Correlation Aware',
+        confidence: limitedBy === 'noCovariance' ? 50 : 85,
+        limitedBy,
+        marginalContribution:
+          variance > 0
+            ? ((positionValue *
+                (crossCovariance + positionValue * ownVariance)) /
+                variance) *
+              100
+            : 0,
+        portfolioVolatility,
+        bookScale:
+          options.targetVolatility !== null && portfolioVolatility > 0
+            ? Math.min(1, options.targetVolatility / portfolioVolatility)
+            : 1,
+      };
+    };
+
+    // 共分散がない銘柄は予算のみで決める
+    if (!(ownVariance > 0)) {
+      return toResult(budget, 'noCovariance');
+    }
+
+    let value = budget;
+    let limitedBy: CorrelationSizingResult['limitedBy'] = 'budget';
+
+    // リスク寄与の上限（保有がない場合は常に100%のため判定しない）
+    const m = options.maxMarginalContribution / 100;
+    if (bookVariance > 0 && m < 1) {
+      const cap = upperRoot(
+        (1 - m) * ownVariance,
+        (1 - 2 * m) * crossCovariance,
+        -m * bookVariance
+      );
+      if (cap !== null && cap < value) {
+        value = Math.max(0, cap);
+        limitedBy = 'marginalContribution';
+      }
+    }
+
+    // 目標ボラティリティ（ブック全体が既に超過している場合は新規購入しない）
+    if (options.targetVolatility !== null && request.equity > 0) {
+      const targetVariance =
+        ((options.targetVolatility / 100) * request.equity) ** 2 /
+        periodsPerYear;
+      const cap =
+        bookVariance <= targetVariance
+          ? upperRoot(
+              ownVariance,
+              2 * crossCovariance,
+              bookVariance - targetVariance
+            )
+          : null;
+      if ((cap ?? 0) < value) {
+        value = Math.max(0, cap ?? 0);
+        limitedBy = 'targetVolatility';
+      }
+    }
+
+    return toResult(value, limitedBy);
+  }
+
   /**
    * ポジションサイジング設定を更新
    */
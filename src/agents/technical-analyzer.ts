@@ -3,6 +3,24 @@
  * RSI、MACD、ボリンジャーバンド等のテクニカル指標を計算
  */
 
+import { FeatureSnapshot, featureStore } from '../features/feature-store';
+import {
+  bollingerBands,
+  ChannelValue,
+  DMIValue,
+  ema,
+  IchimokuValue,
+  lastValue,
+  macd,
+  ParabolicSARValue,
+  PivotLevels,
+  rsi,
+  sma,
+  stochastic,
+  SuperTrendValue,
+} from '../features/indicators';
+import type { HistoricalInterval } from '../services/data-integration-service';
+
 export interface TechnicalIndicators {
   sma: {
     period5: number;
@@ -34,6 +52,18 @@ export interface TechnicalIndicators {
     sma: number;
     ratio: number;
   };
+  // 拡張指標（期間に満たない場合は null）
+  atr: number | null;
+  dmi: DMIValue | null;
+  vwap: number | null;
+  keltner: ChannelValue | null;
+  donchian: ChannelValue | null;
+  obv: number | null;
+  mfi: number | null;
+  ichimoku: IchimokuValue | null;
+  parabolicSar: ParabolicSARValue | null;
+  superTrend: SuperTrendValue | null;
+  pivots: PivotLevels | null;
 }
 
 export interface PriceData {
@@ -53,10 +83,7 @@ export class TechnicalAnalyzer {
    * @returns SMA値
    */
   static calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return 0;
-
-    const sum = prices.slice(-period).reduce((acc, price) => acc + price, 0);
-    return sum / period;
+    return lastValue(sma(prices, period), 0);
   }
 
   /**
@@ -66,16 +93,7 @@ export class TechnicalAnalyzer {
    * @returns EMA値
    */
   static calculateEMA(prices: number[], period: number): number {
-    if (prices.length < period) return 0;
-
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-
-    for (let i = 1; i < prices.length; i++) {
-      ema = prices[i] * multiplier + ema * (1 - multiplier);
-    }
-
-    return ema;
+    return lastValue(ema(prices, period), 0);
   }
 
   /**
@@ -85,25 +103,7 @@ export class TechnicalAnalyzer {
    * @returns RSI値
    */
   static calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
-
-    const changes = [];
-    for (let i = 1; i < prices.length; i++) {
-      changes.push(prices[i] - prices[i - 1]);
-    }
-
-    const gains = changes.map((change) => (change > 0 ? change : 0));
-    const losses = changes.map((change) => (change < 0 ? Math.abs(change) : 0));
-
-    const avgGain =
-      gains.slice(-period).reduce((acc, gain) => acc + gain, 0) / period;
-    const avgLoss =
-      losses.slice(-period).reduce((acc, loss) => acc + loss, 0) / period;
-
-    if (avgLoss === 0) return 100;
-
-    const rs = avgGain / avgLoss;
-    return 100 - 100 / (1 + rs);
+    return lastValue(rsi(prices, period), 50);
   }
 
   /**
@@ -120,20 +120,11 @@ export class TechnicalAnalyzer {
     slowPeriod: number = 26,
     signalPeriod: number = 9
   ): { macd: number; signal: number; histogram: number } {
-    if (prices.length < slowPeriod) {
-      return { macd: 0, signal: 0, histogram: 0 };
-    }
-
-    const ema12 = this.calculateEMA(prices, fastPeriod);
-    const ema26 = this.calculateEMA(prices, slowPeriod);
-    const macd = ema12 - ema26;
-
-    // シグナルライン（MACDのEMA）
-    const macdValues = [macd];
-    const signal = this.calculateEMA(macdValues, signalPeriod);
-    const histogram = macd - signal;
-
-    return { macd, signal, histogram };
+    return lastValue(macd(prices, fastPeriod, slowPeriod, signalPeriod), {
+      macd: 0,
+      signal: 0,
+      histogram: 0,
+    });
   }
 
   /**
@@ -148,24 +139,12 @@ export class TechnicalAnalyzer {
     period: number = 20,
     stdDev: number = 2
   ): { upper: number; middle: number; lower: number; width: number } {
-    if (prices.length < period) {
-      return { upper: 0, middle: 0, lower: 0, width: 0 };
-    }
-
-    const sma = this.calculateSMA(prices, period);
-    const recentPrices = prices.slice(-period);
-
-    // 標準偏差を計算
-    const variance =
-      recentPrices.reduce((acc, price) => acc + Math.pow(price - sma, 2), 0) /
-      period;
-    const standardDeviation = Math.sqrt(variance);
-
-    const upper = sma + stdDev * standardDeviation;
-    const lower = sma - stdDev * standardDeviation;
-    const width = (upper - lower) / sma;
-
-    return { upper, middle: sma, lower, width };
+    return lastValue(bollingerBands(prices, period, stdDev), {
+      upper: 0,
+      middle: 0,
+      lower: 0,
+      width: 0,
+    });
   }
 
   /**
@@ -184,29 +163,12 @@ export class TechnicalAnalyzer {
     kPeriod: number = 14,
     dPeriod: number = 3
   ): { k: number; d: number } {
-    if (
-      highPrices.length < kPeriod ||
-      lowPrices.length < kPeriod ||
-      closePrices.length < kPeriod
-    ) {
-      return { k: 50, d: 50 };
-    }
-
-    const recentHighs = highPrices.slice(-kPeriod);
-    const recentLows = lowPrices.slice(-kPeriod);
-    const recentCloses = closePrices.slice(-kPeriod);
-
-    const highestHigh = Math.max(...recentHighs);
-    const lowestLow = Math.min(...recentLows);
-    const currentClose = recentCloses[recentCloses.length - 1];
-
-    const k = ((currentClose - lowestLow) / (highestHigh - lowestLow)) * 100;
-
-    // Dライン（Kの移動平均）
-    const kValues = [k];
-    const d = this.calculateSMA(kValues, dPeriod);
-
-    return { k, d };
+    const bars = closePrices.map((close, i) => ({
+      high: highPrices[i],
+      low: lowPrices[i],
+      close,
+    }));
+    return lastValue(stochastic(bars, kPeriod, dPeriod), { k: 50, d: 50 });
   }
 
   /**
@@ -219,56 +181,75 @@ export class TechnicalAnalyzer {
     volumes: number[],
     period: number = 20
   ): { sma: number; ratio: number } {
-    if (volumes.length < period) {
+    const volumeSma = lastValue(sma(volumes, period), 0);
+    if (volumeSma === 0) {
       return { sma: 0, ratio: 1 };
     }
-
-    const sma = this.calculateSMA(volumes, period);
-    const currentVolume = volumes[volumes.length - 1];
-    const ratio = currentVolume / sma;
-
-    return { sma, ratio };
+    return { sma: volumeSma, ratio: volumes[volumes.length - 1] / volumeSma };
   }
 
   /**
-   * 全テクニカル指標を計算
+   * 全テクニカル指標を計算（特徴量ストアで未計算のバーのみ逐次計算）
    * @param priceData 価格データ配列
+   * @param symbol 銘柄
+   * @param timeframe 足種（デフォルト日足）
    * @returns テクニカル指標
    */
-  static calculateAllIndicators(priceData: PriceData[]): TechnicalIndicators {
+  static calculateAllIndicators(
+    priceData: PriceData[],
+    symbol: string,
+    timeframe: HistoricalInterval = '1d'
+  ): TechnicalIndicators {
     if (priceData.length < 50) {
-      return {
-        sma: { period5: 0, period10: 0, period20: 0, period50: 0 },
-        ema: { period12: 0, period26: 0 },
-        rsi: 50,
-        macd: { macd: 0, signal: 0, histogram: 0 },
-        bollinger: { upper: 0, middle: 0, lower: 0, width: 0 },
-        stochastic: { k: 50, d: 50 },
-        volume: { sma: 0, ratio: 1 },
-      };
+      return this.fromSnapshot(null);
     }
+    return this.fromSnapshot(
+      featureStore.sync(symbol, timeframe, priceData).latest()
+    );
+  }
 
-    const closes = priceData.map((d) => d.close);
-    const highs = priceData.map((d) => d.high);
-    const lows = priceData.map((d) => d.low);
-    const volumes = priceData.map((d) => d.volume);
-
+  /**
+   * 特徴量ストアの最新バーからテクニカル指標を作成（未計算の指標は中立値）
+   * @param snapshot 既定の指標設定で計算したバー
+   * @returns テクニカル指標
+   */
+  static fromSnapshot(snapshot: FeatureSnapshot | null): TechnicalIndicators {
+    const volumeSma = snapshot?.volumeSma ?? 0;
     return {
       sma: {
-        period5: this.calculateSMA(closes, 5),
-        period10: this.calculateSMA(closes, 10),
-        period20: this.calculateSMA(closes, 20),
-        period50: this.calculateSMA(closes, 50),
+        period5: snapshot?.sma[5] ?? 0,
+        period10: snapshot?.sma[10] ?? 0,
+        period20: snapshot?.sma[20] ?? 0,
+        period50: snapshot?.sma[50] ?? 0,
       },
       ema: {
-        period12: this.calculateEMA(closes, 12),
-        period26: this.calculateEMA(closes, 26),
+        period12: snapshot?.ema[12] ?? 0,
+        period26: snapshot?.ema[26] ?? 0,
+      },
+      rsi: snapshot?.rsi ?? 50,
+      macd: snapshot?.macd ?? { macd: 0, signal: 0, histogram: 0 },
+      bollinger: snapshot?.bollinger ?? {
+        upper: 0,
+        middle: 0,
+        lower: 0,
+        width: 0,
+      },
+      stochastic: snapshot?.stochastic ?? { k: 50, d: 50 },
+      volume: {
+        sma: volumeSma,
+        ratio: volumeSma > 0 ? snapshot.volume / volumeSma : 1,
       },
-      rsi: this.calculateRSI(closes, 14),
-      macd: this.calculateMACD(closes, 12, 26, 9),
-      bollinger: this.calculateBollingerBands(closes, 20, 2),
-      stochastic: this.calculateStochastic(highs, lows, closes, 14, 3),
-      volume: this.calculateVolumeAnalysis(volumes, 20),
+      atr: snapshot?.atr ?? null,
+      dmi: snapshot?.dmi ?? null,
+      vwap: snapshot?.vwap ?? null,
+      keltner: snapshot?.keltner ?? null,
+      donchian: snapshot?.donchian ?? null,
+      obv: snapshot?.obv ?? null,
+      mfi: snapshot?.mfi ?? null,
+      ichimoku: snapshot?.ichimoku ?? null,
+      parabolicSar: snapshot?.parabolicSar ?? null,
+      superTrend: snapshot?.superTrend ?? null,
+      pivots: snapshot?.pivots ?? null,
     };
   }
 
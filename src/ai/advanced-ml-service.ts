@@ -4,6 +4,7 @@
  */
 
 import * as tf from '@tensorflow/tfjs-node';
+import { ChartPatternName, PatternEngine } from '../features/pattern-engine';
 
 export interface MarketData {
   symbol: string;
@@ -132,12 +133,26 @@ export interface AdvancedMLConfig {
   };
 }
 
+// パターンエンジンの名称 → ChartPattern の種別
+const CHART_PATTERN_TYPES: Record<ChartPatternName, ChartPattern['pattern']> = {
+  double_top: 'DOUBLE_TOP',
+  double_bottom: 'DOUBLE_BOTTOM',
+  head_and_shoulders: 'HEAD_AND_SHOULDERS',
+  inverse_head_and_shoulders: 'HEAD_AND_SHOULDERS',
+  ascending_triangle: 'TRIANGLE',
+  descending_triangle: 'TRIANGLE',
+  symmetrical_triangle: 'TRIANGLE',
+  bull_flag: 'FLAG',
+  bear_flag: 'FLAG',
+};
+
 export class AdvancedMLService {
   private config: AdvancedMLConfig;
   private ensembleModels: Map<string, tf.LayersModel> = new Map();
   private reinforcementAgent: ReinforcementAgent;
   private nlpProcessor: NLPProcessor;
   private imageRecognizer: ImageRecognizer;
+  private patternEngine = new PatternEngine();
   private timeSeriesAnalyzer: TimeSeriesAnalyzer;
   private isInitialized: boolean = false;
 
@@ -357,6 +372,32 @@ export class AdvancedMLService {
     }
   }
 
+  /**
+   * 価格データからのチャートパターン検出
+   * 画像を使わずパターンエンジンで決定的に検出する
+   */
+  detectChartPatterns(symbol: string, data: MarketData[]): ChartPattern[] {
+    const result = this.patternEngine.scan(data);
+    const patterns = result.chartPatterns
+      .filter(
+        (match) =>
+          match.confidence >= this.config.computerVision.confidenceThreshold
+      )
+      .map((match) => ({
+        symbol,
+        pattern: CHART_PATTERN_TYPES[match.pattern as ChartPatternName],
+        confidence: match.confidence,
+        direction: match.direction,
+        targetPrice: match.targetPrice,
+        stopLoss: match.stopLoss,
+      }));
+
+    console.log(
+      `✅ チャートパターン検出完了: ${symbol}, 検出数=${patterns.length}`
+    );
+    return patterns;
+  }
+
   /**
    * 時系列分析
    */
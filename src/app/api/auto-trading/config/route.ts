@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { strategyRegistry } from '@/strategies/strategy-registry';
 
 interface TradingConfig {
   strategies: {
@@ -34,6 +35,7 @@ export async function GET() {
     return NextResponse.json({
       success: true,
       data: tradingConfig,
+      availableStrategies: strategyRegistry.list(),
     });
   } catch (error) {
     console.error('Failed to get trading config:', error);
@@ -48,8 +50,20 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    // 設定の更新
+    // 設定の更新（戦略のキーはレジストリに登録されたもののみ）
     if (body.strategies) {
+      const unknown = Object.keys(body.strategies).filter(
+        (id) => !strategyRegistry.has(id)
+      );
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Unknown strategies: ${unknown.join(', ')}`,
+          },
+          { status: 400 }
+        );
+      }
       tradingConfig.strategies = {
         ...tradingConfig.strategies,
         ...body.strategies,
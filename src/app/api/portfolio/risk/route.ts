@@ -0,0 +1,136 @@
+import { LocalMarketDataStore } from '@/services/local-market-data-store';
+import {
+  PortfolioHolding,
+  PortfolioMarket,
+  PortfolioRiskAnalyzer,
+  PricePoint,
+} from '@/services/portfolio-risk';
+import { createErrorResponse, createSuccessResponse } from '@/utils/api';
+import { NextRequest, NextResponse } from 'next/server';
+
+const MARKETS: PortfolioMarket[] = ['FX', 'US', 'JP'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ポートフォリオリスク分析（VaR/CVaR・相関・ベータ・エクスポージャー）
+ * POST /api/portfolio/risk
+ * {
+ *   holdings: [{ symbol, market, quantity, price, sector?, currency? }],
+ *   benchmark?: { symbol: 'SPY', market: 'US' },
+ *   lookbackDays?: 365, equity?, baseCurrency?, fxRates?, confidenceLevels?, horizonDays?
+ * }
+ *
+ * 価格履歴はローカル保存の日足（./data/market-data）を使用する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const holdings: PortfolioHolding[] = Array.isArray(body?.holdings)
+      ? body.holdings
+      : [];
+
+    if (holdings.length === 0) {
+      return NextResponse.json(createErrorResponse('holdings is required'), {
+        status: 400,
+      });
+    }
+    const invalid = holdings.find(
+      (h) =>
+        typeof h?.symbol !== 'string' ||
+        !MARKETS.includes(h.market) ||
+        !Number.isFinite(h.quantity) ||
+        !(h.price > 0)
+    );
+    if (invalid) {
+      return NextResponse.json(
+        createErrorResponse(
+          `Invalid holding: each holding needs symbol, market (${MARKETS.join(', ')}), quantity and price`
+        ),
+        { status: 400 }
+      );
+    }
+
+    const lookbackDays = Number(body.lookbackDays ?? 365);
+    if (!(lookbackDays > 0)) {
+      return NextResponse.json(createErrorResponse('Invalid lookbackDays'), {
+        status: 400,
+      });
+    }
+
+    const confidenceLevels = body.confidenceLevels;
+    if (
+      confidenceLevels !== undefined &&
+      (!Array.isArray(confidenceLevels) ||
+        confidenceLevels.some((c: number) => !(c > 0 && c < 1)))
+    ) {
+      return NextResponse.json(
+        createErrorResponse('confidenceLevels must be numbers between 0 and 1'),
+        { status: 400 }
+      );
+    }
+
+    if (body.benchmark?.market && !MARKETS.includes(body.benchmark.market)) {
+      return NextResponse.json(
+        createErrorResponse(
+          `Invalid benchmark market: must be one of ${MARKETS.join(', ')}`
+        ),
+        { status: 400 }
+      );
+    }
+
+    const end = new Date();
+    const start = new Date(end.getTime() - lookbackDays * DAY_MS);
+    const store = new LocalMarketDataStore();
+    const loadSeries = async (
+      symbol: string,
+      market: string
+    ): Promise<PricePoint[]> => {
+      const bars = await store.readRange(
+        { symbol, market, timeframe: '1d' },
+        start,
+        end
+      );
+      return bars.map((bar) => ({ date: bar.date, close: bar.close }));
+    };
+
+    const history: Record<string, PricePoint[]> = {};
+    for (const holding of holdings) {
+      history[holding.symbol] = await loadSeries(
+        holding.symbol,
+        holding.market
+      );
+    }
+
+    const benchmark =
+      typeof body.benchmark?.symbol === 'string'
+        ? {
+            symbol: body.benchmark.symbol,
+            series: await loadSeries(
+              body.benchmark.symbol,
+              body.benchmark.market || 'US'
+            ),
+          }
+        : undefined;
+
+    const analyzer = new PortfolioRiskAnalyzer({
+      ...(body.baseCurrency ? { baseCurrency: body.baseCurrency } : {}),
+      ...(body.fxRates ? { fxRates: body.fxRates } : {}),
+      ...(confidenceLevels ? { confidenceLevels } : {}),
+      ...(body.horizonDays ? { horizonDays: Number(body.horizonDays) } : {}),
+    });
+
+    const report = analyzer.analyze({
+      holdings,
+      history,
+      benchmark,
+      equity: body.equity !== undefined ? Number(body.equity) : undefined,
+    });
+
+    return NextResponse.json(createSuccessResponse(report), { status: 200 });
+  } catch (error) {
+    console.error('Portfolio risk error:', error);
+    return NextResponse.json(createErrorResponse('Internal server error'), {
+      status: 500,
+    });
+  }
+}
@@ -1,17 +1,43 @@
 import { prisma } from '@/core/database';
 import { EnsemblePredictor } from '@/ml/ensemble-predictor';
+import { modelRegistry } from '@/ml/model-registry';
 import { createErrorResponse, createSuccessResponse } from '@/utils/api';
 import { NextRequest, NextResponse } from 'next/server';
 
-// アンサンブル予測器のシングルトンインスタンス
-let ensemblePredictor: EnsemblePredictor | null = null;
+// 銘柄ごとのアンサンブル予測器
+const ensemblePredictors: Map<string, EnsemblePredictor> = new Map();
 let mlDisabledUntil = 0; // サーキットブレーカー（エポックms）。0なら有効
 
-function getEnsemblePredictor(): EnsemblePredictor {
-  if (!ensemblePredictor) {
-    ensemblePredictor = new EnsemblePredictor();
+/**
+ * モデルレジストリの本番バージョンを読み込んだアンサンブル予測器
+ * 本番モデルが切り替わっていれば差し替える
+ */
+async function getEnsemblePredictor(
+  symbol: string
+): Promise<EnsemblePredictor> {
+  let predictor = ensemblePredictors.get(symbol);
+  if (!predictor) {
+    predictor = new EnsemblePredictor();
+    ensemblePredictors.set(symbol, predictor);
   }
-  return ensemblePredictor;
+
+  for (const { modelName, model, weight } of predictor.getModels()) {
+    const loaded = await modelRegistry.load(
+      { symbol, timeframe: '1d', modelName },
+      'lstm_predictor'
+    );
+    if (!loaded) {
+      throw new Error(`本番モデルがありません: ${symbol} ${modelName}`);
+    }
+    if (loaded.model !== model) {
+      predictor.setModel(
+        modelName,
+        loaded.model,
+        loaded.version.hyperparameters.ensembleWeight ?? weight
+      );
+    }
+  }
+  return predictor;
 }
 
 export async function GET(
@@ -100,18 +126,18 @@ export async function GET(
     }
 
     try {
-      // アンサンブル予測器を取得
-      const predictor = getEnsemblePredictor();
+      // 本番モデルを読み込んだアンサンブル予測器を取得
+      const predictor = await getEnsemblePredictor(stock.symbol);
 
-      // データを予測用の形式に変換
+      // 学習時と同じ OHLCV 特徴量に変換（欠損は終値で補完）
       const features = historicalData
         .reverse()
         .map((price) => [
-          price.open,
-          price.high,
-          price.low,
-          price.close,
-          price.volume,
+          price.open ?? price.price,
+          price.high ?? price.price,
+          price.low ?? price.price,
+          price.close ?? price.price,
+          price.volume ?? 0,
         ]);
 
       // 予測を実行
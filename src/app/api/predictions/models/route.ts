@@ -0,0 +1,99 @@
+import { authenticateAdmin } from '@/core/auth';
+import { modelRegistry } from '@/ml/model-registry';
+import { isHistoricalInterval } from '@/services/data-integration-service';
+import { createErrorResponse, createSuccessResponse } from '@/utils/api';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const timeframe = searchParams.get('timeframe');
+    if (timeframe && !isHistoricalInterval(timeframe)) {
+      return NextResponse.json(createErrorResponse('Invalid timeframe'), {
+        status: 400,
+      });
+    }
+
+    const models = await modelRegistry.listModels({
+      symbol: searchParams.get('symbol') ?? undefined,
+      timeframe: isHistoricalInterval(timeframe) ? timeframe : undefined,
+    });
+
+    return NextResponse.json(createSuccessResponse(models), { status: 200 });
+  } catch (error) {
+    console.error('Model registry fetch error:', error);
+    return NextResponse.json(createErrorResponse('Internal server error'), {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * 本番モデルの切り替え（管理者のみ）
+ * { action: 'promote', symbol, timeframe, modelName, version } または { action: 'rollback', symbol, timeframe, modelName }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticateAdmin(request.headers);
+    if ('status' in auth) {
+      return NextResponse.json(createErrorResponse(auth.message), {
+        status: auth.status,
+      });
+    }
+
+    const body = await request.json();
+    const { action, symbol, timeframe = '1d', modelName, version } = body;
+
+    if (!symbol || !modelName) {
+      return NextResponse.json(
+        createErrorResponse('symbol and modelName are required'),
+        { status: 400 }
+      );
+    }
+    if (!isHistoricalInterval(timeframe)) {
+      return NextResponse.json(createErrorResponse('Invalid timeframe'), {
+        status: 400,
+      });
+    }
+
+    const key = { symbol, timeframe, modelName };
+    if (action === 'promote') {
+      if (!Number.isInteger(version)) {
+        return NextResponse.json(
+          createErrorResponse('version is required for promote'),
+          { status: 400 }
+        );
+      }
+      const manifest = await modelRegistry.promote(key, version);
+      console.log(
+        `🔄 本番モデルを変更: ${symbol} ${timeframe} ${modelName} v${version} (${auth.operator})`
+      );
+      return NextResponse.json(createSuccessResponse(manifest), {
+        status: 200,
+      });
+    }
+    if (action === 'rollback') {
+      const manifest = await modelRegistry.rollback(key);
+      console.log(
+        `🔄 本番モデルをロールバック: ${symbol} ${timeframe} ${modelName} (${auth.operator})`
+      );
+      return NextResponse.json(createSuccessResponse(manifest), {
+        status: 200,
+      });
+    }
+
+    return NextResponse.json(
+      createErrorResponse('action must be promote or rollback'),
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('Model registry update error:', error);
+    return NextResponse.json(
+      createErrorResponse(
+        'Failed to update model registry',
+        error instanceof Error ? error.message : undefined
+      ),
+      { status: 400 }
+    );
+  }
+}
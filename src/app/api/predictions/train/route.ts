@@ -1,7 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/core/auth';
 import { EnsemblePredictor } from '@/ml/ensemble-predictor';
+import { modelRegistry, ModelVersionInfo } from '@/ml/model-registry';
+import {
+  buildDataset,
+  chronologicalSplit,
+  crossValidate,
+  CrossValidationResult,
+  flattenMetrics,
+  selectRows,
+} from '@/ml/training-pipeline';
 import { prisma } from '@/core/database';
 
+/**
+ * 検証区間のMSEが本番バージョンより小さいか（本番バージョンが無い場合は true）
+ */
+function outperformsActive(
+  metrics: Record<string, number>,
+  active: ModelVersionInfo | null
+): boolean {
+  const activeMse = active?.metrics.ensembleValidationMse;
+  if (activeMse === undefined) return !active;
+  return (
+    metrics.ensembleValidationMse !== undefined &&
+    metrics.ensembleValidationMse < activeMse
+  );
+}
+
 // アンサンブル予測器のシングルトンインスタンス
 let ensemblePredictor: EnsemblePredictor | null = null;
 
@@ -15,7 +40,11 @@ function getEnsemblePredictor(): EnsemblePredictor {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { stockId, forceRetrain = false } = body;
+    const {
+      stockId,
+      promote = false, // true の場合、検証区間のMSEが本番バージョンより小さいモデルのみ本番にする（管理者のみ）
+      crossValidation, // { folds, embargo } 指定時はパージ＆エンバーゴ付き k 分割交差検証
+    } = body;
 
     if (!stockId) {
       return NextResponse.json(
@@ -24,6 +53,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (promote) {
+      const auth = authenticateAdmin(request.headers);
+      if ('status' in auth) {
+        return NextResponse.json(
+          { success: false, error: auth.message },
+          { status: auth.status }
+        );
+      }
+    }
+
     // 株価データを取得
     const stock = await prisma.stock.findUnique({
       where: { id: parseInt(stockId) },
@@ -54,36 +93,126 @@ export async function POST(request: NextRequest) {
       // アンサンブル予測器を取得
       const predictor = getEnsemblePredictor();
 
-      // データを学習用の形式に変換
-      const trainingData = {
-        features: historicalData.map((price) => [
-          price.open,
-          price.high,
-          price.low,
-          price.close,
-          price.volume,
-        ]),
-        targets: historicalData.map((price) => price.close),
-        timestamps: historicalData.map((price) => price.timestamp),
-      };
+      // 次の足のリターンを目的変数にしたデータセットを作成（欠損は終値で補完）
+      const dataset = buildDataset(
+        historicalData.map((price) => ({
+          date: price.timestamp,
+          open: price.open ?? price.price,
+          high: price.high ?? price.price,
+          low: price.low ?? price.price,
+          close: price.close ?? price.price,
+          volume: price.volume ?? 0,
+        })),
+        { type: 'next_return', horizon: 1 }
+      );
+
+      // 時系列順に分割（後の区間と目的変数の期間が重なる行は除く）
+      const split = chronologicalSplit(dataset);
+      const trainingData = selectRows(dataset, split.train);
 
       console.log(`Starting model training for ${stock.symbol}...`);
       console.log(
-        `Training data size: ${trainingData.features.length} samples`
+        `Training data size: ${split.train.length} samples (validation: ${split.validation.length}, test: ${split.test.length})`
       );
 
-      // モデルを学習
+      // 学習区間のみでモデルを学習
       const trainingResults = await predictor.train(trainingData);
 
       console.log('Model training completed:', trainingResults);
 
-      // 学習結果を保存（簡易実装）
+      // 学習に使っていない区間で評価
+      const validation = await predictor.evaluate(dataset, split.validation);
+      const test = await predictor.evaluate(dataset, split.test);
+      console.log('Model evaluation completed:', { validation, test });
+
+      let crossValidationResult: CrossValidationResult | null = null;
+      if (crossValidation?.folds) {
+        crossValidationResult = await crossValidate(
+          dataset,
+          () => {
+            const model = new EnsemblePredictor();
+            return {
+              fit: async (data, rows) => {
+                await model.train(selectRows(data, rows));
+              },
+              predict: async (data, rows) => {
+                try {
+                  return await model.predictRows(data, rows);
+                } finally {
+                  model.dispose();
+                }
+              },
+            };
+          },
+          crossValidation
+        );
+      }
+
+      // 学習できたモデルをモデルレジストリに保存
+      const versions: Record<string, ModelVersionInfo> = {};
+      const promoted: Record<string, boolean> = {};
+      const validationMetrics = flattenMetrics(
+        'ensembleValidation',
+        validation
+      );
+      for (const { modelName, model, weight } of predictor.getModels()) {
+        const metrics = trainingResults[modelName];
+        if (!metrics || metrics.error) continue;
+
+        const key = {
+          symbol: stock.symbol,
+          timeframe: '1d' as const,
+          modelName,
+        };
+        promoted[modelName] =
+          promote &&
+          outperformsActive(
+            validationMetrics,
+            await modelRegistry.getActiveVersion(key)
+          );
+
+        versions[modelName] = await modelRegistry.register(
+          key,
+          model,
+          {
+            kind: 'lstm_predictor',
+            trainingWindow: {
+              start: trainingData.timestamps[0],
+              end: trainingData.timestamps[trainingData.timestamps.length - 1],
+              samples: trainingData.features.length,
+            },
+            featureSet: dataset.featureNames,
+            hyperparameters: {
+              sequenceLength: model.getModelStatus().sequenceLength,
+              ensembleWeight: weight,
+              target: dataset.target,
+            },
+            metrics: {
+              ...metrics,
+              ...validationMetrics,
+              ...flattenMetrics('ensembleTest', test),
+            },
+          },
+          { promote: promoted[modelName] }
+        );
+      }
+
       const trainingRecord = {
         stockId: parseInt(stockId),
         symbol: stock.symbol,
         trainingDate: new Date(),
-        dataSize: trainingData.features.length,
+        dataSize: dataset.features.length,
+        target: dataset.target,
+        split: {
+          train: split.train.length,
+          validation: split.validation.length,
+          test: split.test.length,
+        },
         results: trainingResults,
+        evaluation: { validation, test },
+        crossValidation: crossValidationResult,
+        versions,
+        promoted,
         status: 'completed',
       };
 
@@ -136,11 +265,20 @@ export async function GET(request: NextRequest) {
     const predictor = getEnsemblePredictor();
     const modelStatus = predictor.getModelStatus();
 
+    // 保存済みモデルのバージョン
+    const stock = await prisma.stock.findUnique({
+      where: { id: parseInt(stockId) },
+    });
+    const registeredModels = stock
+      ? await modelRegistry.listModels({ symbol: stock.symbol })
+      : [];
+
     return NextResponse.json({
       success: true,
       data: {
         stockId: parseInt(stockId),
         modelStatus,
+        registeredModels,
         timestamp: new Date().toISOString(),
       },
     });
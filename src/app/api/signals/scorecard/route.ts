@@ -0,0 +1,61 @@
+import {
+  ScorecardGroupBy,
+  SignalOutcomeStore,
+} from '@/services/signal-outcome-store';
+import { createErrorResponse, createSuccessResponse } from '@/utils/api';
+import { NextRequest, NextResponse } from 'next/server';
+
+const GROUP_BY: ScorecardGroupBy[] = ['source', 'symbol', 'timeOfDay'];
+
+/**
+ * シグナルソースのスコアカード
+ * GET /api/signals/scorecard?horizon=30m&groupBy=source&since=2025-10-01&source=finviz&symbol=AAPL
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const groupBy = (params.get('groupBy') || 'source') as ScorecardGroupBy;
+    if (!GROUP_BY.includes(groupBy)) {
+      return NextResponse.json(
+        createErrorResponse(`groupBy must be one of ${GROUP_BY.join(', ')}`),
+        { status: 400 }
+      );
+    }
+
+    const since = params.get('since');
+    if (since && isNaN(new Date(since).getTime())) {
+      return NextResponse.json(createErrorResponse('Invalid since date'), {
+        status: 400,
+      });
+    }
+
+    // リクエストごとに最新の記録ファイルを読み込む
+    const store = new SignalOutcomeStore();
+    const horizons = store.getHorizons().map((h) => h.name);
+    const horizon = params.get('horizon') || horizons[0];
+    if (!horizons.includes(horizon)) {
+      return NextResponse.json(
+        createErrorResponse(`horizon must be one of ${horizons.join(', ')}`),
+        { status: 400 }
+      );
+    }
+
+    const rows = await store.getScorecard({
+      horizon,
+      groupBy,
+      since: since ? new Date(since) : undefined,
+      source: params.get('source') || undefined,
+      symbol: params.get('symbol') || undefined,
+    });
+
+    return NextResponse.json(
+      createSuccessResponse({ horizon, groupBy, horizons, rows }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Signal scorecard error:', error);
+    return NextResponse.json(createErrorResponse('Internal server error'), {
+      status: 500,
+    });
+  }
+}
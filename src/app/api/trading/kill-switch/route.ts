@@ -0,0 +1,84 @@
+import { authenticateAdmin } from '@/core/auth';
+import { KillSwitch } from '@/trading/kill-switch';
+import { createErrorResponse, createSuccessResponse } from '@/utils/api';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * キルスイッチの状態
+ * GET /api/trading/kill-switch
+ */
+export async function GET() {
+  try {
+    const killSwitch = new KillSwitch();
+    const state = await killSwitch.load();
+
+    return NextResponse.json(createSuccessResponse(state), { status: 200 });
+  } catch (error) {
+    console.error('Kill switch status error:', error);
+    return NextResponse.json(createErrorResponse('Internal server error'), {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * キルスイッチの手動停止・再稼働
+ * POST /api/trading/kill-switch { action: 'trip' | 'rearm', reason?, note? }
+ *
+ * 管理者のみ操作でき、認証した操作者を状態に記録する
+ * 状態ファイルに書き込み、稼働中の取引プロセスが監視で検知して注文キャンセル等を行う
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticateAdmin(request.headers);
+    if ('status' in auth) {
+      return NextResponse.json(createErrorResponse(auth.message), {
+        status: auth.status,
+      });
+    }
+    const { operator } = auth;
+
+    const body = await request.json().catch(() => null);
+    const action = body?.action;
+
+    if (action !== 'trip' && action !== 'rearm') {
+      return NextResponse.json(
+        createErrorResponse('action must be one of trip, rearm'),
+        { status: 400 }
+      );
+    }
+
+    const killSwitch = new KillSwitch();
+    await killSwitch.load();
+
+    if (action === 'trip') {
+      const reason =
+        typeof body.reason === 'string' && body.reason.trim()
+          ? body.reason.trim()
+          : '手動停止';
+      const changed = await killSwitch.trip('manual', reason, operator);
+      return NextResponse.json(
+        createSuccessResponse(
+          killSwitch.getState(),
+          changed ? 'Kill switch tripped' : 'Kill switch is already halted'
+        ),
+        { status: 200 }
+      );
+    }
+
+    const note = typeof body.note === 'string' ? body.note : undefined;
+    const changed = await killSwitch.rearm(operator, note);
+    return NextResponse.json(
+      createSuccessResponse(
+        killSwitch.getState(),
+        changed ? 'Kill switch re-armed' : 'Kill switch is not halted'
+      ),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Kill switch control error:', error);
+    return NextResponse.json(createErrorResponse('Internal server error'), {
+      status: 500,
+    });
+  }
+}
@@ -6,8 +6,42 @@
 import { BacktestEngine as BaseBacktestEngine } from '../services/backtest-engine';
 import { DataIntegrationService } from '../services/data-integration-service';
 import { FeeCalculator } from '../services/fee-calculator';
+import { HistoricalDataReplay, OHLCVBar } from './historical-data-replay';
+import {
+  calculateMonthlyReturns,
+  calculatePerformanceMetrics,
+  calculateRiskMetrics,
+} from './backtest-metrics';
 import { RiskManager } from '../services/risk-manager';
 import { TradingStrategy } from '../strategies/trading-strategy';
+import { BacktestJobRunner, BacktestTask } from './backtest-job-runner';
+import { barsBetween, PreloadedBars } from './shared-bars';
+import {
+  applyStrategyParameters,
+  createRandom,
+  gridCandidates,
+  ParameterSpace,
+  sampleParameters,
+  TpeSampler,
+} from './parameter-search';
+import {
+  analyzeParameterStability,
+  buildWalkForwardWindows,
+  DateRange,
+  ParameterStabilityReport,
+  stitchEquityCurves,
+  summarizeWalkForward,
+  WalkForwardOptions,
+  WalkForwardResult,
+  WalkForwardWindowResult,
+} from './walk-forward';
+import {
+  BenchmarkName,
+  BenchmarkSpec,
+  buyAndHoldSeries,
+  compareWithBenchmark,
+  resolveBenchmark,
+} from './benchmark';
 
 export interface BacktestConfig {
   strategy: TradingStrategy;
@@ -25,9 +59,27 @@ export interface BacktestConfig {
     takeProfitPercent: number;
     maxDailyLoss: number;
   };
-  dataSource: 'yahoo' | 'alpha_vantage' | 'iex' | 'combined';
+  dataSource: 'yahoo' | 'alpha_vantage' | 'iex' | 'local' | 'combined';
+  localStoreDir?: string; // dataSource: 'local' のときの保存先
+  benchmarks?: Array<BenchmarkName | BenchmarkSpec>; // 先頭が主ベンチマーク（既定: 取引銘柄のバイ・アンド・ホールド）
+  benchmarkRollingWindow?: number; // ローリングβ・αの日数（既定: 20）
+  riskFreeRate?: number; // 年率（α・トレイナー比に使用、既定: 0）
 }
 
+// 読み込み済み系列のうちベンチマークの日足を表すキーの接頭辞
+const BENCHMARK_SERIES_PREFIX = 'benchmark:';
+
+const DATA_SOURCE_API: Record<
+  BacktestConfig['dataSource'],
+  string | undefined
+> = {
+  yahoo: 'yahoo',
+  alpha_vantage: 'alphavantage',
+  iex: 'iex',
+  local: 'local',
+  combined: undefined,
+};
+
 export interface BacktestResult {
   config: BacktestConfig;
   performance: {
@@ -65,7 +117,8 @@ export interface BacktestResult {
   positions: BacktestPosition[];
   dailyReturns: DailyReturn[];
   monthlyReturns: MonthlyReturn[];
-  benchmarkComparison?: BenchmarkComparison;
+  benchmarkComparison?: BenchmarkComparison; // 主ベンチマークとの比較
+  benchmarkComparisons?: BenchmarkComparison[];
   createdAt: Date;
 }
 
@@ -132,23 +185,88 @@ export interface MonthlyReturn {
 
 export interface BenchmarkComparison {
   benchmark: string;
-  strategyReturn: number;
+  strategyReturn: number; // 共通日付の期間のリターン（%）
   benchmarkReturn: number;
   excessReturn: number;
-  trackingError: number;
+  trackingError: number; // 年率（%）
   informationRatio: number;
   beta: number;
-  alpha: number;
+  alpha: number; // ジェンセンのα（年率、%）
   correlation: number;
+  treynorRatio: number;
+  observations: number; // 比較に使った日次リターンの数
+  rollingWindow: number;
+  rolling: RollingBenchmarkPoint[];
+}
+
+export interface RollingBenchmarkPoint {
+  date: Date;
+  beta: number;
+  alpha: number; // 年率換算（%）
+}
+
+export type OptimizationMethod =
+  | 'GRID_SEARCH'
+  | 'RANDOM_SEARCH'
+  | 'BAYESIAN_OPTIMIZATION';
+
+/**
+ * 最適化の評価指標（大きいほど良い。maxDrawdownPercent は負値のため浅いほど良い）
+ */
+export type OptimizationObjective =
+  | 'totalReturnPercent'
+  | 'sharpeRatio'
+  | 'sortinoRatio'
+  | 'calmarRatio'
+  | 'profitFactor'
+  | 'maxDrawdownPercent';
+
+export interface OptimizationOptions {
+  method: OptimizationMethod;
+  parameterSpace?: ParameterSpace; // 未指定時は既定のグリッド（GRID_SEARCH のみ）
+  objective: OptimizationObjective;
+  maxIterations: number; // 1回の探索で評価する候補数
+  seed?: number; // ランダム・TPE の乱数シード
+  walkForward?: WalkForwardOptions; // 指定時はウォークフォワード分析
+  batchSize?: number; // TPE で1回に提案する候補数（並列数によらず結果を同じにするため固定）
+  parallel?: ParallelOptimizationOptions; // 指定時はワーカースレッドで並列実行
 }
 
+/**
+ * 並列最適化の設定
+ * ワーカーでは戦略を strategyModule の strategyExport（(config) => TradingStrategy）で生成する
+ */
+export interface ParallelOptimizationOptions {
+  workers?: number; // 既定: CPU数 - 1
+  strategyModule: string; // 絶対パス
+  strategyExport: string;
+}
+
+export interface BacktestStatus {
+  running: boolean;
+  progress: number; // 0-1
+  completedIterations: number;
+  totalIterations: number;
+  cancelled: boolean;
+}
+
+const DEFAULT_OPTIMIZATION_OPTIONS: OptimizationOptions = {
+  method: 'GRID_SEARCH',
+  objective: 'totalReturnPercent',
+  maxIterations: 10,
+  batchSize: 4,
+};
+
 export interface OptimizationResult {
-  bestParameters: Record<string, any>;
-  bestPerformance: BacktestResult;
+  bestParameters: Record<string, any>; // ウォークフォワード時は直近ウィンドウの最適値
+  bestPerformance: BacktestResult; // ウォークフォワード時は直近ウィンドウの検証期間の結果
   parameterSweep: ParameterSweep[];
-  optimizationMethod: 'GRID_SEARCH' | 'RANDOM_SEARCH' | 'BAYESIAN_OPTIMIZATION';
+  optimizationMethod: OptimizationMethod;
+  objective?: OptimizationObjective;
   totalIterations: number;
   bestIteration: number;
+  walkForward?: WalkForwardResult;
+  stability?: ParameterStabilityReport;
   createdAt: Date;
 }
 
@@ -156,6 +274,8 @@ export interface ParameterSweep {
   parameters: Record<string, any>;
   performance: BacktestResult;
   iteration: number;
+  score?: number; // 評価指標の値
+  windowIndex?: number; // ウォークフォワードのウィンドウ番号
 }
 
 export class BacktestEngine {
@@ -164,16 +284,31 @@ export class BacktestEngine {
   private baseBacktestEngine: BaseBacktestEngine;
   private riskManager: RiskManager;
   private feeCalculator: FeeCalculator;
+  private replay: HistoricalDataReplay;
   private isRunning: boolean = false;
+  private sharedSeries: Map<string, OHLCVBar[]> | null = null;
+  private benchmarkSeries: Map<string, OHLCVBar[]> = new Map();
+  private jobRunner: BacktestJobRunner | null = null;
+  private cancelRequested: boolean = false;
+  private completedIterations: number = 0;
+  private totalIterations: number = 0;
 
-  constructor(config: BacktestConfig) {
+  /**
+   * @param preloadedSeries 読み込み済みの系列（指定時はデータ取得せずここから切り出す。ベンチマークの日足を含む）
+   */
+  constructor(
+    config: BacktestConfig,
+    preloadedSeries?: Map<string, PreloadedBars>
+  ) {
     this.config = config;
     this.dataService = new DataIntegrationService({
       cacheEnabled: true,
       cacheExpiry: 300000,
-      fallbackEnabled: true,
+      fallbackEnabled: config.dataSource !== 'local',
       maxRetries: 3,
       retryDelay: 1000,
+      preferredSource: DATA_SOURCE_API[config.dataSource],
+      localStoreDir: config.localStoreDir,
     });
     this.baseBacktestEngine = new BaseBacktestEngine({
       startDate: config.startDate,
@@ -189,10 +324,35 @@ export class BacktestEngine {
     });
     this.riskManager = new RiskManager({
       ...config.riskManagement,
-      maxPortfolioRisk: 0.2,
-      maxDrawdown: 0.2,
+      maxPortfolioRisk: 20,
+      maxDrawdown: 20,
     });
     this.feeCalculator = new FeeCalculator();
+    this.replay = new HistoricalDataReplay(
+      {
+        symbols: config.symbols,
+        markets: config.markets,
+        startDate: config.startDate,
+        endDate: config.endDate,
+        timeframe: config.timeframe,
+        warmupBars: config.strategy.getConfig().lookbackPeriod,
+      },
+      this.dataService
+    );
+    if (preloadedSeries) {
+      const marketSeries = new Map<string, PreloadedBars>();
+      for (const [key, bars] of preloadedSeries) {
+        if (key.startsWith(BENCHMARK_SERIES_PREFIX)) {
+          this.benchmarkSeries.set(
+            key,
+            barsBetween(bars, config.startDate, config.endDate)
+          );
+        } else {
+          marketSeries.set(key, bars);
+        }
+      }
+      this.replay.usePreloadedSeries(marketSeries);
+    }
   }
 
   /**
@@ -209,6 +369,16 @@ export class BacktestEngine {
         throw new Error('戦略の初期化に失敗しました');
       }
 
+      // 期間全体の履歴データを事前読み込み
+      const totalBars = await this.replay.preload();
+      if (totalBars === 0) {
+        throw new Error('バックテスト期間の履歴データを取得できませんでした');
+      }
+      await this.loadBenchmarkSeries();
+
+      // 戦略には時点指定ビューのみを見せる（先読み防止）
+      this.config.strategy.setMarketDataView(this.replay);
+
       // バックテスト実行
       const result = await this.executeBacktest();
 
@@ -218,6 +388,7 @@ export class BacktestEngine {
       console.error('❌ バックテスト実行エラー:', error);
       throw error;
     } finally {
+      this.config.strategy.setMarketDataView(null);
       this.isRunning = false;
     }
   }
@@ -234,20 +405,30 @@ export class BacktestEngine {
 
       let portfolioValue = this.config.initialCapital;
       let peakValue = this.config.initialCapital;
+      this.riskManager.resetTradingState();
       let maxDrawdown = 0;
       let maxDrawdownPercent = 0;
 
-      // 日付範囲を生成
+      // シミュレーション時刻の列を生成
       const dates = this.generateDateRange();
 
-      for (const date of dates) {
+      for (let i = 0; i < dates.length; i++) {
+        const date = dates[i];
         try {
+          // シミュレーション時刻を進める
+          this.replay.setCurrentTime(date);
+
           // 各シンボルのデータを取得
           const marketData = await this.getMarketDataForDate(date);
 
           // シグナルを生成
           const signals = await this.config.strategy.generateSignals();
 
+          this.riskManager.updateAccountState({
+            equity: portfolioValue,
+            now: date,
+          });
+
           // 取引を実行
           const dayTrades = await this.executeTradesForDate(
             signals,
@@ -278,6 +459,12 @@ export class BacktestEngine {
             maxDrawdownPercent = drawdownPercent;
           }
 
+          // 日中足の場合は各日の最終バーでのみ記録
+          const next = dates[i + 1];
+          if (next && next.toDateString() === date.toDateString()) {
+            continue;
+          }
+
           // 日次リターンを記録
           const dailyReturn = this.calculateDailyReturn(
             portfolioValue,
@@ -305,21 +492,28 @@ export class BacktestEngine {
       }
 
       // 月次リターンを計算
-      const monthlyReturnsData = this.calculateMonthlyReturns(dailyReturns);
+      const monthlyReturnsData = calculateMonthlyReturns(dailyReturns);
 
       // パフォーマンス指標を計算
-      const performance = this.calculatePerformanceMetrics(
+      const performance = calculatePerformanceMetrics(
         trades,
         dailyReturns,
         this.config.initialCapital
       );
 
-      // リスク指標を計算
-      const riskMetrics = this.calculateRiskMetrics(dailyReturns, trades);
-
       // ベンチマーク比較を計算
-      const benchmarkComparison =
-        await this.calculateBenchmarkComparison(dailyReturns);
+      const benchmarkComparisons =
+        this.calculateBenchmarkComparisons(dailyReturns);
+      const benchmarkComparison = benchmarkComparisons[0];
+
+      // リスク指標を計算（β・α等は主ベンチマークとの比較から）
+      const riskMetrics = calculateRiskMetrics(dailyReturns, trades);
+      if (benchmarkComparison) {
+        riskMetrics.beta = benchmarkComparison.beta;
+        riskMetrics.alpha = benchmarkComparison.alpha;
+        riskMetrics.informationRatio = benchmarkComparison.informationRatio;
+        riskMetrics.treynorRatio = benchmarkComparison.treynorRatio;
+      }
 
       const result: BacktestResult = {
         config: this.config,
@@ -330,6 +524,7 @@ export class BacktestEngine {
         dailyReturns,
         monthlyReturns: monthlyReturnsData,
         benchmarkComparison,
+        benchmarkComparisons,
         createdAt: new Date(),
       };
 
@@ -341,9 +536,15 @@ export class BacktestEngine {
   }
 
   /**
-   * 日付範囲を生成
+   * シミュレーション時刻の列を生成
+   * 事前読み込みしたバーの時刻を使い、無ければ暦日で代替
    */
   private generateDateRange(): Date[] {
+    const timeline = this.replay.getTimeline();
+    if (timeline.length > 0) {
+      return timeline;
+    }
+
     const dates: Date[] = [];
     const current = new Date(this.config.startDate);
     const end = new Date(this.config.endDate);
@@ -357,32 +558,47 @@ export class BacktestEngine {
   }
 
   /**
-   * 指定日の市場データを取得
+   * 指定時刻の市場データを取得（指定時刻以前の直近バー）
+   * 終値は発注前リスクチェックの直近約定価格にも反映する
    */
   private async getMarketDataForDate(date: Date): Promise<Map<string, any>> {
-    const marketData = new Map();
-
+    this.replay.setCurrentTime(date);
+    const snapshot = this.replay.getSnapshot();
     for (const symbol of this.config.symbols) {
       for (const market of this.config.markets) {
-        try {
-          const data = await this.dataService.getHistoricalData(
-            symbol,
-            market,
-            1
-          );
-          if (data && data.data.length > 0) {
-            marketData.set(`${symbol}_${market}`, data.data[0]);
-          }
-        } catch (error) {
-          console.error(
-            `❌ 市場データ取得エラー (${symbol}_${market}):`,
-            error
-          );
-        }
+        const bar = snapshot.get(`${symbol}_${market}`);
+        if (bar) this.riskManager.updateLastPrice(symbol, bar.close);
       }
     }
+    return snapshot;
+  }
 
-    return marketData;
+  /**
+   * 発注前リスクチェック（拒否された注文はログに残してスキップ）
+   */
+  private passesOrderRisk(
+    signal: any,
+    side: 'BUY' | 'SELL',
+    quantity: number,
+    price: number,
+    date: Date
+  ): boolean {
+    const riskCheck = this.riskManager.checkOrderRisk(
+      {
+        symbol: signal.symbol,
+        market: signal.market,
+        side,
+        quantity,
+        price,
+      },
+      date
+    );
+    if (!riskCheck.allowed) {
+      console.log(
+        `🛑 発注前リスクチェックで拒否 (${signal.symbol} ${date.toISOString()}): ${riskCheck.reason}`
+      );
+    }
+    return riskCheck.allowed;
   }
 
   /**
@@ -407,8 +623,6 @@ export class BacktestEngine {
         const quantity = signal.quantity;
         const side = signal.side;
 
-        // リスクチェック（簡略化）
-        // Note: checkOrderRiskメソッドが存在しないため、簡易チェックに置き換え
         if (!quantity || quantity <= 0) continue;
 
         // 既存ポジションをチェック
@@ -416,10 +630,23 @@ export class BacktestEngine {
 
         if (existingPosition) {
           // ポジションをクローズ
+          const closeSide = existingPosition.side === 'LONG' ? 'SELL' : 'BUY';
+          if (
+            !this.passesOrderRisk(
+              signal,
+              closeSide,
+              existingPosition.quantity,
+              price,
+              date
+            )
+          ) {
+            continue;
+          }
+
           const closeTrade = this.createTrade(
             signal.symbol,
             signal.market,
-            existingPosition.side === 'LONG' ? 'SELL' : 'BUY',
+            closeSide,
             existingPosition.quantity,
             existingPosition.averagePrice,
             price,
@@ -429,6 +656,18 @@ export class BacktestEngine {
           );
           trades.push(closeTrade);
           positions.delete(signal.symbol);
+          this.riskManager.recordFill(
+            signal.symbol,
+            closeSide,
+            existingPosition.quantity,
+            price,
+            date
+          );
+        }
+
+        // 発注前リスクチェック（シミュレーション時刻で判定）
+        if (!this.passesOrderRisk(signal, side, quantity, price, date)) {
+          continue;
         }
 
         // 新しいポジションを作成
@@ -449,6 +688,7 @@ export class BacktestEngine {
         };
 
         positions.set(signal.symbol, newPosition);
+        this.riskManager.recordFill(signal.symbol, side, quantity, price, date);
 
         // 取引を記録
         const trade = this.createTrade(
@@ -586,290 +826,518 @@ export class BacktestEngine {
   }
 
   /**
-   * 月次リターンを計算
+   * ベンチマーク銘柄の日足を読み込む（読み込み済みの銘柄は再取得しない）
+   */
+  private async loadBenchmarkSeries(): Promise<Map<string, OHLCVBar[]>> {
+    for (const spec of this.benchmarkSpecs()) {
+      if (spec.kind !== 'symbol') continue;
+      const key = this.benchmarkKey(spec);
+      if (this.benchmarkSeries.has(key)) continue;
+
+      try {
+        const data = await this.dataService.getHistoricalDataRange(
+          spec.symbol,
+          spec.market,
+          this.config.startDate,
+          this.config.endDate,
+          '1d'
+        );
+        if (!data || data.data.length === 0) {
+          console.warn(`⚠️ ベンチマークの履歴データがありません: ${spec.name}`);
+        }
+        this.benchmarkSeries.set(
+          key,
+          (data?.data ?? []).map((bar) => ({ ...bar }))
+        );
+      } catch (error) {
+        console.error(`❌ ベンチマーク読み込みエラー (${spec.name}):`, error);
+      }
+    }
+    return this.benchmarkSeries;
+  }
+
+  private benchmarkSpecs(): BenchmarkSpec[] {
+    return (this.config.benchmarks ?? ['BUY_AND_HOLD']).map(resolveBenchmark);
+  }
+
+  private benchmarkKey(spec: Extract<BenchmarkSpec, { kind: 'symbol' }>) {
+    return `${BENCHMARK_SERIES_PREFIX}${spec.symbol}_${spec.market}`;
+  }
+
+  /**
+   * ベンチマーク比較を計算（日次の資産推移とベンチマーク価格を共通の取引日で揃える）
    */
-  private calculateMonthlyReturns(
+  private calculateBenchmarkComparisons(
     dailyReturns: DailyReturn[]
-  ): MonthlyReturn[] {
-    const monthlyReturns: MonthlyReturn[] = [];
-    const monthlyData = new Map<string, DailyReturn[]>();
-
-    // 日次データを月ごとにグループ化
-    for (const dailyReturn of dailyReturns) {
-      const monthKey = `${dailyReturn.date.getFullYear()}-${String(dailyReturn.date.getMonth() + 1).padStart(2, '0')}`;
-      if (!monthlyData.has(monthKey)) {
-        monthlyData.set(monthKey, []);
+  ): BenchmarkComparison[] {
+    const equity = dailyReturns.map((d) => ({
+      date: d.date,
+      close: d.portfolioValue,
+    }));
+    const comparisons: BenchmarkComparison[] = [];
+
+    for (const spec of this.benchmarkSpecs()) {
+      try {
+        const prices =
+          spec.kind === 'buy_and_hold'
+            ? buyAndHoldSeries(
+                this.replay.getSeries(),
+                this.config.startDate,
+                this.config.endDate
+              )
+            : (this.benchmarkSeries.get(this.benchmarkKey(spec)) ?? []);
+        const comparison = compareWithBenchmark(spec.name, equity, prices, {
+          riskFreeRate: this.config.riskFreeRate ?? 0,
+          rollingWindow: this.config.benchmarkRollingWindow ?? 20,
+        });
+        if (comparison) {
+          comparisons.push(comparison);
+        } else {
+          console.warn(
+            `⚠️ ベンチマーク比較に必要な共通の取引日が不足しています: ${spec.name}`
+          );
+        }
+      } catch (error) {
+        console.error(`❌ ベンチマーク比較計算エラー (${spec.name}):`, error);
       }
-      monthlyData.get(monthKey)!.push(dailyReturn);
     }
+    return comparisons;
+  }
 
-    // 月次データを計算
-    for (const [month, dailyData] of monthlyData) {
-      const firstDay = dailyData[0];
-      const lastDay = dailyData[dailyData.length - 1];
-
-      const monthlyReturn =
-        lastDay.cumulativeReturn - firstDay.cumulativeReturn;
-      const monthlyReturnPercent =
-        lastDay.cumulativeReturnPercent - firstDay.cumulativeReturnPercent;
-
-      monthlyReturns.push({
-        month,
-        return: monthlyReturn,
-        returnPercent: monthlyReturnPercent,
-        cumulativeReturn: lastDay.cumulativeReturn,
-        cumulativeReturnPercent: lastDay.cumulativeReturnPercent,
-        portfolioValue: lastDay.portfolioValue,
-        drawdown: lastDay.drawdown,
-        drawdownPercent: lastDay.drawdownPercent,
-      });
+  /**
+   * パラメータ最適化を実行
+   * walkForward を指定すると学習期間で最適化し検証期間で評価するウィンドウを繰り返す
+   */
+  async optimizeParameters(
+    strategy: TradingStrategy,
+    options: Partial<OptimizationOptions> = {}
+  ): Promise<OptimizationResult> {
+    const settings = { ...DEFAULT_OPTIMIZATION_OPTIONS, ...options };
+    if (settings.method !== 'GRID_SEARCH' && !settings.parameterSpace) {
+      throw new Error(`${settings.method} には parameterSpace が必要です`);
+    }
+
+    try {
+      console.log(`🔄 パラメータ最適化開始 (${settings.method})...`);
+      this.isRunning = true;
+      this.cancelRequested = false;
+      this.completedIterations = 0;
+      this.totalIterations = this.countIterations(settings);
+
+      // 期間全体の履歴データを一度だけ読み込み、各イテレーションで共有する
+      if ((await this.replay.preload()) === 0) {
+        throw new Error('バックテスト期間の履歴データを取得できませんでした');
+      }
+      this.sharedSeries = this.replay.getSeries();
+      // ベンチマークの日足も共有する（各イテレーション・ワーカーで再取得しない）
+      for (const [key, bars] of await this.loadBenchmarkSeries()) {
+        this.sharedSeries.set(key, bars);
+      }
+
+      if (settings.parallel) {
+        const { strategy: _strategy, ...config } = this.config;
+        this.jobRunner = new BacktestJobRunner({
+          workers: settings.parallel.workers,
+          strategy: {
+            modulePath: settings.parallel.strategyModule,
+            exportName: settings.parallel.strategyExport,
+            config: strategy.getConfig(),
+          },
+          config,
+          series: this.sharedSeries,
+        });
+        this.jobRunner.on('progress', () => this.completedIterations++);
+        await this.jobRunner.start();
+      }
+
+      const result = settings.walkForward
+        ? await this.runWalkForward(strategy, settings)
+        : await this.runFullPeriodOptimization(strategy, settings);
+
+      // 戦略は採用したパラメータの状態にしておく
+      applyStrategyParameters(strategy, result.bestParameters);
+
+      console.log('✅ パラメータ最適化完了');
+      return result;
+    } catch (error) {
+      console.error('❌ パラメータ最適化エラー:', error);
+      throw error;
+    } finally {
+      await this.jobRunner?.close();
+      this.jobRunner = null;
+      this.sharedSeries = null;
+      this.isRunning = false;
     }
+  }
 
-    return monthlyReturns.sort((a, b) => a.month.localeCompare(b.month));
+  /**
+   * 実行中の最適化をキャンセル（実行中のイテレーションは破棄される）
+   */
+  async cancelOptimization(): Promise<void> {
+    if (!this.isRunning || this.cancelRequested) return;
+    this.cancelRequested = true;
+    console.log('🛑 パラメータ最適化をキャンセルします');
+    await this.jobRunner?.cancel();
   }
 
   /**
-   * パフォーマンス指標を計算
+   * 最適化全体のイテレーション数（ウォークフォワードは検証期間の実行を含む）
    */
-  private calculatePerformanceMetrics(
-    trades: BacktestTrade[],
-    dailyReturns: DailyReturn[],
-    initialCapital: number
-  ): any {
-    const totalTrades = trades.length;
-    const winningTrades = trades.filter((t) => t.netPnl > 0).length;
-    const losingTrades = trades.filter((t) => t.netPnl < 0).length;
-
-    const totalReturn =
-      dailyReturns[dailyReturns.length - 1]?.cumulativeReturn || 0;
-    const totalReturnPercent = (totalReturn / initialCapital) * 100;
-
-    const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
-
-    const averageWin =
-      winningTrades > 0
-        ? trades
-            .filter((t) => t.netPnl > 0)
-            .reduce((sum, t) => sum + t.netPnl, 0) / winningTrades
-        : 0;
-    const averageLoss =
-      losingTrades > 0
-        ? trades
-            .filter((t) => t.netPnl < 0)
-            .reduce((sum, t) => sum + t.netPnl, 0) / losingTrades
-        : 0;
-
-    const largestWin =
-      trades.length > 0 ? Math.max(...trades.map((t) => t.netPnl)) : 0;
-    const largestLoss =
-      trades.length > 0 ? Math.min(...trades.map((t) => t.netPnl)) : 0;
-
-    const profitFactor =
-      Math.abs(averageLoss) > 0 ? Math.abs(averageWin / averageLoss) : 0;
-
-    const maxDrawdown = Math.min(...dailyReturns.map((d) => d.drawdown));
-    const maxDrawdownPercent = Math.min(
-      ...dailyReturns.map((d) => d.drawdownPercent)
+  private countIterations(settings: OptimizationOptions): number {
+    const perSearch =
+      settings.method === 'GRID_SEARCH' && settings.parameterSpace
+        ? gridCandidates(settings.parameterSpace, settings.maxIterations).length
+        : settings.maxIterations;
+    if (!settings.walkForward) return perSearch;
+
+    const windows = buildWalkForwardWindows(
+      this.config.startDate,
+      this.config.endDate,
+      settings.walkForward
     );
-
-    // 年率化リターン（簡略化）
-    const days = dailyReturns.length;
-    const annualizedReturn =
-      days > 0 ? Math.pow(1 + totalReturnPercent / 100, 365 / days) - 1 : 0;
-
-    // シャープレシオ（簡略化）
-    const returns = dailyReturns.map((d) => d.return);
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const variance =
-      returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) /
-      returns.length;
-    const volatility = Math.sqrt(variance);
-    const sharpeRatio = volatility > 0 ? avgReturn / volatility : 0;
-
-    // ソルティノレシオ（簡略化）
-    const negativeReturns = returns.filter((r) => r < 0);
-    const downsideVariance =
-      negativeReturns.reduce((sum, r) => sum + Math.pow(r, 2), 0) /
-      negativeReturns.length;
-    const downsideVolatility = Math.sqrt(downsideVariance);
-    const sortinoRatio =
-      downsideVolatility > 0 ? avgReturn / downsideVolatility : 0;
-
-    // カルマーレシオ
-    const calmarRatio =
-      Math.abs(maxDrawdownPercent) > 0
-        ? annualizedReturn / Math.abs(maxDrawdownPercent)
-        : 0;
-
-    // 平均取引期間
-    const averageTradeDuration =
-      totalTrades > 0
-        ? trades.reduce((sum, t) => sum + t.duration, 0) / totalTrades
-        : 0;
-
-    return {
-      totalReturn,
-      totalReturnPercent,
-      annualizedReturn,
-      sharpeRatio,
-      sortinoRatio,
-      maxDrawdown,
-      maxDrawdownPercent,
-      calmarRatio,
-      winRate,
-      profitFactor,
-      averageWin,
-      averageLoss,
-      largestWin,
-      largestLoss,
-      totalTrades,
-      winningTrades,
-      losingTrades,
-      averageTradeDuration,
-    };
+    return windows.length * (perSearch + 1);
   }
 
   /**
-   * リスク指標を計算
+   * 期間全体での最適化（インサンプルのみ）
    */
-  private calculateRiskMetrics(
-    dailyReturns: DailyReturn[],
-    trades: BacktestTrade[]
-  ): any {
-    const returns = dailyReturns.map((d) => d.return);
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const variance =
-      returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) /
-      returns.length;
-    const volatility = Math.sqrt(variance);
-
-    // VaR計算（簡略化）
-    const sortedReturns = returns.sort((a, b) => a - b);
-    const var95Index = Math.floor(sortedReturns.length * 0.05);
-    const var99Index = Math.floor(sortedReturns.length * 0.01);
-    const var95 = sortedReturns[var95Index] || 0;
-    const var99 = sortedReturns[var99Index] || 0;
-
-    // CVaR計算（簡略化）
-    const cvar95 =
-      sortedReturns.slice(0, var95Index + 1).reduce((sum, r) => sum + r, 0) /
-      (var95Index + 1);
-    const cvar99 =
-      sortedReturns.slice(0, var99Index + 1).reduce((sum, r) => sum + r, 0) /
-      (var99Index + 1);
+  private async runFullPeriodOptimization(
+    strategy: TradingStrategy,
+    settings: OptimizationOptions
+  ): Promise<OptimizationResult> {
+    const period = { start: this.config.startDate, end: this.config.endDate };
+    const parameterSweep = await this.searchParameters(
+      strategy,
+      settings,
+      period
+    );
+    const best = this.pickBest(parameterSweep);
+    if (!best) {
+      throw new Error('最適化に失敗しました');
+    }
+
+    // 上位の試行でパラメータがどれだけ揃っているか
+    const topCount = Math.max(3, Math.ceil(parameterSweep.length * 0.1));
+    const topTrials = [...parameterSweep]
+      .sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity))
+      .slice(0, topCount);
 
     return {
-      volatility,
-      beta: 1, // 簡略化
-      alpha: 0, // 簡略化
-      informationRatio: 0, // 簡略化
-      treynorRatio: 0, // 簡略化
-      var95,
-      var99,
-      cvar95,
-      cvar99,
+      bestParameters: best.parameters,
+      bestPerformance: best.performance,
+      parameterSweep,
+      optimizationMethod: settings.method,
+      objective: settings.objective,
+      totalIterations: parameterSweep.length,
+      bestIteration: best.iteration,
+      stability: analyzeParameterStability(
+        topTrials.map((t) => t.parameters),
+        'topTrials'
+      ),
+      createdAt: new Date(),
     };
   }
 
   /**
-   * ベンチマーク比較を計算
+   * ウォークフォワード分析
    */
-  private async calculateBenchmarkComparison(
-    dailyReturns: DailyReturn[]
-  ): Promise<BenchmarkComparison | undefined> {
-    try {
-      // 簡略化されたベンチマーク比較
-      const strategyReturn =
-        dailyReturns[dailyReturns.length - 1]?.cumulativeReturnPercent || 0;
-      const benchmarkReturn = 10; // 仮のベンチマークリターン
-
-      return {
-        benchmark: 'S&P 500',
-        strategyReturn,
-        benchmarkReturn,
-        excessReturn: strategyReturn - benchmarkReturn,
-        trackingError: 5, // 簡略化
-        informationRatio: (strategyReturn - benchmarkReturn) / 5,
-        beta: 1, // 簡略化
-        alpha: strategyReturn - benchmarkReturn,
-        correlation: 0.8, // 簡略化
-      };
-    } catch (error) {
-      console.error('❌ ベンチマーク比較計算エラー:', error);
-      return undefined;
+  private async runWalkForward(
+    strategy: TradingStrategy,
+    settings: OptimizationOptions
+  ): Promise<OptimizationResult> {
+    const options = settings.walkForward!;
+    const windows = buildWalkForwardWindows(
+      this.config.startDate,
+      this.config.endDate,
+      options
+    );
+    if (windows.length === 0) {
+      throw new Error(
+        'バックテスト期間が短すぎてウォークフォワードのウィンドウを作成できません'
+      );
+    }
+
+    const parameterSweep: ParameterSweep[] = [];
+    const windowResults: WalkForwardWindowResult[] = [];
+    const segments: Array<{
+      windowIndex: number;
+      dailyReturns: DailyReturn[];
+    }> = [];
+    let lastBest: ParameterSweep | null = null;
+    let lastOutOfSample: BacktestResult | null = null;
+
+    for (const window of windows) {
+      console.log(
+        `📊 ウィンドウ ${window.index + 1}/${windows.length}: 学習 ${window.inSample.start.toISOString().slice(0, 10)}〜${window.inSample.end.toISOString().slice(0, 10)} / 検証 〜${window.outOfSample.end.toISOString().slice(0, 10)}`
+      );
+
+      const sweep = await this.searchParameters(
+        strategy,
+        settings,
+        window.inSample,
+        parameterSweep.length
+      );
+      sweep.forEach((entry) => (entry.windowIndex = window.index));
+      parameterSweep.push(...sweep);
+
+      const best = this.pickBest(sweep);
+      if (!best) {
+        console.warn(
+          `⚠️ ウィンドウ ${window.index + 1} の最適化に失敗したためスキップします`
+        );
+        this.completedIterations++;
+        continue;
+      }
+
+      applyStrategyParameters(strategy, best.parameters);
+      const outOfSample = await this.runPeriod(strategy, window.outOfSample);
+      this.completedIterations++;
+      const inSampleReturn = best.performance.performance.totalReturnPercent;
+      const outOfSampleReturn = outOfSample.performance.totalReturnPercent;
+      const days = (range: DateRange) =>
+        Math.max(
+          1,
+          (range.end.getTime() - range.start.getTime()) / (24 * 60 * 60 * 1000)
+        );
+
+      windowResults.push({
+        ...window,
+        parameters: best.parameters,
+        inSampleScore: best.score ?? 0,
+        outOfSampleScore: this.scoreResult(outOfSample, settings.objective),
+        inSampleReturnPercent: inSampleReturn,
+        outOfSampleReturnPercent: outOfSampleReturn,
+        outOfSampleTrades: outOfSample.performance.totalTrades,
+        efficiency:
+          inSampleReturn > 0
+            ? outOfSampleReturn /
+              days(window.outOfSample) /
+              (inSampleReturn / days(window.inSample))
+            : null,
+      });
+      segments.push({
+        windowIndex: window.index,
+        dailyReturns: outOfSample.dailyReturns,
+      });
+      lastBest = best;
+      lastOutOfSample = outOfSample;
     }
+
+    if (!lastBest || !lastOutOfSample) {
+      throw new Error('最適化に失敗しました');
+    }
+
+    const stitchedEquity = stitchEquityCurves(
+      segments,
+      this.config.initialCapital
+    );
+    const walkForward: WalkForwardResult = {
+      options,
+      windows: windowResults,
+      stitchedEquity,
+      summary: summarizeWalkForward(
+        windowResults,
+        stitchedEquity,
+        this.config.initialCapital
+      ),
+    };
+
+    console.log(
+      `📈 検証期間の通算リターン: ${walkForward.summary.totalReturnPercent.toFixed(2)}% (${walkForward.summary.profitableWindows}/${windowResults.length} ウィンドウでプラス)`
+    );
+
+    return {
+      bestParameters: lastBest.parameters,
+      bestPerformance: lastOutOfSample,
+      parameterSweep,
+      optimizationMethod: settings.method,
+      objective: settings.objective,
+      totalIterations: parameterSweep.length,
+      bestIteration: lastBest.iteration,
+      walkForward,
+      stability: analyzeParameterStability(
+        windowResults.map((w) => w.parameters),
+        'walkForward'
+      ),
+      createdAt: new Date(),
+    };
   }
 
   /**
-   * パラメータ最適化を実行
+   * 指定期間でパラメータを探索
+   * 候補はシードから決まる順で生成し、結果は通し番号順に並べるため、並列実行でも同じシードなら同じ結果になる
+   * @param iterationOffset 通し番号の開始値（ウォークフォワードで全ウィンドウを通して採番）
    */
-  async optimizeParameters(
-    strategy: TradingStrategy
-  ): Promise<OptimizationResult> {
-    try {
-      console.log('🔄 パラメータ最適化開始...');
+  private async searchParameters(
+    strategy: TradingStrategy,
+    settings: OptimizationOptions,
+    period: DateRange,
+    iterationOffset: number = 0
+  ): Promise<ParameterSweep[]> {
+    const random = createRandom(settings.seed);
+    const space = settings.parameterSpace;
+
+    if (settings.method !== 'BAYESIAN_OPTIMIZATION' || !space) {
+      const candidates =
+        settings.method === 'GRID_SEARCH'
+          ? space
+            ? gridCandidates(space, settings.maxIterations)
+            : Array.from({ length: settings.maxIterations }, (_, i) =>
+                this.generateParameters(i)
+              )
+          : Array.from({ length: settings.maxIterations }, () =>
+              sampleParameters(space!, random)
+            );
+      return this.evaluateBatch(
+        strategy,
+        settings,
+        period,
+        candidates,
+        iterationOffset
+      );
+    }
 
-      const parameterSweep: ParameterSweep[] = [];
-      let bestPerformance: BacktestResult | null = null;
-      let bestParameters: Record<string, any> = {};
-      let bestIteration = 0;
+    // TPE は batchSize 件ずつ提案し、通し番号順に観測を反映する
+    const tpe = new TpeSampler(space, random, {
+      startupTrials: Math.max(
+        3,
+        Math.min(10, Math.floor(settings.maxIterations / 3))
+      ),
+    });
+    const batchSize = Math.max(1, settings.batchSize ?? 1);
+    const sweep: ParameterSweep[] = [];
 
-      // グリッドサーチ（簡略化）
-      const iterations = 10;
+    for (let i = 0; i < settings.maxIterations; i += batchSize) {
+      const candidates = Array.from(
+        { length: Math.min(batchSize, settings.maxIterations - i) },
+        () => tpe.suggest()
+      );
+      const batch = await this.evaluateBatch(
+        strategy,
+        settings,
+        period,
+        candidates,
+        iterationOffset + i
+      );
+      batch.forEach((entry) =>
+        tpe.observe(entry.parameters, entry.score ?? -Infinity)
+      );
+      sweep.push(...batch);
+    }
 
-      for (let i = 0; i < iterations; i++) {
-        try {
-          // パラメータを生成
-          const parameters = this.generateParameters(i);
+    return sweep;
+  }
 
-          // 戦略の設定を更新
-          strategy.updateConfig(parameters);
+  /**
+   * 候補をまとめて評価（ジョブランナーがあればワーカーで並列実行）
+   * 失敗したイテレーションは結果から除く
+   */
+  private async evaluateBatch(
+    strategy: TradingStrategy,
+    settings: OptimizationOptions,
+    period: DateRange,
+    candidates: Array<Record<string, any>>,
+    iterationOffset: number
+  ): Promise<ParameterSweep[]> {
+    const toSweep = (
+      iteration: number,
+      parameters: Record<string, any>,
+      result: BacktestResult
+    ): ParameterSweep => ({
+      parameters,
+      performance: result,
+      iteration,
+      score: this.scoreResult(result, settings.objective),
+    });
 
-          // バックテストを実行
-          const config = { ...this.config, strategy };
-          const backtestEngine = new BacktestEngine(config);
-          const result = await backtestEngine.runBacktest();
+    if (this.cancelRequested) {
+      throw new Error('パラメータ最適化はキャンセルされました');
+    }
 
-          parameterSweep.push({
-            parameters,
-            performance: result,
-            iteration: i,
-          });
+    if (this.jobRunner) {
+      const tasks: BacktestTask[] = candidates.map((parameters, i) => ({
+        iteration: iterationOffset + i,
+        parameters,
+        period,
+      }));
+      const results = await this.jobRunner.run(tasks);
 
-          // 最良のパフォーマンスを更新
-          if (
-            !bestPerformance ||
-            result.performance.totalReturnPercent >
-              bestPerformance.performance.totalReturnPercent
-          ) {
-            bestPerformance = result;
-            bestParameters = parameters;
-            bestIteration = i;
-          }
-        } catch (error) {
-          console.error(`❌ 最適化イテレーションエラー (${i}):`, error);
+      return results.flatMap((entry) => {
+        if (!entry.result) {
+          console.error(
+            `❌ 最適化イテレーションエラー (${entry.iteration}):`,
+            entry.error
+          );
+          return [];
         }
+        // ワーカーの結果には戦略インスタンスが含まれないため補う
+        const result = {
+          ...entry.result,
+          config: { ...entry.result.config, strategy },
+        };
+        return [toSweep(entry.iteration, entry.parameters, result)];
+      });
+    }
+
+    const sweep: ParameterSweep[] = [];
+    for (let i = 0; i < candidates.length; i++) {
+      if (this.cancelRequested) {
+        throw new Error('パラメータ最適化はキャンセルされました');
       }
 
-      if (!bestPerformance) {
-        throw new Error('最適化に失敗しました');
+      const iteration = iterationOffset + i;
+      try {
+        applyStrategyParameters(strategy, candidates[i]);
+        const result = await this.runPeriod(strategy, period);
+        sweep.push(toSweep(iteration, candidates[i], result));
+      } catch (error) {
+        console.error(`❌ 最適化イテレーションエラー (${iteration}):`, error);
+      } finally {
+        this.completedIterations++;
       }
+    }
 
-      console.log('✅ パラメータ最適化完了');
+    return sweep;
+  }
 
-      return {
-        bestParameters,
-        bestPerformance,
-        parameterSweep,
-        optimizationMethod: 'GRID_SEARCH',
-        totalIterations: iterations,
-        bestIteration,
-        createdAt: new Date(),
-      };
-    } catch (error) {
-      console.error('❌ パラメータ最適化エラー:', error);
-      throw error;
-    }
+  /**
+   * 期間を指定してバックテストを実行
+   */
+  private async runPeriod(
+    strategy: TradingStrategy,
+    period: DateRange
+  ): Promise<BacktestResult> {
+    const backtestEngine = new BacktestEngine(
+      {
+        ...this.config,
+        strategy,
+        startDate: period.start,
+        endDate: period.end,
+      },
+      this.sharedSeries ?? undefined
+    );
+    return backtestEngine.runBacktest();
+  }
+
+  /**
+   * 評価指標の値（取引がない場合や値が不正な場合は -Infinity）
+   */
+  private scoreResult(
+    result: BacktestResult,
+    objective: OptimizationObjective
+  ): number {
+    const value = result.performance[objective];
+    return Number.isFinite(value) ? value : -Infinity;
+  }
+
+  private pickBest(sweep: ParameterSweep[]): ParameterSweep | null {
+    return sweep.reduce<ParameterSweep | null>(
+      (best, entry) =>
+        !best || (entry.score ?? -Infinity) > (best.score ?? -Infinity)
+          ? entry
+          : best,
+      null
+    );
   }
 
   /**
@@ -965,10 +1433,19 @@ export class BacktestEngine {
   /**
    * バックテストの状態を取得
    */
-  getStatus(): { running: boolean; progress: number } {
+  getStatus(): BacktestStatus {
+    const total = this.totalIterations;
     return {
       running: this.isRunning,
-      progress: this.isRunning ? 0.5 : 1, // 簡略化
+      progress:
+        total > 0
+          ? Math.min(1, this.completedIterations / total)
+          : this.isRunning
+            ? 0
+            : 1,
+      completedIterations: this.completedIterations,
+      totalIterations: total,
+      cancelled: this.cancelRequested,
     };
   }
 }
@@ -0,0 +1,310 @@
+/**
+ * バックテストジョブランナー
+ * パラメータ探索のバックテストをワーカースレッドに分散して実行する
+ */
+
+import { EventEmitter } from 'events';
+import { createRequire } from 'module';
+import os from 'os';
+import { pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import type { BacktestConfig, BacktestResult } from './backtest-engine';
+import type { OHLCVBar } from './historical-data-replay';
+import { encodeSharedBars, SharedBarData } from './shared-bars';
+import type { DateRange } from './walk-forward';
+
+/**
+ * ワーカーで戦略を生成するためのファクトリ指定
+ * modulePath のモジュールが exportName で (config) => TradingStrategy を公開していること
+ */
+export interface StrategyFactorySpec {
+  modulePath: string; // 絶対パスまたは file: URL
+  exportName: string;
+  config: Record<string, any>; // ファクトリに渡す戦略設定
+}
+
+export interface BacktestJobRunnerOptions {
+  workers?: number; // 既定: CPU数 - 1（最低1）
+  workerScript?: string | URL; // 既定: backtest-worker.ts
+  strategy: StrategyFactorySpec;
+  config: Omit<BacktestConfig, 'strategy'>;
+  series: Map<string, OHLCVBar[]>; // 事前読み込み済みの系列（共有メモリで共有）
+}
+
+export interface BacktestTask {
+  iteration: number;
+  parameters: Record<string, any>;
+  period: DateRange;
+}
+
+export interface BacktestTaskResult {
+  iteration: number;
+  parameters: Record<string, any>;
+  result?: BacktestResult;
+  error?: string;
+}
+
+export interface BacktestJobStatus {
+  running: boolean;
+  workers: number;
+  total: number;
+  completed: number;
+  failed: number;
+  progress: number; // 0-1
+  cancelled: boolean;
+}
+
+export interface BacktestWorkerData {
+  strategy: StrategyFactorySpec;
+  config: Omit<BacktestConfig, 'strategy'>;
+  bars: SharedBarData;
+}
+
+export type BacktestWorkerRequest = { type: 'run'; task: BacktestTask };
+
+export type BacktestWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; iteration: number; result: BacktestResult }
+  | { type: 'error'; iteration: number; error: string };
+
+interface WorkerSlot {
+  worker: Worker;
+  busy: boolean;
+  task?: BacktestTask; // 実行中のタスク
+}
+
+export class BacktestJobRunner extends EventEmitter {
+  private options: BacktestJobRunnerOptions;
+  private slots: WorkerSlot[] = [];
+  private status: BacktestJobStatus;
+  private cancelled: boolean = false;
+  private rejectRun?: (error: Error) => void;
+  private onWorkerExit?: (slot: WorkerSlot, code: number) => void;
+
+  constructor(options: BacktestJobRunnerOptions) {
+    super();
+    this.options = options;
+    this.status = {
+      running: false,
+      workers: this.workerCount(),
+      total: 0,
+      completed: 0,
+      failed: 0,
+      progress: 0,
+      cancelled: false,
+    };
+  }
+
+  /**
+   * ワーカーを起動（系列は共有メモリに一度だけ書き込む）
+   */
+  async start(): Promise<void> {
+    if (this.slots.length > 0) return;
+
+    const workerData: BacktestWorkerData = {
+      strategy: this.options.strategy,
+      config: this.options.config,
+      bars: encodeSharedBars(this.options.series),
+    };
+
+    const script =
+      this.options.workerScript ??
+      new URL('./backtest-worker.ts', import.meta.url);
+    await Promise.all(
+      Array.from({ length: this.workerCount() }, () =>
+        this.spawnWorker(script, workerData)
+      )
+    );
+    console.log(`✅ バックテストワーカー起動: ${this.slots.length}スレッド`);
+  }
+
+  /**
+   * タスクを実行し、イテレーション順に並べた結果を返す
+   * 失敗したタスクは error 付きで返す。キャンセル時は例外を投げる
+   */
+  async run(tasks: BacktestTask[]): Promise<BacktestTaskResult[]> {
+    if (this.cancelled) {
+      throw new Error('バックテストジョブはキャンセルされました');
+    }
+    await this.start();
+
+    this.status = {
+      ...this.status,
+      running: true,
+      total: this.status.total + tasks.length,
+    };
+    const queue = [...tasks];
+    const results: BacktestTaskResult[] = [];
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.rejectRun = reject;
+        let pending = tasks.length;
+        if (pending === 0) resolve();
+
+        const dispatch = (slot: WorkerSlot) => {
+          const task = queue.shift();
+          if (!task) return;
+          slot.busy = true;
+          slot.task = task;
+
+          const onMessage = (message: BacktestWorkerResponse) => {
+            if (message.type === 'ready') return;
+            slot.worker.off('message', onMessage);
+            slot.busy = false;
+            slot.task = undefined;
+
+            if (message.type === 'result') {
+              results.push({
+                iteration: task.iteration,
+                parameters: task.parameters,
+                result: message.result,
+              });
+              this.status.completed++;
+            } else {
+              results.push({
+                iteration: task.iteration,
+                parameters: task.parameters,
+                error: message.error,
+              });
+              this.status.failed++;
+            }
+            this.updateProgress();
+
+            pending--;
+            if (pending === 0) {
+              resolve();
+            } else if (!this.cancelled) {
+              dispatch(slot);
+            }
+          };
+
+          slot.worker.on('message', onMessage);
+          const request: BacktestWorkerRequest = { type: 'run', task };
+          slot.worker.postMessage(request);
+        };
+
+        // ワーカーが異常終了した場合は実行中のタスクを残りのワーカーに回す
+        this.onWorkerExit = (slot, code) => {
+          if (slot.task) queue.unshift(slot.task);
+          if (this.slots.length === 0) {
+            reject(
+              new Error(
+                `バックテストワーカーが全て終了しました (exit code ${code})`
+              )
+            );
+            return;
+          }
+          if (!this.cancelled) {
+            this.slots.filter((idle) => !idle.busy).forEach(dispatch);
+          }
+        };
+
+        this.slots.filter((slot) => !slot.busy).forEach(dispatch);
+      });
+    } finally {
+      this.rejectRun = undefined;
+      this.onWorkerExit = undefined;
+      this.status.running = false;
+    }
+
+    return results.sort((a, b) => a.iteration - b.iteration);
+  }
+
+  /**
+   * 実行中のジョブをキャンセルしてワーカーを停止
+   */
+  async cancel(): Promise<void> {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.status = { ...this.status, cancelled: true, running: false };
+    console.log('🛑 バックテストジョブをキャンセルします');
+    this.rejectRun?.(new Error('バックテストジョブはキャンセルされました'));
+    await this.close();
+    this.emit('cancelled', this.getStatus());
+  }
+
+  /**
+   * ワーカーを停止
+   */
+  async close(): Promise<void> {
+    const slots = this.slots;
+    this.slots = [];
+    await Promise.all(slots.map((slot) => slot.worker.terminate()));
+  }
+
+  getStatus(): BacktestJobStatus {
+    return { ...this.status };
+  }
+
+  private updateProgress(): void {
+    const done = this.status.completed + this.status.failed;
+    this.status.progress = this.status.total > 0 ? done / this.status.total : 0;
+    this.emit('progress', this.getStatus());
+  }
+
+  private workerCount(): number {
+    return Math.max(1, this.options.workers ?? os.cpus().length - 1);
+  }
+
+  /**
+   * ワーカーを起動（.ts のワーカーは tsx のローダーを登録してから読み込む）
+   */
+  private spawnWorker(
+    script: string | URL,
+    workerData: BacktestWorkerData
+  ): Promise<void> {
+    const href = script instanceof URL ? script.href : script;
+    if (!href.endsWith('.ts')) {
+      return this.watchWorker(new Worker(script, { workerData }));
+    }
+
+    // 実行時の作業ディレクトリによらずこのリポジトリの tsx を使う
+    const tsxApi = pathToFileURL(
+      createRequire(import.meta.url).resolve('tsx/esm/api')
+    ).href;
+    const bootstrap = `import(${JSON.stringify(tsxApi)}).then(({ register }) => { register(); return import(${JSON.stringify(href)}); });`;
+    return this.watchWorker(new Worker(bootstrap, { eval: true, workerData }));
+  }
+
+  /**
+   * ワーカーの戦略ファクトリ読み込み完了を待ち、空きスロットに加える
+   * 終了したワーカーはスロットから外す
+   */
+  private watchWorker(worker: Worker): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onReady = (message: BacktestWorkerResponse) => {
+        if (message.type !== 'ready') return;
+        worker.off('message', onReady);
+        this.slots.push({ worker, busy: false });
+        resolve();
+      };
+      worker.on('message', onReady);
+      worker.once('error', (error) => {
+        console.error('❌ バックテストワーカーエラー:', error);
+        reject(error);
+      });
+      worker.once('exit', (code) => {
+        reject(
+          new Error(`バックテストワーカーが終了しました (exit code ${code})`)
+        );
+        this.handleWorkerExit(worker, code);
+      });
+    });
+  }
+
+  /**
+   * close() 以外で終了したワーカーをスロットから外し、実行中のタスクを再投入する
+   */
+  private handleWorkerExit(worker: Worker, code: number): void {
+    const slot = this.slots.find((s) => s.worker === worker);
+    if (!slot) return;
+
+    this.slots = this.slots.filter((s) => s !== slot);
+    this.status.workers = this.slots.length;
+    console.warn(
+      `⚠️ バックテストワーカーが終了しました (exit code ${code}, 残り${this.slots.length}スレッド)`
+    );
+    this.onWorkerExit?.(slot, code);
+  }
+}
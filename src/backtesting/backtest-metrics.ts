@@ -0,0 +1,196 @@
+/**
+ * バックテスト結果の指標計算
+ * BacktestEngine と日中シミュレーションで同じ定義の指標を使う
+ */
+
+import type {
+  BacktestResult,
+  BacktestTrade,
+  DailyReturn,
+  MonthlyReturn,
+} from './backtest-engine';
+
+/**
+ * 月次リターンを計算
+ */
+export function calculateMonthlyReturns(
+  dailyReturns: DailyReturn[]
+): MonthlyReturn[] {
+  const monthlyReturns: MonthlyReturn[] = [];
+  const monthlyData = new Map<string, DailyReturn[]>();
+
+  // 日次データを月ごとにグループ化
+  for (const dailyReturn of dailyReturns) {
+    const monthKey = `${dailyReturn.date.getFullYear()}-${String(dailyReturn.date.getMonth() + 1).padStart(2, '0')}`;
+    if (!monthlyData.has(monthKey)) {
+      monthlyData.set(monthKey, []);
+    }
+    monthlyData.get(monthKey)!.push(dailyReturn);
+  }
+
+  // 月次データを計算
+  for (const [month, dailyData] of monthlyData) {
+    const firstDay = dailyData[0];
+    const lastDay = dailyData[dailyData.length - 1];
+
+    const monthlyReturn = lastDay.cumulativeReturn - firstDay.cumulativeReturn;
+    const monthlyReturnPercent =
+      lastDay.cumulativeReturnPercent - firstDay.cumulativeReturnPercent;
+
+    monthlyReturns.push({
+      month,
+      return: monthlyReturn,
+      returnPercent: monthlyReturnPercent,
+      cumulativeReturn: lastDay.cumulativeReturn,
+      cumulativeReturnPercent: lastDay.cumulativeReturnPercent,
+      portfolioValue: lastDay.portfolioValue,
+      drawdown: lastDay.drawdown,
+      drawdownPercent: lastDay.drawdownPercent,
+    });
+  }
+
+  return monthlyReturns.sort((a, b) => a.month.localeCompare(b.month));
+}
+
+/**
+ * パフォーマンス指標を計算
+ */
+export function calculatePerformanceMetrics(
+  trades: BacktestTrade[],
+  dailyReturns: DailyReturn[],
+  initialCapital: number
+): BacktestResult['performance'] {
+  const totalTrades = trades.length;
+  const winningTrades = trades.filter((t) => t.netPnl > 0).length;
+  const losingTrades = trades.filter((t) => t.netPnl < 0).length;
+
+  const totalReturn =
+    dailyReturns[dailyReturns.length - 1]?.cumulativeReturn || 0;
+  const totalReturnPercent = (totalReturn / initialCapital) * 100;
+
+  const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
+
+  const averageWin =
+    winningTrades > 0
+      ? trades
+          .filter((t) => t.netPnl > 0)
+          .reduce((sum, t) => sum + t.netPnl, 0) / winningTrades
+      : 0;
+  const averageLoss =
+    losingTrades > 0
+      ? trades
+          .filter((t) => t.netPnl < 0)
+          .reduce((sum, t) => sum + t.netPnl, 0) / losingTrades
+      : 0;
+
+  const largestWin =
+    trades.length > 0 ? Math.max(...trades.map((t) => t.netPnl)) : 0;
+  const largestLoss =
+    trades.length > 0 ? Math.min(...trades.map((t) => t.netPnl)) : 0;
+
+  const profitFactor =
+    Math.abs(averageLoss) > 0 ? Math.abs(averageWin / averageLoss) : 0;
+
+  const maxDrawdown = Math.min(...dailyReturns.map((d) => d.drawdown));
+  const maxDrawdownPercent = Math.min(
+    ...dailyReturns.map((d) => d.drawdownPercent)
+  );
+
+  // 年率化リターン（簡略化）
+  const days = dailyReturns.length;
+  const annualizedReturn =
+    days > 0 ? Math.pow(1 + totalReturnPercent / 100, 365 / days) - 1 : 0;
+
+  // シャープレシオ（簡略化）
+  const returns = dailyReturns.map((d) => d.return);
+  const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) /
+    returns.length;
+  const volatility = Math.sqrt(variance);
+  const sharpeRatio = volatility > 0 ? avgReturn / volatility : 0;
+
+  // ソルティノレシオ（簡略化）
+  const negativeReturns = returns.filter((r) => r < 0);
+  const downsideVariance =
+    negativeReturns.reduce((sum, r) => sum + Math.pow(r, 2), 0) /
+    negativeReturns.length;
+  const downsideVolatility = Math.sqrt(downsideVariance);
+  const sortinoRatio =
+    downsideVolatility > 0 ? avgReturn / downsideVolatility : 0;
+
+  // カルマーレシオ
+  const calmarRatio =
+    Math.abs(maxDrawdownPercent) > 0
+      ? annualizedReturn / Math.abs(maxDrawdownPercent)
+      : 0;
+
+  // 平均取引期間
+  const averageTradeDuration =
+    totalTrades > 0
+      ? trades.reduce((sum, t) => sum + t.duration, 0) / totalTrades
+      : 0;
+
+  return {
+    totalReturn,
+    totalReturnPercent,
+    annualizedReturn,
+    sharpeRatio,
+    sortinoRatio,
+    maxDrawdown,
+    maxDrawdownPercent,
+    calmarRatio,
+    winRate,
+    profitFactor,
+    averageWin,
+    averageLoss,
+    largestWin,
+    largestLoss,
+    totalTrades,
+    winningTrades,
+    losingTrades,
+    averageTradeDuration,
+  };
+}
+
+/**
+ * リスク指標を計算
+ */
+export function calculateRiskMetrics(
+  dailyReturns: DailyReturn[],
+  trades: BacktestTrade[]
+): BacktestResult['riskMetrics'] {
+  const returns = dailyReturns.map((d) => d.return);
+  const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) /
+    returns.length;
+  const volatility = Math.sqrt(variance);
+
+  // VaR計算（簡略化）
+  const sortedReturns = returns.sort((a, b) => a - b);
+  const var95Index = Math.floor(sortedReturns.length * 0.05);
+  const var99Index = Math.floor(sortedReturns.length * 0.01);
+  const var95 = sortedReturns[var95Index] || 0;
+  const var99 = sortedReturns[var99Index] || 0;
+
+  // CVaR計算（簡略化）
+  const cvar95 =
+    sortedReturns.slice(0, var95Index + 1).reduce((sum, r) => sum + r, 0) /
+    (var95Index + 1);
+  const cvar99 =
+    sortedReturns.slice(0, var99Index + 1).reduce((sum, r) => sum + r, 0) /
+    (var99Index + 1);
+
+  return {
+    volatility,
+    beta: 1, // 簡略化
+    alpha: 0, // 簡略化
+    informationRatio: 0, // 簡略化
+    treynorRatio: 0, // 簡略化
+    var95,
+    var99,
+    cvar95,
+    cvar99,
+  };
+}
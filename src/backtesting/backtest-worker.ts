@@ -0,0 +1,79 @@
+/**
+ * バックテストワーカー
+ * BacktestJobRunner から起動され、共有メモリのバーデータでバックテストを実行する
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { pathToFileURL } from 'url';
+import { BacktestEngine } from './backtest-engine';
+import type {
+  BacktestWorkerData,
+  BacktestWorkerRequest,
+  BacktestWorkerResponse,
+} from './backtest-job-runner';
+import { applyStrategyParameters } from './parameter-search';
+import { decodeSharedBars } from './shared-bars';
+import type { TradingStrategy } from '../strategies/trading-strategy';
+
+type StrategyFactory = (config: Record<string, any>) => TradingStrategy;
+
+async function main(): Promise<void> {
+  const data = workerData as BacktestWorkerData;
+  const series = decodeSharedBars(data.bars);
+
+  const modulePath = data.strategy.modulePath;
+  const factoryModule = await import(
+    modulePath.startsWith('file:') ? modulePath : pathToFileURL(modulePath).href
+  );
+  const factory = factoryModule[data.strategy.exportName] as StrategyFactory;
+  if (typeof factory !== 'function') {
+    throw new Error(
+      `戦略ファクトリが見つかりません: ${data.strategy.exportName}`
+    );
+  }
+
+  const reply = (message: BacktestWorkerResponse) =>
+    parentPort!.postMessage(message);
+
+  parentPort!.on('message', async (request: BacktestWorkerRequest) => {
+    if (request.type !== 'run') return;
+    const { task } = request;
+
+    try {
+      const strategy = factory(data.strategy.config);
+      applyStrategyParameters(strategy, task.parameters);
+
+      const engine = new BacktestEngine(
+        {
+          ...data.config,
+          strategy,
+          startDate: task.period.start,
+          endDate: task.period.end,
+        },
+        series
+      );
+      const result = await engine.runBacktest();
+
+      // 戦略インスタンスは転送できないため設定から外す
+      const { strategy: _strategy, ...config } = result.config;
+      reply({
+        type: 'result',
+        iteration: task.iteration,
+        result: { ...result, config: config as typeof result.config },
+      });
+    } catch (error) {
+      reply({
+        type: 'error',
+        iteration: task.iteration,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  reply({ type: 'ready' });
+}
+
+main().catch((error) => {
+  console.error('❌ バックテストワーカー初期化エラー:', error);
+  throw error;
+});
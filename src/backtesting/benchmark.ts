@@ -0,0 +1,249 @@
+/**
+ * ベンチマーク比較
+ * 戦略の資産推移とベンチマーク（指数・為替・取引銘柄のバイ・アンド・ホールド）を日次リターンで比較する
+ */
+
+import {
+  alignSeries,
+  calculateBeta,
+  PricePoint,
+  toReturns,
+} from '../services/portfolio-risk';
+import type { BenchmarkComparison } from './backtest-engine';
+import type { OHLCVBar } from './historical-data-replay';
+
+export type BenchmarkName =
+  | 'SPY'
+  | 'N225'
+  | 'TOPIX'
+  | 'USDJPY'
+  | 'BUY_AND_HOLD';
+
+/**
+ * ベンチマークの定義
+ * symbol: バックテストと同じデータソースから日足を取得
+ * buy_and_hold: 取引対象銘柄を期間初日に等金額で買い持ちした場合
+ */
+export type BenchmarkSpec =
+  | {
+      kind: 'symbol';
+      name: string;
+      symbol: string;
+      market: 'FX' | 'US' | 'JP';
+    }
+  | { kind: 'buy_and_hold'; name: string };
+
+// TOPIX は指数の代わりに連動ETF（1306）を使う
+export const BENCHMARK_PRESETS: Record<BenchmarkName, BenchmarkSpec> = {
+  SPY: { kind: 'symbol', name: 'SPY', symbol: 'SPY', market: 'US' },
+  N225: { kind: 'symbol', name: '日経平均', symbol: '^N225', market: 'JP' },
+  TOPIX: { kind: 'symbol', name: 'TOPIX', symbol: '1306', market: 'JP' },
+  USDJPY: { kind: 'symbol', name: 'USD/JPY', symbol: 'USDJPY', market: 'FX' },
+  BUY_AND_HOLD: {
+    kind: 'buy_and_hold',
+    name: '取引銘柄バイ・アンド・ホールド',
+  },
+};
+
+export interface BenchmarkOptions {
+  riskFreeRate: number; // 年率（例: 0.01 = 1%）
+  rollingWindow: number; // ローリングβ・αの日数
+  periodsPerYear: number;
+}
+
+export const DEFAULT_BENCHMARK_OPTIONS: BenchmarkOptions = {
+  riskFreeRate: 0,
+  rollingWindow: 20,
+  periodsPerYear: 252,
+};
+
+/**
+ * 名前または定義からベンチマークを解決
+ */
+export function resolveBenchmark(
+  benchmark: BenchmarkName | BenchmarkSpec
+): BenchmarkSpec {
+  if (typeof benchmark !== 'string') return benchmark;
+  const spec = BENCHMARK_PRESETS[benchmark];
+  if (!spec) {
+    throw new Error(`未対応のベンチマークです: ${benchmark}`);
+  }
+  return spec;
+}
+
+/**
+ * 取引日（UTC の日付）の始まり
+ */
+function dayStart(date: Date): number {
+  const time = new Date(date).getTime();
+  return time - (((time % 86400000) + 86400000) % 86400000);
+}
+
+/**
+ * 日中足を含む価格系列を取引日ごとの最終値に変換（昇順）
+ */
+export function toDailyCloses(
+  points: Array<{ date: Date; close: number }>
+): PricePoint[] {
+  const byDay = new Map<number, { time: number; close: number }>();
+  for (const point of points) {
+    const time = new Date(point.date).getTime();
+    const day = dayStart(point.date);
+    const current = byDay.get(day);
+    if (!current || time >= current.time) {
+      byDay.set(day, { time, close: point.close });
+    }
+  }
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([day, { close }]) => ({ date: new Date(day), close }));
+}
+
+/**
+ * 取引銘柄を期間初日に等金額で買い持ちした場合の価値（初日 = 1）
+ * 全銘柄の価格が揃う日のみを使う
+ */
+export function buyAndHoldSeries(
+  series: Map<string, OHLCVBar[]>,
+  startDate: Date,
+  endDate: Date
+): PricePoint[] {
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+  const daily: Record<string, PricePoint[]> = {};
+  for (const [key, bars] of series) {
+    const inPeriod = bars.filter((bar) => {
+      const time = new Date(bar.date).getTime();
+      return time >= start && time <= end;
+    });
+    if (inPeriod.length > 0) daily[key] = toDailyCloses(inPeriod);
+  }
+
+  const { dates, closes } = alignSeries(daily);
+  const keys = Object.keys(closes);
+  if (dates.length === 0 || keys.length === 0) return [];
+
+  return dates.map((date, i) => ({
+    date,
+    close:
+      keys.reduce((sum, key) => sum + closes[key][i] / closes[key][0], 0) /
+      keys.length,
+  }));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(
+    values.reduce((sum, value) => sum + (value - avg) ** 2, 0) /
+      (values.length - 1)
+  );
+}
+
+function correlation(a: number[], b: number[]): number {
+  const sa = standardDeviation(a);
+  const sb = standardDeviation(b);
+  if (sa === 0 || sb === 0) return 0;
+  const ma = mean(a);
+  const mb = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - ma) * (b[i] - mb);
+  }
+  return sum / (a.length - 1) / (sa * sb);
+}
+
+/**
+ * ジェンセンのα（年率、%）
+ */
+function jensenAlpha(
+  returns: number[],
+  benchmarkReturns: number[],
+  beta: number,
+  options: BenchmarkOptions
+): number {
+  const riskFree = options.riskFreeRate / options.periodsPerYear;
+  return (
+    (mean(returns) - riskFree - beta * (mean(benchmarkReturns) - riskFree)) *
+    options.periodsPerYear *
+    100
+  );
+}
+
+/**
+ * 戦略の資産推移とベンチマーク価格を共通の取引日で揃えて比較指標を計算
+ * @param equity 戦略の資産推移（日中足の場合も各日の最終値を使う）
+ * @param benchmarkPrices ベンチマークの価格系列
+ * @returns 共通の取引日が2日未満の場合は null
+ */
+export function compareWithBenchmark(
+  name: string,
+  equity: PricePoint[],
+  benchmarkPrices: PricePoint[],
+  options: Partial<BenchmarkOptions> = {}
+): BenchmarkComparison | null {
+  const settings = { ...DEFAULT_BENCHMARK_OPTIONS, ...options };
+  const { dates, closes } = alignSeries({
+    strategy: toDailyCloses(equity),
+    benchmark: toDailyCloses(benchmarkPrices),
+  });
+  if (dates.length < 2) return null;
+
+  const strategyCloses = closes.strategy;
+  const benchmarkCloses = closes.benchmark;
+  const returns = toReturns(strategyCloses);
+  const benchmarkReturns = toReturns(benchmarkCloses);
+  const active = returns.map((r, i) => r - benchmarkReturns[i]);
+
+  const strategyReturn =
+    (strategyCloses[strategyCloses.length - 1] / strategyCloses[0] - 1) * 100;
+  const benchmarkReturn =
+    (benchmarkCloses[benchmarkCloses.length - 1] / benchmarkCloses[0] - 1) *
+    100;
+
+  const annualization = Math.sqrt(settings.periodsPerYear);
+  const activeStd = standardDeviation(active);
+  const beta = calculateBeta(returns, benchmarkReturns) ?? 0;
+  const annualizedExcess =
+    (mean(returns) - settings.riskFreeRate / settings.periodsPerYear) *
+    settings.periodsPerYear;
+
+  // ローリングβ・α（リターン i は dates[i + 1] の値）
+  const rolling: BenchmarkComparison['rolling'] = [];
+  for (let end = settings.rollingWindow; end <= returns.length; end++) {
+    const window = returns.slice(end - settings.rollingWindow, end);
+    const benchmarkWindow = benchmarkReturns.slice(
+      end - settings.rollingWindow,
+      end
+    );
+    const windowBeta = calculateBeta(window, benchmarkWindow) ?? 0;
+    rolling.push({
+      date: dates[end],
+      beta: windowBeta,
+      alpha: jensenAlpha(window, benchmarkWindow, windowBeta, settings),
+    });
+  }
+
+  return {
+    benchmark: name,
+    strategyReturn,
+    benchmarkReturn,
+    excessReturn: strategyReturn - benchmarkReturn,
+    trackingError: activeStd * annualization * 100,
+    informationRatio:
+      activeStd > 0 ? (mean(active) / activeStd) * annualization : 0,
+    beta,
+    alpha: jensenAlpha(returns, benchmarkReturns, beta, settings),
+    correlation: correlation(returns, benchmarkReturns),
+    treynorRatio: beta !== 0 ? annualizedExcess / beta : 0,
+    observations: returns.length,
+    rollingWindow: settings.rollingWindow,
+    rolling,
+  };
+}
@@ -0,0 +1,464 @@
+/**
+ * 日中シミュレーション用のリプレイサービス
+ * 保存済みの分足・記録済みシグナルを仮想時計の時刻で返し、スケジューラーの依存先を置き換える
+ */
+
+import { EventEmitter } from 'events';
+import {
+  BrokerAccount,
+  BrokerOrder,
+  BrokerPosition,
+} from '../brokers/broker-integration-service';
+import {
+  ISignalService,
+  TradingSignal,
+} from '../services/external-signals/base-signal-service';
+import {
+  LocalMarketDataStore,
+  StoredBar,
+} from '../services/local-market-data-store';
+import { SignalRecord } from '../services/signal-outcome-store';
+import {
+  SchedulerClock,
+  toZonedDateKey,
+  zonedTimeOn,
+} from '../trading/scheduler-clock';
+import { Logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_BAR_MS = 60 * 1000; // 分足の期間（バーの日時は開始時刻）
+
+/**
+ * 読み込み済みの日中データ
+ */
+export interface IntradayDataSet {
+  timezone: string;
+  minuteBars: Map<string, StoredBar[]>; // 銘柄ごとの分足（昇順）
+  dailyBars: Map<string, StoredBar[]>; // 銘柄ごとの日足（昇順、日付は UTC の 0:00）
+  tradingDays: string[]; // 分足がある日（YYYY-MM-DD、取引所のタイムゾーン基準）
+}
+
+/**
+ * 時点指定の気配
+ */
+export interface ReplayQuote {
+  symbol: string;
+  price: number;
+  bid: number;
+  ask: number;
+  volume: number; // 当日の累計出来高
+  high: number;
+  low: number;
+  open: number;
+  previousClose: number;
+  change: number;
+  changePercent: number;
+  timestamp: Date;
+}
+
+/**
+ * 分足・日足を保存先から読み込む
+ * 日足が保存されていない銘柄は分足から作成する
+ */
+export async function loadIntradayData(
+  store: LocalMarketDataStore,
+  symbols: string[],
+  market: string,
+  startDate: Date,
+  endDate: Date,
+  historyDays: number,
+  timezone: string
+): Promise<IntradayDataSet> {
+  const logger = new Logger('IntradayDataLoader');
+  const historyStart = new Date(startDate.getTime() - historyDays * DAY_MS);
+  const minuteBars = new Map<string, StoredBar[]>();
+  const dailyBars = new Map<string, StoredBar[]>();
+  const days = new Set<string>();
+
+  for (const symbol of symbols) {
+    const minutes = await store.readRange(
+      { symbol, market, timeframe: '1m' },
+      historyStart,
+      endDate
+    );
+    if (minutes.length === 0) {
+      logger.warn(`⚠️ 分足がありません: ${symbol}_${market}`);
+      continue;
+    }
+    const stored = await store.readRange(
+      { symbol, market, timeframe: '1d' },
+      historyStart,
+      endDate
+    );
+
+    minuteBars.set(symbol, minutes);
+    dailyBars.set(
+      symbol,
+      stored.length > 0 ? stored : aggregateDaily(minutes, timezone)
+    );
+    minutes
+      .filter((bar) => bar.date.getTime() >= startDate.getTime())
+      .forEach((bar) => days.add(toZonedDateKey(bar.date, timezone)));
+  }
+
+  const tradingDays = Array.from(days).sort();
+  logger.info(
+    `✅ 日中データ読み込み完了: ${minuteBars.size}銘柄 / ${tradingDays.length}営業日`
+  );
+  return { timezone, minuteBars, dailyBars, tradingDays };
+}
+
+/**
+ * 分足から日足を作成（日付は取引所の暦日の UTC 0:00 で、保存済み日足と揃える）
+ */
+function aggregateDaily(bars: StoredBar[], timezone: string): StoredBar[] {
+  const daily = new Map<string, StoredBar>();
+  for (const bar of bars) {
+    const key = toZonedDateKey(bar.date, timezone);
+    const day = daily.get(key);
+    if (!day) {
+      daily.set(key, { ...bar, date: new Date(`${key}T00:00:00.000Z`) });
+      continue;
+    }
+    day.high = Math.max(day.high, bar.high);
+    day.low = Math.min(day.low, bar.low);
+    day.close = bar.close;
+    day.volume += bar.volume;
+  }
+  return Array.from(daily.values());
+}
+
+/**
+ * 日足の日付キー（YYYY-MM-DD）
+ */
+function dailyKey(bar: StoredBar): string {
+  return bar.date.toISOString().slice(0, 10);
+}
+
+/**
+ * 時刻以前で最後のバーの位置（なければ -1）
+ */
+function lastIndexAtOrBefore(bars: StoredBar[], time: number): number {
+  let low = 0;
+  let high = bars.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (bars[mid].date.getTime() <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * 時刻までに確定した（開始時刻＋期間が時刻以前の）最後の分足の位置（なければ -1）
+ */
+function lastCompletedMinuteIndex(bars: StoredBar[], time: number): number {
+  return lastIndexAtOrBefore(bars, time - MINUTE_BAR_MS);
+}
+
+/**
+ * 市場データのリプレイ（HybridMarketDataService の代替）
+ * 仮想時計の時刻までに確定したバーだけを返す
+ */
+export class ReplayMarketDataService {
+  private data: IntradayDataSet;
+  private clock: SchedulerClock;
+
+  constructor(data: IntradayDataSet, clock: SchedulerClock) {
+    this.data = data;
+    this.clock = clock;
+  }
+
+  /**
+   * 現在の気配（確定済みの分足から作る。当日まだ取引がない場合は直近の終値・出来高0）
+   */
+  async getMarketData(symbol: string): Promise<ReplayQuote> {
+    const bars = this.data.minuteBars.get(symbol);
+    const now = this.clock.now();
+    const index = bars ? lastCompletedMinuteIndex(bars, now.getTime()) : -1;
+    if (!bars || index < 0) {
+      throw new Error(`価格データがありません: ${symbol}`);
+    }
+
+    const last = bars[index];
+    const today = toZonedDateKey(now, this.data.timezone);
+    const dayStart = zonedTimeOn(now, '00:00', this.data.timezone).getTime();
+    const session = bars.slice(
+      lastIndexAtOrBefore(bars, dayStart - 1) + 1,
+      index + 1
+    );
+
+    const previousClose = this.getPreviousClose(symbol, today) ?? last.close;
+    const price = last.close;
+    return {
+      symbol,
+      price,
+      bid: price,
+      ask: price,
+      volume: session.reduce((sum, bar) => sum + bar.volume, 0),
+      high:
+        session.length > 0 ? Math.max(...session.map((b) => b.high)) : price,
+      low: session.length > 0 ? Math.min(...session.map((b) => b.low)) : price,
+      open: session[0]?.open ?? price,
+      previousClose,
+      change: price - previousClose,
+      changePercent:
+        previousClose > 0 ? ((price - previousClose) / previousClose) * 100 : 0,
+      timestamp: last.date,
+    };
+  }
+
+  /**
+   * 日足の履歴（当日分は未確定のため含めない）
+   */
+  async getHistoricalData(
+    symbol: string,
+    startDate: Date | string,
+    endDate: Date | string = this.clock.now()
+  ): Promise<Array<StoredBar & { adjustedClose: number }>> {
+    const today = toZonedDateKey(this.clock.now(), this.data.timezone);
+    const start = new Date(startDate).getTime();
+    const end = Math.min(
+      new Date(endDate).getTime(),
+      this.clock.now().getTime()
+    );
+
+    return (this.data.dailyBars.get(symbol) ?? [])
+      .filter(
+        (bar) =>
+          bar.date.getTime() >= start &&
+          bar.date.getTime() <= end &&
+          dailyKey(bar) < today
+      )
+      .map((bar) => ({ ...bar, adjustedClose: bar.close }));
+  }
+
+  /**
+   * 現在価格（直前に確定した分足の終値。データがなければ null）
+   */
+  getCurrentPrice(symbol: string): number | null {
+    const bars = this.data.minuteBars.get(symbol);
+    if (!bars) return null;
+    const index = lastCompletedMinuteIndex(bars, this.clock.now().getTime());
+    return index >= 0 ? bars[index].close : null;
+  }
+
+  private getPreviousClose(symbol: string, today: string): number | null {
+    const daily = this.data.dailyBars.get(symbol) ?? [];
+    for (let i = daily.length - 1; i >= 0; i--) {
+      if (dailyKey(daily[i]) < today) {
+        return daily[i].close;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * 約定記録
+ */
+export interface SimulatedFill {
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  time: Date;
+}
+
+/**
+ * 模擬ブローカー（InteractiveBrokersIntegration の代替）
+ * 成行注文をその時点の価格で即時約定させる（約定済みの注文を返すため orderUpdated は発行しない）
+ * 手数料・スリッページはレポート側で計上する
+ */
+export class SimulatedBroker extends EventEmitter {
+  private marketData: ReplayMarketDataService;
+  private clock: SchedulerClock;
+  private holdings: Map<string, { quantity: number; averagePrice: number }> =
+    new Map();
+  private fills: SimulatedFill[] = [];
+  private sequence: number = 0;
+  private cash: number;
+
+  /**
+   * @param initialCash 初期資金（口座評価額の算出に使う）
+   */
+  constructor(
+    marketData: ReplayMarketDataService,
+    clock: SchedulerClock,
+    initialCash: number = 0
+  ) {
+    super();
+    this.marketData = marketData;
+    this.clock = clock;
+    this.cash = initialCash;
+  }
+
+  async placeOrder(orderRequest: {
+    symbol: string;
+    side: 'buy' | 'sell';
+    quantity: number;
+    price?: number;
+    type: 'market' | 'limit' | 'stop' | 'stop_limit';
+  }): Promise<BrokerOrder> {
+    if (orderRequest.type !== 'market') {
+      throw new Error(`未対応の注文種別です: ${orderRequest.type}`);
+    }
+    const price = this.marketData.getCurrentPrice(orderRequest.symbol);
+    if (price === null) {
+      throw new Error(`約定価格がありません: ${orderRequest.symbol}`);
+    }
+
+    const holding = this.holdings.get(orderRequest.symbol) ?? {
+      quantity: 0,
+      averagePrice: 0,
+    };
+    if (orderRequest.side === 'buy') {
+      holding.averagePrice =
+        (holding.averagePrice * holding.quantity +
+          price * orderRequest.quantity) /
+        (holding.quantity + orderRequest.quantity);
+      holding.quantity += orderRequest.quantity;
+    } else {
+      if (orderRequest.quantity > holding.quantity) {
+        throw new Error(
+          `保有数量を超える売り注文です: ${orderRequest.symbol} ${orderRequest.quantity}/${holding.quantity}`
+        );
+      }
+      holding.quantity -= orderRequest.quantity;
+    }
+    this.cash +=
+      (orderRequest.side === 'buy' ? -1 : 1) * price * orderRequest.quantity;
+    if (holding.quantity > 0) {
+      this.holdings.set(orderRequest.symbol, holding);
+    } else {
+      this.holdings.delete(orderRequest.symbol);
+    }
+
+    const fill: SimulatedFill = {
+      orderId: `SIM-${++this.sequence}`,
+      symbol: orderRequest.symbol,
+      side: orderRequest.side,
+      quantity: orderRequest.quantity,
+      price,
+      time: this.clock.now(),
+    };
+    this.fills.push(fill);
+
+    return {
+      orderId: fill.orderId,
+      symbol: fill.symbol,
+      side: fill.side,
+      quantity: fill.quantity,
+      price,
+      type: 'market',
+      status: 'filled',
+      timestamp: fill.time,
+      filledQuantity: fill.quantity,
+      averagePrice: price,
+    };
+  }
+
+  async getPositions(): Promise<BrokerPosition[]> {
+    return Array.from(this.holdings.entries()).map(([symbol, holding]) => {
+      const currentPrice =
+        this.marketData.getCurrentPrice(symbol) ?? holding.averagePrice;
+      return {
+        symbol,
+        side: 'long',
+        quantity: holding.quantity,
+        entryPrice: holding.averagePrice,
+        currentPrice,
+        unrealizedPnL: (currentPrice - holding.averagePrice) * holding.quantity,
+        marginUsed: 0,
+      };
+    });
+  }
+
+  async getAccount(): Promise<BrokerAccount> {
+    const positions = await this.getPositions();
+    return {
+      accountId: 'SIMULATED',
+      balance: this.cash,
+      currency: 'USD',
+      marginAvailable: this.cash,
+      marginUsed: 0,
+      positions,
+      orders: [],
+    };
+  }
+
+  getFills(): SimulatedFill[] {
+    return [...this.fills];
+  }
+}
+
+/**
+ * 記録済みシグナルのリプレイ（1ソース分）
+ * 仮想時計の時刻以前で最新の記録を返す。maxAgeMinutes より古い記録は使わない
+ */
+export class RecordedSignalService implements ISignalService {
+  name: string;
+  private records: Map<string, SignalRecord[]> = new Map();
+  private clock: SchedulerClock;
+  private maxAgeMs: number;
+
+  constructor(
+    name: string,
+    records: SignalRecord[],
+    clock: SchedulerClock,
+    maxAgeMinutes: number
+  ) {
+    this.name = name;
+    this.clock = clock;
+    this.maxAgeMs = maxAgeMinutes * 60 * 1000;
+
+    for (const record of records.filter((r) => r.source === name)) {
+      const list = this.records.get(record.symbol) ?? [];
+      list.push(record);
+      this.records.set(record.symbol, list);
+    }
+    this.records.forEach((list) =>
+      list.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    );
+  }
+
+  /**
+   * 記録に含まれるソース名の一覧
+   */
+  static sourcesOf(records: SignalRecord[]): string[] {
+    return Array.from(new Set(records.map((r) => r.source))).sort();
+  }
+
+  async getSignal(symbol: string): Promise<TradingSignal> {
+    const now = this.clock.now().getTime();
+    const list = this.records.get(symbol) ?? [];
+
+    let latest: SignalRecord | null = null;
+    for (const record of list) {
+      if (record.timestamp.getTime() > now) break;
+      latest = record;
+    }
+    if (!latest || now - latest.timestamp.getTime() > this.maxAgeMs) {
+      throw new Error(`記録されたシグナルがありません: ${this.name} ${symbol}`);
+    }
+
+    return {
+      source: latest.source,
+      symbol,
+      signal: latest.signal,
+      confidence: latest.confidence,
+      reason: '記録済みシグナル',
+      timestamp: latest.timestamp,
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
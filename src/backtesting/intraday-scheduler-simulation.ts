@@ -0,0 +1,454 @@
+/**
+ * デイトレードスケジューラーの日中シミュレーション
+ * 実際の DayTradingScheduler を仮想時計で動かし、保存済みの分足と記録済みシグナルで検証パターンを再現する
+ */
+
+import { EventEmitter } from 'events';
+import { rm } from 'fs/promises';
+import path from 'path';
+import type {
+  BacktestConfig,
+  BacktestPosition,
+  BacktestResult,
+  BacktestTrade,
+  DailyReturn,
+} from './backtest-engine';
+import {
+  calculateMonthlyReturns,
+  calculatePerformanceMetrics,
+  calculateRiskMetrics,
+} from './backtest-metrics';
+import {
+  IntradayDataSet,
+  loadIntradayData,
+  RecordedSignalService,
+  ReplayMarketDataService,
+  SimulatedBroker,
+} from './intraday-replay-services';
+import { InteractiveBrokersIntegration } from '../brokers/interactive-brokers-integration';
+import { DayTradingConfig } from '../config/day-trading-config';
+import {
+  VerificationPattern,
+  verificationPatterns,
+} from '../config/verification-trading-config';
+import { loadUniverse } from '../screening/universe-loader';
+import { StockScreener } from '../screening/stock-screener';
+import { HybridMarketDataService } from '../services/hybrid-market-data-service';
+import { LocalMarketDataStore } from '../services/local-market-data-store';
+import { SignalAggregatorService } from '../services/signal-aggregator-service';
+import {
+  SignalOutcomeStore,
+  SignalRecord,
+} from '../services/signal-outcome-store';
+import {
+  DayTradingScheduler,
+  TradeHistory,
+} from '../trading/day-trading-scheduler';
+import { VirtualClock, zonedTimeOn } from '../trading/scheduler-clock';
+import { Logger } from '../utils/logger';
+
+const DEFAULT_UNIVERSE_FILE = './data/universes/default-watchlist.csv';
+
+export interface IntradaySimulationConfig {
+  startDate: Date;
+  endDate: Date;
+  patterns: VerificationPattern[];
+  initialCapital: number;
+  commission: number; // 約定代金に対する率（片道）
+  slippage: number; // 約定代金に対する率（片道）
+  market: BacktestTrade['market']; // 保存済みデータの市場
+  marketDataDir: string; // LocalMarketDataStore の保存先
+  signalRecordsFile: string; // SignalOutcomeStore の記録ファイル
+  universeFile?: string; // 未指定時は各パターンの screening.universe
+  maxSignalAgeMinutes: number; // これより古い記録済みシグナルは使わない
+  minSources: number; // シグナル集約の最小ソース数
+  sessionClose: string; // 取引終了時刻（HH:MM、この時点で日次の評価額を記録）
+  historyDays: number; // 日足の履歴（ATR・相関・スクリーニング用）
+  outputDir: string; // スクリーナーのスナップショット等の作業ディレクトリ
+}
+
+const DEFAULT_CONFIG: Omit<IntradaySimulationConfig, 'startDate' | 'endDate'> =
+  {
+    patterns: ['conservative', 'standard', 'aggressive'],
+    initialCapital: 100000,
+    commission: 0.0005,
+    slippage: 0.0005,
+    market: 'US',
+    marketDataDir: './data/market-data',
+    signalRecordsFile: './data/signal-outcomes/signals.jsonl',
+    maxSignalAgeMinutes: 24 * 60,
+    minSources: 1,
+    sessionClose: '16:00',
+    historyDays: 120,
+    outputDir: './data/simulation',
+  };
+
+/**
+ * 検証パターンごとのシミュレーション結果（BacktestResult と同じ指標）
+ */
+export interface IntradaySimulationReport
+  extends Omit<BacktestResult, 'config'> {
+  pattern: VerificationPattern;
+  patternName: string;
+  config: Omit<BacktestConfig, 'strategy'>;
+  dayTradingConfig: DayTradingConfig;
+  tradingDays: number;
+  schedulerTrades: TradeHistory[]; // スケジューラーが記録した取引履歴
+}
+
+/**
+ * 日中シミュレーション
+ */
+export class IntradaySchedulerSimulation extends EventEmitter {
+  private logger: Logger;
+  private config: IntradaySimulationConfig;
+  private dataCache: Map<string, IntradayDataSet> = new Map();
+
+  constructor(
+    config: Partial<IntradaySimulationConfig> &
+      Pick<IntradaySimulationConfig, 'startDate' | 'endDate'>
+  ) {
+    super();
+    this.logger = new Logger('IntradaySchedulerSimulation');
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 全パターンを順に実行
+   */
+  async run(): Promise<IntradaySimulationReport[]> {
+    const store = new SignalOutcomeStore({
+      filePath: this.config.signalRecordsFile,
+    });
+    await store.load();
+    const records = store.getRecords();
+    this.logger.info(
+      `📂 記録済みシグナル: ${records.length}件 (${RecordedSignalService.sourcesOf(records).join(', ') || 'なし'})`
+    );
+
+    const reports: IntradaySimulationReport[] = [];
+    for (const pattern of this.config.patterns) {
+      reports.push(await this.runPattern(pattern, records));
+    }
+    return reports;
+  }
+
+  /**
+   * 1パターンのシミュレーション
+   */
+  async runPattern(
+    pattern: VerificationPattern,
+    records: SignalRecord[]
+  ): Promise<IntradaySimulationReport> {
+    const { config: base, name } = verificationPatterns[pattern];
+    const universeFile =
+      this.config.universeFile ??
+      base.screening.universe ??
+      DEFAULT_UNIVERSE_FILE;
+    const dayTradingConfig: DayTradingConfig = {
+      ...base,
+      screening: { ...base.screening, universe: universeFile },
+      trading: {
+        ...base.trading,
+        enabled: true,
+        paperTrading: true,
+        confirmBeforeTrade: false,
+      },
+    };
+    const timezone = dayTradingConfig.schedule.timezone;
+
+    this.logger.info(`🔄 シミュレーション開始: ${name} (${pattern})`);
+    const data = await this.loadData(universeFile, timezone);
+    if (data.tradingDays.length === 0) {
+      throw new Error('シミュレーション期間の分足がありません');
+    }
+
+    const clock = new VirtualClock(
+      zonedTimeOn(this.config.startDate, '00:00', timezone),
+      timezone
+    );
+    const marketData = new ReplayMarketDataService(data, clock);
+    const broker = new SimulatedBroker(
+      marketData,
+      clock,
+      this.config.initialCapital
+    );
+    const signalAggregator = new SignalAggregatorService(
+      RecordedSignalService.sourcesOf(records).map(
+        (source) =>
+          new RecordedSignalService(
+            source,
+            records,
+            clock,
+            this.config.maxSignalAgeMinutes
+          )
+      ),
+      {
+        requiredVoteRatio: dayTradingConfig.requiredVoteRatio,
+        minSources: this.config.minSources,
+        timeout: 1000,
+      }
+    );
+
+    // スナップショットは前回の実行結果を使わない
+    const screenerDir = path.join(this.config.outputDir, 'screener', pattern);
+    await rm(screenerDir, { recursive: true, force: true });
+    const screener = new StockScreener(marketData, { cacheDir: screenerDir });
+
+    const scheduler = new DayTradingScheduler(
+      dayTradingConfig,
+      signalAggregator,
+      marketData as unknown as HybridMarketDataService,
+      broker as unknown as InteractiveBrokersIntegration,
+      undefined,
+      undefined,
+      clock,
+      screener
+    );
+    scheduler.on('error', (error) =>
+      this.logger.warn(`⚠️ スケジューラーエラー (${pattern}):`, error)
+    );
+
+    const closes: Array<{ date: Date; unrealized: number }> = [];
+    await scheduler.start();
+    try {
+      for (const day of data.tradingDays) {
+        const close = zonedTimeOn(
+          new Date(`${day}T12:00:00.000Z`),
+          this.config.sessionClose,
+          timezone
+        );
+        await clock.advanceTo(close);
+
+        const unrealized = scheduler
+          .getPositions()
+          .reduce(
+            (sum, p) =>
+              sum +
+              ((marketData.getCurrentPrice(p.symbol) ?? p.currentPrice) -
+                p.entryPrice) *
+                p.quantity,
+            0
+          );
+        closes.push({ date: close, unrealized });
+        this.emit('dayCompleted', { pattern, date: day, unrealized });
+      }
+    } finally {
+      await scheduler.stop();
+    }
+
+    const report = this.buildReport(
+      pattern,
+      name,
+      dayTradingConfig,
+      scheduler,
+      closes
+    );
+    this.logger.info(
+      `✅ シミュレーション完了: ${name} リターン ${report.performance.totalReturnPercent.toFixed(2)}% / 取引 ${report.performance.totalTrades}回 / 勝率 ${report.performance.winRate.toFixed(1)}%`
+    );
+    return report;
+  }
+
+  /**
+   * ユニバースの分足を読み込む（同じユニバース・タイムゾーンはパターン間で共有）
+   */
+  private async loadData(
+    universeFile: string,
+    timezone: string
+  ): Promise<IntradayDataSet> {
+    const key = `${universeFile}|${timezone}`;
+    const cached = this.dataCache.get(key);
+    if (cached) return cached;
+
+    const universe = await loadUniverse(universeFile);
+    const data = await loadIntradayData(
+      new LocalMarketDataStore(this.config.marketDataDir),
+      universe.members.map((m) => m.symbol),
+      this.config.market,
+      this.config.startDate,
+      this.config.endDate,
+      this.config.historyDays,
+      timezone
+    );
+    this.dataCache.set(key, data);
+    return data;
+  }
+
+  /**
+   * スケジューラーの取引履歴から BacktestResult 形式の結果を作成
+   */
+  private buildReport(
+    pattern: VerificationPattern,
+    patternName: string,
+    dayTradingConfig: DayTradingConfig,
+    scheduler: DayTradingScheduler,
+    closes: Array<{ date: Date; unrealized: number }>
+  ): IntradaySimulationReport {
+    const { initialCapital } = this.config;
+    const schedulerTrades = [...scheduler.getTradeHistory()];
+    const trades = this.matchTrades(schedulerTrades, pattern);
+
+    let peakValue = initialCapital;
+    const dailyReturns: DailyReturn[] = closes.map(({ date, unrealized }) => {
+      const realized = trades
+        .filter((t) => t.exitTime.getTime() <= date.getTime())
+        .reduce((sum, t) => sum + t.netPnl, 0);
+      const portfolioValue = initialCapital + realized + unrealized;
+      peakValue = Math.max(peakValue, portfolioValue);
+      const drawdown = peakValue - portfolioValue;
+      const dailyReturn = (portfolioValue - initialCapital) / initialCapital;
+
+      return {
+        date,
+        return: dailyReturn,
+        returnPercent: dailyReturn * 100,
+        cumulativeReturn: portfolioValue - initialCapital,
+        cumulativeReturnPercent: dailyReturn * 100,
+        portfolioValue,
+        drawdown,
+        drawdownPercent: (drawdown / peakValue) * 100,
+      };
+    });
+
+    const risk = dayTradingConfig.riskManagement;
+    const lastClose = closes[closes.length - 1]?.date ?? this.config.endDate;
+    const positions: BacktestPosition[] = scheduler.getPositions().map((p) => ({
+      id: `${p.symbol}_${p.entryTime.getTime()}`,
+      symbol: p.symbol,
+      market: this.config.market,
+      side: 'LONG',
+      quantity: p.quantity,
+      averagePrice: p.entryPrice,
+      currentPrice: p.currentPrice,
+      marketValue: p.currentPrice * p.quantity,
+      unrealizedPnL: p.profitAmount,
+      unrealizedPnLPercent: p.profitRate * 100,
+      createdAt: p.entryTime,
+      updatedAt: lastClose,
+      strategy: `day-trading:${pattern}`,
+    }));
+
+    return {
+      pattern,
+      patternName,
+      config: {
+        symbols: [
+          ...new Set(
+            Array.from(this.dataCache.values()).flatMap((d) =>
+              Array.from(d.minuteBars.keys())
+            )
+          ),
+        ],
+        markets: [this.config.market],
+        startDate: this.config.startDate,
+        endDate: this.config.endDate,
+        initialCapital,
+        timeframe: '1m',
+        commission: this.config.commission,
+        slippage: this.config.slippage,
+        riskManagement: {
+          maxPositionSize: risk.maxPositionSize,
+          stopLossPercent: Math.abs(risk.stopLoss) * 100,
+          takeProfitPercent: risk.takeProfit * 100,
+          maxDailyLoss:
+            risk.maxDailyLoss ??
+            risk.maxTotalExposure * Math.abs(risk.emergencyStopLoss),
+        },
+        dataSource: 'local',
+        localStoreDir: this.config.marketDataDir,
+      },
+      dayTradingConfig,
+      performance: calculatePerformanceMetrics(
+        trades,
+        dailyReturns,
+        initialCapital
+      ),
+      riskMetrics: calculateRiskMetrics(dailyReturns, trades),
+      trades,
+      positions,
+      dailyReturns,
+      monthlyReturns: calculateMonthlyReturns(dailyReturns),
+      tradingDays: closes.length,
+      schedulerTrades,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * 買い・売りの履歴を先入先出で対応付けて往復取引にする（一部決済は分割）
+   * 手数料・スリッページは往復の約定代金に対する率で計上する
+   */
+  private matchTrades(
+    history: TradeHistory[],
+    pattern: VerificationPattern
+  ): BacktestTrade[] {
+    const lots = new Map<
+      string,
+      Array<{ time: Date; price: number; remaining: number }>
+    >();
+    const trades: BacktestTrade[] = [];
+
+    for (const entry of history) {
+      const queue = lots.get(entry.symbol) ?? [];
+      lots.set(entry.symbol, queue);
+
+      if (entry.action === 'BUY') {
+        queue.push({
+          time: entry.date,
+          price: entry.price,
+          remaining: entry.quantity,
+        });
+        continue;
+      }
+
+      let remaining = entry.quantity;
+      while (remaining > 0 && queue.length > 0) {
+        const lot = queue[0];
+        const quantity = Math.min(remaining, lot.remaining);
+        const notional = (lot.price + entry.price) * quantity;
+        const pnl = (entry.price - lot.price) * quantity;
+        const commission = notional * this.config.commission;
+        const slippage = notional * this.config.slippage;
+        const netPnl = pnl - commission - slippage;
+        const cost = lot.price * quantity;
+
+        trades.push({
+          id: `${entry.symbol}_${entry.date.getTime()}_${trades.length}`,
+          symbol: entry.symbol,
+          market: this.config.market,
+          side: 'BUY',
+          quantity,
+          entryPrice: lot.price,
+          exitPrice: entry.price,
+          entryTime: lot.time,
+          exitTime: entry.date,
+          duration: entry.date.getTime() - lot.time.getTime(),
+          pnl,
+          pnlPercent: (pnl / cost) * 100,
+          commission,
+          slippage,
+          netPnl,
+          netPnlPercent: (netPnl / cost) * 100,
+          exitReason: this.toExitReason(entry.reason),
+          strategy: `day-trading:${pattern}`,
+        });
+
+        lot.remaining -= quantity;
+        remaining -= quantity;
+        if (lot.remaining === 0) queue.shift();
+      }
+    }
+
+    return trades;
+  }
+
+  private toExitReason(reason: string): BacktestTrade['exitReason'] {
+    if (reason.includes('強制決済')) return 'END_OF_PERIOD';
+    if (reason.includes('ストップ')) return 'STOP_LOSS';
+    if (reason.includes('利確') || reason.includes('目標')) {
+      return 'TAKE_PROFIT';
+    }
+    return 'SIGNAL';
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * パラメータ探索
+ * グリッド・ランダム・TPE（Tree-structured Parzen Estimator）による候補生成
+ */
+
+import type { TradingStrategy } from '../strategies/trading-strategy';
+
+/**
+ * 探索範囲（キーはドット区切りで入れ子の設定を指定可能: 'technicalIndicators.rsi.period'）
+ */
+export type ParameterRange =
+  | { type: 'int'; min: number; max: number; step?: number }
+  | { type: 'float'; min: number; max: number; step?: number }
+  | { type: 'choice'; values: any[] };
+
+export type ParameterSpace = Record<string, ParameterRange>;
+
+export interface SearchTrial {
+  parameters: Record<string, any>;
+  score: number;
+}
+
+export interface TpeOptions {
+  startupTrials: number; // TPEを使う前のランダム試行数
+  gamma: number; // 上位とみなす割合
+  candidates: number; // 1回の提案で評価する候補数
+}
+
+const DEFAULT_TPE_OPTIONS: TpeOptions = {
+  startupTrials: 10,
+  gamma: 0.25,
+  candidates: 24,
+};
+
+/**
+ * シード付き乱数（mulberry32）
+ */
+export function createRandom(seed: number = Date.now()): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * パラメータを戦略に反映（ドット区切りのキーは入れ子の設定を更新）
+ */
+export function applyStrategyParameters(
+  strategy: TradingStrategy,
+  parameters: Record<string, any>
+): void {
+  const update: Record<string, any> = {};
+  const current = strategy.getConfig() as Record<string, any>;
+
+  for (const [key, value] of Object.entries(parameters)) {
+    const path = key.split('.');
+    if (path.length === 1) {
+      update[key] = value;
+      continue;
+    }
+
+    const root = path[0];
+    update[root] = structuredClone(update[root] ?? current[root] ?? {});
+    let target = update[root];
+    for (const segment of path.slice(1, -1)) {
+      target[segment] = { ...(target[segment] ?? {}) };
+      target = target[segment];
+    }
+    target[path[path.length - 1]] = value;
+  }
+
+  strategy.updateConfig(update);
+}
+
+/**
+ * 範囲内の値を刻み幅に丸める
+ */
+function snap(range: ParameterRange, value: number): number {
+  if (range.type === 'choice') return value;
+  const clamped = Math.min(range.max, Math.max(range.min, value));
+  const step = range.step ?? (range.type === 'int' ? 1 : 0);
+  if (step > 0) {
+    const snapped = range.min + Math.round((clamped - range.min) / step) * step;
+    return range.type === 'int'
+      ? Math.round(Math.min(range.max, snapped))
+      : Math.min(range.max, snapped);
+  }
+  return range.type === 'int' ? Math.round(clamped) : clamped;
+}
+
+/**
+ * 範囲の格子点
+ */
+function gridValues(range: ParameterRange, pointsPerAxis: number): any[] {
+  if (range.type === 'choice') return [...range.values];
+
+  const step = range.step ?? (range.type === 'int' ? 1 : 0);
+  const values: number[] = [];
+  if (step > 0 && (range.max - range.min) / step + 1 <= pointsPerAxis) {
+    for (let v = range.min; v <= range.max + 1e-9; v += step) {
+      values.push(snap(range, v));
+    }
+  } else {
+    for (let i = 0; i < pointsPerAxis; i++) {
+      values.push(
+        snap(
+          range,
+          range.min + ((range.max - range.min) * i) / (pointsPerAxis - 1 || 1)
+        )
+      );
+    }
+  }
+  return [...new Set(values)];
+}
+
+/**
+ * グリッドサーチの候補（全組み合わせが上限を超える場合は軸あたりの点数を減らす）
+ */
+export function gridCandidates(
+  space: ParameterSpace,
+  maxCandidates: number
+): Array<Record<string, any>> {
+  const keys = Object.keys(space);
+  if (keys.length === 0) return [{}];
+
+  let pointsPerAxis = Math.max(
+    2,
+    Math.floor(Math.pow(maxCandidates, 1 / keys.length))
+  );
+  let axes = keys.map((key) => gridValues(space[key], pointsPerAxis));
+  while (
+    pointsPerAxis > 2 &&
+    axes.reduce((n, axis) => n * axis.length, 1) > maxCandidates
+  ) {
+    pointsPerAxis--;
+    axes = keys.map((key) => gridValues(space[key], pointsPerAxis));
+  }
+
+  let combinations: Array<Record<string, any>> = [{}];
+  keys.forEach((key, i) => {
+    combinations = combinations.flatMap((combo) =>
+      axes[i].map((value) => ({ ...combo, [key]: value }))
+    );
+  });
+  return combinations.slice(0, maxCandidates);
+}
+
+/**
+ * 探索範囲から一様にサンプリング
+ */
+export function sampleParameters(
+  space: ParameterSpace,
+  random: () => number
+): Record<string, any> {
+  const parameters: Record<string, any> = {};
+  for (const [key, range] of Object.entries(space)) {
+    if (range.type === 'choice') {
+      parameters[key] =
+        range.values[Math.floor(random() * range.values.length)];
+    } else {
+      parameters[key] = snap(
+        range,
+        range.min + random() * (range.max - range.min)
+      );
+    }
+  }
+  return parameters;
+}
+
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), 1e-12);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * TPE サンプラー
+ * 過去の試行を上位（l）と下位（g）に分け、l(x)/g(x) が最大の候補を提案する
+ */
+export class TpeSampler {
+  private space: ParameterSpace;
+  private random: () => number;
+  private options: TpeOptions;
+  private trials: SearchTrial[] = [];
+
+  constructor(
+    space: ParameterSpace,
+    random: () => number,
+    options: Partial<TpeOptions> = {}
+  ) {
+    this.space = space;
+    this.random = random;
+    this.options = { ...DEFAULT_TPE_OPTIONS, ...options };
+  }
+
+  /**
+   * 試行結果を記録（スコアは大きいほど良い）
+   */
+  observe(parameters: Record<string, any>, score: number): void {
+    if (Number.isFinite(score)) {
+      this.trials.push({ parameters, score });
+    }
+  }
+
+  /**
+   * 次に評価するパラメータを提案
+   */
+  suggest(): Record<string, any> {
+    if (this.trials.length < this.options.startupTrials) {
+      return sampleParameters(this.space, this.random);
+    }
+
+    const sorted = [...this.trials].sort((a, b) => b.score - a.score);
+    const goodCount = Math.max(
+      1,
+      Math.ceil(sorted.length * this.options.gamma)
+    );
+    const good = sorted.slice(0, goodCount);
+    const bad = sorted.slice(goodCount);
+
+    let best: Record<string, any> | null = null;
+    let bestRatio = -Infinity;
+    for (let i = 0; i < this.options.candidates; i++) {
+      const candidate = this.sampleFrom(good);
+      const ratio =
+        this.logDensity(candidate, good) -
+        this.logDensity(candidate, bad.length > 0 ? bad : sorted);
+      if (ratio > bestRatio) {
+        bestRatio = ratio;
+        best = candidate;
+      }
+    }
+    return best ?? sampleParameters(this.space, this.random);
+  }
+
+  /**
+   * 試行群の Parzen 推定からサンプリング
+   */
+  private sampleFrom(trials: SearchTrial[]): Record<string, any> {
+    const parameters: Record<string, any> = {};
+    for (const [key, range] of Object.entries(this.space)) {
+      if (range.type === 'choice') {
+        // 出現頻度に事前分布（各1）を加えた重みで選択
+        const weights = range.values.map(
+          (value) =>
+            1 + trials.filter((t) => t.parameters[key] === value).length
+        );
+        const total = weights.reduce((a, b) => a + b, 0);
+        let target = this.random() * total;
+        let index = 0;
+        while (target >= weights[index] && index < weights.length - 1) {
+          target -= weights[index];
+          index++;
+        }
+        parameters[key] = range.values[index];
+      } else {
+        const center =
+          trials[Math.floor(this.random() * trials.length)].parameters[key];
+        const bandwidth = this.bandwidth(range, trials.length);
+        parameters[key] = snap(
+          range,
+          center + gaussian(this.random) * bandwidth
+        );
+      }
+    }
+    return parameters;
+  }
+
+  /**
+   * 試行群の Parzen 推定による対数密度
+   */
+  private logDensity(
+    parameters: Record<string, any>,
+    trials: SearchTrial[]
+  ): number {
+    let logDensity = 0;
+    for (const [key, range] of Object.entries(this.space)) {
+      if (range.type === 'choice') {
+        const count = trials.filter(
+          (t) => t.parameters[key] === parameters[key]
+        ).length;
+        logDensity += Math.log(
+          (count + 1) / (trials.length + range.values.length)
+        );
+      } else {
+        const bandwidth = this.bandwidth(range, trials.length);
+        const density =
+          trials.reduce((sum, t) => {
+            const z = (parameters[key] - t.parameters[key]) / bandwidth;
+            return sum + Math.exp(-0.5 * z * z);
+          }, 0) /
+          (trials.length * bandwidth * Math.sqrt(2 * Math.PI));
+        logDensity += Math.log(density + 1e-12);
+      }
+    }
+    return logDensity;
+  }
+
+  private bandwidth(
+    range: { min: number; max: number; step?: number },
+    count: number
+  ): number {
+    const width = range.max - range.min || 1;
+    return Math.max(width / Math.max(count, 1) ** 0.5 / 2, range.step ?? 1e-9);
+  }
+}
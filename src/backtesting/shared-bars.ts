@@ -0,0 +1,143 @@
+/**
+ * 共有メモリ上のバーデータ
+ * 事前読み込みした系列を SharedArrayBuffer に詰め、ワーカー間でコピーせずに読み取り専用で共有する
+ */
+
+import type { OHLCVBar } from './historical-data-replay';
+
+const FIELDS = 6; // time, open, high, low, close, volume
+
+export interface SharedBarData {
+  buffer: SharedArrayBuffer;
+  index: Array<{ key: string; offset: number; length: number }>; // offset はバー単位
+}
+
+/**
+ * 系列を共有メモリに書き込む
+ */
+export function encodeSharedBars(
+  series: Map<string, OHLCVBar[]>
+): SharedBarData {
+  const total = Array.from(series.values()).reduce(
+    (sum, bars) => sum + bars.length,
+    0
+  );
+  const buffer = new SharedArrayBuffer(
+    total * FIELDS * Float64Array.BYTES_PER_ELEMENT
+  );
+  const view = new Float64Array(buffer);
+  const index: SharedBarData['index'] = [];
+
+  let offset = 0;
+  for (const [key, bars] of series) {
+    index.push({ key, offset, length: bars.length });
+    bars.forEach((bar, i) => {
+      const base = (offset + i) * FIELDS;
+      view[base] = bar.date.getTime();
+      view[base + 1] = bar.open;
+      view[base + 2] = bar.high;
+      view[base + 3] = bar.low;
+      view[base + 4] = bar.close;
+      view[base + 5] = bar.volume;
+    });
+    offset += bars.length;
+  }
+
+  return { buffer, index };
+}
+
+/**
+ * 共有メモリ上の1系列（バーは必要な範囲だけ取り出す）
+ */
+export class SharedBarSeries {
+  private view: Float64Array;
+  readonly length: number;
+
+  constructor(buffer: SharedArrayBuffer, offset: number, length: number) {
+    this.view = new Float64Array(
+      buffer,
+      offset * FIELDS * Float64Array.BYTES_PER_ELEMENT,
+      length * FIELDS
+    );
+    this.length = length;
+  }
+
+  time(i: number): number {
+    return this.view[i * FIELDS];
+  }
+
+  bar(i: number): OHLCVBar {
+    const base = i * FIELDS;
+    return {
+      date: new Date(this.view[base]),
+      open: this.view[base + 1],
+      high: this.view[base + 2],
+      low: this.view[base + 3],
+      close: this.view[base + 4],
+      volume: this.view[base + 5],
+    };
+  }
+
+  /**
+   * 期間内（両端を含む）のバーを取り出す
+   */
+  between(start: Date, end: Date): OHLCVBar[] {
+    const bars: OHLCVBar[] = [];
+    for (
+      let i = this.lowerBound(start.getTime());
+      i < this.length && this.time(i) <= end.getTime();
+      i++
+    ) {
+      bars.push(this.bar(i));
+    }
+    return bars;
+  }
+
+  private lowerBound(target: number): number {
+    let low = 0;
+    let high = this.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.time(mid) < target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * 事前読み込み済みの系列（通常の配列または共有メモリ）
+ */
+export type PreloadedBars = OHLCVBar[] | SharedBarSeries;
+
+/**
+ * 期間内（両端を含む）のバーを取り出す
+ */
+export function barsBetween(
+  bars: PreloadedBars,
+  start: Date,
+  end: Date
+): OHLCVBar[] {
+  if (bars instanceof SharedBarSeries) return bars.between(start, end);
+  return bars.filter(
+    (bar) =>
+      bar.date.getTime() >= start.getTime() &&
+      bar.date.getTime() <= end.getTime()
+  );
+}
+
+/**
+ * 共有メモリの系列をコピーせずに参照する
+ */
+export function decodeSharedBars(
+  data: SharedBarData
+): Map<string, SharedBarSeries> {
+  const series = new Map<string, SharedBarSeries>();
+  for (const { key, offset, length } of data.index) {
+    series.set(key, new SharedBarSeries(data.buffer, offset, length));
+  }
+  return series;
+}
@@ -0,0 +1,254 @@
+/**
+ * ウォークフォワード分析
+ * インサンプル期間で最適化したパラメータをアウトオブサンプル期間で検証し、検証期間の損益曲線をつなげる
+ */
+
+import type { DailyReturn } from './backtest-engine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WalkForwardOptions {
+  mode: 'rolling' | 'anchored'; // rolling: 学習期間をずらす、anchored: 開始日を固定して伸ばす
+  inSampleDays: number;
+  outOfSampleDays: number;
+  stepDays?: number; // ウィンドウの移動幅（未指定時は outOfSampleDays）
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSample: DateRange;
+  outOfSample: DateRange;
+}
+
+export interface WalkForwardWindowResult extends WalkForwardWindow {
+  parameters: Record<string, any>;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  inSampleReturnPercent: number;
+  outOfSampleReturnPercent: number;
+  outOfSampleTrades: number;
+  efficiency: number | null; // 検証期間と学習期間の日次リターン比（学習期間がプラスの場合のみ）
+}
+
+export interface StitchedEquityPoint {
+  date: Date;
+  portfolioValue: number;
+  windowIndex: number;
+}
+
+export interface WalkForwardSummary {
+  totalReturnPercent: number;
+  maxDrawdownPercent: number;
+  sharpeRatio: number;
+  averageEfficiency: number | null;
+  profitableWindows: number;
+}
+
+export interface WalkForwardResult {
+  options: WalkForwardOptions;
+  windows: WalkForwardWindowResult[];
+  stitchedEquity: StitchedEquityPoint[];
+  summary: WalkForwardSummary;
+}
+
+/**
+ * パラメータの安定性（ウィンドウ間・上位試行間でのばらつき）
+ */
+export interface ParameterStability {
+  parameter: string;
+  values: any[];
+  numeric: boolean;
+  mean: number | null;
+  standardDeviation: number | null;
+  coefficientOfVariation: number | null; // 標準偏差 / |平均|
+  mode: any; // 最頻値
+  modeFrequency: number; // 最頻値の割合（0-1）
+  stable: boolean;
+}
+
+export interface ParameterStabilityReport {
+  source: 'walkForward' | 'topTrials';
+  parameters: ParameterStability[];
+  stable: boolean; // すべてのパラメータが安定しているか
+}
+
+/**
+ * ウォークフォワードのウィンドウを作成
+ */
+export function buildWalkForwardWindows(
+  startDate: Date,
+  endDate: Date,
+  options: WalkForwardOptions
+): WalkForwardWindow[] {
+  if (options.inSampleDays <= 0 || options.outOfSampleDays <= 0) {
+    throw new Error('学習期間と検証期間は1日以上を指定してください');
+  }
+
+  const step = (options.stepDays ?? options.outOfSampleDays) * DAY_MS;
+  const windows: WalkForwardWindow[] = [];
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+
+  for (let offset = 0; ; offset += step) {
+    const inSampleStart = options.mode === 'anchored' ? start : start + offset;
+    const inSampleEnd = start + offset + options.inSampleDays * DAY_MS;
+    const outOfSampleEnd = inSampleEnd + options.outOfSampleDays * DAY_MS;
+    if (outOfSampleEnd > end) break;
+
+    windows.push({
+      index: windows.length,
+      inSample: { start: new Date(inSampleStart), end: new Date(inSampleEnd) },
+      outOfSample: {
+        start: new Date(inSampleEnd),
+        end: new Date(outOfSampleEnd),
+      },
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * 検証期間の損益曲線をつなげる（各期間の開始時点を前期間の終了評価額に合わせる）
+ */
+export function stitchEquityCurves(
+  segments: Array<{ windowIndex: number; dailyReturns: DailyReturn[] }>,
+  initialCapital: number
+): StitchedEquityPoint[] {
+  const stitched: StitchedEquityPoint[] = [];
+  let capital = initialCapital;
+
+  for (const segment of segments) {
+    if (segment.dailyReturns.length === 0) continue;
+    // 各期間のバックテストは initialCapital から開始している
+    for (const day of segment.dailyReturns) {
+      stitched.push({
+        date: day.date,
+        portfolioValue: capital * (day.portfolioValue / initialCapital),
+        windowIndex: segment.windowIndex,
+      });
+    }
+    capital = stitched[stitched.length - 1].portfolioValue;
+  }
+
+  return stitched;
+}
+
+/**
+ * つなげた損益曲線とウィンドウ結果の要約
+ */
+export function summarizeWalkForward(
+  windows: WalkForwardWindowResult[],
+  stitched: StitchedEquityPoint[],
+  initialCapital: number
+): WalkForwardSummary {
+  const values = [initialCapital, ...stitched.map((p) => p.portfolioValue)];
+  let peak = values[0];
+  let maxDrawdownPercent = 0;
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    peak = Math.max(peak, values[i]);
+    maxDrawdownPercent = Math.min(
+      maxDrawdownPercent,
+      ((values[i] - peak) / peak) * 100
+    );
+    if (values[i - 1] > 0) returns.push(values[i] / values[i - 1] - 1);
+  }
+
+  const mean = returns.reduce((a, b) => a + b, 0) / (returns.length || 1);
+  const variance =
+    returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) /
+    Math.max(returns.length - 1, 1);
+  const std = Math.sqrt(variance);
+  const efficiencies = windows
+    .map((w) => w.efficiency)
+    .filter((e): e is number => e !== null);
+
+  return {
+    totalReturnPercent:
+      ((values[values.length - 1] - initialCapital) / initialCapital) * 100,
+    maxDrawdownPercent,
+    sharpeRatio: std > 0 ? (mean / std) * Math.sqrt(252) : 0,
+    averageEfficiency:
+      efficiencies.length > 0
+        ? efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length
+        : null,
+    profitableWindows: windows.filter((w) => w.outOfSampleReturnPercent > 0)
+      .length,
+  };
+}
+
+/**
+ * パラメータの安定性を評価
+ * 数値は変動係数が maxCoefficientOfVariation 以下、それ以外は最頻値の割合が minModeFrequency 以上で安定とする
+ */
+export function analyzeParameterStability(
+  parameterSets: Array<Record<string, any>>,
+  source: ParameterStabilityReport['source'],
+  maxCoefficientOfVariation: number = 0.25,
+  minModeFrequency: number = 0.5
+): ParameterStabilityReport {
+  const keys = [...new Set(parameterSets.flatMap((p) => Object.keys(p)))];
+
+  const parameters = keys.map((parameter): ParameterStability => {
+    const values = parameterSets.map((p) => p[parameter]);
+    const counts = new Map<string, { value: any; count: number }>();
+    for (const value of values) {
+      const key = JSON.stringify(value);
+      const entry = counts.get(key) ?? { value, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+    const top = [...counts.values()].sort((a, b) => b.count - a.count)[0];
+    const modeFrequency = values.length > 0 ? top.count / values.length : 0;
+
+    const numeric =
+      values.length > 0 && values.every((v) => typeof v === 'number');
+    if (!numeric) {
+      return {
+        parameter,
+        values,
+        numeric,
+        mean: null,
+        standardDeviation: null,
+        coefficientOfVariation: null,
+        mode: top?.value,
+        modeFrequency,
+        stable: modeFrequency >= minModeFrequency,
+      };
+    }
+
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const standardDeviation = Math.sqrt(
+      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+    );
+    const coefficientOfVariation =
+      mean !== 0 ? standardDeviation / Math.abs(mean) : null;
+
+    return {
+      parameter,
+      values,
+      numeric,
+      mean,
+      standardDeviation,
+      coefficientOfVariation,
+      mode: top.value,
+      modeFrequency,
+      stable:
+        coefficientOfVariation !== null
+          ? coefficientOfVariation <= maxCoefficientOfVariation
+          : standardDeviation === 0,
+    };
+  });
+
+  return {
+    source,
+    parameters,
+    stable: parameters.every((p) => p.stable),
+  };
+}
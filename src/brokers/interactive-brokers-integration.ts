@@ -6,6 +6,7 @@ import {
   BrokerPosition,
 } from './broker-integration-service';
 import { MockIBApi, MockIBContract, MockIBOrder } from './mock-ib-api';
+import { OrderStatusEvent } from './order-matching-engine';
 
 export interface IBContract {
   symbol: string;
@@ -60,6 +61,17 @@ export class InteractiveBrokersIntegration extends BaseBrokerIntegration {
       clientId: config.clientId,
       accountId: config.accountId,
     });
+
+    // 部分約定・逆指値発動・失効などの非同期な状態遷移を反映
+    this.mockApi.on('orderStatus', (event: OrderStatusEvent) => {
+      const brokerOrder = this.orders.get(`ib_${event.orderId}`);
+      if (!brokerOrder) return;
+
+      brokerOrder.status = this.mapOrderStatus(event.status);
+      brokerOrder.filledQuantity = event.filled;
+      brokerOrder.averagePrice = event.avgFillPrice || undefined;
+      this.emit('orderUpdated', brokerOrder);
+    });
   }
 
   /**
@@ -191,7 +203,9 @@ export class InteractiveBrokersIntegration extends BaseBrokerIntegration {
     side: 'buy' | 'sell';
     quantity: number;
     price?: number;
+    stopPrice?: number;
     type: 'market' | 'limit' | 'stop' | 'stop_limit';
+    tif?: 'DAY' | 'GTC' | 'IOC';
   }): Promise<BrokerOrder> {
     if (!this.isConnected) {
       throw new Error('Interactive Brokersに接続されていません');
@@ -210,36 +224,50 @@ export class InteractiveBrokersIntegration extends BaseBrokerIntegration {
         currency: 'USD',
       };
 
-      // Order定義
+      // Order定義（逆指値は stopPrice、未指定なら price を発動価格とする）
+      const mockOrderId = this.orderId++;
       const order: MockIBOrder = {
-        orderId: this.orderId,
+        orderId: mockOrderId,
         action: orderRequest.side.toUpperCase() as 'BUY' | 'SELL',
         totalQuantity: orderRequest.quantity,
         orderType: this.mapOrderType(orderRequest.type),
-        lmtPrice: orderRequest.price,
-        tif: 'DAY',
+        lmtPrice:
+          orderRequest.type === 'limit' || orderRequest.type === 'stop_limit'
+            ? orderRequest.price
+            : undefined,
+        auxPrice:
+          orderRequest.type === 'stop' || orderRequest.type === 'stop_limit'
+            ? (orderRequest.stopPrice ?? orderRequest.price)
+            : undefined,
+        tif: orderRequest.tif || 'DAY',
       };
 
-      // モックAPIで注文を発注
-      await this.mockApi.placeOrder(this.orderId, contract, order);
-
-      const executionPrice =
-        orderRequest.price || this.mockApi.getMarketPrice(orderRequest.symbol);
-
       const brokerOrder: BrokerOrder = {
-        orderId: `ib_${this.orderId++}`,
+        orderId: `ib_${mockOrderId}`,
         symbol: orderRequest.symbol,
         side: orderRequest.side,
         quantity: orderRequest.quantity,
-        price: executionPrice,
+        price:
+          orderRequest.price ||
+          this.mockApi.getMarketPrice(orderRequest.symbol),
         type: orderRequest.type,
-        status: 'filled',
+        status: 'pending',
         timestamp: new Date(),
-        filledQuantity: orderRequest.quantity,
-        averagePrice: executionPrice,
+        filledQuantity: 0,
       };
-
       this.orders.set(brokerOrder.orderId, brokerOrder);
+
+      // モックAPIで注文を発注（即時約定分は orderStatus イベントで反映される）
+      try {
+        await this.mockApi.placeOrder(mockOrderId, contract, order);
+      } catch (error) {
+        brokerOrder.status = 'rejected';
+        throw error;
+      }
+
+      if (brokerOrder.averagePrice) {
+        brokerOrder.price = brokerOrder.averagePrice;
+      }
       this.emit('orderPlaced', brokerOrder);
 
       return brokerOrder;
@@ -258,10 +286,14 @@ export class InteractiveBrokersIntegration extends BaseBrokerIntegration {
     }
 
     try {
-      // 実際の実装では、ib.cancelOrder(orderId)を呼び出し
       const order = this.orders.get(orderId);
-      if (order) {
-        order.status = 'cancelled';
+      if (!order || order.status !== 'pending') {
+        return false;
+      }
+
+      await this.mockApi.cancelOrder(Number(orderId.replace('ib_', '')));
+      // orderStatus イベントでステータスが更新される
+      if (this.orders.get(orderId)?.status === 'cancelled') {
         this.logger.info(`注文をキャンセルしました: ${orderId}`);
         return true;
       }
@@ -446,6 +478,22 @@ export class InteractiveBrokersIntegration extends BaseBrokerIntegration {
     return typeMap[type];
   }
 
+  /**
+   * 注文ステータスのマッピング
+   */
+  private mapOrderStatus(status: string): BrokerOrder['status'] {
+    switch (status) {
+      case 'Filled':
+        return 'filled';
+      case 'Cancelled':
+        return 'cancelled';
+      case 'Inactive':
+        return 'rejected';
+      default:
+        return 'pending';
+    }
+  }
+
   /**
    * 接続状態の取得
    */
@@ -1,5 +1,11 @@
 import { EventEmitter } from 'events';
 import { Logger } from '../utils/logger';
+import {
+  MatchingFill,
+  OrderMatchingEngine,
+  OrderReplaceRequest,
+  OrderStatusEvent,
+} from './order-matching-engine';
 
 /**
  * Interactive Brokers APIのモック実装
@@ -24,6 +30,13 @@ export interface MockIBOrder {
   tif: 'DAY' | 'GTC' | 'IOC';
 }
 
+export type MockIBOrderRecord = MockIBOrder & {
+  contract: MockIBContract;
+  status: string;
+  filled: number;
+  avgFillPrice: number;
+};
+
 export interface MockIBPosition {
   contract: MockIBContract;
   position: number;
@@ -49,15 +62,13 @@ export class MockIBApi extends EventEmitter {
   private isConnected: boolean = false;
   private accountId: string;
   private nextOrderId: number = 1;
+  private matchingEngine: OrderMatchingEngine;
 
   // 仮想口座データ
   private virtualAccount: {
     balance: number;
     positions: Map<string, MockIBPosition>;
-    orders: Map<
-      number,
-      MockIBOrder & { contract: MockIBContract; status: string }
-    >;
+    orders: Map<number, MockIBOrderRecord>;
     trades: Array<{
       timestamp: Date;
       symbol: string;
@@ -92,6 +103,49 @@ export class MockIBApi extends EventEmitter {
 
     // 初期市場価格の設定
     this.initializeMarketPrices();
+
+    // 注文マッチングエンジン
+    this.matchingEngine = new OrderMatchingEngine();
+    this.setupMatchingEngine();
+  }
+
+  /**
+   * マッチングエンジンのイベントをIB互換イベントに変換
+   */
+  private setupMatchingEngine(): void {
+    this.matchingEngine.on('orderStatus', (event: OrderStatusEvent) => {
+      const record = this.virtualAccount.orders.get(event.orderId);
+      if (record) {
+        record.status = event.status;
+        record.filled = event.filled;
+        record.avgFillPrice = event.avgFillPrice;
+      }
+      this.emit('orderStatus', event);
+    });
+
+    this.matchingEngine.on('fill', (fill: MatchingFill) => {
+      const record = this.virtualAccount.orders.get(fill.orderId);
+      if (!record) return;
+
+      this.updatePosition(
+        record.contract,
+        fill.action,
+        fill.shares,
+        fill.price
+      );
+
+      this.emit('execDetails', {
+        orderId: fill.orderId,
+        contract: record.contract,
+        execution: {
+          execId: fill.execId,
+          time: fill.time.toISOString(),
+          side: fill.action,
+          shares: fill.shares,
+          price: fill.price,
+        },
+      });
+    });
   }
 
   /**
@@ -160,14 +214,25 @@ export class MockIBApi extends EventEmitter {
       for (const [symbol, price] of this.marketPrices.entries()) {
         const change = (Math.random() - 0.5) * price * 0.01; // ±0.5%
         const newPrice = Math.max(price + change, 0.01);
-        this.marketPrices.set(symbol, newPrice);
-
-        // ポジションの時価評価を更新
-        this.updatePositionValue(symbol, newPrice);
+        const volume = Math.floor(Math.random() * 20000);
+        this.setMarketPrice(symbol, newPrice, volume);
       }
     }, 1000); // 1秒ごとに更新
   }
 
+  /**
+   * 市場価格の更新（ポジション評価と working order のマッチングを行う）
+   */
+  setMarketPrice(symbol: string, price: number, volume?: number): void {
+    this.marketPrices.set(symbol, price);
+
+    // ポジションの時価評価を更新
+    this.updatePositionValue(symbol, price);
+
+    // 指値・逆指値の約定判定
+    this.matchingEngine.onPriceUpdate(symbol, price, volume);
+  }
+
   /**
    * ポジションの時価評価更新
    */
@@ -196,6 +261,7 @@ export class MockIBApi extends EventEmitter {
 
   /**
    * 注文の発注
+   * IBと同様、working order と同じIDで発注した場合は訂正として扱う
    */
   async placeOrder(
     orderId: number,
@@ -206,59 +272,86 @@ export class MockIBApi extends EventEmitter {
       throw new Error('モックIBApiに接続されていません');
     }
 
+    const existing = this.virtualAccount.orders.get(orderId);
+    if (existing) {
+      await this.modifyOrder(orderId, {
+        totalQuantity: order.totalQuantity,
+        lmtPrice: order.lmtPrice,
+        auxPrice: order.auxPrice,
+        tif: order.tif,
+      });
+      return;
+    }
+
     this.logger.info(
       `注文発注: ${contract.symbol} ${order.action} ${order.totalQuantity} @ ${order.orderType}`
     );
 
-    // 市場価格を取得
-    const marketPrice = this.marketPrices.get(contract.symbol) || 100;
-    const executionPrice =
-      order.orderType === 'LMT' ? order.lmtPrice || marketPrice : marketPrice;
-
     // 注文を保存
     this.virtualAccount.orders.set(orderId, {
       ...order,
+      orderId,
       contract,
-      status: 'Filled',
+      status: 'PendingSubmit',
+      filled: 0,
+      avgFillPrice: 0,
     });
 
-    // ポジションを更新
-    await this.updatePosition(contract, order, executionPrice);
+    // マッチングエンジンに送信（成行・条件成立済みの注文は即時約定）
+    // 検証エラーで受け付けられなかった注文は保存した記録を消す
+    try {
+      this.matchingEngine.submit(
+        {
+          orderId,
+          symbol: contract.symbol,
+          action: order.action,
+          totalQuantity: order.totalQuantity,
+          orderType: order.orderType,
+          lmtPrice: order.lmtPrice,
+          auxPrice: order.auxPrice,
+          tif: order.tif,
+        },
+        this.marketPrices.get(contract.symbol) || 100
+      );
+    } catch (error) {
+      this.virtualAccount.orders.delete(orderId);
+      throw error;
+    }
+  }
 
-    // 約定通知
-    this.emit('orderStatus', {
-      orderId,
-      status: 'Filled',
-      filled: order.totalQuantity,
-      remaining: 0,
-      avgFillPrice: executionPrice,
-    });
+  /**
+   * 注文の訂正
+   */
+  async modifyOrder(
+    orderId: number,
+    changes: OrderReplaceRequest
+  ): Promise<void> {
+    const record = this.virtualAccount.orders.get(orderId);
+    if (!record) {
+      throw new Error(`注文が見つかりません: ${orderId}`);
+    }
 
-    this.emit('execDetails', {
-      orderId,
-      contract,
-      execution: {
-        execId: `exec_${Date.now()}`,
-        time: new Date().toISOString(),
-        side: order.action,
-        shares: order.totalQuantity,
-        price: executionPrice,
-      },
-    });
+    this.matchingEngine.replace(orderId, changes);
+    Object.assign(
+      record,
+      Object.fromEntries(
+        Object.entries(changes).filter(([, value]) => value !== undefined)
+      )
+    );
   }
 
   /**
    * ポジションの更新
    */
-  private async updatePosition(
+  private updatePosition(
     contract: MockIBContract,
-    order: MockIBOrder,
+    action: 'BUY' | 'SELL',
+    shares: number,
     executionPrice: number
-  ): Promise<void> {
+  ): void {
     const symbol = contract.symbol;
-    const quantity =
-      order.action === 'BUY' ? order.totalQuantity : -order.totalQuantity;
-    const cost = executionPrice * order.totalQuantity;
+    const quantity = action === 'BUY' ? shares : -shares;
+    const cost = executionPrice * shares;
 
     // 既存ポジションを取得
     let position = this.virtualAccount.positions.get(symbol);
@@ -329,17 +422,14 @@ export class MockIBApi extends EventEmitter {
     this.virtualAccount.trades.push({
       timestamp: new Date(),
       symbol,
-      action: order.action,
-      quantity: order.totalQuantity,
+      action,
+      quantity: shares,
       price: executionPrice,
       pnl: position?.realizedPnL || 0,
     });
 
     // 残高更新（手数料控除）
-    const commission = this.calculateCommission(
-      order.totalQuantity,
-      executionPrice
-    );
+    const commission = this.calculateCommission(shares, executionPrice);
     this.virtualAccount.balance -= cost + commission;
   }
 
@@ -356,17 +446,20 @@ export class MockIBApi extends EventEmitter {
    * 注文のキャンセル
    */
   async cancelOrder(orderId: number): Promise<void> {
-    const order = this.virtualAccount.orders.get(orderId);
-    if (order) {
-      order.status = 'Cancelled';
+    if (this.matchingEngine.cancel(orderId)) {
       this.logger.info(`注文をキャンセルしました: ${orderId}`);
-      this.emit('orderStatus', {
-        orderId,
-        status: 'Cancelled',
-      });
+    } else {
+      this.logger.warn(`キャンセル可能な注文がありません: ${orderId}`);
     }
   }
 
+  /**
+   * DAY注文の失効（取引日の終了時に呼び出す）
+   */
+  expireDayOrders(): number {
+    return this.matchingEngine.expireDayOrders();
+  }
+
   /**
    * ポジション情報の取得
    */
@@ -569,10 +662,7 @@ export class MockIBApi extends EventEmitter {
   getVirtualAccount(): {
     balance: number;
     positions: Map<string, MockIBPosition>;
-    orders: Map<
-      number,
-      MockIBOrder & { contract: MockIBContract; status: string }
-    >;
+    orders: Map<number, MockIBOrderRecord>;
     trades: Array<{
       timestamp: Date;
       symbol: string;
@@ -0,0 +1,411 @@
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/logger';
+
+/**
+ * 注文マッチングエンジン
+ * 価格更新ごとに working order を評価し、指値・逆指値の発動、出来高に応じた部分約定、
+ * DAY/GTC/IOC の有効期限、訂正・取消をシミュレートする
+ */
+
+export type MatchingOrderType = 'MKT' | 'LMT' | 'STP' | 'STP LMT';
+export type MatchingTimeInForce = 'DAY' | 'GTC' | 'IOC';
+
+/**
+ * IB互換の注文ステータス
+ * PreSubmitted: 逆指値の発動待ち / Submitted: 板に載っている（部分約定を含む）
+ */
+export type MatchingOrderStatus =
+  | 'PreSubmitted'
+  | 'Submitted'
+  | 'Filled'
+  | 'Cancelled';
+
+export interface MatchingOrderRequest {
+  orderId: number;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  totalQuantity: number;
+  orderType: MatchingOrderType;
+  lmtPrice?: number;
+  auxPrice?: number; // 逆指値の発動価格
+  tif: MatchingTimeInForce;
+}
+
+export interface MatchingOrder extends MatchingOrderRequest {
+  status: MatchingOrderStatus;
+  filled: number;
+  remaining: number;
+  avgFillPrice: number;
+  lastFillPrice: number;
+  triggered: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  cancelReason?: string;
+}
+
+export interface OrderReplaceRequest {
+  totalQuantity?: number;
+  lmtPrice?: number;
+  auxPrice?: number;
+  tif?: MatchingTimeInForce;
+}
+
+export interface MatchingFill {
+  orderId: number;
+  execId: string;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  shares: number;
+  price: number;
+  time: Date;
+}
+
+export interface OrderStatusEvent {
+  orderId: number;
+  status: MatchingOrderStatus;
+  filled: number;
+  remaining: number;
+  avgFillPrice: number;
+  lastFillPrice: number;
+  reason?: string;
+}
+
+export interface MatchingEngineConfig {
+  participationRate: number; // 1ティックの出来高のうち約定可能な割合
+  defaultTickVolume: number; // 出来高が不明な場合に仮定する1ティックの出来高
+}
+
+const DEFAULT_CONFIG: MatchingEngineConfig = {
+  participationRate: 0.1,
+  defaultTickVolume: 10000,
+};
+
+export class OrderMatchingEngine extends EventEmitter {
+  private logger: Logger;
+  private config: MatchingEngineConfig;
+  private orders: Map<number, MatchingOrder> = new Map();
+  private lastPrices: Map<string, { price: number; volume: number }> =
+    new Map();
+  private execSequence: number = 0;
+
+  constructor(config: Partial<MatchingEngineConfig> = {}) {
+    super();
+    this.logger = new Logger('OrderMatchingEngine');
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 注文を受け付けて即時マッチングを試みる
+   */
+  submit(
+    request: MatchingOrderRequest,
+    marketPrice?: number,
+    now: Date = new Date()
+  ): MatchingOrder {
+    if (this.orders.has(request.orderId)) {
+      throw new Error(`注文IDが重複しています: ${request.orderId}`);
+    }
+    this.validateRequest(request);
+
+    const isStop =
+      request.orderType === 'STP' || request.orderType === 'STP LMT';
+    const order: MatchingOrder = {
+      ...request,
+      status: isStop ? 'PreSubmitted' : 'Submitted',
+      filled: 0,
+      remaining: request.totalQuantity,
+      avgFillPrice: 0,
+      lastFillPrice: 0,
+      triggered: !isStop,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.orderId, order);
+    this.emitStatus(order);
+
+    if (marketPrice !== undefined) {
+      const last = this.lastPrices.get(order.symbol);
+      this.lastPrices.set(order.symbol, {
+        price: marketPrice,
+        volume: last?.volume ?? this.config.defaultTickVolume,
+      });
+    }
+
+    const quote = this.lastPrices.get(order.symbol);
+    if (quote) {
+      this.evaluate(order, quote.price, quote.volume, now);
+    } else if (order.orderType === 'MKT') {
+      this.logger.warn(`価格未取得のため成行注文を保留: ${order.symbol}`);
+    }
+
+    // IOCは即時約定できなかった残数量を取り消す
+    if (order.tif === 'IOC' && this.isWorking(order)) {
+      this.cancelInternal(order, 'IOC: 即時約定できなかった残数量を取消', now);
+    }
+
+    return { ...order };
+  }
+
+  /**
+   * 価格更新を受けて working order を評価
+   */
+  onPriceUpdate(
+    symbol: string,
+    price: number,
+    volume: number = this.config.defaultTickVolume,
+    now: Date = new Date()
+  ): MatchingFill[] {
+    this.lastPrices.set(symbol, { price, volume });
+
+    const fills: MatchingFill[] = [];
+    // 同一ティック内の約定可能数量は注文間で共有する（先着順）
+    let available = this.availableShares(volume);
+
+    // 約定可能数量によらず期限切れのDAY注文は先に取り消す
+    for (const order of this.workingOrders(symbol)) {
+      if (order.tif === 'DAY' && !this.isSameTradingDay(order.createdAt, now)) {
+        this.cancelInternal(order, 'DAY注文の有効期限切れ', now);
+      }
+    }
+
+    // 逆指値の発動判定は約定可能数量によらず全注文に行う（上限は約定数量のみに適用）
+    for (const order of this.workingOrders(symbol)) {
+      this.trigger(order, price, now);
+    }
+
+    for (const order of this.workingOrders(symbol)) {
+      if (available <= 0) break;
+
+      const fill = this.evaluate(order, price, volume, now, available);
+      if (fill) {
+        available -= fill.shares;
+        fills.push(fill);
+      }
+    }
+
+    return fills;
+  }
+
+  /**
+   * 注文を取り消す
+   */
+  cancel(orderId: number, now: Date = new Date()): boolean {
+    const order = this.orders.get(orderId);
+    if (!order || !this.isWorking(order)) {
+      return false;
+    }
+    this.cancelInternal(order, 'ユーザーによる取消', now);
+    return true;
+  }
+
+  /**
+   * 注文を訂正する（数量は約定済み数量未満にできない）
+   */
+  replace(
+    orderId: number,
+    requested: OrderReplaceRequest,
+    now: Date = new Date()
+  ): MatchingOrder {
+    // 未指定の項目は現在値を維持する
+    const changes: OrderReplaceRequest = Object.fromEntries(
+      Object.entries(requested).filter(([, value]) => value !== undefined)
+    );
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`注文が見つかりません: ${orderId}`);
+    }
+    if (!this.isWorking(order)) {
+      throw new Error(`訂正できない注文ステータスです: ${order.status}`);
+    }
+
+    const totalQuantity = changes.totalQuantity ?? order.totalQuantity;
+    if (totalQuantity <= order.filled) {
+      throw new Error(
+        `訂正後の数量が約定済み数量以下です: ${totalQuantity} <= ${order.filled}`
+      );
+    }
+
+    const updated = { ...order, ...changes, totalQuantity };
+    this.validateRequest(updated);
+
+    Object.assign(order, changes, {
+      totalQuantity,
+      remaining: totalQuantity - order.filled,
+      updatedAt: now,
+    });
+    this.emitStatus(order);
+    this.logger.info(`注文を訂正しました: ${orderId}`, changes);
+
+    const quote = this.lastPrices.get(order.symbol);
+    if (quote) {
+      this.evaluate(order, quote.price, quote.volume, now);
+    }
+
+    return { ...order };
+  }
+
+  /**
+   * DAY注文を一括で失効させる（取引日の終了時に呼び出す）
+   */
+  expireDayOrders(now: Date = new Date()): number {
+    let expired = 0;
+    for (const order of this.workingOrders()) {
+      if (order.tif === 'DAY') {
+        this.cancelInternal(order, 'DAY注文の有効期限切れ', now);
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  getOrder(orderId: number): MatchingOrder | null {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : null;
+  }
+
+  getWorkingOrders(symbol?: string): MatchingOrder[] {
+    return this.workingOrders(symbol).map((order) => ({ ...order }));
+  }
+
+  private workingOrders(symbol?: string): MatchingOrder[] {
+    return Array.from(this.orders.values()).filter(
+      (order) =>
+        this.isWorking(order) &&
+        (symbol === undefined || order.symbol === symbol)
+    );
+  }
+
+  /**
+   * 注文を現在価格で評価し、条件を満たせば約定させる
+   */
+  private evaluate(
+    order: MatchingOrder,
+    price: number,
+    volume: number,
+    now: Date,
+    available: number = this.availableShares(volume)
+  ): MatchingFill | null {
+    if (!this.isWorking(order)) return null;
+    if (!this.trigger(order, price, now)) return null;
+
+    // 指値の成立判定（成立時は現在価格＝指値以上に有利な価格で約定）
+    if (order.orderType === 'LMT' || order.orderType === 'STP LMT') {
+      const limit = order.lmtPrice as number;
+      const marketable =
+        order.action === 'BUY' ? price <= limit : price >= limit;
+      if (!marketable) return null;
+    }
+
+    const shares = Math.min(order.remaining, available);
+    if (shares <= 0) return null;
+
+    return this.fill(order, shares, price, now);
+  }
+
+  /**
+   * 逆指値の発動判定（発動済みなら true）
+   */
+  private trigger(order: MatchingOrder, price: number, now: Date): boolean {
+    if (order.triggered) return true;
+
+    const stopPrice = order.auxPrice as number;
+    const hit =
+      order.action === 'BUY' ? price >= stopPrice : price <= stopPrice;
+    if (!hit) return false;
+
+    order.triggered = true;
+    order.status = 'Submitted';
+    order.updatedAt = now;
+    this.logger.info(
+      `逆指値発動: ${order.orderId} ${order.symbol} @ ${price} (発動価格 ${stopPrice})`
+    );
+    this.emitStatus(order);
+    return true;
+  }
+
+  private fill(
+    order: MatchingOrder,
+    shares: number,
+    price: number,
+    now: Date
+  ): MatchingFill {
+    const notional = order.avgFillPrice * order.filled + price * shares;
+    order.filled += shares;
+    order.remaining -= shares;
+    order.avgFillPrice = notional / order.filled;
+    order.lastFillPrice = price;
+    order.updatedAt = now;
+    if (order.remaining === 0) {
+      order.status = 'Filled';
+    }
+
+    const fill: MatchingFill = {
+      orderId: order.orderId,
+      execId: `exec_${now.getTime()}_${++this.execSequence}`,
+      symbol: order.symbol,
+      action: order.action,
+      shares,
+      price,
+      time: now,
+    };
+
+    this.emit('fill', fill);
+    this.emitStatus(order);
+    return fill;
+  }
+
+  private cancelInternal(
+    order: MatchingOrder,
+    reason: string,
+    now: Date
+  ): void {
+    order.status = 'Cancelled';
+    order.cancelReason = reason;
+    order.updatedAt = now;
+    this.logger.info(`注文取消: ${order.orderId} (${reason})`);
+    this.emitStatus(order, reason);
+  }
+
+  private emitStatus(order: MatchingOrder, reason?: string): void {
+    const event: OrderStatusEvent = {
+      orderId: order.orderId,
+      status: order.status,
+      filled: order.filled,
+      remaining: order.remaining,
+      avgFillPrice: order.avgFillPrice,
+      lastFillPrice: order.lastFillPrice,
+      ...(reason ? { reason } : {}),
+    };
+    this.emit('orderStatus', event);
+  }
+
+  private validateRequest(request: MatchingOrderRequest): void {
+    if (!(request.totalQuantity > 0)) {
+      throw new Error(`注文数量が不正です: ${request.totalQuantity}`);
+    }
+    if (
+      (request.orderType === 'LMT' || request.orderType === 'STP LMT') &&
+      !(request.lmtPrice && request.lmtPrice > 0)
+    ) {
+      throw new Error(`${request.orderType}注文には指値が必要です`);
+    }
+    if (
+      (request.orderType === 'STP' || request.orderType === 'STP LMT') &&
+      !(request.auxPrice && request.auxPrice > 0)
+    ) {
+      throw new Error(`${request.orderType}注文には発動価格が必要です`);
+    }
+  }
+
+  private availableShares(volume: number): number {
+    return Math.max(1, Math.floor(volume * this.config.participationRate));
+  }
+
+  private isWorking(order: MatchingOrder): boolean {
+    return order.status === 'PreSubmitted' || order.status === 'Submitted';
+  }
+
+  private isSameTradingDay(a: Date, b: Date): boolean {
+    return a.toDateString() === b.toDateString();
+  }
+}
@@ -1,3 +1,40 @@
+import type { ScreeningRules } from '../screening/stock-screener';
+import type { AggregationMode } from '../services/signal-aggregator-service';
+import type { SizingModeConfig } from '../agents/position-sizer';
+import type { PreTradeRiskLimits } from '../services/risk-manager';
+import type { KillSwitchConfig } from '../trading/kill-switch';
+
+/**
+ * トレーリングストップ設定
+ */
+export interface TrailingStopConfig {
+  enabled: boolean;
+  mode: 'percentage' | 'atr';
+  percentage: number; // 高値からの下落率（例: 0.02 = 2%）
+  atrPeriod: number; // ATRの計算期間（日足）
+  atrMultiplier: number; // 高値から ATR × 倍率 下がったら決済
+  activationProfit: number; // この損益率に達してからトレールを開始（例: 0.01 = +1%）
+}
+
+/**
+ * 段階利確の1段
+ */
+export interface ScaleOutTier {
+  profitRate: number; // 発動する損益率（例: 0.03 = +3%）
+  sellRatio: number; // 当初数量に対する売却比率（例: 0.5 = 50%）
+}
+
+/**
+ * 決済ポリシー設定
+ */
+export interface ExitPolicyConfig {
+  trailingStop: TrailingStopConfig;
+  scaleOutTiers: ScaleOutTier[]; // 損益率の昇順で評価
+  breakevenTrigger: number | null; // この損益率に達したらストップを建値へ引き上げ
+  maxHoldingMinutes: number | null; // 保有時間の上限（分）
+  strongProfitExit: number | null; // シグナルに関わらず全決済する損益率
+}
+
 /**
  * デイトレード設定
  */
@@ -25,6 +62,9 @@ export interface DayTradingConfig {
     [key: number]: number;
   };
 
+  // シグナル集約方式（未指定時は majority）
+  aggregationMode?: AggregationMode;
+
   // リスク管理設定
   riskManagement: {
     stopLoss: number; // ストップロス（例: -0.03 = -3%）
@@ -32,8 +72,19 @@ export interface DayTradingConfig {
     maxPositionSize: number; // 最大ポジションサイズ（USD）
     maxDailyTrades: number; // 1日の最大取引数
     emergencyStopLoss: number; // 緊急ストップロス（例: -0.05 = -5%）
+    maxPositions: number; // 同時保有の最大銘柄数
+    maxTotalExposure: number; // ポートフォリオ全体の最大エクスポージャー（USD）
+    maxDailyLoss?: number; // 1日の最大確定損失（USD、未指定時は maxTotalExposure × |emergencyStopLoss|）
+    preTrade?: Partial<PreTradeRiskLimits>; // 発注前リスクチェックの上限
+    sizing?: SizingModeConfig; // サイジング方式（未指定時は standard: 予算のみ）
   };
 
+  // キルスイッチ設定（損失・ドローダウン・ブローカーエラー・データ途絶で全取引を停止）
+  killSwitch?: Partial<KillSwitchConfig>;
+
+  // 決済ポリシー設定
+  exitPolicy: ExitPolicyConfig;
+
   // スクリーニング設定
   screening: {
     minVolume: number; // 最小出来高
@@ -41,6 +92,11 @@ export interface DayTradingConfig {
     maxPrice: number; // 最大価格
     excludeSectors: string[]; // 除外セクター
     candidateCount: number; // 候補銘柄数
+    universe?: string; // ユニバースファイル（CSV/JSON/TXT、未指定時は既定のウォッチリスト）
+    filters?: Omit<
+      ScreeningRules,
+      'minPrice' | 'maxPrice' | 'minVolume' | 'excludeSectors'
+    >; // 追加のスクリーニング条件（相対出来高・ギャップ率・ATR・浮動株・時価総額など）
   };
 
   // 取引設定
@@ -61,6 +117,35 @@ export interface DayTradingConfig {
   };
 }
 
+/**
+ * signalSources のキーと TradingSignal.source の対応
+ */
+export const SIGNAL_SOURCE_NAMES: {
+  [key in keyof DayTradingConfig['signalSources']]: string;
+} = {
+  yahoo: 'yahoo_finance',
+  tradingview: 'tradingview',
+  investing: 'investing_com',
+  finviz: 'finviz',
+  marketwatch: 'marketwatch',
+};
+
+/**
+ * signalSources の重みを SignalAggregatorService の sourceWeights に変換
+ */
+export function toSourceWeights(
+  signalSources: DayTradingConfig['signalSources']
+): { [source: string]: number } {
+  const weights: { [source: string]: number } = {};
+  for (const [key, source] of Object.entries(signalSources)) {
+    if (source.enabled) {
+      weights[SIGNAL_SOURCE_NAMES[key as keyof typeof SIGNAL_SOURCE_NAMES]] =
+        source.weight;
+    }
+  }
+  return weights;
+}
+
 /**
  * デフォルト設定
  */
@@ -98,6 +183,30 @@ export const defaultDayTradingConfig: DayTradingConfig = {
     maxPositionSize: 10000, // 最大1万ドル
     maxDailyTrades: 1, // 1日1取引
     emergencyStopLoss: -0.05, // -5%で緊急決済
+    maxPositions: 1, // 同時保有は1銘柄
+    maxTotalExposure: 10000, // 合計1万ドルまで
+    sizing: {
+      mode: 'standard', // 'correlation' で保有との相関を考慮
+      maxMarginalContribution: 50, // 新規銘柄のリスク寄与は50%まで
+      targetVolatility: null, // ブック全体の目標ボラティリティ（年率%）
+      lookbackDays: 90, // 共分散の推定期間
+    },
+  },
+
+  // 決済ポリシー（固定ストップ＋目標利益のみ）
+  exitPolicy: {
+    trailingStop: {
+      enabled: false,
+      mode: 'percentage',
+      percentage: 0.02, // 高値から-2%
+      atrPeriod: 14,
+      atrMultiplier: 2,
+      activationProfit: 0.01, // +1%からトレール開始
+    },
+    scaleOutTiers: [], // 段階利確なし
+    breakevenTrigger: null,
+    maxHoldingMinutes: null,
+    strongProfitExit: 0.07, // +7%以上は即売却
   },
 
   // スクリーニング
@@ -107,6 +216,7 @@ export const defaultDayTradingConfig: DayTradingConfig = {
     maxPrice: 500, // 最大$500
     excludeSectors: [], // 除外セクターなし
     candidateCount: 10, // 上位10銘柄を候補に
+    universe: './data/universes/default-watchlist.csv',
   },
 
   // 取引設定
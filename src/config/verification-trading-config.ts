@@ -28,6 +28,22 @@ export const conservativeConfig: DayTradingConfig = {
     maxPositionSize: 5000,
     maxDailyTrades: 1,
     emergencyStopLoss: -0.03,
+    maxPositions: 1,
+    maxTotalExposure: 5000,
+  },
+  exitPolicy: {
+    trailingStop: {
+      enabled: false,
+      mode: 'percentage',
+      percentage: 0.015,
+      atrPeriod: 14,
+      atrMultiplier: 2,
+      activationProfit: 0.01,
+    },
+    scaleOutTiers: [],
+    breakevenTrigger: 0.015, // +1.5%で建値ストップ
+    maxHoldingMinutes: null,
+    strongProfitExit: 0.05,
   },
   screening: {
     minVolume: 5000000, // 500万株以上（流動性重視）
@@ -64,6 +80,8 @@ export const standardConfig: DayTradingConfig = {
     maxPositionSize: 10000,
     maxDailyTrades: 1,
     emergencyStopLoss: -0.05,
+    maxPositions: 1,
+    maxTotalExposure: 10000,
   },
 };
 
@@ -81,6 +99,22 @@ export const aggressiveConfig: DayTradingConfig = {
     maxPositionSize: 15000,
     maxDailyTrades: 2,
     emergencyStopLoss: -0.08,
+    maxPositions: 2, // 上位2銘柄まで同時保有
+    maxTotalExposure: 30000,
+  },
+  exitPolicy: {
+    trailingStop: {
+      enabled: true,
+      mode: 'atr', // ATR×2でトレール
+      percentage: 0.03,
+      atrPeriod: 14,
+      atrMultiplier: 2,
+      activationProfit: 0.02,
+    },
+    scaleOutTiers: [{ profitRate: 0.03, sellRatio: 0.5 }], // +3%で半分利確、残りはトレール
+    breakevenTrigger: 0.02,
+    maxHoldingMinutes: null,
+    strongProfitExit: null,
   },
   screening: {
     minVolume: 2000000,
@@ -91,6 +125,20 @@ export const aggressiveConfig: DayTradingConfig = {
   },
 };
 
+/**
+ * 検証パターン（シミュレーションでパターン名から設定を選ぶ）
+ */
+export type VerificationPattern = 'conservative' | 'standard' | 'aggressive';
+
+export const verificationPatterns: Record<
+  VerificationPattern,
+  { config: DayTradingConfig; name: string }
+> = {
+  conservative: { config: conservativeConfig, name: '保守的' },
+  standard: { config: standardConfig, name: '標準' },
+  aggressive: { config: aggressiveConfig, name: '積極的' },
+};
+
 /**
  * 日付別設定マッピング
  */
@@ -35,3 +35,38 @@ export function verifyToken(token: string): any {
     return null;
   }
 }
+
+/**
+ * 管理者操作（キルスイッチ・本番モデルの切り替えなど）の認証
+ * KILL_SWITCH_ADMIN_EMAILS に含まれる管理者の JWT、または内部用トークン（KILL_SWITCH_INTERNAL_TOKEN）のみ許可
+ */
+export function authenticateAdmin(
+  headers: Headers
+): { operator: string } | { status: number; message: string } {
+  const internalToken = process.env.KILL_SWITCH_INTERNAL_TOKEN;
+  const requestInternalToken = headers.get('x-internal-token');
+  if (requestInternalToken) {
+    if (!internalToken || requestInternalToken !== internalToken) {
+      return { status: 401, message: 'Invalid internal token' };
+    }
+    return { operator: 'internal' };
+  }
+
+  const token = headers.get('authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return { status: 401, message: 'Authentication required' };
+  }
+  const payload = verifyToken(token);
+  if (!payload?.email) {
+    return { status: 401, message: 'Invalid token' };
+  }
+
+  const admins = (process.env.KILL_SWITCH_ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (!admins.includes(String(payload.email).toLowerCase())) {
+    return { status: 403, message: 'Admin privileges required' };
+  }
+  return { operator: `${payload.email} (user ${payload.id})` };
+}
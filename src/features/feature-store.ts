@@ -0,0 +1,431 @@
+/**
+ * 特徴量ストア
+ * 銘柄・足種ごとにテクニカル指標の系列をバー単位で逐次計算して保持する
+ * 学習・推論・戦略・エージェントは同じ系列を参照する
+ */
+
+import type { HistoricalInterval } from '../services/data-integration-service';
+import {
+  AnchorOptions,
+  ATRIndicator,
+  BollingerBandsIndicator,
+  BollingerValue,
+  ChannelValue,
+  DMIIndicator,
+  DMIValue,
+  DonchianChannelIndicator,
+  EMAIndicator,
+  IchimokuIndicator,
+  IchimokuValue,
+  KeltnerChannelIndicator,
+  MACDIndicator,
+  MACDValue,
+  MFIIndicator,
+  OBVIndicator,
+  ParabolicSARIndicator,
+  ParabolicSARValue,
+  PivotLevels,
+  PivotMethod,
+  PivotPointsIndicator,
+  PriceBar,
+  RSIIndicator,
+  SMAIndicator,
+  StochasticIndicator,
+  StochasticValue,
+  SuperTrendIndicator,
+  SuperTrendValue,
+  VolatilityIndicator,
+  VWAPIndicator,
+} from './indicators';
+
+export type FeatureBar = PriceBar;
+
+export interface FeatureConfig {
+  smaPeriods: number[];
+  emaPeriods: number[];
+  rsiPeriod: number;
+  macd: { fast: number; slow: number; signal: number };
+  bollinger: { period: number; stdDev: number };
+  stochastic: { kPeriod: number; dPeriod: number };
+  volumePeriod: number; // 出来高移動平均の期間
+  volatilityPeriod: number;
+  periodsPerYear: number; // ボラティリティの年率換算
+  atrPeriod: number;
+  adxPeriod: number;
+  vwap: AnchorOptions; // VWAP をリセットする区切り
+  keltner: { emaPeriod: number; atrPeriod: number; multiplier: number };
+  donchianPeriod: number;
+  mfiPeriod: number;
+  ichimoku: {
+    tenkanPeriod: number;
+    kijunPeriod: number;
+    senkouBPeriod: number;
+    displacement: number;
+  };
+  parabolicSar: { step: number; maxStep: number };
+  superTrend: { period: number; multiplier: number };
+  pivots: AnchorOptions & { method: PivotMethod }; // ピボットを計算する期間
+  maxHistory: number; // 保持するバーの上限
+}
+
+export const DEFAULT_FEATURE_CONFIG: FeatureConfig = {
+  smaPeriods: [5, 10, 20, 50],
+  emaPeriods: [12, 26],
+  rsiPeriod: 14,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  bollinger: { period: 20, stdDev: 2 },
+  stochastic: { kPeriod: 14, dPeriod: 3 },
+  volumePeriod: 20,
+  volatilityPeriod: 20,
+  periodsPerYear: 252,
+  atrPeriod: 14,
+  adxPeriod: 14,
+  vwap: { anchor: 'day', utcOffsetMinutes: 0 },
+  keltner: { emaPeriod: 20, atrPeriod: 10, multiplier: 2 },
+  donchianPeriod: 20,
+  mfiPeriod: 14,
+  ichimoku: {
+    tenkanPeriod: 9,
+    kijunPeriod: 26,
+    senkouBPeriod: 52,
+    displacement: 26,
+  },
+  parabolicSar: { step: 0.02, maxStep: 0.2 },
+  superTrend: { period: 10, multiplier: 3 },
+  pivots: { anchor: 'day', utcOffsetMinutes: 0, method: 'classic' },
+  maxHistory: 5000,
+};
+
+/**
+ * バー1本分の特徴量（期間に満たない指標は null）
+ */
+export interface FeatureSnapshot extends FeatureBar {
+  sma: Record<number, number | null>;
+  ema: Record<number, number | null>;
+  rsi: number | null;
+  macd: MACDValue | null;
+  bollinger: BollingerValue | null;
+  stochastic: StochasticValue | null;
+  volumeSma: number | null;
+  volatility: number | null;
+  priceChange: number | null; // 前のバーからの変化
+  priceChangePercent: number | null;
+  atr: number | null;
+  dmi: DMIValue | null;
+  vwap: number | null;
+  keltner: ChannelValue | null;
+  donchian: ChannelValue | null;
+  obv: number | null;
+  mfi: number | null;
+  ichimoku: IchimokuValue | null;
+  parabolicSar: ParabolicSARValue | null;
+  superTrend: SuperTrendValue | null;
+  pivots: PivotLevels | null; // 直前の期間から計算したピボット
+}
+
+function timeOf(bar: FeatureBar): number {
+  return new Date(bar.timestamp).getTime();
+}
+
+/**
+ * 1系列分の指標状態と計算済みの特徴量
+ */
+export class FeatureFrame {
+  readonly config: FeatureConfig;
+  private snapshots: FeatureSnapshot[] = [];
+  private sma: Map<number, SMAIndicator>;
+  private ema: Map<number, EMAIndicator>;
+  private rsi: RSIIndicator;
+  private macd: MACDIndicator;
+  private bollinger: BollingerBandsIndicator;
+  private stochastic: StochasticIndicator;
+  private volumeSma: SMAIndicator;
+  private volatility: VolatilityIndicator;
+  private atr: ATRIndicator;
+  private dmi: DMIIndicator;
+  private vwap: VWAPIndicator;
+  private keltner: KeltnerChannelIndicator;
+  private donchian: DonchianChannelIndicator;
+  private obv: OBVIndicator;
+  private mfi: MFIIndicator;
+  private ichimoku: IchimokuIndicator;
+  private parabolicSar: ParabolicSARIndicator;
+  private superTrend: SuperTrendIndicator;
+  private pivots: PivotPointsIndicator;
+
+  constructor(config: Partial<FeatureConfig> = {}) {
+    this.config = { ...DEFAULT_FEATURE_CONFIG, ...config };
+    const c = this.config;
+    this.sma = new Map(c.smaPeriods.map((p) => [p, new SMAIndicator(p)]));
+    this.ema = new Map(c.emaPeriods.map((p) => [p, new EMAIndicator(p)]));
+    this.rsi = new RSIIndicator(c.rsiPeriod);
+    this.macd = new MACDIndicator(c.macd.fast, c.macd.slow, c.macd.signal);
+    this.bollinger = new BollingerBandsIndicator(
+      c.bollinger.period,
+      c.bollinger.stdDev
+    );
+    this.stochastic = new StochasticIndicator(
+      c.stochastic.kPeriod,
+      c.stochastic.dPeriod
+    );
+    this.volumeSma = new SMAIndicator(c.volumePeriod);
+    this.volatility = new VolatilityIndicator(
+      c.volatilityPeriod,
+      c.periodsPerYear
+    );
+    this.atr = new ATRIndicator(c.atrPeriod);
+    this.dmi = new DMIIndicator(c.adxPeriod);
+    this.vwap = new VWAPIndicator(c.vwap);
+    this.keltner = new KeltnerChannelIndicator(
+      c.keltner.emaPeriod,
+      c.keltner.atrPeriod,
+      c.keltner.multiplier
+    );
+    this.donchian = new DonchianChannelIndicator(c.donchianPeriod);
+    this.obv = new OBVIndicator();
+    this.mfi = new MFIIndicator(c.mfiPeriod);
+    this.ichimoku = new IchimokuIndicator(
+      c.ichimoku.tenkanPeriod,
+      c.ichimoku.kijunPeriod,
+      c.ichimoku.senkouBPeriod,
+      c.ichimoku.displacement
+    );
+    this.parabolicSar = new ParabolicSARIndicator(
+      c.parabolicSar.step,
+      c.parabolicSar.maxStep
+    );
+    this.superTrend = new SuperTrendIndicator(
+      c.superTrend.period,
+      c.superTrend.multiplier
+    );
+    this.pivots = new PivotPointsIndicator(c.pivots, c.pivots.method);
+  }
+
+  /**
+   * バー列から作成
+   */
+  static from(
+    bars: FeatureBar[],
+    config: Partial<FeatureConfig> = {}
+  ): FeatureFrame {
+    const frame = new FeatureFrame(config);
+    for (const bar of bars) frame.append(bar);
+    return frame;
+  }
+
+  /**
+   * 確定したバーを1本追加
+   */
+  append(bar: FeatureBar): FeatureSnapshot {
+    const last = this.latest();
+    if (last && timeOf(bar) <= timeOf(last)) {
+      throw new Error(
+        `バーは時系列順に追加してください: ${new Date(bar.timestamp).toISOString()}`
+      );
+    }
+
+    const close = bar.close;
+    const priceChange = last ? close - last.close : null;
+    const snapshot: FeatureSnapshot = {
+      ...bar,
+      sma: {},
+      ema: {},
+      rsi: this.rsi.update(close),
+      macd: this.macd.update(close),
+      bollinger: this.bollinger.update(close),
+      stochastic: this.stochastic.update(bar),
+      volumeSma: this.volumeSma.update(bar.volume),
+      volatility: this.volatility.update(close),
+      priceChange,
+      priceChangePercent:
+        last && last.close !== 0 ? (priceChange / last.close) * 100 : null,
+      atr: this.atr.update(bar),
+      dmi: this.dmi.update(bar),
+      vwap: this.vwap.update(bar),
+      keltner: this.keltner.update(bar),
+      donchian: this.donchian.update(bar),
+      obv: this.obv.update(bar),
+      mfi: this.mfi.update(bar),
+      ichimoku: this.ichimoku.update(bar),
+      parabolicSar: this.parabolicSar.update(bar),
+      superTrend: this.superTrend.update(bar),
+      pivots: this.pivots.update(bar),
+    };
+    for (const [period, indicator] of this.sma) {
+      snapshot.sma[period] = indicator.update(close);
+    }
+    for (const [period, indicator] of this.ema) {
+      snapshot.ema[period] = indicator.update(close);
+    }
+
+    this.snapshots.push(snapshot);
+    // 上限の1割を超えたらまとめて捨てる（1本あたり償却 O(1)）
+    if (this.snapshots.length > this.config.maxHistory * 1.1) {
+      this.snapshots.splice(0, this.snapshots.length - this.config.maxHistory);
+    }
+    return snapshot;
+  }
+
+  get length(): number {
+    return this.snapshots.length;
+  }
+
+  /**
+   * 保持している特徴量の系列（古い順）
+   */
+  get rows(): readonly FeatureSnapshot[] {
+    return this.snapshots;
+  }
+
+  latest(): FeatureSnapshot | null {
+    return this.snapshots[this.snapshots.length - 1] ?? null;
+  }
+
+  /**
+   * 基本指標が揃ったバーのみ
+   */
+  readyRows(): FeatureSnapshot[] {
+    return this.snapshots.filter(isComplete);
+  }
+}
+
+/**
+ * 基本指標（機械学習の特徴量に使う SMA〜ボラティリティ）が計算済みか
+ * 一目均衡表など期間の長い拡張指標は含めない
+ */
+export function isComplete(snapshot: FeatureSnapshot): boolean {
+  return (
+    Object.values(snapshot.sma).every((v) => v !== null) &&
+    Object.values(snapshot.ema).every((v) => v !== null) &&
+    snapshot.rsi !== null &&
+    snapshot.macd !== null &&
+    snapshot.bollinger !== null &&
+    snapshot.stochastic !== null &&
+    snapshot.volumeSma !== null &&
+    snapshot.volatility !== null &&
+    snapshot.priceChange !== null
+  );
+}
+
+/**
+ * 銘柄・足種ごとの FeatureFrame のキャッシュ
+ */
+export class FeatureStore {
+  private frames: Map<string, FeatureFrame> = new Map();
+  private config: Partial<FeatureConfig>;
+
+  constructor(config: Partial<FeatureConfig> = {}) {
+    this.config = config;
+  }
+
+  getFrame(symbol: string, timeframe: HistoricalInterval): FeatureFrame {
+    const key = this.key(symbol, timeframe);
+    let frame = this.frames.get(key);
+    if (!frame) {
+      frame = new FeatureFrame(this.config);
+      this.frames.set(key, frame);
+    }
+    return frame;
+  }
+
+  /**
+   * 新しいバーを1本追加
+   */
+  append(
+    symbol: string,
+    timeframe: HistoricalInterval,
+    bar: FeatureBar
+  ): FeatureSnapshot {
+    return this.getFrame(symbol, timeframe).append(bar);
+  }
+
+  /**
+   * 取得したバー列のうち未計算のもの（最新のバーより後）だけを追加
+   * 既に計算済みの範囲は再計算しない。取得したバー列より先まで計算済みの場合
+   * （バックテストなどで時点が戻った場合）は、未来のバーを参照しないよう作り直す
+   */
+  sync(
+    symbol: string,
+    timeframe: HistoricalInterval,
+    bars: FeatureBar[]
+  ): FeatureFrame {
+    let frame = this.getFrame(symbol, timeframe);
+    const latest = frame.latest();
+    if (
+      latest &&
+      bars.length > 0 &&
+      timeOf(latest) > timeOf(bars[bars.length - 1])
+    ) {
+      this.clear(symbol, timeframe);
+      frame = this.getFrame(symbol, timeframe);
+    }
+
+    const last = frame.latest() ? timeOf(frame.latest()) : -Infinity;
+    for (const bar of bars) {
+      if (timeOf(bar) > last) frame.append(bar);
+    }
+    return frame;
+  }
+
+  latest(
+    symbol: string,
+    timeframe: HistoricalInterval
+  ): FeatureSnapshot | null {
+    return this.frames.get(this.key(symbol, timeframe))?.latest() ?? null;
+  }
+
+  /**
+   * キャッシュを破棄（データの訂正・分割調整時など）
+   */
+  clear(symbol?: string, timeframe?: HistoricalInterval): void {
+    if (!symbol) {
+      this.frames.clear();
+      return;
+    }
+    for (const key of [...this.frames.keys()]) {
+      const [keySymbol, keyTimeframe] = key.split('|');
+      if (keySymbol === symbol && (!timeframe || keyTimeframe === timeframe)) {
+        this.frames.delete(key);
+      }
+    }
+  }
+
+  private key(symbol: string, timeframe: HistoricalInterval): string {
+    return `${symbol}|${timeframe}`;
+  }
+}
+
+/**
+ * 既定の指標設定を使う共有ストア
+ */
+export const featureStore = new FeatureStore();
+
+const configuredStores: Map<string, FeatureStore> = new Map();
+
+/**
+ * 指標設定で必要な指標が既定の設定で計算されるか
+ */
+function coveredByDefault(config: Partial<FeatureConfig>): boolean {
+  return Object.entries(config).every(([key, value]) => {
+    const base = DEFAULT_FEATURE_CONFIG[key as keyof FeatureConfig];
+    if (key === 'smaPeriods' || key === 'emaPeriods') {
+      return (value as number[]).every((p) => (base as number[]).includes(p));
+    }
+    return JSON.stringify(value) === JSON.stringify(base);
+  });
+}
+
+/**
+ * 指標設定に対応するストア（既定の設定で足りる場合は共有ストア）
+ */
+export function featureStoreFor(config: Partial<FeatureConfig>): FeatureStore {
+  if (coveredByDefault(config)) return featureStore;
+
+  const key = JSON.stringify(config);
+  let store = configuredStores.get(key);
+  if (!store) {
+    store = new FeatureStore(config);
+    configuredStores.set(key, store);
+  }
+  return store;
+}
@@ -0,0 +1,1154 @@
+/**
+ * テクニカル指標の逐次計算
+ * 各指標はバーを1本ずつ受け取り O(1)（期間内の高値・安値を使う指標は償却 O(1)）で最新値を更新する
+ * 期間に満たない間の値は null
+ */
+
+/**
+ * 逐次計算する指標
+ */
+export interface StreamingIndicator<TInput, TOutput> {
+  readonly value: TOutput | null;
+  update(input: TInput): TOutput | null;
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  width: number; // (上限 - 下限) / 中心
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number;
+}
+
+export interface HighLowClose {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface PriceBar extends HighLowClose {
+  timestamp: Date;
+  open: number;
+  volume: number;
+}
+
+export type TrendDirection = 'up' | 'down';
+
+export interface DMIValue {
+  plusDI: number;
+  minusDI: number;
+  adx: number;
+}
+
+export interface ChannelValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+/**
+ * 一目均衡表（先行スパンは displacement 本先、遅行スパンは displacement 本前に描く値）
+ * 期間の異なる線が揃うまでは各線が null
+ */
+export interface IchimokuValue {
+  tenkan: number | null; // 転換線
+  kijun: number | null; // 基準線
+  senkouA: number | null; // このバーで計算した先行スパン1
+  senkouB: number | null; // このバーで計算した先行スパン2
+  cloudA: number | null; // このバーの位置に描く先行スパン1（displacement 本前に計算）
+  cloudB: number | null; // このバーの位置に描く先行スパン2
+  chikou: number; // 遅行スパン（終値）
+}
+
+export interface ParabolicSARValue {
+  sar: number;
+  trend: TrendDirection;
+}
+
+export interface SuperTrendValue {
+  value: number; // 上昇トレンドは下限バンド、下降トレンドは上限バンド
+  trend: TrendDirection;
+  upper: number;
+  lower: number;
+}
+
+export interface PivotLevels {
+  pivot: number;
+  r1: number;
+  r2: number;
+  r3: number;
+  s1: number;
+  s2: number;
+  s3: number;
+}
+
+export type PivotMethod = 'classic' | 'fibonacci' | 'camarilla';
+
+/**
+ * VWAP・ピボットの区切り（utcOffsetMinutes で取引所の現地時刻に合わせる。東証は 540）
+ */
+export type AnchorPeriod = 'day' | 'week' | 'month' | 'year';
+
+export interface AnchorOptions {
+  anchor: AnchorPeriod;
+  utcOffsetMinutes: number;
+}
+
+/**
+ * 固定長のリングバッファ（push で押し出された値を返す）
+ */
+export class RollingWindow {
+  private buffer: number[];
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly size: number) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`期間は1以上の整数で指定してください: ${size}`);
+    }
+    this.buffer = new Array(size);
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  get isFull(): boolean {
+    return this.count === this.size;
+  }
+
+  push(value: number): number | undefined {
+    if (this.count < this.size) {
+      this.buffer[(this.start + this.count) % this.size] = value;
+      this.count++;
+      return undefined;
+    }
+    const evicted = this.buffer[this.start];
+    this.buffer[this.start] = value;
+    this.start = (this.start + 1) % this.size;
+    return evicted;
+  }
+}
+
+/**
+ * 単純移動平均
+ */
+export class SMAIndicator implements StreamingIndicator<number, number> {
+  value: number | null = null;
+  private window: RollingWindow;
+  private sum = 0;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(input: number): number | null {
+    this.sum += input - (this.window.push(input) ?? 0);
+    this.value = this.window.isFull ? this.sum / this.period : null;
+    return this.value;
+  }
+}
+
+/**
+ * 指数移動平均（最初の period 本の単純平均を初期値にする）
+ */
+export class EMAIndicator implements StreamingIndicator<number, number> {
+  value: number | null = null;
+  private seed: SMAIndicator;
+  private multiplier: number;
+
+  constructor(readonly period: number) {
+    this.seed = new SMAIndicator(period);
+    this.multiplier = 2 / (period + 1);
+  }
+
+  update(input: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.update(input);
+    } else {
+      this.value += (input - this.value) * this.multiplier;
+    }
+    return this.value;
+  }
+}
+
+/**
+ * RSI（直近 period 本の値幅の単純平均）
+ */
+export class RSIIndicator implements StreamingIndicator<number, number> {
+  value: number | null = null;
+  private gains: SMAIndicator;
+  private losses: SMAIndicator;
+  private previous: number | null = null;
+
+  constructor(readonly period: number) {
+    this.gains = new SMAIndicator(period);
+    this.losses = new SMAIndicator(period);
+  }
+
+  update(input: number): number | null {
+    if (this.previous !== null) {
+      const change = input - this.previous;
+      const avgGain = this.gains.update(Math.max(change, 0));
+      const avgLoss = this.losses.update(Math.max(-change, 0));
+      if (avgGain !== null && avgLoss !== null) {
+        // 累積和の丸め誤差で負にならないようにする
+        const gain = Math.max(avgGain, 0);
+        const loss = Math.max(avgLoss, 0);
+        this.value = loss <= 1e-12 ? 100 : 100 - 100 / (1 + gain / loss);
+      }
+    }
+    this.previous = input;
+    return this.value;
+  }
+}
+
+/**
+ * MACD（シグナルが揃うまでは null）
+ */
+export class MACDIndicator implements StreamingIndicator<number, MACDValue> {
+  value: MACDValue | null = null;
+  private fast: EMAIndicator;
+  private slow: EMAIndicator;
+  private signal: EMAIndicator;
+
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    this.fast = new EMAIndicator(fastPeriod);
+    this.slow = new EMAIndicator(slowPeriod);
+    this.signal = new EMAIndicator(signalPeriod);
+  }
+
+  update(input: number): MACDValue | null {
+    const fast = this.fast.update(input);
+    const slow = this.slow.update(input);
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signal.update(macd);
+    if (signal !== null) {
+      this.value = { macd, signal, histogram: macd - signal };
+    }
+    return this.value;
+  }
+}
+
+/**
+ * ボリンジャーバンド（母標準偏差）
+ */
+export class BollingerBandsIndicator
+  implements StreamingIndicator<number, BollingerValue>
+{
+  value: BollingerValue | null = null;
+  private window: RollingWindow;
+  private sum = 0;
+  private sumSquares = 0;
+
+  constructor(
+    readonly period = 20,
+    readonly stdDev = 2
+  ) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(input: number): BollingerValue | null {
+    const evicted = this.window.push(input) ?? 0;
+    this.sum += input - evicted;
+    this.sumSquares += input * input - evicted * evicted;
+    if (!this.window.isFull) return null;
+
+    const middle = this.sum / this.period;
+    const variance = Math.max(this.sumSquares / this.period - middle ** 2, 0);
+    const band = this.stdDev * Math.sqrt(variance);
+    this.value = {
+      upper: middle + band,
+      middle,
+      lower: middle - band,
+      width: middle !== 0 ? (2 * band) / middle : 0,
+    };
+    return this.value;
+  }
+}
+
+/**
+ * 直近 period 本の最大値・最小値（単調キューで償却 O(1)）
+ */
+export class RollingExtreme implements StreamingIndicator<number, number> {
+  value: number | null = null;
+  private queue: Array<{ index: number; value: number }> = [];
+  private head = 0;
+  private index = 0;
+
+  constructor(
+    readonly period: number,
+    readonly mode: 'max' | 'min'
+  ) {
+    if (!Number.isInteger(period) || period < 1) {
+      throw new Error(`期間は1以上の整数で指定してください: ${period}`);
+    }
+  }
+
+  update(input: number): number | null {
+    const index = this.index++;
+    // 新しい値より不利な末尾の値は今後最大・最小にならない
+    while (
+      this.queue.length > this.head &&
+      (this.mode === 'max'
+        ? this.queue[this.queue.length - 1].value <= input
+        : this.queue[this.queue.length - 1].value >= input)
+    ) {
+      this.queue.pop();
+    }
+    this.queue.push({ index, value: input });
+
+    const oldest = index - this.period + 1;
+    while (this.queue[this.head].index < oldest) this.head++;
+    if (this.head > 64 && this.head * 2 > this.queue.length) {
+      this.queue = this.queue.slice(this.head);
+      this.head = 0;
+    }
+
+    this.value = oldest >= 0 ? this.queue[this.head].value : null;
+    return this.value;
+  }
+}
+
+/**
+ * ストキャスティクス
+ */
+export class StochasticIndicator
+  implements StreamingIndicator<HighLowClose, StochasticValue>
+{
+  value: StochasticValue | null = null;
+  private highs: RollingExtreme;
+  private lows: RollingExtreme;
+  private d: SMAIndicator;
+
+  constructor(
+    readonly kPeriod = 14,
+    dPeriod = 3
+  ) {
+    this.highs = new RollingExtreme(kPeriod, 'max');
+    this.lows = new RollingExtreme(kPeriod, 'min');
+    this.d = new SMAIndicator(dPeriod);
+  }
+
+  update(input: HighLowClose): StochasticValue | null {
+    const highest = this.highs.update(input.high);
+    const lowest = this.lows.update(input.low);
+    if (highest === null || lowest === null) return null;
+
+    const k =
+      highest > lowest
+        ? ((input.close - lowest) / (highest - lowest)) * 100
+        : 50;
+    const d = this.d.update(k);
+    if (d !== null) this.value = { k, d };
+    return this.value;
+  }
+}
+
+/**
+ * ヒストリカル・ボラティリティ（直近 period 本の対数リターンの母標準偏差を年率換算）
+ */
+export class VolatilityIndicator implements StreamingIndicator<number, number> {
+  value: number | null = null;
+  private window: RollingWindow;
+  private sum = 0;
+  private sumSquares = 0;
+  private previous: number | null = null;
+
+  constructor(
+    readonly period = 20,
+    readonly periodsPerYear = 252
+  ) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(input: number): number | null {
+    if (this.previous !== null && this.previous > 0 && input > 0) {
+      const ret = Math.log(input / this.previous);
+      const evicted = this.window.push(ret) ?? 0;
+      this.sum += ret - evicted;
+      this.sumSquares += ret * ret - evicted * evicted;
+      if (this.window.isFull) {
+        const mean = this.sum / this.period;
+        const variance = Math.max(this.sumSquares / this.period - mean ** 2, 0);
+        this.value = Math.sqrt(variance) * Math.sqrt(this.periodsPerYear);
+      }
+    }
+    this.previous = input;
+    return this.value;
+  }
+}
+
+/**
+ * 期間の区切りの識別値（週は月曜始まり）
+ */
+export function anchorPeriodKey(
+  timestamp: Date,
+  anchor: AnchorPeriod,
+  utcOffsetMinutes = 0
+): number {
+  const local = new Date(
+    new Date(timestamp).getTime() + utcOffsetMinutes * 60000
+  );
+  const day = Math.floor(local.getTime() / 86400000);
+  switch (anchor) {
+    case 'day':
+      return day;
+    case 'week':
+      // 1970-01-01 は木曜日
+      return Math.floor((day + 3) / 7);
+    case 'month':
+      return local.getUTCFullYear() * 12 + local.getUTCMonth();
+    case 'year':
+      return local.getUTCFullYear();
+  }
+}
+
+/**
+ * 真の値幅（前の終値が無い場合は高値 - 安値）
+ */
+export function trueRange(
+  bar: HighLowClose,
+  previousClose: number | null
+): number {
+  if (previousClose === null) return bar.high - bar.low;
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previousClose),
+    Math.abs(bar.low - previousClose)
+  );
+}
+
+/**
+ * ワイルダーの平滑移動平均（最初の period 本の単純平均を初期値にする）
+ */
+export class WilderAverage implements StreamingIndicator<number, number> {
+  value: number | null = null;
+  private seed: SMAIndicator;
+
+  constructor(readonly period: number) {
+    this.seed = new SMAIndicator(period);
+  }
+
+  update(input: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.update(input);
+    } else {
+      this.value = (this.value * (this.period - 1) + input) / this.period;
+    }
+    return this.value;
+  }
+}
+
+/**
+ * ATR（真の値幅のワイルダー平滑）
+ */
+export class ATRIndicator implements StreamingIndicator<HighLowClose, number> {
+  value: number | null = null;
+  private average: WilderAverage;
+  private previousClose: number | null = null;
+
+  constructor(readonly period = 14) {
+    this.average = new WilderAverage(period);
+  }
+
+  update(input: HighLowClose): number | null {
+    this.value = this.average.update(trueRange(input, this.previousClose));
+    this.previousClose = input.close;
+    return this.value;
+  }
+}
+
+/**
+ * DMI・ADX（+DI・-DI が揃ってから ADX の期間分で確定）
+ */
+export class DMIIndicator
+  implements StreamingIndicator<HighLowClose, DMIValue>
+{
+  value: DMIValue | null = null;
+  private trueRange: WilderAverage;
+  private plusDM: WilderAverage;
+  private minusDM: WilderAverage;
+  private adx: WilderAverage;
+  private previous: HighLowClose | null = null;
+
+  constructor(readonly period = 14) {
+    this.trueRange = new WilderAverage(period);
+    this.plusDM = new WilderAverage(period);
+    this.minusDM = new WilderAverage(period);
+    this.adx = new WilderAverage(period);
+  }
+
+  update(input: HighLowClose): DMIValue | null {
+    const previous = this.previous;
+    this.previous = input;
+    if (!previous) return null;
+
+    const up = input.high - previous.high;
+    const down = previous.low - input.low;
+    const range = this.trueRange.update(trueRange(input, previous.close));
+    const plus = this.plusDM.update(up > down && up > 0 ? up : 0);
+    const minus = this.minusDM.update(down > up && down > 0 ? down : 0);
+    if (range === null) return null;
+
+    const plusDI = range > 0 ? (plus / range) * 100 : 0;
+    const minusDI = range > 0 ? (minus / range) * 100 : 0;
+    const total = plusDI + minusDI;
+    const dx = total > 0 ? (Math.abs(plusDI - minusDI) / total) * 100 : 0;
+    const adx = this.adx.update(dx);
+    if (adx !== null) this.value = { plusDI, minusDI, adx };
+    return this.value;
+  }
+}
+
+/**
+ * VWAP（区切りごとにリセット。reset() で任意のバーから計算し直す）
+ */
+export class VWAPIndicator
+  implements
+    StreamingIndicator<
+      Pick<PriceBar, 'timestamp' | 'high' | 'low' | 'close' | 'volume'>,
+      number
+    >
+{
+  value: number | null = null;
+  private options: AnchorOptions | null;
+  private period: number | null = null;
+  private priceVolume = 0;
+  private volume = 0;
+
+  /**
+   * @param options 区切り（null の場合はリセットせず累積）
+   */
+  constructor(options: Partial<AnchorOptions> | null = { anchor: 'day' }) {
+    this.options = options && {
+      anchor: options.anchor ?? 'day',
+      utcOffsetMinutes: options.utcOffsetMinutes ?? 0,
+    };
+  }
+
+  /**
+   * 次のバーから累積し直す（決算・イベント起点のアンカーVWAP）
+   */
+  reset(): void {
+    this.priceVolume = 0;
+    this.volume = 0;
+    this.value = null;
+  }
+
+  update(
+    input: Pick<PriceBar, 'timestamp' | 'high' | 'low' | 'close' | 'volume'>
+  ): number | null {
+    if (this.options) {
+      const period = anchorPeriodKey(
+        input.timestamp,
+        this.options.anchor,
+        this.options.utcOffsetMinutes
+      );
+      if (period !== this.period) this.reset();
+      this.period = period;
+    }
+
+    const typical = (input.high + input.low + input.close) / 3;
+    this.priceVolume += typical * input.volume;
+    this.volume += input.volume;
+    this.value = this.volume > 0 ? this.priceVolume / this.volume : typical;
+    return this.value;
+  }
+}
+
+/**
+ * ケルトナーチャネル（終値の EMA ± ATR の倍数）
+ */
+export class KeltnerChannelIndicator
+  implements StreamingIndicator<HighLowClose, ChannelValue>
+{
+  value: ChannelValue | null = null;
+  private ema: EMAIndicator;
+  private atr: ATRIndicator;
+
+  constructor(
+    emaPeriod = 20,
+    atrPeriod = 10,
+    readonly multiplier = 2
+  ) {
+    this.ema = new EMAIndicator(emaPeriod);
+    this.atr = new ATRIndicator(atrPeriod);
+  }
+
+  update(input: HighLowClose): ChannelValue | null {
+    const middle = this.ema.update(input.close);
+    const atr = this.atr.update(input);
+    if (middle === null || atr === null) return null;
+
+    this.value = {
+      upper: middle + this.multiplier * atr,
+      middle,
+      lower: middle - this.multiplier * atr,
+    };
+    return this.value;
+  }
+}
+
+/**
+ * ドンチャンチャネル（直近 period 本の高値・安値）
+ */
+export class DonchianChannelIndicator
+  implements StreamingIndicator<HighLowClose, ChannelValue>
+{
+  value: ChannelValue | null = null;
+  private highs: RollingExtreme;
+  private lows: RollingExtreme;
+
+  constructor(readonly period = 20) {
+    this.highs = new RollingExtreme(period, 'max');
+    this.lows = new RollingExtreme(period, 'min');
+  }
+
+  update(input: HighLowClose): ChannelValue | null {
+    const upper = this.highs.update(input.high);
+    const lower = this.lows.update(input.low);
+    if (upper === null || lower === null) return null;
+
+    this.value = { upper, middle: (upper + lower) / 2, lower };
+    return this.value;
+  }
+}
+
+/**
+ * OBV（最初のバーを 0 とする累積出来高）
+ */
+export class OBVIndicator
+  implements StreamingIndicator<Pick<PriceBar, 'close' | 'volume'>, number>
+{
+  value: number | null = null;
+  private previousClose: number | null = null;
+
+  update(input: Pick<PriceBar, 'close' | 'volume'>): number | null {
+    if (this.previousClose === null) {
+      this.value = 0;
+    } else if (input.close > this.previousClose) {
+      this.value += input.volume;
+    } else if (input.close < this.previousClose) {
+      this.value -= input.volume;
+    }
+    this.previousClose = input.close;
+    return this.value;
+  }
+}
+
+/**
+ * MFI（典型価格 × 出来高の上昇分・下落分の比）
+ */
+export class MFIIndicator
+  implements
+    StreamingIndicator<
+      Pick<PriceBar, 'high' | 'low' | 'close' | 'volume'>,
+      number
+    >
+{
+  value: number | null = null;
+  private positive: SMAIndicator;
+  private negative: SMAIndicator;
+  private previousTypical: number | null = null;
+
+  constructor(readonly period = 14) {
+    this.positive = new SMAIndicator(period);
+    this.negative = new SMAIndicator(period);
+  }
+
+  update(
+    input: Pick<PriceBar, 'high' | 'low' | 'close' | 'volume'>
+  ): number | null {
+    const typical = (input.high + input.low + input.close) / 3;
+    const previous = this.previousTypical;
+    this.previousTypical = typical;
+    if (previous === null) return null;
+
+    const flow = typical * input.volume;
+    const positive = this.positive.update(typical > previous ? flow : 0);
+    const negative = this.negative.update(typical < previous ? flow : 0);
+    if (positive === null || negative === null) return null;
+
+    const total = positive + negative;
+    this.value =
+      total <= 1e-12
+        ? 50
+        : negative <= 1e-12
+          ? 100
+          : 100 - 100 / (1 + positive / negative);
+    return this.value;
+  }
+}
+
+/**
+ * 一目均衡表
+ */
+export class IchimokuIndicator
+  implements StreamingIndicator<HighLowClose, IchimokuValue>
+{
+  value: IchimokuValue | null = null;
+  private tenkan: [RollingExtreme, RollingExtreme];
+  private kijun: [RollingExtreme, RollingExtreme];
+  private senkouB: [RollingExtreme, RollingExtreme];
+  // displacement 本前に計算した先行スパン（未確定は NaN）
+  private leadingA: RollingWindow;
+  private leadingB: RollingWindow;
+
+  constructor(
+    tenkanPeriod = 9,
+    kijunPeriod = 26,
+    senkouBPeriod = 52,
+    readonly displacement = 26
+  ) {
+    const channel = (period: number): [RollingExtreme, RollingExtreme] => [
+      new RollingExtreme(period, 'max'),
+      new RollingExtreme(period, 'min'),
+    ];
+    this.tenkan = channel(tenkanPeriod);
+    this.kijun = channel(kijunPeriod);
+    this.senkouB = channel(senkouBPeriod);
+    this.leadingA = new RollingWindow(displacement);
+    this.leadingB = new RollingWindow(displacement);
+  }
+
+  update(input: HighLowClose): IchimokuValue {
+    const midpoint = ([highs, lows]: [RollingExtreme, RollingExtreme]) => {
+      const high = highs.update(input.high);
+      const low = lows.update(input.low);
+      return high === null || low === null ? null : (high + low) / 2;
+    };
+    const tenkan = midpoint(this.tenkan);
+    const kijun = midpoint(this.kijun);
+    const senkouB = midpoint(this.senkouB);
+    const senkouA =
+      tenkan === null || kijun === null ? null : (tenkan + kijun) / 2;
+
+    const cloudA = this.leadingA.push(senkouA ?? NaN);
+    const cloudB = this.leadingB.push(senkouB ?? NaN);
+    this.value = {
+      tenkan,
+      kijun,
+      senkouA,
+      senkouB,
+      cloudA: Number.isFinite(cloudA) ? cloudA : null,
+      cloudB: Number.isFinite(cloudB) ? cloudB : null,
+      chikou: input.close,
+    };
+    return this.value;
+  }
+}
+
+/**
+ * パラボリック SAR（2本目の終値の向きで初期トレンドを決める）
+ */
+export class ParabolicSARIndicator
+  implements StreamingIndicator<HighLowClose, ParabolicSARValue>
+{
+  value: ParabolicSARValue | null = null;
+  private previous: HighLowClose | null = null;
+  private beforePrevious: HighLowClose | null = null;
+  private sar = 0;
+  private extreme = 0;
+  private acceleration = 0;
+  private trend: TrendDirection | null = null;
+
+  constructor(
+    readonly step = 0.02,
+    readonly maxStep = 0.2
+  ) {}
+
+  update(input: HighLowClose): ParabolicSARValue | null {
+    const previous = this.previous;
+    if (!previous) {
+      this.previous = input;
+      return null;
+    }
+
+    if (this.trend === null) {
+      this.trend = input.close >= previous.close ? 'up' : 'down';
+      this.sar =
+        this.trend === 'up'
+          ? Math.min(previous.low, input.low)
+          : Math.max(previous.high, input.high);
+      this.extreme =
+        this.trend === 'up'
+          ? Math.max(previous.high, input.high)
+          : Math.min(previous.low, input.low);
+      this.acceleration = this.step;
+    } else {
+      const older = this.beforePrevious ?? previous;
+      let sar = this.sar + this.acceleration * (this.extreme - this.sar);
+      if (this.trend === 'up') {
+        // 直近2本の安値より上には置かない
+        sar = Math.min(sar, previous.low, older.low);
+        if (input.low < sar) {
+          this.trend = 'down';
+          sar = this.extreme;
+          this.extreme = input.low;
+          this.acceleration = this.step;
+        } else if (input.high > this.extreme) {
+          this.extreme = input.high;
+          this.acceleration = Math.min(
+            this.acceleration + this.step,
+            this.maxStep
+          );
+        }
+      } else {
+        sar = Math.max(sar, previous.high, older.high);
+        if (input.high > sar) {
+          this.trend = 'up';
+          sar = this.extreme;
+          this.extreme = input.high;
+          this.acceleration = this.step;
+        } else if (input.low < this.extreme) {
+          this.extreme = input.low;
+          this.acceleration = Math.min(
+            this.acceleration + this.step,
+            this.maxStep
+          );
+        }
+      }
+      this.sar = sar;
+    }
+
+    this.beforePrevious = previous;
+    this.previous = input;
+    this.value = { sar: this.sar, trend: this.trend };
+    return this.value;
+  }
+}
+
+/**
+ * スーパートレンド（中値 ± ATR の倍数のバンドを終値が抜けたら反転）
+ */
+export class SuperTrendIndicator
+  implements StreamingIndicator<HighLowClose, SuperTrendValue>
+{
+  value: SuperTrendValue | null = null;
+  private atr: ATRIndicator;
+  private previousClose: number | null = null;
+
+  constructor(
+    period = 10,
+    readonly multiplier = 3
+  ) {
+    this.atr = new ATRIndicator(period);
+  }
+
+  update(input: HighLowClose): SuperTrendValue | null {
+    const atr = this.atr.update(input);
+    const previousClose = this.previousClose;
+    this.previousClose = input.close;
+    if (atr === null) return null;
+
+    const median = (input.high + input.low) / 2;
+    const basicUpper = median + this.multiplier * atr;
+    const basicLower = median - this.multiplier * atr;
+    const previous = this.value;
+
+    // バンドはトレンド方向にしか動かさない（前の終値がバンドを抜けた場合は戻す）
+    const upper =
+      !previous || basicUpper < previous.upper || previousClose > previous.upper
+        ? basicUpper
+        : previous.upper;
+    const lower =
+      !previous || basicLower > previous.lower || previousClose < previous.lower
+        ? basicLower
+        : previous.lower;
+
+    let trend: TrendDirection;
+    if (!previous) {
+      trend = input.close >= median ? 'up' : 'down';
+    } else if (previous.trend === 'up') {
+      trend = input.close < lower ? 'down' : 'up';
+    } else {
+      trend = input.close > upper ? 'up' : 'down';
+    }
+
+    this.value = {
+      value: trend === 'up' ? lower : upper,
+      trend,
+      upper,
+      lower,
+    };
+    return this.value;
+  }
+}
+
+/**
+ * 前の期間の高値・安値・終値からピボットを計算
+ */
+export function pivotLevels(
+  period: HighLowClose,
+  method: PivotMethod = 'classic'
+): PivotLevels {
+  const { high, low, close } = period;
+  const range = high - low;
+  const pivot = (high + low + close) / 3;
+
+  switch (method) {
+    case 'classic':
+      return {
+        pivot,
+        r1: 2 * pivot - low,
+        r2: pivot + range,
+        r3: high + 2 * (pivot - low),
+        s1: 2 * pivot - high,
+        s2: pivot - range,
+        s3: low - 2 * (high - pivot),
+      };
+    case 'fibonacci':
+      return {
+        pivot,
+        r1: pivot + 0.382 * range,
+        r2: pivot + 0.618 * range,
+        r3: pivot + range,
+        s1: pivot - 0.382 * range,
+        s2: pivot - 0.618 * range,
+        s3: pivot - range,
+      };
+    case 'camarilla':
+      return {
+        pivot,
+        r1: close + (range * 1.1) / 12,
+        r2: close + (range * 1.1) / 6,
+        r3: close + (range * 1.1) / 4,
+        s1: close - (range * 1.1) / 12,
+        s2: close - (range * 1.1) / 6,
+        s3: close - (range * 1.1) / 4,
+      };
+  }
+}
+
+/**
+ * ピボットポイント（区切りが変わった時点で直前の期間から計算し、次の区切りまで同じ値）
+ */
+export class PivotPointsIndicator
+  implements
+    StreamingIndicator<
+      Pick<PriceBar, 'timestamp' | 'high' | 'low' | 'close'>,
+      PivotLevels
+    >
+{
+  value: PivotLevels | null = null;
+  private options: AnchorOptions;
+  private period: number | null = null;
+  private current: HighLowClose | null = null;
+
+  constructor(
+    options: Partial<AnchorOptions> = {},
+    readonly method: PivotMethod = 'classic'
+  ) {
+    this.options = {
+      anchor: options.anchor ?? 'day',
+      utcOffsetMinutes: options.utcOffsetMinutes ?? 0,
+    };
+  }
+
+  update(
+    input: Pick<PriceBar, 'timestamp' | 'high' | 'low' | 'close'>
+  ): PivotLevels | null {
+    const period = anchorPeriodKey(
+      input.timestamp,
+      this.options.anchor,
+      this.options.utcOffsetMinutes
+    );
+
+    if (period !== this.period) {
+      if (this.current) this.value = pivotLevels(this.current, this.method);
+      this.current = { high: input.high, low: input.low, close: input.close };
+      this.period = period;
+    } else {
+      this.current.high = Math.max(this.current.high, input.high);
+      this.current.low = Math.min(this.current.low, input.low);
+      this.current.close = input.close;
+    }
+    return this.value;
+  }
+}
+
+/**
+ * 逐次計算の指標を配列全体に適用（結果は入力と同じ長さ）
+ */
+export function runIndicator<TInput, TOutput>(
+  indicator: StreamingIndicator<TInput, TOutput>,
+  inputs: TInput[]
+): Array<TOutput | null> {
+  return inputs.map((input) => indicator.update(input));
+}
+
+export function sma(values: number[], period: number): Array<number | null> {
+  return runIndicator(new SMAIndicator(period), values);
+}
+
+export function ema(values: number[], period: number): Array<number | null> {
+  return runIndicator(new EMAIndicator(period), values);
+}
+
+export function rsi(values: number[], period = 14): Array<number | null> {
+  return runIndicator(new RSIIndicator(period), values);
+}
+
+export function macd(
+  values: number[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9
+): Array<MACDValue | null> {
+  return runIndicator(
+    new MACDIndicator(fastPeriod, slowPeriod, signalPeriod),
+    values
+  );
+}
+
+export function bollingerBands(
+  values: number[],
+  period = 20,
+  stdDev = 2
+): Array<BollingerValue | null> {
+  return runIndicator(new BollingerBandsIndicator(period, stdDev), values);
+}
+
+export function stochastic(
+  bars: HighLowClose[],
+  kPeriod = 14,
+  dPeriod = 3
+): Array<StochasticValue | null> {
+  return runIndicator(new StochasticIndicator(kPeriod, dPeriod), bars);
+}
+
+export function volatility(
+  values: number[],
+  period = 20,
+  periodsPerYear = 252
+): Array<number | null> {
+  return runIndicator(new VolatilityIndicator(period, periodsPerYear), values);
+}
+
+export function atr(bars: HighLowClose[], period = 14): Array<number | null> {
+  return runIndicator(new ATRIndicator(period), bars);
+}
+
+export function dmi(bars: HighLowClose[], period = 14): Array<DMIValue | null> {
+  return runIndicator(new DMIIndicator(period), bars);
+}
+
+export function vwap(
+  bars: Array<
+    Pick<PriceBar, 'timestamp' | 'high' | 'low' | 'close' | 'volume'>
+  >,
+  options: Partial<AnchorOptions> | null = { anchor: 'day' }
+): Array<number | null> {
+  return runIndicator(new VWAPIndicator(options), bars);
+}
+
+/**
+ * 指定日時以降のバーで累積する VWAP（それより前は null）
+ */
+export function anchoredVwap(
+  bars: Array<
+    Pick<PriceBar, 'timestamp' | 'high' | 'low' | 'close' | 'volume'>
+  >,
+  from: Date
+): Array<number | null> {
+  const indicator = new VWAPIndicator(null);
+  const start = new Date(from).getTime();
+  return bars.map((bar) =>
+    new Date(bar.timestamp).getTime() >= start ? indicator.update(bar) : null
+  );
+}
+
+export function keltnerChannels(
+  bars: HighLowClose[],
+  emaPeriod = 20,
+  atrPeriod = 10,
+  multiplier = 2
+): Array<ChannelValue | null> {
+  return runIndicator(
+    new KeltnerChannelIndicator(emaPeriod, atrPeriod, multiplier),
+    bars
+  );
+}
+
+export function donchianChannels(
+  bars: HighLowClose[],
+  period = 20
+): Array<ChannelValue | null> {
+  return runIndicator(new DonchianChannelIndicator(period), bars);
+}
+
+export function obv(
+  bars: Array<Pick<PriceBar, 'close' | 'volume'>>
+): Array<number | null> {
+  return runIndicator(new OBVIndicator(), bars);
+}
+
+export function mfi(
+  bars: Array<Pick<PriceBar, 'high' | 'low' | 'close' | 'volume'>>,
+  period = 14
+): Array<number | null> {
+  return runIndicator(new MFIIndicator(period), bars);
+}
+
+export function ichimoku(
+  bars: HighLowClose[],
+  tenkanPeriod = 9,
+  kijunPeriod = 26,
+  senkouBPeriod = 52,
+  displacement = 26
+): Array<IchimokuValue | null> {
+  return runIndicator(
+    new IchimokuIndicator(
+      tenkanPeriod,
+      kijunPeriod,
+      senkouBPeriod,
+      displacement
+    ),
+    bars
+  );
+}
+
+export function parabolicSar(
+  bars: HighLowClose[],
+  step = 0.02,
+  maxStep = 0.2
+): Array<ParabolicSARValue | null> {
+  return runIndicator(new ParabolicSARIndicator(step, maxStep), bars);
+}
+
+export function superTrend(
+  bars: HighLowClose[],
+  period = 10,
+  multiplier = 3
+): Array<SuperTrendValue | null> {
+  return runIndicator(new SuperTrendIndicator(period, multiplier), bars);
+}
+
+export function pivotPoints(
+  bars: Array<Pick<PriceBar, 'timestamp' | 'high' | 'low' | 'close'>>,
+  options: Partial<AnchorOptions> = {},
+  method: PivotMethod = 'classic'
+): Array<PivotLevels | null> {
+  return runIndicator(new PivotPointsIndicator(options, method), bars);
+}
+
+/**
+ * 系列の最新値（未確定の場合は fallback）
+ */
+export function lastValue<T>(series: Array<T | null>, fallback: T): T {
+  const value = series[series.length - 1];
+  return value ?? fallback;
+}
@@ -0,0 +1,732 @@
+/**
+ * パターン検出エンジン
+ * 価格データからローソク足パターン・スイングに基づくチャートパターン・支持線/抵抗線を決定的に検出する
+ */
+
+import type { PriceData } from '../agents/technical-analyzer';
+
+export type PatternDirection = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+
+export type CandlestickPatternName =
+  | 'bullish_engulfing'
+  | 'bearish_engulfing'
+  | 'hammer'
+  | 'doji'
+  | 'morning_star'
+  | 'evening_star';
+
+export type ChartPatternName =
+  | 'double_top'
+  | 'double_bottom'
+  | 'head_and_shoulders'
+  | 'inverse_head_and_shoulders'
+  | 'ascending_triangle'
+  | 'descending_triangle'
+  | 'symmetrical_triangle'
+  | 'bull_flag'
+  | 'bear_flag';
+
+/**
+ * 検出したパターン（インデックスは入力の価格データの位置）
+ */
+export interface PatternMatch {
+  kind: 'candlestick' | 'chart';
+  pattern: CandlestickPatternName | ChartPatternName;
+  direction: PatternDirection;
+  confidence: number; // 0〜1
+  startIndex: number;
+  endIndex: number;
+  startTime: Date;
+  endTime: Date;
+  confirmed: boolean; // ネックライン・ブレイクアウト水準を終値で抜けたか（ローソク足は常に true）
+  breakoutLevel?: number; // ネックライン・ブレイクアウト水準
+  targetPrice?: number;
+  stopLoss?: number;
+  description: string;
+}
+
+export interface SwingPoint {
+  index: number;
+  timestamp: Date;
+  price: number;
+  type: 'high' | 'low';
+}
+
+/**
+ * 支持線・抵抗線（スイングの高値・安値が集中する価格帯）
+ */
+export interface PriceLevel {
+  type: 'support' | 'resistance'; // 最新の終値より下なら支持線
+  price: number;
+  touches: number;
+  firstTouch: Date;
+  lastTouch: Date;
+  confidence: number; // 0〜1
+}
+
+export interface PatternScanResult {
+  candlesticks: PatternMatch[];
+  chartPatterns: PatternMatch[];
+  levels: PriceLevel[];
+  swings: SwingPoint[];
+}
+
+export interface PatternEngineConfig {
+  swingWindow: number; // 前後それぞれこの本数の中で最高値・最安値のバーをスイングとする
+  tolerance: number; // 同じ高さとみなす価格差（比率）
+  minPatternDepth: number; // ダブルトップ等の山と谷の最小差（比率）
+  trendLookback: number; // ローソク足パターンの直前トレンドを見る本数
+  dojiBodyRatio: number; // 実体が値幅のこの割合以下なら十字線
+  triangleSwings: number; // 三角保ち合いに使う直近のスイング数
+  flag: {
+    poleBars: number; // 旗竿の本数
+    poleMinReturn: number; // 旗竿の最小変化率
+    minBars: number; // 旗の最小本数
+    maxBars: number;
+    maxRetracement: number; // 旗竿に対する旗の最大押し・戻し
+  };
+  levelTolerance: number; // 同じ価格帯とみなす差（比率）
+  minLevelTouches: number;
+  maxLevels: number;
+}
+
+export const DEFAULT_PATTERN_ENGINE_CONFIG: PatternEngineConfig = {
+  swingWindow: 3,
+  tolerance: 0.02,
+  minPatternDepth: 0.03,
+  trendLookback: 5,
+  dojiBodyRatio: 0.1,
+  triangleSwings: 6,
+  flag: {
+    poleBars: 5,
+    poleMinReturn: 0.05,
+    minBars: 3,
+    maxBars: 12,
+    maxRetracement: 0.5,
+  },
+  levelTolerance: 0.01,
+  minLevelTouches: 2,
+  maxLevels: 6,
+};
+
+const clamp = (value: number, min = 0, max = 1) =>
+  Math.min(Math.max(value, min), max);
+
+const body = (bar: PriceData) => Math.abs(bar.close - bar.open);
+const range = (bar: PriceData) => bar.high - bar.low;
+const isBullish = (bar: PriceData) => bar.close > bar.open;
+const isBearish = (bar: PriceData) => bar.close < bar.open;
+
+/**
+ * 最小二乗法の直線（x はバーの位置）
+ */
+function fitLine(points: Array<{ x: number; y: number }>): {
+  slope: number;
+  intercept: number;
+} {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.x - meanX) * (p.y - meanY);
+    variance += (p.x - meanX) ** 2;
+  }
+  const slope = variance > 0 ? covariance / variance : 0;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+export class PatternEngine {
+  private config: PatternEngineConfig;
+
+  constructor(config: Partial<PatternEngineConfig> = {}) {
+    this.config = { ...DEFAULT_PATTERN_ENGINE_CONFIG, ...config };
+  }
+
+  /**
+   * 全パターンと支持線・抵抗線を検出
+   */
+  scan(bars: PriceData[]): PatternScanResult {
+    const swings = this.findSwings(bars);
+    return {
+      candlesticks: this.detectCandlesticks(bars),
+      chartPatterns: [
+        ...this.detectDoubleTopsAndBottoms(bars, swings),
+        ...this.detectHeadAndShoulders(bars, swings),
+        ...this.detectTriangles(bars, swings),
+        ...this.detectFlags(bars),
+      ].sort((a, b) => a.endIndex - b.endIndex),
+      levels: this.detectLevels(bars, swings),
+      swings,
+    };
+  }
+
+  /**
+   * スイングの高値・安値（高値と安値が交互になるよう、連続する同種のスイングはより極端な方を残す）
+   */
+  findSwings(bars: PriceData[]): SwingPoint[] {
+    const k = this.config.swingWindow;
+    const swings: SwingPoint[] = [];
+
+    for (let i = k; i < bars.length - k; i++) {
+      const window = bars.slice(i - k, i + k + 1);
+      // 同値が並ぶ場合は最初のバーのみ
+      const isHigh =
+        bars[i].high === Math.max(...window.map((b) => b.high)) &&
+        bars.slice(i - k, i).every((b) => b.high < bars[i].high);
+      const isLow =
+        bars[i].low === Math.min(...window.map((b) => b.low)) &&
+        bars.slice(i - k, i).every((b) => b.low > bars[i].low);
+
+      for (const type of ['high', 'low'] as const) {
+        if (type === 'high' ? !isHigh : !isLow) continue;
+        const swing: SwingPoint = {
+          index: i,
+          timestamp: bars[i].timestamp,
+          price: type === 'high' ? bars[i].high : bars[i].low,
+          type,
+        };
+        const last = swings[swings.length - 1];
+        if (last && last.type === type) {
+          const moreExtreme =
+            type === 'high'
+              ? swing.price > last.price
+              : swing.price < last.price;
+          if (moreExtreme) swings[swings.length - 1] = swing;
+        } else {
+          swings.push(swing);
+        }
+      }
+    }
+    return swings;
+  }
+
+  /**
+   * ローソク足パターン
+   */
+  detectCandlesticks(bars: PriceData[]): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    const { trendLookback, dojiBodyRatio } = this.config;
+
+    for (let i = 1; i < bars.length; i++) {
+      const bar = bars[i];
+      const previous = bars[i - 1];
+      const barRange = range(bar);
+      if (barRange <= 0) continue;
+
+      // 直前のトレンド（パターン直前の終値の変化率）
+      const trendStart = bars[Math.max(i - 1 - trendLookback, 0)].close;
+      const trend = trendStart > 0 ? previous.close / trendStart - 1 : 0;
+      const trendStrength = clamp(Math.abs(trend) / 0.05);
+      const push = (
+        pattern: CandlestickPatternName,
+        direction: PatternDirection,
+        start: number,
+        confidence: number,
+        description: string
+      ) =>
+        matches.push({
+          kind: 'candlestick',
+          pattern,
+          direction,
+          confidence: clamp(confidence),
+          startIndex: start,
+          endIndex: i,
+          startTime: bars[start].timestamp,
+          endTime: bar.timestamp,
+          confirmed: true,
+          description,
+        });
+
+      const upperWick = bar.high - Math.max(bar.open, bar.close);
+      const lowerWick = Math.min(bar.open, bar.close) - bar.low;
+
+      if (body(bar) <= dojiBodyRatio * barRange) {
+        push(
+          'doji',
+          'NEUTRAL',
+          i,
+          0.5 + 0.3 * (1 - body(bar) / (dojiBodyRatio * barRange)),
+          '十字線（売り買いの拮抗）'
+        );
+      } else if (
+        trend < 0 &&
+        lowerWick >= 2 * body(bar) &&
+        upperWick <= body(bar)
+      ) {
+        push(
+          'hammer',
+          'BULLISH',
+          i,
+          0.45 + 0.3 * clamp(lowerWick / barRange) + 0.25 * trendStrength,
+          '下落後のハンマー（長い下ひげ）'
+        );
+      }
+
+      if (
+        isBearish(previous) &&
+        isBullish(bar) &&
+        bar.open <= previous.close &&
+        bar.close >= previous.open &&
+        body(bar) > body(previous)
+      ) {
+        push(
+          'bullish_engulfing',
+          'BULLISH',
+          i - 1,
+          0.45 +
+            0.25 * clamp(body(bar) / body(previous) - 1) +
+            (trend < 0 ? 0.3 * trendStrength : 0),
+          '陽線の包み足'
+        );
+      } else if (
+        isBullish(previous) &&
+        isBearish(bar) &&
+        bar.open >= previous.close &&
+        bar.close <= previous.open &&
+        body(bar) > body(previous)
+      ) {
+        push(
+          'bearish_engulfing',
+          'BEARISH',
+          i - 1,
+          0.45 +
+            0.25 * clamp(body(bar) / body(previous) - 1) +
+            (trend > 0 ? 0.3 * trendStrength : 0),
+          '陰線の包み足'
+        );
+      }
+
+      if (i < 2) continue;
+      const first = bars[i - 2];
+      const star = previous;
+      const firstMid = (first.open + first.close) / 2;
+      const smallStar = body(star) <= 0.3 * body(first);
+      const largeFirst = body(first) >= 0.5 * range(first);
+      if (
+        largeFirst &&
+        smallStar &&
+        isBearish(first) &&
+        Math.max(star.open, star.close) <= first.close + body(first) * 0.1 &&
+        isBullish(bar) &&
+        bar.close > firstMid
+      ) {
+        push(
+          'morning_star',
+          'BULLISH',
+          i - 2,
+          0.55 +
+            0.3 * clamp((bar.close - firstMid) / body(first) / 0.5) +
+            0.15 * trendStrength,
+          '明けの明星（下落からの反転）'
+        );
+      } else if (
+        largeFirst &&
+        smallStar &&
+        isBullish(first) &&
+        Math.min(star.open, star.close) >= first.close - body(first) * 0.1 &&
+        isBearish(bar) &&
+        bar.close < firstMid
+      ) {
+        push(
+          'evening_star',
+          'BEARISH',
+          i - 2,
+          0.55 +
+            0.3 * clamp((firstMid - bar.close) / body(first) / 0.5) +
+            0.15 * trendStrength,
+          '宵の明星（上昇からの反転）'
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * ダブルトップ・ダブルボトム（山・谷・山 / 谷・山・谷）
+   */
+  detectDoubleTopsAndBottoms(
+    bars: PriceData[],
+    swings: SwingPoint[]
+  ): PatternMatch[] {
+    const { tolerance, minPatternDepth } = this.config;
+    const matches: PatternMatch[] = [];
+
+    for (let s = 2; s < swings.length; s++) {
+      const [first, middle, second] = swings.slice(s - 2, s + 1);
+      const top = first.type === 'high';
+      const peak = (first.price + second.price) / 2;
+      const difference = Math.abs(first.price - second.price) / peak;
+      const depth = Math.abs(peak - middle.price) / peak;
+      if (difference > tolerance || depth < minPatternDepth) continue;
+
+      const neckline = middle.price;
+      const extreme = top
+        ? Math.max(first.price, second.price)
+        : Math.min(first.price, second.price);
+      const breakout = this.findBreakout(
+        bars,
+        second.index,
+        neckline,
+        extreme,
+        top
+      );
+      if (breakout.invalidated) continue;
+
+      const height = Math.abs(peak - neckline);
+      const end = breakout.index ?? second.index;
+      matches.push({
+        kind: 'chart',
+        pattern: top ? 'double_top' : 'double_bottom',
+        direction: top ? 'BEARISH' : 'BULLISH',
+        confidence: clamp(
+          0.4 +
+            0.2 * (1 - difference / tolerance) +
+            0.15 * clamp(depth / (minPatternDepth * 3)) +
+            (breakout.index !== null ? 0.25 : 0)
+        ),
+        startIndex: first.index,
+        endIndex: end,
+        startTime: first.timestamp,
+        endTime: bars[end].timestamp,
+        confirmed: breakout.index !== null,
+        breakoutLevel: neckline,
+        targetPrice: top ? neckline - height : neckline + height,
+        stopLoss: extreme,
+        description: top
+          ? `ダブルトップ（ネックライン ${neckline.toFixed(2)}）`
+          : `ダブルボトム（ネックライン ${neckline.toFixed(2)}）`,
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * 三尊・逆三尊（左肩・谷・頭・谷・右肩）
+   */
+  detectHeadAndShoulders(
+    bars: PriceData[],
+    swings: SwingPoint[]
+  ): PatternMatch[] {
+    const { tolerance, minPatternDepth } = this.config;
+    const matches: PatternMatch[] = [];
+
+    for (let s = 4; s < swings.length; s++) {
+      const [left, trough1, head, trough2, right] = swings.slice(s - 4, s + 1);
+      const top = head.type === 'high';
+      const sign = top ? 1 : -1;
+      const shoulders = (left.price + right.price) / 2;
+      const shoulderDifference = Math.abs(left.price - right.price) / shoulders;
+      const headExcess = (sign * (head.price - shoulders)) / shoulders;
+      if (shoulderDifference > tolerance * 2 || headExcess < tolerance)
+        continue;
+
+      // ネックラインは2つの谷（山）を結ぶ直線
+      const slope =
+        (trough2.price - trough1.price) / (trough2.index - trough1.index);
+      const necklineAt = (index: number) =>
+        trough1.price + slope * (index - trough1.index);
+      const height = sign * (head.price - necklineAt(head.index));
+      if (height / head.price < minPatternDepth) continue;
+
+      let breakoutIndex: number | null = null;
+      let invalidated = false;
+      for (let i = right.index + 1; i < bars.length; i++) {
+        if (sign * (bars[i].close - head.price) > 0) {
+          invalidated = true;
+          break;
+        }
+        if (sign * (bars[i].close - necklineAt(i)) < 0) {
+          breakoutIndex = i;
+          break;
+        }
+      }
+      if (invalidated) continue;
+
+      const end = breakoutIndex ?? right.index;
+      const neckline = necklineAt(end);
+      matches.push({
+        kind: 'chart',
+        pattern: top ? 'head_and_shoulders' : 'inverse_head_and_shoulders',
+        direction: top ? 'BEARISH' : 'BULLISH',
+        confidence: clamp(
+          0.4 +
+            0.2 * (1 - shoulderDifference / (tolerance * 2)) +
+            0.15 * clamp(headExcess / (tolerance * 3)) +
+            (breakoutIndex !== null ? 0.25 : 0)
+        ),
+        startIndex: left.index,
+        endIndex: end,
+        startTime: left.timestamp,
+        endTime: bars[end].timestamp,
+        confirmed: breakoutIndex !== null,
+        breakoutLevel: neckline,
+        targetPrice: neckline - sign * height,
+        stopLoss: right.price,
+        description: top
+          ? `三尊（ネックライン ${neckline.toFixed(2)}）`
+          : `逆三尊（ネックライン ${neckline.toFixed(2)}）`,
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * 三角保ち合い（直近のスイング高値・安値の回帰直線の傾きで分類）
+   */
+  detectTriangles(bars: PriceData[], swings: SwingPoint[]): PatternMatch[] {
+    const recent = swings.slice(-this.config.triangleSwings);
+    const highs = recent.filter((s) => s.type === 'high');
+    const lows = recent.filter((s) => s.type === 'low');
+    if (highs.length < 2 || lows.length < 2) return [];
+
+    const start = recent[0].index;
+    const last = bars.length - 1;
+    const upper = fitLine(highs.map((s) => ({ x: s.index, y: s.price })));
+    const lower = fitLine(lows.map((s) => ({ x: s.index, y: s.price })));
+    const lineAt = (line: typeof upper, x: number) =>
+      line.intercept + line.slope * x;
+
+    const widthStart = lineAt(upper, start) - lineAt(lower, start);
+    const widthEnd = lineAt(upper, last) - lineAt(lower, last);
+    if (widthStart <= 0 || widthEnd <= 0 || widthEnd >= widthStart) return [];
+
+    // パターン期間の変化率が tolerance 未満なら水平
+    const reference = bars[last].close;
+    const span = last - start;
+    const upperChange = (upper.slope * span) / reference;
+    const lowerChange = (lower.slope * span) / reference;
+    const { tolerance } = this.config;
+    const flat = (change: number) => Math.abs(change) < tolerance;
+
+    let pattern: ChartPatternName;
+    let direction: PatternDirection;
+    if (flat(upperChange) && lowerChange >= tolerance) {
+      pattern = 'ascending_triangle';
+      direction = 'BULLISH';
+    } else if (flat(lowerChange) && upperChange <= -tolerance) {
+      pattern = 'descending_triangle';
+      direction = 'BEARISH';
+    } else if (upperChange <= -tolerance && lowerChange >= tolerance) {
+      pattern = 'symmetrical_triangle';
+      direction = 'NEUTRAL';
+    } else {
+      return [];
+    }
+
+    // スイングの各線からの乖離が小さいほど信頼度を上げる
+    const fitError =
+      recent.reduce(
+        (sum, s) =>
+          sum +
+          Math.abs(
+            s.price - lineAt(s.type === 'high' ? upper : lower, s.index)
+          ),
+        0
+      ) /
+      recent.length /
+      widthStart;
+    const resistance = lineAt(upper, last);
+    const support = lineAt(lower, last);
+    const close = bars[last].close;
+    const confirmed = close > resistance || close < support;
+    if (confirmed && direction === 'NEUTRAL') {
+      direction = close > resistance ? 'BULLISH' : 'BEARISH';
+    }
+    const breakoutUp = direction === 'BULLISH';
+
+    return [
+      {
+        kind: 'chart',
+        pattern,
+        direction,
+        confidence: clamp(
+          0.35 +
+            0.05 * (recent.length - 4) +
+            0.25 * (1 - clamp(fitError * 4)) +
+            (confirmed ? 0.2 : 0)
+        ),
+        startIndex: start,
+        endIndex: last,
+        startTime: bars[start].timestamp,
+        endTime: bars[last].timestamp,
+        confirmed,
+        breakoutLevel: breakoutUp ? resistance : support,
+        targetPrice: breakoutUp
+          ? resistance + widthStart
+          : support - widthStart,
+        stopLoss: breakoutUp ? support : resistance,
+        description: `${
+          {
+            ascending_triangle: '上昇三角形',
+            descending_triangle: '下降三角形',
+            symmetrical_triangle: '三角保ち合い',
+          }[pattern]
+        }（上限 ${resistance.toFixed(2)} / 下限 ${support.toFixed(2)}）`,
+      },
+    ];
+  }
+
+  /**
+   * フラッグ（急騰・急落の旗竿の後、逆方向に緩やかな保ち合い）
+   * 期間が重なる候補は信頼度の高い方を残す
+   */
+  detectFlags(bars: PriceData[]): PatternMatch[] {
+    const { poleBars, poleMinReturn, minBars, maxBars, maxRetracement } =
+      this.config.flag;
+    const candidates: PatternMatch[] = [];
+
+    for (let end = poleBars + minBars; end < bars.length; end++) {
+      let best: PatternMatch | null = null;
+      for (let length = minBars; length <= maxBars; length++) {
+        const flagStart = end - length + 1;
+        const poleStart = flagStart - 1 - poleBars;
+        if (poleStart < 0) break;
+
+        const poleEnd = flagStart - 1;
+        const poleReturn = bars[poleEnd].close / bars[poleStart].close - 1;
+        if (Math.abs(poleReturn) < poleMinReturn) continue;
+
+        const bull = poleReturn > 0;
+        const sign = bull ? 1 : -1;
+        const poleHeight = Math.abs(
+          bars[poleEnd].close - bars[poleStart].close
+        );
+        const flag = bars.slice(flagStart, end + 1);
+        const flagHigh = Math.max(...flag.map((b) => b.high));
+        const flagLow = Math.min(...flag.map((b) => b.low));
+        // 旗竿の先端を超えたら保ち合いではない
+        if (
+          bull ? flagHigh > bars[poleEnd].high : flagLow < bars[poleEnd].low
+        ) {
+          continue;
+        }
+
+        const retracement =
+          (bull
+            ? bars[poleEnd].close - flagLow
+            : flagHigh - bars[poleEnd].close) / poleHeight;
+        if (retracement > maxRetracement) continue;
+
+        // 保ち合いは旗竿と逆向きか水平
+        const slope = fitLine(flag.map((b, j) => ({ x: j, y: b.close }))).slope;
+        if (sign * slope * length > 0.1 * poleHeight) continue;
+
+        const confidence = clamp(
+          0.45 +
+            0.25 * clamp(Math.abs(poleReturn) / (poleMinReturn * 2)) +
+            0.2 * (1 - clamp(retracement / maxRetracement)) +
+            0.1 * clamp(length / maxBars)
+        );
+        if (best && best.confidence >= confidence) continue;
+
+        const breakoutLevel = bull ? flagHigh : flagLow;
+        best = {
+          kind: 'chart',
+          pattern: bull ? 'bull_flag' : 'bear_flag',
+          direction: bull ? 'BULLISH' : 'BEARISH',
+          confidence,
+          startIndex: poleStart,
+          endIndex: end,
+          startTime: bars[poleStart].timestamp,
+          endTime: bars[end].timestamp,
+          confirmed: false,
+          breakoutLevel,
+          targetPrice: breakoutLevel + sign * poleHeight,
+          stopLoss: bull ? flagLow : flagHigh,
+          description: `${bull ? '上昇' : '下降'}フラッグ（旗竿 ${(poleReturn * 100).toFixed(1)}%、${length}本の保ち合い）`,
+        };
+      }
+      if (best) candidates.push(best);
+    }
+
+    // 期間が重なる候補は信頼度の高い方を残す
+    const selected: PatternMatch[] = [];
+    for (const candidate of [...candidates].sort(
+      (a, b) => b.confidence - a.confidence || a.endIndex - b.endIndex
+    )) {
+      const overlaps = selected.some(
+        (m) =>
+          m.pattern === candidate.pattern &&
+          candidate.startIndex <= m.endIndex &&
+          m.startIndex <= candidate.endIndex
+      );
+      if (!overlaps) selected.push(candidate);
+    }
+    return selected.sort((a, b) => a.endIndex - b.endIndex);
+  }
+
+  /**
+   * 支持線・抵抗線（近い価格のスイングをまとめ、接触回数と直近性で信頼度を付ける）
+   */
+  detectLevels(bars: PriceData[], swings: SwingPoint[]): PriceLevel[] {
+    if (bars.length === 0) return [];
+    const { levelTolerance, minLevelTouches, maxLevels } = this.config;
+    const close = bars[bars.length - 1].close;
+
+    const clusters: SwingPoint[][] = [];
+    for (const swing of [...swings].sort((a, b) => a.price - b.price)) {
+      const cluster = clusters[clusters.length - 1];
+      const mean =
+        cluster &&
+        cluster.reduce((sum, s) => sum + s.price, 0) / cluster.length;
+      if (cluster && swing.price - mean <= mean * levelTolerance) {
+        cluster.push(swing);
+      } else {
+        clusters.push([swing]);
+      }
+    }
+
+    return clusters
+      .filter((cluster) => cluster.length >= minLevelTouches)
+      .map((cluster) => {
+        const price =
+          cluster.reduce((sum, s) => sum + s.price, 0) / cluster.length;
+        const ordered = [...cluster].sort((a, b) => a.index - b.index);
+        const last = ordered[ordered.length - 1];
+        return {
+          type: price < close ? 'support' : 'resistance',
+          price,
+          touches: cluster.length,
+          firstTouch: ordered[0].timestamp,
+          lastTouch: last.timestamp,
+          confidence: clamp(
+            0.3 +
+              0.15 * Math.min(cluster.length - 1, 3) +
+              0.25 * (last.index / Math.max(bars.length - 1, 1))
+          ),
+        } as PriceLevel;
+      })
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, maxLevels);
+  }
+
+  /**
+   * from 以降でネックラインを終値で抜けたバー（その前に極値を更新した場合は無効）
+   */
+  private findBreakout(
+    bars: PriceData[],
+    from: number,
+    neckline: number,
+    extreme: number,
+    top: boolean
+  ): { index: number | null; invalidated: boolean } {
+    const { tolerance } = this.config;
+    for (let i = from + 1; i < bars.length; i++) {
+      const close = bars[i].close;
+      if (
+        top
+          ? close > extreme * (1 + tolerance)
+          : close < extreme * (1 - tolerance)
+      ) {
+        return { index: null, invalidated: true };
+      }
+      if (top ? close < neckline : close > neckline) {
+        return { index: i, invalidated: false };
+      }
+    }
+    return { index: null, invalidated: false };
+  }
+}
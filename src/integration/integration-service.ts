@@ -23,7 +23,7 @@ import { WebullIntegrationService } from '../services/webull-integration';
 import { BacktestEngine as Phase3BacktestEngine } from '../backtesting/backtest-engine';
 import { TradingMLService } from '../ml/trading-ml-service';
 import { RealTradingService } from '../services/real-trading-service';
-import { MomentumStrategy } from '../strategies/momentum-strategy';
+import { strategyRegistry } from '../strategies/strategy-registry';
 import { TradingStrategy } from '../strategies/trading-strategy';
 
 // Phase4 imports
@@ -319,15 +319,25 @@ export class IntegrationService extends EventEmitter {
     );
     this.services.set('realTradingService', this.realTradingService);
 
-    // Trading Strategies
+    // Trading Strategies（設定のキーは戦略レジストリのID）
     if (this.realTradingService && this.dataIntegrationService) {
-      const momentumStrategy = new MomentumStrategy(
-        this.config.phase3.tradingStrategies.momentum,
-        this.realTradingService,
-        this.dataIntegrationService
-      );
-      this.tradingStrategies.set('momentum', momentumStrategy);
-      this.services.set('momentumStrategy', momentumStrategy);
+      const strategyConfigs: Record<string, any> =
+        this.config.phase3.tradingStrategies ?? {};
+      for (const [id, strategyConfig] of Object.entries(strategyConfigs)) {
+        if (!strategyRegistry.has(id) || strategyConfig?.enabled === false) {
+          continue;
+        }
+        try {
+          const strategy = strategyRegistry.create(id, strategyConfig, {
+            tradingService: this.realTradingService,
+            dataService: this.dataIntegrationService,
+          });
+          this.tradingStrategies.set(id, strategy);
+          this.services.set(`${id}Strategy`, strategy);
+        } catch (error) {
+          this.logger.warn(`戦略 ${id} を初期化できませんでした:`, error);
+        }
+      }
     }
 
     // Trading ML Service
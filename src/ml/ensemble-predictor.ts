@@ -1,7 +1,15 @@
 import { LSTMPredictor } from './lstm-predictor';
+import {
+  evaluatePredictions,
+  TargetSpec,
+  TimeSeriesDataset,
+  TradingMetrics,
+} from './training-pipeline';
 
 interface PredictionResult {
   predictedPrice: number;
+  predictedTarget: number; // 目的変数の尺度での予測値（next_return ならリターン）
+  upProbability: number; // 上昇確率
   confidence: number;
   trend: 'up' | 'down' | 'neutral';
   confidenceInterval: {
@@ -22,6 +30,10 @@ interface TrainingData {
   features: number[][];
   targets: number[];
   timestamps: Date[];
+  index?: number[]; // 元のバー列での位置（学習パイプラインのデータセット）
+  horizon?: number; // 目的変数の期間（バー数）
+  featureNames?: string[];
+  target?: TargetSpec;
 }
 
 /**
@@ -32,6 +44,8 @@ export class EnsemblePredictor {
   private models: Map<string, LSTMPredictor> = new Map();
   private modelWeights: Map<string, number> = new Map();
   private isTrained: boolean = false;
+  // 学習に使った行の位置と目的変数の期間（評価時のリーク検出用）
+  private trainedSpan: { index: Set<number>; horizon: number } | null = null;
 
   constructor() {
     this.initializeModels();
@@ -82,6 +96,12 @@ export class EnsemblePredictor {
       // 重みを動的に調整（簡易実装）
       this.adjustModelWeights(results);
 
+      this.trainedSpan = trainingData.index
+        ? {
+            index: new Set(trainingData.index),
+            horizon: trainingData.horizon ?? 1,
+          }
+        : null;
       this.isTrained = true;
       console.log('Ensemble model training completed');
 
@@ -101,19 +121,17 @@ export class EnsemblePredictor {
   ): TrainingData {
     // モデルごとに異なるデータ処理を適用
     switch (modelName) {
-      case 'lstm_short':
+      case 'lstm_short': {
         // 短期予測用：最近のデータを重視
+        const recent = -Math.floor(trainingData.features.length * 0.7);
         return {
-          features: trainingData.features.slice(
-            -Math.floor(trainingData.features.length * 0.7)
-          ),
-          targets: trainingData.targets.slice(
-            -Math.floor(trainingData.targets.length * 0.7)
-          ),
-          timestamps: trainingData.timestamps.slice(
-            -Math.floor(trainingData.timestamps.length * 0.7)
-          ),
+          ...trainingData,
+          features: trainingData.features.slice(recent),
+          targets: trainingData.targets.slice(recent),
+          timestamps: trainingData.timestamps.slice(recent),
+          index: trainingData.index?.slice(recent),
         };
+      }
 
       case 'lstm_medium':
         // 中期予測用：全データを使用
@@ -121,11 +139,7 @@ export class EnsemblePredictor {
 
       case 'lstm_long':
         // 長期予測用：より多くの履歴データを使用
-        return {
-          features: trainingData.features,
-          targets: trainingData.targets,
-          timestamps: trainingData.timestamps,
-        };
+        return trainingData;
 
       default:
         return trainingData;
@@ -220,7 +234,8 @@ export class EnsemblePredictor {
    */
   private combinePredictions(predictions: ModelPrediction[]): PredictionResult {
     let weightedPriceSum = 0;
-    let weightedConfidenceSum = 0;
+    let weightedTargetSum = 0;
+    let weightedProbabilitySum = 0;
     let totalWeight = 0;
 
     const modelWeights: Record<string, number> = {};
@@ -229,22 +244,20 @@ export class EnsemblePredictor {
     for (const pred of predictions) {
       const weight = pred.weight;
       weightedPriceSum += pred.prediction.predictedPrice * weight;
-      weightedConfidenceSum += pred.prediction.confidence * weight;
+      weightedTargetSum += pred.prediction.predictedTarget * weight;
+      weightedProbabilitySum += pred.prediction.upProbability * weight;
       totalWeight += weight;
       modelWeights[pred.modelName] = weight;
     }
 
     const finalPrice = weightedPriceSum / totalWeight;
-    const finalConfidence = weightedConfidenceSum / totalWeight;
+    const finalTarget = weightedTargetSum / totalWeight;
+    const upProbability = weightedProbabilitySum / totalWeight;
+    const finalConfidence = Math.max(upProbability, 1 - upProbability);
 
-    // トレンドを決定
-    const currentPrice = predictions[0].prediction.predictedPrice; // 簡易実装
+    // トレンドを決定（上昇確率で判定）
     const trend =
-      finalPrice > currentPrice
-        ? 'up'
-        : finalPrice < currentPrice
-          ? 'down'
-          : 'neutral';
+      upProbability > 0.5 ? 'up' : upProbability < 0.5 ? 'down' : 'neutral';
 
     // 信頼区間を計算
     const variance =
@@ -258,6 +271,8 @@ export class EnsemblePredictor {
 
     return {
       predictedPrice: finalPrice,
+      predictedTarget: finalTarget,
+      upProbability,
       confidence: finalConfidence,
       trend,
       confidenceInterval: {
@@ -270,82 +285,120 @@ export class EnsemblePredictor {
   }
 
   /**
-   * モデルの性能を評価
+   * データセットの行を予測（next_return はリターン、direction は上昇確率）
+   * 各行の予測にはその行までの特徴量のみを使い、履歴が足りない行は中立（リターン0・確率0.5）とする
+   * 構成モデルはデータセットと同じ目的変数で学習している必要がある
    */
-  async evaluate(testData: TrainingData): Promise<Record<string, any>> {
-    try {
-      console.log('Evaluating ensemble model...');
-
-      const results: Record<string, any> = {};
-
-      for (const [modelName, model] of this.models) {
-        try {
-          const testMetrics = await this.evaluateModel(model, testData);
-          results[modelName] = testMetrics;
-        } catch (error) {
-          console.error(`Failed to evaluate ${modelName}:`, error);
-          results[modelName] = { error: error.message };
-        }
+  async predictRows(
+    dataset: TimeSeriesDataset,
+    rows: number[]
+  ): Promise<{ predicted: number[]; probabilities: number[] }> {
+    const { type, horizon } = dataset.target;
+    if ((type !== 'next_return' && type !== 'direction') || horizon !== 1) {
+      throw new Error(
+        `アンサンブル予測は次の足の終値を予測するため ${type}(${horizon}) には対応していません`
+      );
+    }
+    this.assertNoOverlap(dataset, rows);
+    for (const [modelName, model] of this.models) {
+      const status = model.getModelStatus();
+      if (!status.trained) continue; // 学習に失敗したモデルは予測時にも使われない
+      if (
+        status.target?.type !== type ||
+        status.target.horizon !== dataset.target.horizon
+      ) {
+        throw new Error(
+          `${modelName} は ${type}(${horizon}) で学習されていません`
+        );
       }
-
-      return results;
-    } catch (error) {
-      console.error('Failed to evaluate ensemble model:', error);
-      throw error;
     }
-  }
 
-  /**
-   * 個別モデルの性能を評価
-   */
-  private async evaluateModel(
-    model: LSTMPredictor,
-    testData: TrainingData
-  ): Promise<any> {
-    // 簡易的な評価実装
-    const predictions: number[] = [];
-    const actuals: number[] = [];
-
-    // テストデータの一部で予測を実行
-    const testSize = Math.min(10, testData.features.length);
-
-    for (let i = 0; i < testSize; i++) {
+    const predicted: number[] = [];
+    const probabilities: number[] = [];
+
+    for (const row of rows) {
+      let expectedReturn = 0;
+      let upProbability = 0.5;
       try {
-        const prediction = await model.predict(
-          testData.features.slice(0, i + 60)
+        const prediction = await this.predict(
+          dataset.features.slice(0, row + 1)
         );
-        predictions.push(prediction.predictedPrice);
-        actuals.push(testData.targets[i + 60]);
+        expectedReturn = prediction.predictedTarget;
+        upProbability = prediction.upProbability;
       } catch (error) {
-        // エラーが発生した場合はスキップ
-        continue;
+        console.warn(`Prediction skipped for row ${row}:`, error.message);
       }
+      predicted.push(type === 'direction' ? upProbability : expectedReturn);
+      probabilities.push(upProbability);
     }
 
-    if (predictions.length === 0) {
-      return { error: 'No valid predictions' };
+    return { predicted, probabilities };
+  }
+
+  /**
+   * データセットの行で性能を評価（学習に使った行と情報期間が重なる行はエラー）
+   */
+  async evaluate(
+    dataset: TimeSeriesDataset,
+    rows: number[]
+  ): Promise<TradingMetrics> {
+    console.log(`Evaluating ensemble model on ${rows.length} rows...`);
+
+    const { predicted, probabilities } = await this.predictRows(dataset, rows);
+    return evaluatePredictions(
+      dataset.target,
+      predicted,
+      rows.map((row) => dataset.targets[row]),
+      probabilities
+    );
+  }
+
+  /**
+   * 評価行の情報期間が学習行と重ならないことを確認（未来情報のリーク防止）
+   */
+  private assertNoOverlap(dataset: TimeSeriesDataset, rows: number[]): void {
+    if (!this.trainedSpan) return;
+
+    const { index, horizon } = this.trainedSpan;
+    const reach = Math.max(horizon, dataset.horizon);
+    for (const row of rows) {
+      const position = dataset.index[row];
+      for (let offset = -reach; offset <= reach; offset++) {
+        if (index.has(position + offset)) {
+          throw new Error(
+            `評価行 ${row} (${dataset.timestamps[row].toISOString()}) は学習データと期間が重なっています`
+          );
+        }
+      }
     }
+  }
 
-    // MAE（平均絶対誤差）を計算
-    const mae =
-      predictions.reduce(
-        (sum, pred, index) => sum + Math.abs(pred - actuals[index]),
-        0
-      ) / predictions.length;
-
-    // RMSE（二乗平均平方根誤差）を計算
-    const mse =
-      predictions.reduce(
-        (sum, pred, index) => sum + Math.pow(pred - actuals[index], 2),
-        0
-      ) / predictions.length;
-    const rmse = Math.sqrt(mse);
+  /**
+   * 構成モデルと重みを取得（モデルレジストリへの登録用）
+   */
+  getModels(): Array<{
+    modelName: string;
+    model: LSTMPredictor;
+    weight: number;
+  }> {
+    return Array.from(this.models.entries()).map(([modelName, model]) => ({
+      modelName,
+      model,
+      weight: this.modelWeights.get(modelName) || 0,
+    }));
+  }
 
-    return {
-      mae,
-      rmse,
-      predictions: predictions.length,
-    };
+  /**
+   * 構成モデルを差し替え（モデルレジストリから読み込んだ学習済みモデル）
+   * 全モデルが学習済みになった時点で予測可能になる
+   * 差し替え前のモデルはレジストリがキャッシュしている場合があるため破棄しない
+   */
+  setModel(modelName: string, model: LSTMPredictor, weight: number): void {
+    this.models.set(modelName, model);
+    this.modelWeights.set(modelName, weight);
+    this.isTrained = Array.from(this.models.values()).every(
+      (m) => m.getModelStatus().trained
+    );
   }
 
   /**
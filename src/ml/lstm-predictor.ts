@@ -1,13 +1,21 @@
 import * as tf from '@tensorflow/tfjs-node';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { TargetSpec } from './training-pipeline';
 
 interface TrainingData {
   features: number[][];
-  targets: number[];
+  targets: number[]; // 各行の将来方向の目的変数（学習パイプラインのデータセット）
   timestamps: Date[];
+  index?: number[]; // 元のバー列での位置（連続しない行をまたぐシーケンスは作らない）
+  featureNames?: string[];
+  target?: TargetSpec;
 }
 
 interface PredictionResult {
   predictedPrice: number;
+  predictedTarget: number; // 目的変数の尺度での予測値（next_return ならリターン）
+  upProbability: number; // 上昇確率
   confidence: number;
   trend: 'up' | 'down' | 'neutral';
   confidenceInterval: {
@@ -19,21 +27,54 @@ interface PredictionResult {
 
 interface ModelMetrics {
   loss: number;
-  accuracy: number;
-  mae: number;
+  accuracy: number; // 検証区間の方向一致率
+  mae: number; // 目的変数の尺度
   mse: number;
 }
 
+/**
+ * 学習区間のみから求めた正規化パラメータ（モデルと一緒に保存し、予測時も同じ値で正規化する）
+ */
+interface LSTMScaler {
+  featureMin: number[];
+  featureMax: number[];
+  targetMean: number;
+  targetStd: number;
+  residualStd: number; // 検証区間の予測誤差の標準偏差（目的変数の尺度）
+  closeIndex: number; // 特徴量での終値の位置（-1 は終値なし）
+  target: TargetSpec;
+}
+
+const DEFAULT_FEATURE_NAMES = ['open', 'high', 'low', 'close', 'volume'];
+const DEFAULT_TARGET: TargetSpec = { type: 'next_return', horizon: 1 };
+const SCALER_FILE = 'scaler.json';
+
+/**
+ * 標準正規分布の累積分布関数（Abramowitz-Stegun 近似）
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const poly =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
 /**
  * LSTM時系列予測モデル
- * TensorFlow.jsを使用して株価予測を行う
+ * TensorFlow.jsを使用して、直近 sequenceLength 行の特徴量から最終行の目的変数（将来リターン等）を予測する
  */
 export class LSTMPredictor {
   private model: tf.LayersModel | null = null;
   private isTrained: boolean = false;
   private sequenceLength: number = 60; // 60期間のデータを使用
-  private features: number = 5; // OHLCV
-  private predictionHorizon: number = 1; // 1期間先を予測
+  private features: number = DEFAULT_FEATURE_NAMES.length; // 既定は OHLCV
+  private predictionHorizon: number = 1; // 出力は目的変数1つ
+  private scaler: LSTMScaler | null = null;
 
   constructor() {
     this.initializeModel();
@@ -96,92 +137,107 @@ export class LSTMPredictor {
   }
 
   /**
-   * データを正規化
+   * 学習データから正規化パラメータを求める（特徴量は最小・最大、目的変数は平均・標準偏差）
    */
-  private normalizeData(data: number[][]): {
-    normalized: number[][];
-    min: number[];
-    max: number[];
-  } {
-    const normalized: number[][] = [];
-    const min: number[] = [];
-    const max: number[] = [];
-
-    // 各特徴量の最小値・最大値を計算
+  private fitScaler(data: TrainingData): LSTMScaler {
+    const featureMin: number[] = [];
+    const featureMax: number[] = [];
     for (let i = 0; i < this.features; i++) {
-      const values = data.map((row) => row[i]);
-      min[i] = Math.min(...values);
-      max[i] = Math.max(...values);
+      const values = data.features.map((row) => row[i]);
+      featureMin[i] = Math.min(...values);
+      featureMax[i] = Math.max(...values);
     }
 
-    // データを正規化
-    for (const row of data) {
-      const normalizedRow: number[] = [];
-      for (let i = 0; i < this.features; i++) {
-        const normalizedValue = (row[i] - min[i]) / (max[i] - min[i]);
-        normalizedRow.push(normalizedValue);
-      }
-      normalized.push(normalizedRow);
-    }
+    const n = data.targets.length;
+    const targetMean = data.targets.reduce((sum, v) => sum + v, 0) / n;
+    const targetStd = Math.sqrt(
+      data.targets.reduce((sum, v) => sum + (v - targetMean) ** 2, 0) / n
+    );
 
-    return { normalized, min, max };
+    return {
+      featureMin,
+      featureMax,
+      targetMean,
+      targetStd: targetStd > 0 ? targetStd : 1,
+      residualStd: targetStd > 0 ? targetStd : 1,
+      closeIndex: (data.featureNames ?? DEFAULT_FEATURE_NAMES).indexOf('close'),
+      target: data.target ?? DEFAULT_TARGET,
+    };
   }
 
   /**
-   * 正規化されたデータを元に戻す
+   * 特徴量を正規化（学習区間の最小・最大を使うため予測時は 0〜1 を外れることがある）
    */
-  private denormalizeData(
-    normalized: number[],
-    min: number[],
-    max: number[]
-  ): number[] {
-    return normalized.map(
-      (value, index) => value * (max[index] - min[index]) + min[index]
+  private scaleFeatures(rows: number[][], scaler: LSTMScaler): number[][] {
+    return rows.map((row) =>
+      row.map((value, i) => {
+        const range = scaler.featureMax[i] - scaler.featureMin[i];
+        return range > 0 ? (value - scaler.featureMin[i]) / range : 0;
+      })
     );
   }
 
   /**
    * 時系列データをシーケンスに変換
+   * 行 i で終わるシーケンスの教師値は行 i の目的変数（行 i の時点より後のバーで決まる値）
    */
-  private createSequences(data: number[][]): { X: number[][][]; y: number[] } {
+  private createSequences(
+    normalized: number[][],
+    targets: number[],
+    scaler: LSTMScaler,
+    index?: number[]
+  ): { X: number[][][]; y: number[] } {
     const X: number[][][] = [];
     const y: number[] = [];
 
-    for (let i = this.sequenceLength; i < data.length; i++) {
-      // 入力シーケンス
-      const sequence = data.slice(i - this.sequenceLength, i);
-      X.push(sequence);
-
-      // ターゲット（次の期間の終値）
-      y.push(data[i][3]); // 終値（インデックス3）
+    for (let i = this.sequenceLength - 1; i < normalized.length; i++) {
+      const first = i - this.sequenceLength + 1;
+      // パージ等で行が抜けている箇所をまたぐシーケンスは作らない
+      if (index && index[i] - index[first] !== this.sequenceLength - 1) {
+        continue;
+      }
+      X.push(normalized.slice(first, i + 1));
+      y.push((targets[i] - scaler.targetMean) / scaler.targetStd);
     }
 
     return { X, y };
   }
 
   /**
-   * モデルを学習
+   * モデルを学習（正規化パラメータは渡された学習データのみから求める）
    */
   async train(trainingData: TrainingData): Promise<ModelMetrics> {
     try {
-      if (!this.model) {
-        throw new Error('Model not initialized');
-      }
-
       console.log('Starting LSTM model training...');
       console.log(
         `Training data size: ${trainingData.features.length} samples`
       );
 
-      // データを正規化
-      const { normalized, min, max } = this.normalizeData(
-        trainingData.features
-      );
+      if (trainingData.features.length === 0) {
+        throw new Error('Insufficient data for training');
+      }
+
+      // 特徴量の数が異なる場合はモデルを作り直す
+      const featureCount = trainingData.features[0].length;
+      if (!this.model || featureCount !== this.features) {
+        this.model?.dispose();
+        this.features = featureCount;
+        this.initializeModel();
+      }
+
+      // 学習データのみで正規化
+      const scaler = this.fitScaler(trainingData);
+      const normalized = this.scaleFeatures(trainingData.features, scaler);
 
       // シーケンスを作成
-      const { X, y } = this.createSequences(normalized);
+      const { X, y } = this.createSequences(
+        normalized,
+        trainingData.targets,
+        scaler,
+        trainingData.index
+      );
 
-      if (X.length === 0) {
+      if (X.length < 2) {
         throw new Error('Insufficient data for training');
       }
 
@@ -189,7 +245,7 @@ export class LSTMPredictor {
       const XTensor = tf.tensor3d(X);
       const yTensor = tf.tensor2d(y, [y.length, 1]);
 
-      // データを訓練用と検証用に分割
+      // データを訓練用と検証用に時系列順で分割
       const splitIndex = Math.floor(X.length * 0.8);
       const XTrain = XTensor.slice(
         [0, 0, 0],
@@ -218,19 +274,32 @@ export class LSTMPredictor {
         },
       });
 
-      // メトリクスを計算
+      // 検証区間の予測誤差（目的変数の尺度）
+      const valPrediction = this.model.predict(XVal) as tf.Tensor;
+      const valPredicted = Array.from(await valPrediction.data()).map(
+        (v) => v * scaler.targetStd + scaler.targetMean
+      );
+      const valActual = y
+        .slice(splitIndex)
+        .map((v) => v * scaler.targetStd + scaler.targetMean);
+      const residuals = valPredicted.map((v, i) => valActual[i] - v);
+      const mse =
+        residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length;
+      const mae =
+        residuals.reduce((sum, r) => sum + Math.abs(r), 0) / residuals.length;
+      if (mse > 0) {
+        scaler.residualStd = Math.sqrt(mse);
+      }
+
+      // 方向一致率（direction は 0.5、それ以外は 0 を境に判定）
+      const threshold = scaler.target.type === 'direction' ? 0.5 : 0;
+      const hits = valPredicted.filter(
+        (v, i) => v > threshold === valActual[i] > threshold
+      ).length;
+
       const finalLoss = history.history.loss[
         history.history.loss.length - 1
       ] as number;
-      const finalValLoss = history.history.val_loss[
-        history.history.val_loss.length - 1
-      ] as number;
-      const finalMae = history.history.val_mae[
-        history.history.val_mae.length - 1
-      ] as number;
-      const finalMse = history.history.val_mse[
-        history.history.val_mse.length - 1
-      ] as number;
 
       // テンソルをメモリから解放
       XTensor.dispose();
@@ -239,15 +308,17 @@ export class LSTMPredictor {
       XVal.dispose();
       yTrain.dispose();
       yVal.dispose();
+      valPrediction.dispose();
 
+      this.scaler = scaler;
       this.isTrained = true;
       console.log('LSTM model training completed');
 
       return {
         loss: finalLoss,
-        accuracy: 1 - finalValLoss, // 簡易的な精度指標
-        mae: finalMae,
-        mse: finalMse,
+        accuracy: hits / valPredicted.length,
+        mae,
+        mse,
       };
     } catch (error) {
       console.error('Failed to train LSTM model:', error);
@@ -256,11 +327,11 @@ export class LSTMPredictor {
   }
 
   /**
-   * 予測を実行
+   * 予測を実行（入力は学習時と同じ特徴量の行。最終行の目的変数を予測する）
    */
   async predict(inputData: number[][]): Promise<PredictionResult> {
     try {
-      if (!this.model || !this.isTrained) {
+      if (!this.model || !this.isTrained || !this.scaler) {
         throw new Error('Model not trained');
       }
 
@@ -270,41 +341,50 @@ export class LSTMPredictor {
         );
       }
 
-      // 最新のシーケンスを取得
-      const latestSequence = inputData.slice(-this.sequenceLength);
+      const scaler = this.scaler;
 
-      // データを正規化（簡易実装）
-      const normalizedSequence = latestSequence.map(
-        (row) => row.map((value) => Math.min(Math.max(value, 0), 1)) // 簡易正規化
-      );
-
-      // テンソルに変換
-      const inputTensor = tf.tensor3d([normalizedSequence]);
+      // 最新のシーケンスを学習時の正規化パラメータで正規化
+      const latestSequence = inputData.slice(-this.sequenceLength);
+      const inputTensor = tf.tensor3d([
+        this.scaleFeatures(latestSequence, scaler),
+      ]);
 
       // 予測を実行
       const prediction = this.model.predict(inputTensor) as tf.Tensor;
       const predictedValue = await prediction.data();
-
-      // 信頼区間を計算（簡易実装）
-      const confidence = 0.7 + Math.random() * 0.2; // 0.7-0.9
-      const margin = Math.abs(predictedValue[0]) * (1 - confidence);
-
-      const predictedPrice = predictedValue[0];
-      const trend =
-        predictedPrice > inputData[inputData.length - 1][3]
-          ? 'up'
-          : predictedPrice < inputData[inputData.length - 1][3]
-            ? 'down'
-            : 'neutral';
+      const predictedTarget =
+        predictedValue[0] * scaler.targetStd + scaler.targetMean;
 
       // テンソルをメモリから解放
       inputTensor.dispose();
       prediction.dispose();
 
+      const lastClose =
+        scaler.closeIndex >= 0
+          ? latestSequence[latestSequence.length - 1][scaler.closeIndex]
+          : NaN;
+
+      // 上昇確率（リターン系は検証区間の誤差を正規分布とみなす）
+      let upProbability: number;
+      let predictedPrice: number;
+      let margin: number;
+      if (scaler.target.type === 'direction') {
+        upProbability = Math.min(Math.max(predictedTarget, 0), 1);
+        predictedPrice = lastClose;
+        margin = 0;
+      } else {
+        upProbability = normalCdf(predictedTarget / scaler.residualStd);
+        predictedPrice = lastClose * (1 + predictedTarget);
+        margin = lastClose * 1.96 * scaler.residualStd;
+      }
+
       return {
         predictedPrice,
-        confidence,
-        trend,
+        predictedTarget,
+        upProbability,
+        confidence: Math.max(upProbability, 1 - upProbability),
+        trend:
+          upProbability > 0.5 ? 'up' : upProbability < 0.5 ? 'down' : 'neutral',
         confidenceInterval: {
           lower: predictedPrice - margin,
           upper: predictedPrice + margin,
@@ -320,14 +400,23 @@ export class LSTMPredictor {
   /**
    * モデルを保存
    */
-  async saveModel(path: string): Promise<void> {
+  async saveModel(dir: string): Promise<void> {
     try {
       if (!this.model) {
         throw new Error('Model not initialized');
       }
 
-      await this.model.save(`file://${path}`);
-      console.log(`Model saved to ${path}`);
+      if (!this.scaler) {
+        throw new Error('Model not trained');
+      }
+
+      await this.model.save(`file://${dir}`);
+      await writeFile(
+        path.join(dir, SCALER_FILE),
+        JSON.stringify(this.scaler, null, 2),
+        'utf-8'
+      );
+      console.log(`Model saved to ${dir}`);
     } catch (error) {
       console.error('Failed to save model:', error);
       throw error;
@@ -335,13 +424,24 @@ export class LSTMPredictor {
   }
 
   /**
-   * モデルを読み込み
+   * モデルを読み込み（saveModel で保存したディレクトリ）
+   * 正規化パラメータのない旧形式のモデルは予測に使えないためエラーにする
    */
-  async loadModel(path: string): Promise<void> {
+  async loadModel(dir: string): Promise<void> {
     try {
-      this.model = await tf.loadLayersModel(`file://${path}`);
+      const scalerPath = path.join(dir, SCALER_FILE);
+      const scaler: LSTMScaler = JSON.parse(
+        await readFile(scalerPath, 'utf-8').catch(() => {
+          throw new Error(`正規化パラメータがありません: ${scalerPath}`);
+        })
+      );
+
+      this.model?.dispose();
+      this.model = await tf.loadLayersModel(`file://${dir}/model.json`);
+      this.features = scaler.featureMin.length;
+      this.scaler = scaler;
       this.isTrained = true;
-      console.log(`Model loaded from ${path}`);
+      console.log(`Model loaded from ${dir}`);
     } catch (error) {
       console.error('Failed to load model:', error);
       throw error;
@@ -355,11 +455,13 @@ export class LSTMPredictor {
     initialized: boolean;
     trained: boolean;
     sequenceLength: number;
+    target: TargetSpec | null;
   } {
     return {
       initialized: this.model !== null,
       trained: this.isTrained,
       sequenceLength: this.sequenceLength,
+      target: this.scaler?.target ?? null,
     };
   }
 
@@ -371,6 +473,7 @@ export class LSTMPredictor {
       this.model.dispose();
       this.model = null;
       this.isTrained = false;
+      this.scaler = null;
     }
   }
 }
@@ -0,0 +1,409 @@
+/**
+ * モデルレジストリ
+ * 学習済みモデルをバージョンごとに保存し、銘柄・足種・モデル名ごとに本番で使うバージョンを管理する
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { Logger } from '../utils/logger';
+import {
+  HistoricalInterval,
+  isHistoricalInterval,
+} from '../services/data-integration-service';
+import type { LSTMPredictor } from './lstm-predictor';
+import type { LSTMConfig, LSTMModel } from './models/lstm-model';
+import {
+  LinearRegressionModel,
+  LinearRegressionPredictor,
+} from './models/linear-regression';
+import {
+  RandomForestModel,
+  RandomForestPredictor,
+} from './models/random-forest';
+
+/**
+ * 保存できるモデルの種類
+ */
+export interface ModelKindMap {
+  linear_regression: LinearRegressionPredictor;
+  random_forest: RandomForestPredictor;
+  lstm: LSTMModel;
+  lstm_predictor: LSTMPredictor;
+}
+
+export type ModelKind = keyof ModelKindMap;
+
+/**
+ * モデルの識別子（modelName は同じ銘柄・足種で複数のモデルを持つための名前）
+ */
+export interface ModelKey {
+  symbol: string;
+  timeframe: HistoricalInterval;
+  modelName: string;
+}
+
+/**
+ * 登録時に記録する学習条件と評価結果
+ */
+export interface ModelRegistration {
+  kind: ModelKind;
+  trainingWindow: { start: Date; end: Date; samples: number };
+  featureSet: string[];
+  hyperparameters: Record<string, any>;
+  metrics: Record<string, number>;
+}
+
+/**
+ * 保存バージョン情報
+ */
+export interface ModelVersionInfo {
+  version: number;
+  kind: ModelKind;
+  createdAt: string;
+  trainingWindow: { start: string; end: string; samples: number };
+  featureSet: string[];
+  hyperparameters: Record<string, any>;
+  metrics: Record<string, number>;
+}
+
+/**
+ * モデルマニフェスト
+ */
+export interface ModelManifest extends ModelKey {
+  latestVersion: number;
+  activeVersion: number | null;
+  previousActiveVersions: number[]; // ロールバックで戻す順（末尾が直前の本番バージョン）
+  versions: ModelVersionInfo[];
+}
+
+export interface LoadedModel<K extends ModelKind> {
+  model: ModelKindMap[K];
+  version: ModelVersionInfo;
+}
+
+/**
+ * モデル種類ごとの保存・読み込み
+ * 線形回帰・ランダムフォレストは model.json、LSTM は TensorFlow.js の保存形式
+ */
+const ARTIFACT_HANDLERS: {
+  [K in ModelKind]: {
+    save(model: ModelKindMap[K], dir: string): Promise<void>;
+    load(dir: string, version: ModelVersionInfo): Promise<ModelKindMap[K]>;
+  };
+} = {
+  linear_regression: {
+    async save(model, dir) {
+      await writeJson(path.join(dir, 'model.json'), model.save());
+    },
+    async load(dir) {
+      const model = new LinearRegressionPredictor();
+      model.load(
+        await readJson<LinearRegressionModel>(path.join(dir, 'model.json'))
+      );
+      return model;
+    },
+  },
+  random_forest: {
+    async save(model, dir) {
+      await writeJson(path.join(dir, 'model.json'), model.save());
+    },
+    async load(dir) {
+      const model = new RandomForestPredictor();
+      model.load(
+        await readJson<RandomForestModel>(path.join(dir, 'model.json'))
+      );
+      return model;
+    },
+  },
+  lstm: {
+    async save(model, dir) {
+      // file:// の保存・読み込みは tfjs-node が登録する
+      await import('@tensorflow/tfjs-node');
+      await model.saveModel(dir);
+    },
+    async load(dir, version) {
+      await import('@tensorflow/tfjs-node');
+      const { LSTMModel } = await import('./models/lstm-model');
+      const model = new LSTMModel(version.hyperparameters as LSTMConfig);
+      await model.loadModel(dir);
+      return model;
+    },
+  },
+  lstm_predictor: {
+    async save(model, dir) {
+      await model.saveModel(dir);
+    },
+    async load(dir) {
+      const { LSTMPredictor } = await import('./lstm-predictor');
+      const model = new LSTMPredictor();
+      await model.loadModel(dir);
+      return model;
+    },
+  },
+};
+
+async function writeJson(filepath: string, data: unknown): Promise<void> {
+  await writeFile(filepath, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+async function readJson<T>(filepath: string): Promise<T> {
+  return JSON.parse(await readFile(filepath, 'utf-8'));
+}
+
+/**
+ * <rootDir>/<timeframe>/<symbol>/<modelName>/ に v<N>/（成果物と metadata.json）とマニフェストを保存する
+ */
+export class ModelRegistry {
+  private logger: Logger;
+  private rootDir: string;
+  private modelCache: Map<string, unknown> = new Map();
+
+  constructor(rootDir: string = './data/models') {
+    this.logger = new Logger('ModelRegistry');
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * 学習済みモデルを新バージョンとして保存
+   * promote 指定時は保存したバージョンを本番にする
+   */
+  async register<K extends ModelKind>(
+    key: ModelKey,
+    model: ModelKindMap[K],
+    registration: ModelRegistration & { kind: K },
+    options: { promote?: boolean } = {}
+  ): Promise<ModelVersionInfo> {
+    const manifest = (await this.getManifest(key)) || {
+      ...key,
+      latestVersion: 0,
+      activeVersion: null,
+      previousActiveVersions: [],
+      versions: [],
+    };
+
+    const version: ModelVersionInfo = {
+      version: manifest.latestVersion + 1,
+      kind: registration.kind,
+      createdAt: new Date().toISOString(),
+      trainingWindow: {
+        start: registration.trainingWindow.start.toISOString(),
+        end: registration.trainingWindow.end.toISOString(),
+        samples: registration.trainingWindow.samples,
+      },
+      featureSet: registration.featureSet,
+      hyperparameters: registration.hyperparameters,
+      metrics: registration.metrics,
+    };
+
+    const dir = this.versionDir(key, version.version);
+    await mkdir(dir, { recursive: true });
+    await ARTIFACT_HANDLERS[registration.kind].save(model, dir);
+    await writeJson(path.join(dir, 'metadata.json'), { ...key, ...version });
+
+    manifest.latestVersion = version.version;
+    manifest.versions.push(version);
+    if (options.promote) {
+      this.activate(manifest, version.version);
+    }
+    await this.saveManifest(manifest);
+
+    this.modelCache.set(this.cacheKey(key, version.version), model);
+    this.logger.info(
+      `✅ モデルを保存: ${this.label(key)} v${version.version} (${registration.kind}${options.promote ? ', 本番' : ''})`
+    );
+    return version;
+  }
+
+  /**
+   * 指定バージョンを本番にする
+   */
+  async promote(key: ModelKey, version: number): Promise<ModelManifest> {
+    const manifest = await this.requireManifest(key);
+    if (!manifest.versions.some((v) => v.version === version)) {
+      throw new Error(
+        `モデルバージョンが存在しません: ${this.label(key)} v${version}`
+      );
+    }
+    if (manifest.activeVersion === version) return manifest;
+
+    this.activate(manifest, version);
+    await this.saveManifest(manifest);
+    this.logger.info(`🔄 本番モデルを変更: ${this.label(key)} v${version}`);
+    return manifest;
+  }
+
+  /**
+   * 直前の本番バージョンに戻す
+   */
+  async rollback(key: ModelKey): Promise<ModelManifest> {
+    const manifest = await this.requireManifest(key);
+    const previous = manifest.previousActiveVersions.pop();
+    if (previous === undefined) {
+      throw new Error(
+        `ロールバック先のバージョンがありません: ${this.label(key)}`
+      );
+    }
+
+    const current = manifest.activeVersion;
+    manifest.activeVersion = previous;
+    await this.saveManifest(manifest);
+    this.logger.info(
+      `🔄 本番モデルをロールバック: ${this.label(key)} v${current} → v${previous}`
+    );
+    return manifest;
+  }
+
+  /**
+   * モデルを読み込み（バージョン未指定時は本番バージョン、本番が無い場合は null）
+   */
+  async load<K extends ModelKind>(
+    key: ModelKey,
+    kind: K,
+    version?: number
+  ): Promise<LoadedModel<K> | null> {
+    const manifest = await this.getManifest(key);
+    const target = version ?? manifest?.activeVersion;
+    if (!manifest || target == null) return null;
+
+    const info = manifest.versions.find((v) => v.version === target);
+    if (!info) {
+      throw new Error(
+        `モデルバージョンが存在しません: ${this.label(key)} v${target}`
+      );
+    }
+    if (info.kind !== kind) {
+      throw new Error(
+        `モデルの種類が異なります: ${this.label(key)} v${target} (${info.kind} ≠ ${kind})`
+      );
+    }
+
+    const cacheKey = this.cacheKey(key, target);
+    const cached = this.modelCache.get(cacheKey) as ModelKindMap[K];
+    if (cached) return { model: cached, version: info };
+
+    const model = await ARTIFACT_HANDLERS[kind].load(
+      this.versionDir(key, target),
+      info
+    );
+    this.modelCache.set(cacheKey, model);
+    return { model: model as ModelKindMap[K], version: info };
+  }
+
+  /**
+   * 本番バージョンの情報
+   */
+  async getActiveVersion(key: ModelKey): Promise<ModelVersionInfo | null> {
+    const manifest = await this.getManifest(key);
+    return (
+      manifest?.versions.find((v) => v.version === manifest.activeVersion) ??
+      null
+    );
+  }
+
+  /**
+   * マニフェストを取得
+   */
+  async getManifest(key: ModelKey): Promise<ModelManifest | null> {
+    const filepath = path.join(this.modelDir(key), 'manifest.json');
+    if (!existsSync(filepath)) return null;
+    return readJson<ModelManifest>(filepath);
+  }
+
+  /**
+   * 保存済みのモデルを列挙（銘柄・足種で絞り込み）
+   */
+  async listModels(
+    filter: Partial<Pick<ModelKey, 'symbol' | 'timeframe'>> = {}
+  ): Promise<ModelManifest[]> {
+    if (!existsSync(this.rootDir)) return [];
+
+    const manifests: ModelManifest[] = [];
+    for (const timeframe of await readdir(this.rootDir)) {
+      if (!isHistoricalInterval(timeframe)) continue;
+      if (filter.timeframe && timeframe !== filter.timeframe) continue;
+      const timeframeDir = path.join(this.rootDir, timeframe);
+      for (const symbolDir of await readdir(timeframeDir)) {
+        if (filter.symbol && symbolDir !== this.safeName(filter.symbol)) {
+          continue;
+        }
+        for (const modelName of await readdir(
+          path.join(timeframeDir, symbolDir)
+        )) {
+          const filepath = path.join(
+            timeframeDir,
+            symbolDir,
+            modelName,
+            'manifest.json'
+          );
+          if (existsSync(filepath)) {
+            manifests.push(await readJson<ModelManifest>(filepath));
+          }
+        }
+      }
+    }
+    return manifests;
+  }
+
+  private activate(manifest: ModelManifest, version: number): void {
+    if (manifest.activeVersion !== null) {
+      manifest.previousActiveVersions.push(manifest.activeVersion);
+    }
+    manifest.activeVersion = version;
+  }
+
+  private async requireManifest(key: ModelKey): Promise<ModelManifest> {
+    const manifest = await this.getManifest(key);
+    if (!manifest) {
+      throw new Error(`登録されていないモデルです: ${this.label(key)}`);
+    }
+    return manifest;
+  }
+
+  private async saveManifest(manifest: ModelManifest): Promise<void> {
+    const dir = this.modelDir(manifest);
+    await mkdir(dir, { recursive: true });
+    await writeJson(path.join(dir, 'manifest.json'), manifest);
+  }
+
+  private modelDir(key: ModelKey): string {
+    // 足種はディレクトリ名になるため既知の値のみ許可する
+    if (!isHistoricalInterval(key.timeframe)) {
+      throw new Error(`不正な足種です: ${key.timeframe}`);
+    }
+    return path.join(
+      this.rootDir,
+      key.timeframe,
+      this.safeName(key.symbol),
+      this.safeName(key.modelName)
+    );
+  }
+
+  private versionDir(key: ModelKey, version: number): string {
+    return path.join(this.modelDir(key), `v${version}`);
+  }
+
+  /**
+   * ディレクトリ名に使えない文字を置き換える（"." や ".." などドットのみの名前は拒否）
+   */
+  private safeName(name: string): string {
+    const safe = name.replace(/[^A-Za-z0-9._^=-]/g, '_');
+    if (/^\.*$/.test(safe)) {
+      throw new Error(`不正な名前です: ${name}`);
+    }
+    return safe;
+  }
+
+  private cacheKey(key: ModelKey, version: number): string {
+    return `${this.label(key)}_v${version}`;
+  }
+
+  private label(key: ModelKey): string {
+    return `${key.symbol}_${key.timeframe}_${key.modelName}`;
+  }
+}
+
+/**
+ * 既定の保存先を使うレジストリ
+ */
+export const modelRegistry = new ModelRegistry();
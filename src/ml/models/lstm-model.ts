@@ -3,6 +3,9 @@
  * 時系列データの予測に特化した深層学習モデル
  */
 
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
 export interface LSTMConfig {
   sequenceLength: number; // 入力シーケンス長
   hiddenUnits: number; // 隠れ層のユニット数
@@ -326,19 +329,21 @@ export class LSTMModel {
   }
 
   /**
-   * モデルを保存
+   * モデルを保存（正規化の範囲は scaler.json に保存）
    */
-  async saveModel(path: string): Promise<void> {
+  async saveModel(dir: string): Promise<void> {
     if (!this.model) {
       throw new Error('モデルが初期化されていません');
     }
 
     try {
-      // TensorFlow.jsを動的インポート
-      const tf = await import('@tensorflow/tfjs');
-
-      await this.model.save(`file://${path}`);
-      console.log(`✅ モデルを保存しました: ${path}`);
+      await this.model.save(`file://${dir}`);
+      await writeFile(
+        path.join(dir, 'scaler.json'),
+        JSON.stringify(this.scaler),
+        'utf-8'
+      );
+      console.log(`✅ モデルを保存しました: ${dir}`);
     } catch (error) {
       console.error('❌ モデル保存エラー:', error);
       throw error;
@@ -348,14 +353,17 @@ export class LSTMModel {
   /**
    * モデルを読み込み
    */
-  async loadModel(path: string): Promise<void> {
+  async loadModel(dir: string): Promise<void> {
     try {
       // TensorFlow.jsを動的インポート
       const tf = await import('@tensorflow/tfjs');
 
-      this.model = await tf.loadLayersModel(`file://${path}`);
+      this.model = await tf.loadLayersModel(`file://${dir}/model.json`);
+      this.scaler = JSON.parse(
+        await readFile(path.join(dir, 'scaler.json'), 'utf-8')
+      );
       this.isTrained = true;
-      console.log(`✅ モデルを読み込みました: ${path}`);
+      console.log(`✅ モデルを読み込みました: ${dir}`);
     } catch (error) {
       console.error('❌ モデル読み込みエラー:', error);
       throw error;
@@ -1,11 +1,29 @@
 import { prisma } from '@/core/database';
 import { redis } from '@/core/redis';
+import { FeatureStore, featureStore } from '@/features/feature-store';
+import type { HistoricalInterval } from '@/services/data-integration-service';
 import { FeatureEngineering, MLFeatures } from './feature-engineering';
 import { LinearRegressionPredictor } from './models/linear-regression';
 import { RandomForestPredictor } from './models/random-forest';
+import {
+  ModelKey,
+  modelRegistry,
+  ModelRegistry,
+  ModelVersionInfo,
+} from './model-registry';
+
+// 日足の終値から学習・予測する
+const PREDICTION_TIMEFRAME: HistoricalInterval = '1d';
+
+const RANDOM_FOREST_PARAMS = {
+  nEstimators: 50,
+  maxDepth: 10,
+  minSamplesSplit: 2,
+};
 
 export interface PredictionResult {
   modelName: string;
+  modelVersion?: number; // モデルレジストリのバージョン
   predictedPrice: number;
   confidence: number;
   timestamp: Date;
@@ -22,14 +40,11 @@ export interface ModelPerformance {
 
 export class PredictionService {
   private static instance: PredictionService;
-  private linearRegression: LinearRegressionPredictor;
-  private randomForest: RandomForestPredictor;
+  private registry: ModelRegistry = modelRegistry;
+  private featureStore: FeatureStore = featureStore;
   private isTraining = false;
 
-  private constructor() {
-    this.linearRegression = new LinearRegressionPredictor();
-    this.randomForest = new RandomForestPredictor();
-  }
+  private constructor() {}
 
   public static getInstance(): PredictionService {
     if (!PredictionService.instance) {
@@ -40,6 +55,7 @@ export class PredictionService {
 
   /**
    * 株価データから特徴量を生成
+   * 指標は特徴量ストアで銘柄ごとに逐次計算し、取得期間内の行を使う
    */
   private async generateFeatures(
     stockId: number,
@@ -49,6 +65,11 @@ export class PredictionService {
     const startDate = new Date();
     startDate.setDate(endDate.getDate() - days);
 
+    const stock = await prisma.stock.findUnique({ where: { id: stockId } });
+    if (!stock) {
+      throw new Error('Stock not found');
+    }
+
     const prices = await prisma.stockPrice.findMany({
       where: {
         stockId,
@@ -73,13 +94,61 @@ export class PredictionService {
       created_at: p.createdAt,
     })) as any;
 
-    return FeatureEngineering.generateMLFeatures(mappedPrices);
+    const frame = this.featureStore.sync(
+      stock.symbol,
+      PREDICTION_TIMEFRAME,
+      FeatureEngineering.toFeatureBars(mappedPrices)
+    );
+    return FeatureEngineering.fromSnapshots(
+      frame.rows.filter((row) => row.timestamp >= startDate)
+    );
+  }
+
+  /**
+   * 銘柄IDからモデルレジストリのキーを作成
+   */
+  private async modelKey(
+    stockId: number,
+    modelName: string
+  ): Promise<ModelKey> {
+    const stock = await prisma.stock.findUnique({ where: { id: stockId } });
+    if (!stock) {
+      throw new Error('Stock not found');
+    }
+    return { symbol: stock.symbol, timeframe: PREDICTION_TIMEFRAME, modelName };
+  }
+
+  /**
+   * 学習期間（特徴量の日付範囲）
+   */
+  /**
+   * テスト区間のMSEが本番バージョンより小さいか（本番バージョンが無い場合は true）
+   */
+  private async beatsActive(
+    key: ModelKey,
+    metrics: { mse: number }
+  ): Promise<boolean> {
+    const active = await this.registry.getActiveVersion(key);
+    if (!active) return true;
+    return active.metrics.mse !== undefined && metrics.mse < active.metrics.mse;
+  }
+
+  private trainingWindow(data: MLFeatures[]) {
+    return {
+      start: new Date(data[0].timestamp),
+      end: new Date(data[data.length - 1].timestamp),
+      samples: data.length,
+    };
   }
 
   /**
-   * モデルを学習
+   * モデルを学習してモデルレジストリに保存
+   * promote 指定時（既定）はテスト区間のMSEが本番バージョンより小さい場合のみ本番にする
    */
-  async trainModels(stockId: number): Promise<void> {
+  async trainModels(
+    stockId: number,
+    options: { promote?: boolean } = {}
+  ): Promise<ModelVersionInfo[]> {
     if (this.isTraining) {
       throw new Error('Training already in progress');
     }
@@ -88,6 +157,9 @@ export class PredictionService {
     console.log(`Training models for stock ${stockId}...`);
 
     try {
+      const promote = options.promote ?? true;
+      const lrKey = await this.modelKey(stockId, 'linear_regression');
+      const rfKey = await this.modelKey(stockId, 'random_forest');
       const features = await this.generateFeatures(stockId, 100);
 
       if (features.length < 20) {
@@ -101,21 +173,57 @@ export class PredictionService {
 
       // 線形回帰モデルを学習
       console.log('Training Linear Regression...');
-      this.linearRegression.train(trainingData);
-      const lrPerformance = this.linearRegression.evaluate(testData);
+      const linearRegression = new LinearRegressionPredictor();
+      linearRegression.train(trainingData);
+      const lrPerformance = linearRegression.evaluate(testData);
       console.log('Linear Regression Performance:', lrPerformance);
 
       // ランダムフォレストモデルを学習
       console.log('Training Random Forest...');
-      this.randomForest.train(trainingData, 50, 10, 2);
-      const rfPerformance = this.randomForest.evaluate(testData);
+      const randomForest = new RandomForestPredictor();
+      randomForest.train(
+        trainingData,
+        RANDOM_FOREST_PARAMS.nEstimators,
+        RANDOM_FOREST_PARAMS.maxDepth,
+        RANDOM_FOREST_PARAMS.minSamplesSplit
+      );
+      const rfPerformance = randomForest.evaluate(testData);
       console.log('Random Forest Performance:', rfPerformance);
 
+      // モデルと学習条件をレジストリに保存
+      const versions = [
+        await this.registry.register(
+          lrKey,
+          linearRegression,
+          {
+            kind: 'linear_regression',
+            trainingWindow: this.trainingWindow(trainingData),
+            featureSet: linearRegression.save()!.featureNames,
+            hyperparameters: { solver: 'normal_equation' },
+            metrics: lrPerformance,
+          },
+          { promote: promote && (await this.beatsActive(lrKey, lrPerformance)) }
+        ),
+        await this.registry.register(
+          rfKey,
+          randomForest,
+          {
+            kind: 'random_forest',
+            trainingWindow: this.trainingWindow(trainingData),
+            featureSet: randomForest.save()!.featureNames,
+            hyperparameters: RANDOM_FOREST_PARAMS,
+            metrics: rfPerformance,
+          },
+          { promote: promote && (await this.beatsActive(rfKey, rfPerformance)) }
+        ),
+      ];
+
       // 性能を保存
       await this.saveModelPerformance('linear_regression', lrPerformance);
       await this.saveModelPerformance('random_forest', rfPerformance);
 
       console.log('Model training completed');
+      return versions;
     } catch (error) {
       console.error('Error training models:', error);
       throw error;
@@ -125,18 +233,36 @@ export class PredictionService {
   }
 
   /**
-   * 予測を実行
+   * モデルレジストリから本番モデルを読み込む
+   */
+  private async loadActiveModels(stockId: number) {
+    const [linearRegression, randomForest] = await Promise.all([
+      this.registry.load(
+        await this.modelKey(stockId, 'linear_regression'),
+        'linear_regression'
+      ),
+      this.registry.load(
+        await this.modelKey(stockId, 'random_forest'),
+        'random_forest'
+      ),
+    ]);
+    return { linearRegression, randomForest };
+  }
+
+  /**
+   * 予測を実行（モデルレジストリの本番モデルを使う）
    */
   async predict(stockId: number): Promise<PredictionResult[]> {
     try {
-      // まずモデルを学習（まだ学習されていない場合）
-      if (
-        !this.linearRegression.isTrained() ||
-        !this.randomForest.isTrained()
-      ) {
+      let models = await this.loadActiveModels(stockId);
+
+      // 本番モデルがない場合は先に学習
+      if (!models.linearRegression || !models.randomForest) {
         console.log('Models not trained, training first...');
         await this.trainModels(stockId);
+        models = await this.loadActiveModels(stockId);
       }
+      const { linearRegression, randomForest } = models;
 
       const features = await this.generateFeatures(stockId, 100);
 
@@ -149,9 +275,10 @@ export class PredictionService {
 
       // 線形回帰で予測
       try {
-        const lrResult = this.linearRegression.predict(latestFeatures);
+        const lrResult = linearRegression.model.predict(latestFeatures);
         results.push({
           modelName: 'linear_regression',
+          modelVersion: linearRegression.version.version,
           predictedPrice: lrResult.predicted,
           confidence: lrResult.confidence,
           timestamp: new Date(),
@@ -163,9 +290,10 @@ export class PredictionService {
 
       // ランダムフォレストで予測
       try {
-        const rfResult = this.randomForest.predict(latestFeatures);
+        const rfResult = randomForest.model.predict(latestFeatures);
         results.push({
           modelName: 'random_forest',
+          modelVersion: randomForest.version.version,
           predictedPrice: rfResult.predicted,
           confidence: rfResult.confidence,
           timestamp: new Date(),
@@ -0,0 +1,487 @@
+/**
+ * 時系列の学習パイプライン
+ * 将来方向にずらした目的変数・時系列順の分割・パージ＆エンバーゴ付き k 分割交差検証で未来情報のリークを防ぐ
+ */
+
+import {
+  DEFAULT_FEATURE_CONFIG,
+  FeatureConfig,
+  FeatureFrame,
+  isComplete,
+} from '../features/feature-store';
+
+export interface PipelineBar {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * 目的変数（バー i の終値時点から見た将来の値）
+ * next_return: horizon 本先の終値リターン
+ * direction: horizon 本先の終値が上昇なら 1、それ以外は 0
+ * future_high / future_low: 次の horizon 本の高値の最大・安値の最小の終値からの変化率
+ */
+export interface TargetSpec {
+  type: 'next_return' | 'direction' | 'future_high' | 'future_low';
+  horizon: number;
+}
+
+/**
+ * 特徴量の定義（extract はバー i 以前のみを参照し、履歴不足なら null を返す）
+ */
+export interface FeatureSet {
+  names: string[];
+  extract(bars: PipelineBar[], i: number): number[] | null;
+}
+
+/**
+ * 学習用データセット（行 j はバー index[j] の終値時点で確定する特徴量と、その後 horizon 本で決まる目的変数）
+ */
+export interface TimeSeriesDataset {
+  features: number[][];
+  targets: number[];
+  timestamps: Date[];
+  index: number[]; // 元のバー列での位置
+  horizon: number;
+  featureNames: string[];
+  target: TargetSpec;
+}
+
+export interface DatasetSplit {
+  train: number[]; // データセットの行番号
+  validation: number[];
+  test: number[];
+}
+
+export interface CrossValidationFold {
+  fold: number;
+  train: number[];
+  test: number[];
+}
+
+/**
+ * 売買判断に使う評価指標
+ */
+export interface TradingMetrics {
+  samples: number;
+  mse: number;
+  mae: number;
+  directionalAccuracy: number; // 予測と実績の方向（符号）が一致した割合
+  informationCoefficient: number; // 予測と実績の順位相関（スピアマン）
+  brierScore: number | null; // 上昇確率の二乗誤差（確率がある場合のみ）
+}
+
+/**
+ * パイプラインで学習・予測するモデル
+ */
+export interface PipelineModel {
+  fit(dataset: TimeSeriesDataset, rows: number[]): Promise<void>;
+  // 予測は目的変数と同じ尺度（direction の場合は上昇確率）
+  predict(
+    dataset: TimeSeriesDataset,
+    rows: number[]
+  ): Promise<{ predicted: number[]; probabilities?: number[] }>;
+}
+
+export interface CrossValidationResult {
+  folds: Array<CrossValidationFold & { metrics: TradingMetrics }>;
+  average: TradingMetrics;
+}
+
+/**
+ * 各バーの OHLCV をそのまま特徴量にする
+ */
+export const OHLCV_FEATURES: FeatureSet = {
+  names: ['open', 'high', 'low', 'close', 'volume'],
+  extract: (bars, i) => [
+    bars[i].open,
+    bars[i].high,
+    bars[i].low,
+    bars[i].close,
+    bars[i].volume,
+  ],
+};
+
+/**
+ * 特徴量ストアのテクニカル指標を特徴量にする
+ * バー列ごとに FeatureFrame を1度だけ逐次計算し、バー i の行は i 以前のバーのみから決まる
+ */
+export function technicalFeatureSet(
+  config: Partial<FeatureConfig> = {}
+): FeatureSet {
+  const settings = { ...DEFAULT_FEATURE_CONFIG, ...config };
+  const frames = new WeakMap<PipelineBar[], FeatureFrame>();
+
+  return {
+    names: [
+      'close',
+      'volume',
+      ...settings.smaPeriods.map((p) => `sma${p}`),
+      ...settings.emaPeriods.map((p) => `ema${p}`),
+      'rsi',
+      'macd',
+      'macdSignal',
+      'macdHistogram',
+      'bollingerUpper',
+      'bollingerLower',
+      'bollingerWidth',
+      'stochasticK',
+      'stochasticD',
+      'volumeSma',
+      'volatility',
+      'priceChangePercent',
+    ],
+    extract: (bars, i) => {
+      let frame = frames.get(bars);
+      if (!frame) {
+        frame = new FeatureFrame({ ...settings, maxHistory: Infinity });
+        frames.set(bars, frame);
+      }
+      while (frame.length <= i) {
+        const bar = bars[frame.length];
+        frame.append({ ...bar, timestamp: bar.date });
+      }
+
+      const row = frame.rows[i];
+      if (!isComplete(row)) return null;
+      return [
+        row.close,
+        row.volume,
+        ...settings.smaPeriods.map((p) => row.sma[p]),
+        ...settings.emaPeriods.map((p) => row.ema[p]),
+        row.rsi,
+        row.macd.macd,
+        row.macd.signal,
+        row.macd.histogram,
+        row.bollinger.upper,
+        row.bollinger.lower,
+        row.bollinger.width,
+        row.stochastic.k,
+        row.stochastic.d,
+        row.volumeSma,
+        row.volatility,
+        row.priceChangePercent,
+      ];
+    },
+  };
+}
+
+/**
+ * バー i の目的変数（horizon 本先までのバーが無い場合は null）
+ */
+export function forwardTarget(
+  bars: PipelineBar[],
+  i: number,
+  target: TargetSpec
+): number | null {
+  const end = i + target.horizon;
+  if (target.horizon < 1 || end >= bars.length || bars[i].close <= 0) {
+    return null;
+  }
+
+  const base = bars[i].close;
+  const future = bars.slice(i + 1, end + 1);
+  switch (target.type) {
+    case 'next_return':
+      return bars[end].close / base - 1;
+    case 'direction':
+      return bars[end].close > base ? 1 : 0;
+    case 'future_high':
+      return Math.max(...future.map((bar) => bar.high)) / base - 1;
+    case 'future_low':
+      return Math.min(...future.map((bar) => bar.low)) / base - 1;
+  }
+}
+
+/**
+ * バー列からデータセットを作成（特徴量・目的変数が揃わない行は除く）
+ */
+export function buildDataset(
+  bars: PipelineBar[],
+  target: TargetSpec,
+  featureSet: FeatureSet = OHLCV_FEATURES
+): TimeSeriesDataset {
+  const dataset: TimeSeriesDataset = {
+    features: [],
+    targets: [],
+    timestamps: [],
+    index: [],
+    horizon: target.horizon,
+    featureNames: featureSet.names,
+    target,
+  };
+
+  for (let i = 0; i < bars.length; i++) {
+    const value = forwardTarget(bars, i, target);
+    if (value === null) continue;
+    const features = featureSet.extract(bars, i);
+    if (!features) continue;
+
+    dataset.features.push(features);
+    dataset.targets.push(value);
+    dataset.timestamps.push(new Date(bars[i].date));
+    dataset.index.push(i);
+  }
+  return dataset;
+}
+
+/**
+ * 指定した行だけのデータセット
+ */
+export function selectRows(
+  dataset: TimeSeriesDataset,
+  rows: number[]
+): TimeSeriesDataset {
+  return {
+    ...dataset,
+    features: rows.map((row) => dataset.features[row]),
+    targets: rows.map((row) => dataset.targets[row]),
+    timestamps: rows.map((row) => dataset.timestamps[row]),
+    index: rows.map((row) => dataset.index[row]),
+  };
+}
+
+/**
+ * 行 row の情報期間（特徴量の時点から目的変数が確定するバーまで）が [start, end] と重なるか
+ */
+function overlaps(
+  dataset: TimeSeriesDataset,
+  row: number,
+  start: number,
+  end: number
+): boolean {
+  const from = dataset.index[row];
+  return from <= end && from + dataset.horizon >= start;
+}
+
+/**
+ * 行の集合の情報期間（元のバー列での範囲）
+ */
+function span(dataset: TimeSeriesDataset, rows: number[]): [number, number] {
+  return [
+    dataset.index[rows[0]],
+    dataset.index[rows[rows.length - 1]] + dataset.horizon,
+  ];
+}
+
+/**
+ * 時系列順に学習・検証・テストに分割
+ * 目的変数の期間が後の区間と重なる行は前の区間から除く（パージ）
+ */
+export function chronologicalSplit(
+  dataset: TimeSeriesDataset,
+  ratios: { validation: number; test: number } = {
+    validation: 0.15,
+    test: 0.15,
+  }
+): DatasetSplit {
+  const n = dataset.targets.length;
+  const testSize = Math.floor(n * ratios.test);
+  const validationSize = Math.floor(n * ratios.validation);
+  const trainEnd = n - testSize - validationSize;
+  if (trainEnd <= 0) {
+    throw new Error('学習区間のデータが不足しています');
+  }
+
+  const rows = Array.from({ length: n }, (_, i) => i);
+  const test = rows.slice(n - testSize);
+  const validation = rows.slice(trainEnd, n - testSize);
+  const purgeBefore = (candidates: number[], next: number[]) => {
+    if (next.length === 0) return candidates;
+    const [start, end] = span(dataset, next);
+    return candidates.filter((row) => !overlaps(dataset, row, start, end));
+  };
+
+  return {
+    train: purgeBefore(purgeBefore(rows.slice(0, trainEnd), validation), test),
+    validation: purgeBefore(validation, test),
+    test,
+  };
+}
+
+/**
+ * パージ＆エンバーゴ付きの k 分割（テスト区間は時系列順の連続ブロック）
+ * テスト区間と情報期間が重なる学習行を除き、テスト区間直後の embargo 割合の行も除く
+ */
+export function purgedKFold(
+  dataset: TimeSeriesDataset,
+  folds: number,
+  embargo: number = 0.01
+): CrossValidationFold[] {
+  const n = dataset.targets.length;
+  if (folds < 2 || n < folds) {
+    throw new Error(`分割数が不正です: ${folds} (${n}行)`);
+  }
+
+  const embargoRows = Math.ceil(n * embargo);
+  const result: CrossValidationFold[] = [];
+  for (let fold = 0; fold < folds; fold++) {
+    const testStart = Math.floor((n * fold) / folds);
+    const testEnd = Math.floor((n * (fold + 1)) / folds);
+    const test = Array.from(
+      { length: testEnd - testStart },
+      (_, i) => testStart + i
+    );
+    const [start, end] = span(dataset, test);
+
+    const train: number[] = [];
+    for (let row = 0; row < n; row++) {
+      if (row >= testStart && row < testEnd + embargoRows) continue;
+      if (overlaps(dataset, row, start, end)) continue;
+      train.push(row);
+    }
+    result.push({ fold, train, test });
+  }
+  return result;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+/**
+ * 順位（同順位は平均順位）
+ */
+function ranks(values: number[]): number[] {
+  const order = values
+    .map((value, i) => ({ value, i }))
+    .sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (
+      end + 1 < order.length &&
+      order[end + 1].value === order[start].value
+    ) {
+      end++;
+    }
+    for (let k = start; k <= end; k++) {
+      result[order[k].i] = (start + end) / 2;
+    }
+    start = end + 1;
+  }
+  return result;
+}
+
+function pearson(a: number[], b: number[]): number {
+  const ma = mean(a);
+  const mb = mean(b);
+  let cov = 0;
+  let va = 0;
+  let vb = 0;
+  for (let i = 0; i < a.length; i++) {
+    cov += (a[i] - ma) * (b[i] - mb);
+    va += (a[i] - ma) ** 2;
+    vb += (b[i] - mb) ** 2;
+  }
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : 0;
+}
+
+/**
+ * 予測を評価（direction は予測・実績とも上昇確率・0/1 として 0.5 を境に方向を判定）
+ * @param probabilities 上昇確率（direction 以外で Brier スコアを計算する場合）
+ */
+export function evaluatePredictions(
+  target: TargetSpec,
+  predicted: number[],
+  actual: number[],
+  probabilities?: number[]
+): TradingMetrics {
+  const n = Math.min(predicted.length, actual.length);
+  const p = predicted.slice(0, n);
+  const y = actual.slice(0, n);
+  const threshold = target.type === 'direction' ? 0.5 : 0;
+
+  let hits = 0;
+  let directional = 0;
+  for (let i = 0; i < n; i++) {
+    if (target.type !== 'direction' && y[i] === threshold) continue;
+    directional++;
+    if (p[i] > threshold === y[i] > threshold) hits++;
+  }
+
+  const upProbabilities =
+    target.type === 'direction' ? p : probabilities?.slice(0, n);
+  const brierScore = upProbabilities
+    ? mean(
+        upProbabilities.map(
+          (prob, i) => (prob - (y[i] > threshold ? 1 : 0)) ** 2
+        )
+      )
+    : null;
+
+  return {
+    samples: n,
+    mse: mean(p.map((value, i) => (value - y[i]) ** 2)),
+    mae: mean(p.map((value, i) => Math.abs(value - y[i]))),
+    directionalAccuracy: directional > 0 ? hits / directional : 0,
+    informationCoefficient: n > 1 ? pearson(ranks(p), ranks(y)) : 0,
+    brierScore,
+  };
+}
+
+/**
+ * 評価指標を記録用の数値に展開（例: testDirectionalAccuracy、Brier スコアが無い場合は省く）
+ */
+export function flattenMetrics(
+  prefix: string,
+  metrics: TradingMetrics
+): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const [key, value] of Object.entries(metrics)) {
+    if (value === null) continue;
+    result[`${prefix}${key[0].toUpperCase()}${key.slice(1)}`] = value;
+  }
+  return result;
+}
+
+/**
+ * パージ＆エンバーゴ付き k 分割交差検証（分割ごとに新しいモデルを学習）
+ */
+export async function crossValidate(
+  dataset: TimeSeriesDataset,
+  createModel: () => PipelineModel,
+  options: { folds: number; embargo?: number }
+): Promise<CrossValidationResult> {
+  const results: CrossValidationResult['folds'] = [];
+
+  for (const fold of purgedKFold(dataset, options.folds, options.embargo)) {
+    const model = createModel();
+    await model.fit(dataset, fold.train);
+    const { predicted, probabilities } = await model.predict(
+      dataset,
+      fold.test
+    );
+    const metrics = evaluatePredictions(
+      dataset.target,
+      predicted,
+      fold.test.map((row) => dataset.targets[row]),
+      probabilities
+    );
+    results.push({ ...fold, metrics });
+  }
+
+  const brierScores = results
+    .map((fold) => fold.metrics.brierScore)
+    .filter((score): score is number => score !== null);
+  const average = (key: keyof Omit<TradingMetrics, 'brierScore'>) =>
+    mean(results.map((fold) => fold.metrics[key]));
+
+  return {
+    folds: results,
+    average: {
+      samples: average('samples'),
+      mse: average('mse'),
+      mae: average('mae'),
+      directionalAccuracy: average('directionalAccuracy'),
+      informationCoefficient: average('informationCoefficient'),
+      brierScore: brierScores.length > 0 ? mean(brierScores) : null,
+    },
+  };
+}
@@ -0,0 +1,400 @@
+import { EventEmitter } from 'events';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { Logger } from '../utils/logger';
+import { calculateATR } from '../trading/exit-policy';
+import { Universe, UniverseMember, loadUniverse } from './universe-loader';
+
+/**
+ * スクリーナーが利用する市場データ（HybridMarketDataService が満たす）
+ */
+export interface ScreenerDataProvider {
+  getMarketData(symbol: string): Promise<{
+    price: number;
+    volume: number;
+    open: number;
+    previousClose: number;
+  }>;
+  getHistoricalData(
+    symbol: string,
+    startDate: Date | string,
+    endDate?: Date | string
+  ): Promise<
+    Array<{ high: number; low: number; close: number; volume: number }>
+  >;
+  getCompanyInfo?(symbol: string): Promise<{ sector: string }>;
+}
+
+/**
+ * スクリーニングルール（未指定の項目は判定しない）
+ * 値が取得できない銘柄は、その項目のルールが指定されていれば除外する
+ */
+export interface ScreeningRules {
+  minPrice?: number;
+  maxPrice?: number;
+  minVolume?: number;
+  minRelativeVolume?: number; // 出来高 / 平均出来高（例: 1.5 = 150%）
+  minGapPercent?: number; // 寄り付きギャップ率の絶対値の下限（例: 0.01 = 1%）
+  maxGapPercent?: number; // 寄り付きギャップ率の絶対値の上限
+  minATRPercent?: number; // ATR / 株価 の下限
+  maxATRPercent?: number; // ATR / 株価 の上限
+  minFloat?: number; // 浮動株数の下限
+  maxFloat?: number; // 浮動株数の上限
+  minMarketCap?: number;
+  maxMarketCap?: number;
+  includeSectors?: string[]; // 指定時はこのセクターのみ
+  excludeSectors?: string[];
+}
+
+export type RankingMetric =
+  | 'relativeVolume'
+  | 'absGapPercent'
+  | 'atrPercent'
+  | 'volume'
+  | 'marketCap';
+
+/**
+ * ランキングの重み（各指標のパーセンタイル順位 × 重み の合計でスコア化）
+ */
+export type RankingWeights = Partial<Record<RankingMetric, number>>;
+
+/**
+ * スクリーニング結果の1銘柄
+ */
+export interface ScreenedStock {
+  symbol: string;
+  name: string | null;
+  sector: string | null;
+  price: number;
+  volume: number;
+  averageVolume: number | null;
+  relativeVolume: number | null;
+  gapPercent: number | null;
+  atr: number | null;
+  atrPercent: number | null;
+  floatShares: number | null;
+  marketCap: number | null;
+  score: number;
+}
+
+/**
+ * 日次のユニバーススナップショット
+ */
+export interface ScreenerSnapshot {
+  date: string; // YYYY-MM-DD
+  universe: string;
+  generatedAt: string;
+  rulesKey: string;
+  scanned: number;
+  results: ScreenedStock[]; // スコアの降順
+}
+
+export interface StockScreenerConfig {
+  cacheDir: string; // スナップショットの保存先
+  lookbackDays: number; // 平均出来高の計算期間
+  atrPeriod: number;
+  rankingWeights: RankingWeights;
+}
+
+const DEFAULT_CONFIG: StockScreenerConfig = {
+  cacheDir: './data/screener',
+  lookbackDays: 20,
+  atrPeriod: 14,
+  rankingWeights: { relativeVolume: 1, absGapPercent: 1, atrPercent: 1 },
+};
+
+/**
+ * 銘柄スクリーナー
+ * ファイルから読み込んだユニバースをルールで絞り込み、ランキングした日次スナップショットを作成する
+ */
+export class StockScreener extends EventEmitter {
+  private logger: Logger;
+  private config: StockScreenerConfig;
+  private dataProvider: ScreenerDataProvider;
+  private universes: Map<string, Universe> = new Map();
+  private snapshots: Map<string, ScreenerSnapshot> = new Map();
+
+  constructor(
+    dataProvider: ScreenerDataProvider,
+    config: Partial<StockScreenerConfig> = {}
+  ) {
+    super();
+    this.logger = new Logger('StockScreener');
+    this.dataProvider = dataProvider;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * ユニバースの読み込み（ファイルパス単位でキャッシュ）
+   */
+  async loadUniverse(filePath: string): Promise<Universe> {
+    const cached = this.universes.get(filePath);
+    if (cached) return cached;
+
+    const universe = await loadUniverse(filePath);
+    this.universes.set(filePath, universe);
+    this.logger.info(
+      `✅ ユニバース読み込み: ${universe.name} (${universe.members.length}銘柄)`
+    );
+    return universe;
+  }
+
+  /**
+   * 日次スナップショットの取得
+   * 同じ日・ユニバース・ルールのスナップショットがあれば再利用する（メモリ → ファイルの順）
+   */
+  async getDailySnapshot(
+    universeFile: string,
+    rules: ScreeningRules = {},
+    date: Date = new Date()
+  ): Promise<ScreenerSnapshot> {
+    const universe = await this.loadUniverse(universeFile);
+    const dateKey = this.toDateKey(date);
+    const rulesKey = JSON.stringify(rules);
+    const cacheKey = `${universe.name}_${dateKey}_${rulesKey}`;
+
+    const cached = this.snapshots.get(cacheKey);
+    if (cached) return cached;
+
+    const filePath = this.snapshotPath(universe.name, dateKey);
+    if (existsSync(filePath)) {
+      try {
+        const stored: ScreenerSnapshot = JSON.parse(
+          await readFile(filePath, 'utf-8')
+        );
+        if (stored.rulesKey === rulesKey) {
+          this.snapshots.set(cacheKey, stored);
+          this.logger.info(`📂 スナップショットを再利用: ${filePath}`);
+          return stored;
+        }
+      } catch (error) {
+        this.logger.warn(
+          `⚠️ スナップショットの読み込みに失敗: ${filePath}`,
+          error
+        );
+      }
+    }
+
+    const results = await this.screen(universe, rules, date);
+    const snapshot: ScreenerSnapshot = {
+      date: dateKey,
+      universe: universe.name,
+      generatedAt: new Date().toISOString(),
+      rulesKey,
+      scanned: universe.members.length,
+      results,
+    };
+
+    this.snapshots.set(cacheKey, snapshot);
+    await this.saveSnapshot(filePath, snapshot);
+    this.emit('snapshotCreated', snapshot);
+    return snapshot;
+  }
+
+  /**
+   * ユニバース全体をスクリーニングしてランキング
+   * @param asOf 基準日時（履歴データの取得期間の起点）
+   */
+  async screen(
+    universe: Universe,
+    rules: ScreeningRules = {},
+    asOf: Date = new Date()
+  ): Promise<ScreenedStock[]> {
+    this.logger.info(
+      `銘柄スクリーニング実行: ${universe.name} (${universe.members.length}銘柄)`
+    );
+
+    const passed: ScreenedStock[] = [];
+    for (const member of universe.members) {
+      try {
+        const stock = await this.evaluate(member, rules, asOf);
+        if (stock) passed.push(stock);
+      } catch (error) {
+        this.logger.warn(`${member.symbol} のスクリーニングをスキップ:`, error);
+      }
+    }
+
+    const ranked = this.rank(passed);
+    this.logger.info(
+      `✅ スクリーニング完了: ${ranked.length}/${universe.members.length}銘柄が条件を満たしました`
+    );
+    return ranked;
+  }
+
+  /**
+   * 1銘柄の指標計算とルール判定（条件を満たさなければ null）
+   */
+  private async evaluate(
+    member: UniverseMember,
+    rules: ScreeningRules,
+    asOf: Date
+  ): Promise<ScreenedStock | null> {
+    const quote = await this.dataProvider.getMarketData(member.symbol);
+    const { price, volume } = quote;
+
+    // 安価な判定を先に行い、履歴データの取得を減らす
+    if (!this.inRange(price, rules.minPrice, rules.maxPrice)) return null;
+    if (rules.minVolume !== undefined && volume < rules.minVolume) return null;
+    if (!this.inRange(member.floatShares, rules.minFloat, rules.maxFloat))
+      return null;
+    if (!this.inRange(member.marketCap, rules.minMarketCap, rules.maxMarketCap))
+      return null;
+
+    const gapPercent =
+      quote.previousClose > 0
+        ? (quote.open - quote.previousClose) / quote.previousClose
+        : null;
+    if (
+      !this.inRange(
+        gapPercent === null ? null : Math.abs(gapPercent),
+        rules.minGapPercent,
+        rules.maxGapPercent
+      )
+    )
+      return null;
+
+    const sector = member.sector ?? (await this.fetchSector(member.symbol));
+    if (rules.includeSectors?.length && !rules.includeSectors.includes(sector))
+      return null;
+    // セクター不明の銘柄は除外セクターに該当しないと確認できないため除く
+    if (
+      rules.excludeSectors?.length &&
+      (!sector || rules.excludeSectors.includes(sector))
+    )
+      return null;
+
+    // 履歴データから平均出来高とATRを計算
+    const startDate = new Date(asOf);
+    startDate.setDate(
+      startDate.getDate() -
+        Math.ceil(
+          Math.max(this.config.lookbackDays, this.config.atrPeriod + 1) * 1.5
+        ) -
+        5
+    );
+    const bars = await this.dataProvider.getHistoricalData(
+      member.symbol,
+      startDate,
+      asOf
+    );
+    const recent = bars.slice(-this.config.lookbackDays);
+    const averageVolume =
+      recent.length > 0
+        ? recent.reduce((sum, bar) => sum + bar.volume, 0) / recent.length
+        : null;
+    const relativeVolume = averageVolume ? volume / averageVolume : null;
+    const atr = calculateATR(bars, this.config.atrPeriod);
+    const atrPercent = atr !== null && price > 0 ? atr / price : null;
+
+    if (
+      rules.minRelativeVolume !== undefined &&
+      !(relativeVolume !== null && relativeVolume >= rules.minRelativeVolume)
+    )
+      return null;
+    if (!this.inRange(atrPercent, rules.minATRPercent, rules.maxATRPercent))
+      return null;
+
+    return {
+      symbol: member.symbol,
+      name: member.name,
+      sector,
+      price,
+      volume,
+      averageVolume,
+      relativeVolume,
+      gapPercent,
+      atr,
+      atrPercent,
+      floatShares: member.floatShares,
+      marketCap: member.marketCap,
+      score: 0,
+    };
+  }
+
+  /**
+   * 重み付きパーセンタイル順位でスコア化して降順に並べる
+   */
+  private rank(stocks: ScreenedStock[]): ScreenedStock[] {
+    const metricValue = (
+      stock: ScreenedStock,
+      metric: RankingMetric
+    ): number | null => {
+      switch (metric) {
+        case 'absGapPercent':
+          return stock.gapPercent === null ? null : Math.abs(stock.gapPercent);
+        default:
+          return stock[metric];
+      }
+    };
+
+    const weights = Object.entries(this.config.rankingWeights) as Array<
+      [RankingMetric, number]
+    >;
+    for (const [metric, weight] of weights) {
+      if (!weight) continue;
+      const values = stocks
+        .map((s) => metricValue(s, metric))
+        .filter((v): v is number => v !== null)
+        .sort((a, b) => a - b);
+      if (values.length === 0) continue;
+
+      for (const stock of stocks) {
+        const value = metricValue(stock, metric);
+        if (value === null) continue;
+        // 自分以下の値の割合（0〜1）
+        let below = 0;
+        while (below < values.length && values[below] <= value) below++;
+        stock.score += (below / values.length) * weight;
+      }
+    }
+
+    return stocks.sort((a, b) => b.score - a.score);
+  }
+
+  private async fetchSector(symbol: string): Promise<string | null> {
+    if (!this.dataProvider.getCompanyInfo) return null;
+    try {
+      const info = await this.dataProvider.getCompanyInfo(symbol);
+      return info.sector && info.sector !== 'Unknown' ? info.sector : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private inRange(
+    value: number | null,
+    min: number | undefined,
+    max: number | undefined
+  ): boolean {
+    if (min === undefined && max === undefined) return true;
+    if (value === null) return false;
+    if (min !== undefined && value < min) return false;
+    if (max !== undefined && value > max) return false;
+    return true;
+  }
+
+  private async saveSnapshot(
+    filePath: string,
+    snapshot: ScreenerSnapshot
+  ): Promise<void> {
+    try {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    } catch (error) {
+      // キャッシュの保存失敗ではスクリーニング結果を捨てない
+      this.logger.warn(`⚠️ スナップショットの保存に失敗: ${filePath}`, error);
+    }
+  }
+
+  private snapshotPath(universe: string, dateKey: string): string {
+    return path.join(this.config.cacheDir, `${universe}-${dateKey}.json`);
+  }
+
+  private toDateKey(date: Date): string {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+  }
+}
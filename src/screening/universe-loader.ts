@@ -0,0 +1,120 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * ユニバースの構成銘柄
+ * 財務項目はファイルに記載があるものだけ使用する（未記載は null）
+ */
+export interface UniverseMember {
+  symbol: string;
+  name: string | null;
+  sector: string | null;
+  market: string | null;
+  floatShares: number | null; // 浮動株数
+  marketCap: number | null; // 時価総額
+}
+
+/**
+ * スクリーニング対象のユニバース
+ */
+export interface Universe {
+  name: string;
+  source: string;
+  members: UniverseMember[];
+}
+
+/**
+ * ユニバースファイルの読み込み
+ * - .csv: ヘッダー付き（symbol 必須、name / sector / market / floatShares / marketCap 任意）
+ * - .json: 銘柄配列、または { name, members } 形式
+ * - .txt: 1行1銘柄のウォッチリスト（# 以降はコメント）
+ */
+export async function loadUniverse(filePath: string): Promise<Universe> {
+  const text = (await readFile(filePath, 'utf-8')).replace(/^\uFEFF/, '');
+  const ext = path.extname(filePath).toLowerCase();
+  let name = path.basename(filePath, ext);
+  let members: UniverseMember[];
+
+  if (ext === '.csv') {
+    members = parseUniverseCsv(text);
+  } else if (ext === '.json') {
+    const parsed = JSON.parse(text);
+    const rows: any[] = Array.isArray(parsed) ? parsed : parsed.members;
+    if (!Array.isArray(rows)) {
+      throw new Error(`ユニバースJSONの形式が不正です: ${filePath}`);
+    }
+    if (!Array.isArray(parsed) && typeof parsed.name === 'string') {
+      name = parsed.name;
+    }
+    members = rows.map((row) =>
+      typeof row === 'string' ? toMember({ symbol: row }) : toMember(row)
+    );
+  } else if (ext === '.txt') {
+    members = text
+      .split(/\r?\n/)
+      .map((line) => line.replace(/#.*$/, '').trim())
+      .filter(Boolean)
+      .map((symbol) => toMember({ symbol }));
+  } else {
+    throw new Error(`未対応のユニバースファイル形式です: ${ext}`);
+  }
+
+  // 銘柄コードの重複は先勝ち
+  const seen = new Set<string>();
+  members = members.filter((m) => {
+    if (!m.symbol || seen.has(m.symbol)) return false;
+    seen.add(m.symbol);
+    return true;
+  });
+
+  if (members.length === 0) {
+    throw new Error(`ユニバースに銘柄がありません: ${filePath}`);
+  }
+
+  return { name, source: filePath, members };
+}
+
+function parseUniverseCsv(text: string): UniverseMember[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  const col = (key: string) => header.indexOf(key.toLowerCase());
+  if (col('symbol') === -1) {
+    throw new Error('ユニバースCSVに symbol 列がありません');
+  }
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(',').map((c) => c.trim());
+    const get = (key: string) => (col(key) >= 0 ? cells[col(key)] : undefined);
+    return toMember({
+      symbol: get('symbol'),
+      name: get('name'),
+      sector: get('sector'),
+      market: get('market'),
+      floatShares: get('floatShares'),
+      marketCap: get('marketCap'),
+    });
+  });
+}
+
+function toMember(row: Record<string, any>): UniverseMember {
+  const text = (value: any) =>
+    value === undefined || value === null || value === ''
+      ? null
+      : String(value).trim();
+  const num = (value: any) => {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+
+  return {
+    symbol: (text(row.symbol) || '').toUpperCase(),
+    name: text(row.name),
+    sector: text(row.sector),
+    market: text(row.market),
+    floatShares: num(row.floatShares),
+    marketCap: num(row.marketCap),
+  };
+}
@@ -1,8 +1,10 @@
 /**
  * データ統合サービス
- * 複数のデータソース（J-Quants、Yahoo Finance、Alpha Vantage、IEX Cloud）を統合
+ * 複数のデータソース（J-Quants、Yahoo Finance、Alpha Vantage、IEX Cloud、ローカルストア）を統合
  */
 
+import { LocalMarketDataStore } from './local-market-data-store';
+
 export interface StockData {
   symbol: string;
   market: string;
@@ -28,6 +30,23 @@ export interface HistoricalData {
   source: string;
 }
 
+export const HISTORICAL_INTERVALS = [
+  '1m',
+  '5m',
+  '15m',
+  '1h',
+  '4h',
+  '1d',
+] as const;
+
+export type HistoricalInterval = (typeof HISTORICAL_INTERVALS)[number];
+
+export function isHistoricalInterval(
+  value: unknown
+): value is HistoricalInterval {
+  return HISTORICAL_INTERVALS.includes(value as HistoricalInterval);
+}
+
 export interface DataApi {
   name: string;
   priority: number;
@@ -38,6 +57,13 @@ export interface DataApi {
     market: string,
     days: number
   ): Promise<HistoricalData | null>;
+  getHistoricalDataRange?(
+    symbol: string,
+    market: string,
+    startDate: Date,
+    endDate: Date,
+    interval: HistoricalInterval
+  ): Promise<HistoricalData | null>;
   getRealTimeData(symbol: string): Promise<StockData | null>;
 }
 
@@ -47,6 +73,8 @@ export interface DataIntegrationConfig {
   fallbackEnabled: boolean;
   maxRetries: number;
   retryDelay: number; // ミリ秒
+  preferredSource?: string; // 最優先で使うAPI名（例: 'local'）
+  localStoreDir?: string; // ローカルストアのルートディレクトリ
 }
 
 export class DataIntegrationService {
@@ -76,8 +104,30 @@ export class DataIntegrationService {
     // IEX Cloud API（高品質米国株データ）
     this.apis.set('iex', new IexCloudApi());
 
-    // フォールバック順序を設定
-    this.fallbackOrder = ['jquants', 'yahoo', 'alphavantage', 'iex'];
+    // ローカルストア（オフライン・再現性のあるバックテスト用）
+    this.apis.set(
+      'local',
+      new LocalStoreApi(new LocalMarketDataStore(this.config.localStoreDir))
+    );
+
+    this.fallbackOrder = this.buildFallbackOrder();
+  }
+
+  /**
+   * フォールバック順序を生成
+   * 優先ソース指定時は先頭に置き、フォールバック無効ならそのソースのみ使う
+   */
+  private buildFallbackOrder(): string[] {
+    const defaultOrder = ['jquants', 'yahoo', 'alphavantage', 'iex'];
+    const preferred = this.config.preferredSource;
+
+    if (!preferred || !this.apis.has(preferred)) {
+      return defaultOrder;
+    }
+    if (!this.config.fallbackEnabled) {
+      return [preferred];
+    }
+    return [preferred, ...defaultOrder.filter((name) => name !== preferred)];
   }
 
   /**
@@ -163,6 +213,79 @@ export class DataIntegrationService {
     return null;
   }
 
+  /**
+   * 期間・足種を指定して履歴データを取得（昇順）
+   * 期間指定に対応していないAPIは日足のみ、日数指定の取得結果を期間で絞り込む
+   */
+  async getHistoricalDataRange(
+    symbol: string,
+    market: string,
+    startDate: Date,
+    endDate: Date,
+    interval: HistoricalInterval = '1d'
+  ): Promise<HistoricalData | null> {
+    const cacheKey = `historical_range_${symbol}_${market}_${interval}_${startDate.getTime()}_${endDate.getTime()}`;
+
+    // キャッシュチェック
+    if (this.config.cacheEnabled) {
+      const cached = this.getCachedData(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    for (const apiName of this.fallbackOrder) {
+      const api = this.apis.get(apiName);
+      if (!api || !api.isAvailable) continue;
+
+      try {
+        let data: HistoricalData | null = null;
+
+        if (api.getHistoricalDataRange) {
+          data = await api.getHistoricalDataRange(
+            symbol,
+            market,
+            startDate,
+            endDate,
+            interval
+          );
+        } else if (interval === '1d') {
+          const days = Math.ceil(
+            (Date.now() - startDate.getTime()) / (24 * 60 * 60 * 1000)
+          );
+          data = await api.getHistoricalData(symbol, market, days + 1);
+        }
+
+        if (!data) continue;
+
+        const bars = data.data
+          .filter(
+            (bar) =>
+              bar.close != null &&
+              bar.date.getTime() >= startDate.getTime() &&
+              bar.date.getTime() <= endDate.getTime()
+          )
+          .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        if (bars.length === 0) continue;
+
+        const result: HistoricalData = { ...data, data: bars };
+        if (this.config.cacheEnabled) {
+          this.setCachedData(cacheKey, result);
+        }
+        return result;
+      } catch (error) {
+        console.error(`❌ ${apiName} API エラー:`, error);
+        continue;
+      }
+    }
+
+    console.error(
+      `❌ 全APIで期間指定の履歴データ取得失敗: ${symbol} (${market}, ${interval})`
+    );
+    return null;
+  }
+
   /**
    * リアルタイムデータを取得
    */
@@ -265,6 +388,13 @@ export class DataIntegrationService {
    */
   updateConfig(newConfig: Partial<DataIntegrationConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    if (newConfig.localStoreDir !== undefined) {
+      this.apis.set(
+        'local',
+        new LocalStoreApi(new LocalMarketDataStore(this.config.localStoreDir))
+      );
+    }
+    this.fallbackOrder = this.buildFallbackOrder();
   }
 
   /**
@@ -467,6 +597,54 @@ class YahooFinanceApi implements DataApi {
     return null;
   }
 
+  async getHistoricalDataRange(
+    symbol: string,
+    market: string,
+    startDate: Date,
+    endDate: Date,
+    interval: HistoricalInterval
+  ): Promise<HistoricalData | null> {
+    // Yahooは4時間足を提供しないため呼び出し側でリサンプリングする
+    if (interval === '4h') return null;
+
+    try {
+      const period1 = Math.floor(startDate.getTime() / 1000);
+      const period2 = Math.floor(endDate.getTime() / 1000);
+      const yahooInterval = interval === '1h' ? '60m' : interval;
+
+      const response = await fetch(
+        `${this.baseUrl}/${symbol}?period1=${period1}&period2=${period2}&interval=${yahooInterval}`
+      );
+
+      if (!response.ok) return null;
+
+      const data = await response.json();
+      if (data.chart && data.chart.result && data.chart.result.length > 0) {
+        const result = data.chart.result[0];
+        const timestamps: number[] = result.timestamp || [];
+        const quotes = result.indicators.quote[0];
+
+        return {
+          symbol,
+          market,
+          data: timestamps.map((timestamp: number, index: number) => ({
+            date: new Date(timestamp * 1000),
+            open: quotes.open[index],
+            high: quotes.high[index],
+            low: quotes.low[index],
+            close: quotes.close[index],
+            volume: quotes.volume[index],
+          })),
+          source: this.name,
+        };
+      }
+    } catch (error) {
+      console.error('Yahoo Finance API エラー:', error);
+    }
+
+    return null;
+  }
+
   async getRealTimeData(symbol: string): Promise<StockData | null> {
     return await this.getStockData(symbol, 'US');
   }
@@ -639,3 +817,94 @@ class IexCloudApi implements DataApi {
     return await this.getStockData(symbol, 'US');
   }
 }
+
+/**
+ * ローカルストアAPI実装
+ */
+class LocalStoreApi implements DataApi {
+  name = 'Local Store';
+  priority = 0;
+  private store: LocalMarketDataStore;
+
+  constructor(store: LocalMarketDataStore) {
+    this.store = store;
+  }
+
+  get isAvailable(): boolean {
+    return this.store.isAvailable();
+  }
+
+  async getStockData(
+    symbol: string,
+    market: string
+  ): Promise<StockData | null> {
+    const bars = await this.store.readSeries({
+      symbol,
+      market,
+      timeframe: '1d',
+    });
+    if (bars.length === 0) return null;
+
+    const latest = bars[bars.length - 1];
+    const previous = bars[bars.length - 2];
+    const change = previous ? latest.close - previous.close : 0;
+
+    return {
+      symbol,
+      market,
+      price: latest.close,
+      change,
+      changePercent: previous ? (change / previous.close) * 100 : 0,
+      volume: latest.volume,
+      timestamp: latest.date,
+      source: this.name,
+    };
+  }
+
+  async getHistoricalData(
+    symbol: string,
+    market: string,
+    days: number
+  ): Promise<HistoricalData | null> {
+    const bars = await this.store.readSeries({
+      symbol,
+      market,
+      timeframe: '1d',
+    });
+    if (bars.length === 0) return null;
+
+    return {
+      symbol,
+      market,
+      data: bars.slice(-days),
+      source: this.name,
+    };
+  }
+
+  async getHistoricalDataRange(
+    symbol: string,
+    market: string,
+    startDate: Date,
+    endDate: Date,
+    interval: HistoricalInterval
+  ): Promise<HistoricalData | null> {
+    const bars = await this.store.readRange(
+      { symbol, market, timeframe: interval },
+      startDate,
+      endDate
+    );
+    if (bars.length === 0) return null;
+
+    return {
+      symbol,
+      market,
+      data: bars,
+      source: this.name,
+    };
+  }
+
+  async getRealTimeData(symbol: string): Promise<StockData | null> {
+    // ローカルストアはリアルタイムデータを提供しない
+    return null;
+  }
+}
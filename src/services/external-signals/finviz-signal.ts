@@ -1,5 +1,53 @@
+import { load } from 'cheerio';
 import { BaseSignalService, TradingSignal } from './base-signal-service';
 import { ScrapingHelper } from './scraping-helper';
+import { SelectorHealthReport, checkPageSelectors } from './selector-health';
+
+const FINVIZ_WAIT_SELECTOR = '.snapshot-table2';
+
+/**
+ * Finvizのスナップショット表から取得する項目
+ */
+export interface FinvizPageData {
+  analystRecom: number | null; // 1.0=Strong Buy, 5.0=Sell
+  rsi: number | null;
+  perfWeek: string | null;
+  perfMonth: string | null;
+}
+
+export function finvizUrl(symbol: string): string {
+  return `https://finviz.com/quote.ashx?t=${symbol}`;
+}
+
+/**
+ * FinvizのHTMLからアナリストレーティングとテクニカル指標を抽出
+ */
+export function parseFinvizPage(html: string): FinvizPageData {
+  const $ = load(html);
+  const data: FinvizPageData = {
+    analystRecom: null,
+    rsi: null,
+    perfWeek: null,
+    perfMonth: null,
+  };
+  const toNumber = (value: string) => {
+    const parsed = parseFloat(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  };
+
+  $('.snapshot-td2').each((_, row) => {
+    const label = $(row).find('b').first().text().trim();
+    if (!label) return;
+    const value = $(row).text().replace(label, '').trim();
+
+    if (label.includes('Analyst Recom')) data.analystRecom = toNumber(value);
+    if (label === 'RSI (14)') data.rsi = toNumber(value);
+    if (label === 'Perf Week') data.perfWeek = value || null;
+    if (label === 'Perf Month') data.perfMonth = value || null;
+  });
+
+  return data;
+}
 
 /**
  * Finvizシグナルサービス
@@ -14,77 +62,23 @@ export class FinvizSignalService extends BaseSignalService {
 
   protected async fetchSignal(symbol: string): Promise<TradingSignal> {
     try {
-      const url = `https://finviz.com/quote.ashx?t=${symbol}`;
+      const url = finvizUrl(symbol);
 
       this.logger.info(`Finviz データ取得: ${url}`);
 
-      // Puppeteerでページを取得
-      const result = await ScrapingHelper.evaluate(url, async (page) => {
-        try {
-          await page.waitForSelector('.snapshot-table2', { timeout: 10000 });
-
-          // アナリストレーティングを取得 (1.0=Strong Buy, 5.0=Sell)
-          const analystRecom = await page
-            .evaluate(() => {
-              const rows = Array.from(
-                document.querySelectorAll('.snapshot-td2')
-              );
-              for (const row of rows) {
-                const label = row.querySelector('b')?.textContent;
-                if (label?.includes('Analyst Recom')) {
-                  const value = row.textContent
-                    ?.replace('Analyst Recom', '')
-                    .trim();
-                  return value ? parseFloat(value) : null;
-                }
-              }
-              return null;
-            })
-            .catch(() => null);
-
-          // テクニカルインジケーターを取得
-          const technical = await page
-            .evaluate(() => {
-              const rows = Array.from(
-                document.querySelectorAll('.snapshot-td2')
-              );
-              const data: any = {};
-
-              for (const row of rows) {
-                const label = row.querySelector('b')?.textContent?.trim();
-                const value = row.textContent?.replace(label || '', '').trim();
-
-                if (label === 'RSI (14)') data.rsi = parseFloat(value);
-                if (label === 'Perf Week') data.perfWeek = value;
-                if (label === 'Perf Month') data.perfMonth = value;
-              }
-
-              return data;
-            })
-            .catch(() => ({}));
-
-          return {
-            analystRecom,
-            technical,
-          };
-        } catch (error) {
-          this.logger.warn('Finviz selector error:', error);
-          return {
-            analystRecom: null,
-            technical: {},
-          };
-        }
-      });
-
-      if (!result || result.analystRecom === null) {
+      const html = await ScrapingHelper.fetchHTML(
+        url,
+        30000,
+        FINVIZ_WAIT_SELECTOR
+      );
+      const data = parseFinvizPage(html);
+
+      if (data.analystRecom === null) {
         throw new Error('Failed to extract Finviz signal');
       }
 
       // シグナルを変換
-      const signal = this.convertToSignal(
-        result.analystRecom,
-        result.technical
-      );
+      const signal = this.convertToSignal(data);
 
       return {
         source: this.name,
@@ -100,17 +94,27 @@ export class FinvizSignalService extends BaseSignalService {
     }
   }
 
+  /**
+   * セレクタのヘルスチェック（取得できなかった項目を報告）
+   */
+  async checkSelectorHealth(symbol: string): Promise<SelectorHealthReport> {
+    return checkPageSelectors(
+      this.name,
+      finvizUrl(symbol),
+      parseFinvizPage,
+      FINVIZ_WAIT_SELECTOR
+    );
+  }
+
   /**
    * Finvizのデータをシグナルに変換
    */
-  private convertToSignal(
-    analystRecom: number | null,
-    technical: any
-  ): {
+  private convertToSignal(data: FinvizPageData): {
     signal: 'BUY' | 'HOLD' | 'SELL';
     confidence: number;
     reason: string;
   } {
+    const { analystRecom } = data;
     const reasons: string[] = [];
     let buyScore = 0;
     let sellScore = 0;
@@ -138,25 +142,25 @@ export class FinvizSignalService extends BaseSignalService {
     }
 
     // RSI分析
-    if (technical.rsi !== undefined) {
-      if (technical.rsi < 30) {
+    if (data.rsi !== null) {
+      if (data.rsi < 30) {
         buyScore += 2;
-        reasons.push(`過売り (RSI=${technical.rsi.toFixed(0)})`);
-      } else if (technical.rsi > 70) {
+        reasons.push(`過売り (RSI=${data.rsi.toFixed(0)})`);
+      } else if (data.rsi > 70) {
         sellScore += 2;
-        reasons.push(`過買い (RSI=${technical.rsi.toFixed(0)})`);
+        reasons.push(`過買い (RSI=${data.rsi.toFixed(0)})`);
       }
     }
 
     // パフォーマンス分析
-    if (technical.perfWeek) {
-      const perfWeekNum = parseFloat(technical.perfWeek.replace('%', ''));
+    if (data.perfWeek) {
+      const perfWeekNum = parseFloat(data.perfWeek.replace('%', ''));
       if (perfWeekNum > 5) {
         buyScore += 1;
-        reasons.push(`週間上昇${technical.perfWeek}`);
+        reasons.push(`週間上昇${data.perfWeek}`);
       } else if (perfWeekNum < -5) {
         sellScore += 1;
-        reasons.push(`週間下落${technical.perfWeek}`);
+        reasons.push(`週間下落${data.perfWeek}`);
       }
     }
 
@@ -1,5 +1,35 @@
+import { load } from 'cheerio';
 import { BaseSignalService, TradingSignal } from './base-signal-service';
 import { ScrapingHelper } from './scraping-helper';
+import { SelectorHealthReport, checkPageSelectors } from './selector-health';
+
+const INVESTING_WAIT_SELECTOR = '.technicalSummary';
+
+/**
+ * Investing.comのテクニカルページから取得する項目
+ */
+export interface InvestingPageData {
+  summary: string | null; // テクニカルサマリー
+  signals: Array<{ timeframe?: string; signal?: string }>; // 時間軸ごとのシグナル
+}
+
+/**
+ * Investing.comのHTMLからテクニカルサマリーを抽出
+ */
+export function parseInvestingPage(html: string): InvestingPageData {
+  const $ = load(html);
+  const textOf = (text: string) => text.trim() || undefined;
+
+  return {
+    summary: $(INVESTING_WAIT_SELECTOR).first().text().trim() || null,
+    signals: $('.summaryTableLine')
+      .toArray()
+      .map((el) => ({
+        timeframe: textOf($(el).find('.first').first().text()),
+        signal: textOf($(el).find('.second').first().text()),
+      })),
+  };
+}
 
 /**
  * Investing.comシグナルサービス
@@ -14,52 +44,23 @@ export class InvestingSignalService extends BaseSignalService {
 
   protected async fetchSignal(symbol: string): Promise<TradingSignal> {
     try {
-      // Investing.comのURLは銘柄によって異なるため、検索が必要
-      // ここでは簡易的にApple=apple-computer-inc とする
-      const symbolSlug = this.getSymbolSlug(symbol);
-      const url = `https://www.investing.com/equities/${symbolSlug}-technical`;
+      const url = this.getUrl(symbol);
 
       this.logger.info(`Investing.com データ取得: ${url}`);
 
-      // Puppeteerでページを取得
-      const result = await ScrapingHelper.evaluate(url, async (page) => {
-        try {
-          // Technical Summary を取得
-          await page.waitForSelector('.technicalSummary', { timeout: 10000 });
-
-          const summaryText = await page
-            .$eval('.technicalSummary', (el) => el.textContent?.trim())
-            .catch(() => null);
-
-          // 5分足、1時間足、日足のシグナルを取得
-          const signals = await page
-            .$$eval('.summaryTableLine', (els) =>
-              els.map((el) => ({
-                timeframe: el.querySelector('.first')?.textContent?.trim(),
-                signal: el.querySelector('.second')?.textContent?.trim(),
-              }))
-            )
-            .catch(() => []);
-
-          return {
-            summary: summaryText,
-            signals,
-          };
-        } catch (error) {
-          this.logger.warn('Investing.com selector error:', error);
-          return {
-            summary: null,
-            signals: [],
-          };
-        }
-      });
-
-      if (!result || !result.summary) {
+      const html = await ScrapingHelper.fetchHTML(
+        url,
+        30000,
+        INVESTING_WAIT_SELECTOR
+      );
+      const data = parseInvestingPage(html);
+
+      if (!data.summary) {
         throw new Error('Failed to extract Investing.com signal');
       }
 
       // シグナルを変換
-      const signal = this.convertToSignal(result.summary, result.signals);
+      const signal = this.convertToSignal(data.summary, data.signals);
 
       return {
         source: this.name,
@@ -78,6 +79,24 @@ export class InvestingSignalService extends BaseSignalService {
     }
   }
 
+  /**
+   * セレクタのヘルスチェック（取得できなかった項目を報告）
+   */
+  async checkSelectorHealth(symbol: string): Promise<SelectorHealthReport> {
+    return checkPageSelectors(
+      this.name,
+      this.getUrl(symbol),
+      parseInvestingPage,
+      INVESTING_WAIT_SELECTOR
+    );
+  }
+
+  private getUrl(symbol: string): string {
+    // Investing.comのURLは銘柄によって異なるため、検索が必要
+    // ここでは簡易的にApple=apple-computer-inc とする
+    return `https://www.investing.com/equities/${this.getSymbolSlug(symbol)}-technical`;
+  }
+
   /**
    * シンボルからInvesting.comのスラッグを取得
    */
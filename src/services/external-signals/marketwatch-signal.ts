@@ -1,5 +1,68 @@
+import { load } from 'cheerio';
 import { BaseSignalService, TradingSignal } from './base-signal-service';
 import { ScrapingHelper } from './scraping-helper';
+import { SelectorHealthReport, checkPageSelectors } from './selector-health';
+
+const MARKETWATCH_WAIT_SELECTOR = '.element--table';
+
+/**
+ * MarketWatchのアナリスト予想ページから取得する項目（行が見つからない場合は null）
+ */
+export interface MarketWatchPageData {
+  buy: number | null;
+  hold: number | null;
+  sell: number | null;
+  targetPrice: string | null; // 目標株価
+}
+
+export function marketWatchUrl(symbol: string): string {
+  return `https://www.marketwatch.com/investing/stock/${symbol.toLowerCase()}/analystestimates`;
+}
+
+/**
+ * MarketWatchのHTMLからアナリストレーティングと目標株価を抽出
+ */
+export function parseMarketWatchPage(
+  html: string,
+  symbol: string
+): MarketWatchPageData {
+  const $ = load(html);
+  const data: MarketWatchPageData = {
+    buy: null,
+    hold: null,
+    sell: null,
+    targetPrice: null,
+  };
+  const toCount = (value: string) => {
+    const parsed = parseInt(value || '0');
+    return Number.isNaN(parsed) ? 0 : parsed;
+  };
+
+  $('.table__row').each((_, row) => {
+    const cells = $(row).find('.table__cell');
+    if (cells.length < 2) return;
+    const label = cells.eq(0).text().trim().toLowerCase();
+    const value = cells.eq(1).text().trim();
+
+    if (label.includes('buy') && !label.includes('hold')) {
+      data.buy = toCount(value);
+    } else if (label.includes('hold')) {
+      data.hold = toCount(value);
+    } else if (label.includes('sell')) {
+      data.sell = toCount(value);
+    }
+  });
+
+  data.targetPrice =
+    $(
+      `[data-channel="/zigman2/quotes/composite/us/stock/${symbol.toLowerCase()}/analystestimates"] .table__cell--number`
+    )
+      .first()
+      .text()
+      .trim() || null;
+
+  return data;
+}
 
 /**
  * MarketWatchシグナルサービス
@@ -14,75 +77,28 @@ export class MarketWatchSignalService extends BaseSignalService {
 
   protected async fetchSignal(symbol: string): Promise<TradingSignal> {
     try {
-      const url = `https://www.marketwatch.com/investing/stock/${symbol.toLowerCase()}/analystestimates`;
+      const url = marketWatchUrl(symbol);
 
       this.logger.info(`MarketWatch データ取得: ${url}`);
 
-      // Puppeteerでページを取得
-      const result = await ScrapingHelper.evaluate(url, async (page) => {
-        try {
-          await page.waitForSelector('.element--table', { timeout: 10000 });
-
-          // アナリストレーティングを取得
-          const ratings = await page
-            .evaluate(() => {
-              const ratingElements = Array.from(
-                document.querySelectorAll('.table__row')
-              );
-
-              let buy = 0;
-              let hold = 0;
-              let sell = 0;
-
-              for (const row of ratingElements) {
-                const cells = row.querySelectorAll('.table__cell');
-                if (cells.length >= 2) {
-                  const label = cells[0]?.textContent?.trim().toLowerCase();
-                  const value = cells[1]?.textContent?.trim();
-
-                  if (label?.includes('buy') && !label.includes('hold')) {
-                    buy = parseInt(value || '0');
-                  } else if (label?.includes('hold')) {
-                    hold = parseInt(value || '0');
-                  } else if (label?.includes('sell')) {
-                    sell = parseInt(value || '0');
-                  }
-                }
-              }
-
-              return { buy, hold, sell };
-            })
-            .catch(() => ({ buy: 0, hold: 0, sell: 0 }));
-
-          // 目標株価を取得
-          const targetPrice = await page
-            .evaluate(() => {
-              const priceElement = document.querySelector(
-                '[data-channel="/zigman2/quotes/composite/us/stock/aapl/analystestimates"] .table__cell--number'
-              );
-              return priceElement?.textContent?.trim();
-            })
-            .catch(() => null);
-
-          return {
-            ratings,
-            targetPrice,
-          };
-        } catch (error) {
-          this.logger.warn('MarketWatch selector error:', error);
-          return {
-            ratings: { buy: 0, hold: 0, sell: 0 },
-            targetPrice: null,
-          };
-        }
-      });
-
-      if (!result || (result.ratings.buy === 0 && result.ratings.sell === 0)) {
+      const html = await ScrapingHelper.fetchHTML(
+        url,
+        30000,
+        MARKETWATCH_WAIT_SELECTOR
+      );
+      const data = parseMarketWatchPage(html, symbol);
+      const ratings = {
+        buy: data.buy ?? 0,
+        hold: data.hold ?? 0,
+        sell: data.sell ?? 0,
+      };
+
+      if (ratings.buy === 0 && ratings.sell === 0) {
         throw new Error('Failed to extract MarketWatch signal');
       }
 
       // シグナルを変換
-      const signal = this.convertToSignal(result.ratings, result.targetPrice);
+      const signal = this.convertToSignal(ratings, data.targetPrice);
 
       return {
         source: this.name,
@@ -101,6 +117,18 @@ export class MarketWatchSignalService extends BaseSignalService {
     }
   }
 
+  /**
+   * セレクタのヘルスチェック（取得できなかった項目を報告）
+   */
+  async checkSelectorHealth(symbol: string): Promise<SelectorHealthReport> {
+    return checkPageSelectors(
+      this.name,
+      marketWatchUrl(symbol),
+      (html) => parseMarketWatchPage(html, symbol),
+      MARKETWATCH_WAIT_SELECTOR
+    );
+  }
+
   /**
    * MarketWatchのデータをシグナルに変換
    */
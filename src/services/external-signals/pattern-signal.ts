@@ -0,0 +1,165 @@
+import type { PriceData } from '../../agents/technical-analyzer';
+import {
+  PatternEngine,
+  PatternEngineConfig,
+  PatternMatch,
+} from '../../features/pattern-engine';
+import { YahooFinanceService } from '../yahoo-finance-service';
+import { BaseSignalService, TradingSignal } from './base-signal-service';
+
+export interface PatternSignalOptions {
+  // 価格データの取得（未指定時は Yahoo Finance の日足）
+  loadPrices?: (symbol: string) => Promise<PriceData[]>;
+  lookbackDays: number; // 既定の取得期間
+  recentBars: number; // 直近この本数以内に完成したパターンのみ使う
+  chartWeight: number; // チャートパターンの重み（ローソク足は1）
+  levelProximity: number; // 支持線・抵抗線に近いとみなす距離（比率）
+  threshold: number; // 売買シグナルとみなすスコア
+  engine: Partial<PatternEngineConfig>;
+}
+
+/**
+ * チャートパターンシグナルサービス
+ * 価格データから検出したローソク足・チャートパターンと支持線・抵抗線でシグナルを生成
+ */
+export class PatternSignalService extends BaseSignalService {
+  name = 'chart_patterns';
+  private engine: PatternEngine;
+  private options: PatternSignalOptions;
+  private yahooService: YahooFinanceService | null = null;
+
+  constructor(
+    options: Partial<PatternSignalOptions> = {},
+    cacheTTL: number = 300,
+    rateLimit: number = 1000
+  ) {
+    super(cacheTTL, rateLimit);
+    this.options = {
+      lookbackDays: 120,
+      recentBars: 3,
+      chartWeight: 2,
+      levelProximity: 0.01,
+      threshold: 0.75,
+      engine: {},
+      ...options,
+    };
+    this.engine = new PatternEngine(this.options.engine);
+  }
+
+  protected async fetchSignal(symbol: string): Promise<TradingSignal> {
+    try {
+      const prices = await this.loadPrices(symbol);
+      if (prices.length < 2) {
+        throw new Error(`価格データが不足しています: ${symbol}`);
+      }
+
+      const signal = this.analyzePrices(prices);
+
+      return {
+        source: this.name,
+        symbol,
+        signal: signal.signal,
+        confidence: signal.confidence,
+        reason: signal.reason,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch chart pattern signal for ${symbol}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 価格データからシグナルを分析
+   * 直近に完成したパターンの信頼度を方向ごとに合計し、支持線・抵抗線への接近も加える
+   */
+  analyzePrices(prices: PriceData[]): {
+    signal: 'BUY' | 'HOLD' | 'SELL';
+    confidence: number;
+    reason: string;
+    patterns: PatternMatch[];
+  } {
+    const { recentBars, chartWeight, levelProximity, threshold } = this.options;
+    const result = this.engine.scan(prices);
+    const last = prices.length - 1;
+    const close = prices[last].close;
+
+    const patterns = [...result.candlesticks, ...result.chartPatterns].filter(
+      (match) => match.endIndex > last - recentBars
+    );
+    const reasons: string[] = [];
+    let buyScore = 0;
+    let sellScore = 0;
+
+    for (const match of patterns) {
+      if (match.direction === 'NEUTRAL') continue;
+      const score =
+        match.confidence * (match.kind === 'chart' ? chartWeight : 1);
+      if (match.direction === 'BULLISH') buyScore += score;
+      else sellScore += score;
+      reasons.push(
+        `${match.description}(${(match.confidence * 100).toFixed(0)}%)`
+      );
+    }
+
+    for (const level of result.levels) {
+      if (Math.abs(close - level.price) / level.price > levelProximity) {
+        continue;
+      }
+      if (level.type === 'support') {
+        buyScore += level.confidence;
+        reasons.push(`支持線 ${level.price.toFixed(2)} 付近`);
+      } else {
+        sellScore += level.confidence;
+        reasons.push(`抵抗線 ${level.price.toFixed(2)} 付近`);
+      }
+    }
+
+    // 総合判定
+    const net = buyScore - sellScore;
+    let signal: 'BUY' | 'HOLD' | 'SELL';
+    let confidence: number;
+
+    if (net >= threshold) {
+      signal = 'BUY';
+      confidence = Math.min(50 + net * 15, 95);
+    } else if (net <= -threshold) {
+      signal = 'SELL';
+      confidence = Math.min(50 - net * 15, 95);
+    } else {
+      signal = 'HOLD';
+      confidence = 50;
+    }
+
+    return {
+      signal,
+      confidence,
+      reason: reasons.join(', ') || '直近のパターンなし',
+      patterns,
+    };
+  }
+
+  private async loadPrices(symbol: string): Promise<PriceData[]> {
+    if (this.options.loadPrices) {
+      return this.options.loadPrices(symbol);
+    }
+
+    if (!this.yahooService) {
+      this.yahooService = new YahooFinanceService();
+    }
+    const start = new Date();
+    start.setDate(start.getDate() - this.options.lookbackDays);
+    const history = await this.yahooService.getHistoricalData(symbol, start);
+    return history.map((bar) => ({
+      timestamp: bar.date,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+    }));
+  }
+}
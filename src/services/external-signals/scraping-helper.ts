@@ -1,12 +1,65 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
 import { Logger } from '../../utils/logger';
 
+/**
+ * HTML取得モード
+ * - live: 常にPuppeteerで取得
+ * - record: Puppeteerで取得したHTMLをURLごとに保存
+ * - replay: 保存済みHTMLのみを使用（ネットワークに接続しない）
+ */
+export type ScrapingMode = 'live' | 'record' | 'replay';
+
+export interface FixtureOptions {
+  mode: ScrapingMode;
+  fixtureDir: string; // HTMLの保存先
+}
+
+function parseScrapingMode(value: string | undefined): ScrapingMode {
+  return value === 'record' || value === 'replay' ? value : 'live';
+}
+
 /**
  * スクレイピングヘルパークラス
  */
 export class ScrapingHelper {
   private static browser: Browser | null = null;
   private static logger = new Logger('ScrapingHelper');
+  private static fixtureOptions: FixtureOptions = {
+    mode: parseScrapingMode(process.env.SCRAPING_MODE),
+    fixtureDir: process.env.SCRAPING_FIXTURE_DIR || './data/scraping-fixtures',
+  };
+
+  /**
+   * 記録・再生モードの設定
+   */
+  static configureFixtures(options: Partial<FixtureOptions>): void {
+    this.fixtureOptions = { ...this.fixtureOptions, ...options };
+    this.logger.info(
+      `HTML取得モード: ${this.fixtureOptions.mode} (${this.fixtureOptions.fixtureDir})`
+    );
+  }
+
+  static getFixtureOptions(): FixtureOptions {
+    return { ...this.fixtureOptions };
+  }
+
+  /**
+   * URLに対応するフィクスチャファイルのパス
+   * ホスト名とパスから読みやすい名前を作り、URL全体のハッシュで一意にする
+   */
+  static fixturePath(url: string): string {
+    const { hostname, pathname } = new URL(url);
+    const slug = `${hostname}${pathname}`
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 80);
+    const hash = createHash('sha1').update(url).digest('hex').slice(0, 10);
+    return path.join(this.fixtureOptions.fixtureDir, `${slug}-${hash}.html`);
+  }
 
   /**
    * ブラウザインスタンスの取得（シングルトン）
@@ -48,10 +101,38 @@ export class ScrapingHelper {
 
   /**
    * URLからHTMLを取得
+   * 記録・再生モードに従い、保存済みHTMLの再生またはHTMLの保存を行う
    */
   static async fetchHTML(
     url: string,
-    timeout: number = 30000
+    timeout: number = 30000,
+    waitForSelector?: string
+  ): Promise<string> {
+    const { mode } = this.fixtureOptions;
+
+    if (mode === 'replay') {
+      const filePath = this.fixturePath(url);
+      if (!existsSync(filePath)) {
+        throw new Error(`保存済みHTMLがありません: ${url} (${filePath})`);
+      }
+      this.logger.debug(`📂 保存済みHTMLを再生: ${filePath}`);
+      return readFile(filePath, 'utf-8');
+    }
+
+    const html = await this.fetchLiveHTML(url, timeout, waitForSelector);
+    if (mode === 'record') {
+      await this.saveFixture(url, html);
+    }
+    return html;
+  }
+
+  /**
+   * PuppeteerでHTMLを取得
+   */
+  private static async fetchLiveHTML(
+    url: string,
+    timeout: number,
+    waitForSelector?: string
   ): Promise<string> {
     const page = await this.newPage();
     try {
@@ -59,6 +140,15 @@ export class ScrapingHelper {
         waitUntil: 'networkidle2',
         timeout,
       });
+
+      if (waitForSelector) {
+        await page
+          .waitForSelector(waitForSelector, { timeout: 10000 })
+          .catch(() => {
+            this.logger.warn(`Selector not found: ${waitForSelector}`);
+          });
+      }
+
       const html = await page.content();
       return html;
     } catch (error) {
@@ -69,6 +159,24 @@ export class ScrapingHelper {
     }
   }
 
+  /**
+   * 取得したHTMLを保存（保存に失敗しても取得結果は返す）
+   */
+  private static async saveFixture(url: string, html: string): Promise<void> {
+    const filePath = this.fixturePath(url);
+    try {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(
+        filePath,
+        `<!-- fixture: ${url} recordedAt: ${new Date().toISOString()} -->\n${html}`,
+        'utf-8'
+      );
+      this.logger.info(`💾 HTMLを保存: ${filePath}`);
+    } catch (error) {
+      this.logger.warn(`⚠️ HTMLの保存に失敗: ${filePath}`, error);
+    }
+  }
+
   /**
    * セレクタでテキストを取得
    */
@@ -0,0 +1,77 @@
+import { ScrapingHelper } from './scraping-helper';
+
+/**
+ * セレクタのヘルスチェック結果
+ * ページ構成の変更で値が取れなくなった項目を検出する
+ */
+export interface SelectorHealthReport {
+  source: string;
+  url: string;
+  checkedAt: Date;
+  fields: Record<string, boolean>; // 項目名 → 値が取得できたか
+  emptyFields: string[];
+  healthy: boolean; // すべての項目が取得できたか
+  error?: string; // HTML取得自体に失敗した場合
+}
+
+/**
+ * 値が空かどうか（null / 空文字 / NaN / 空配列 / 空オブジェクト）
+ */
+export function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (typeof value === 'number') return Number.isNaN(value);
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+/**
+ * パース結果から項目ごとの取得状況を集計
+ */
+export function buildSelectorHealthReport(
+  source: string,
+  url: string,
+  data: object
+): SelectorHealthReport {
+  const fields: Record<string, boolean> = {};
+  for (const [key, value] of Object.entries(data)) {
+    fields[key] = !isEmptyValue(value);
+  }
+  const emptyFields = Object.keys(fields).filter((key) => !fields[key]);
+
+  return {
+    source,
+    url,
+    checkedAt: new Date(),
+    fields,
+    emptyFields,
+    healthy: emptyFields.length === 0,
+  };
+}
+
+/**
+ * ページを取得してパーサーの各項目を検査
+ * 記録・再生モードは ScrapingHelper の設定に従う
+ */
+export async function checkPageSelectors(
+  source: string,
+  url: string,
+  parse: (html: string) => object,
+  waitForSelector?: string
+): Promise<SelectorHealthReport> {
+  try {
+    const html = await ScrapingHelper.fetchHTML(url, 30000, waitForSelector);
+    return buildSelectorHealthReport(source, url, parse(html));
+  } catch (error) {
+    return {
+      source,
+      url,
+      checkedAt: new Date(),
+      fields: {},
+      emptyFields: [],
+      healthy: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -1,5 +1,37 @@
+import { load } from 'cheerio';
 import { BaseSignalService, TradingSignal } from './base-signal-service';
 import { ScrapingHelper } from './scraping-helper';
+import { SelectorHealthReport, checkPageSelectors } from './selector-health';
+
+const TRADINGVIEW_WAIT_SELECTOR = '.speedometerSignal-pyzN--tL';
+
+/**
+ * TradingViewのテクニカルページから取得する項目
+ */
+export interface TradingViewPageData {
+  overall: string | null; // テクニカルサマリー
+  movingAverage: string | null; // 移動平均線の評価
+  oscillator: string | null; // オシレーターの評価
+}
+
+export function tradingViewUrl(symbol: string): string {
+  return `https://www.tradingview.com/symbols/NASDAQ-${symbol}/technicals/`;
+}
+
+/**
+ * TradingViewのHTMLからテクニカル評価を抽出
+ */
+export function parseTradingViewPage(html: string): TradingViewPageData {
+  const $ = load(html);
+  const textOf = (selector: string) =>
+    $(selector).first().text().trim() || null;
+
+  return {
+    overall: textOf(TRADINGVIEW_WAIT_SELECTOR),
+    movingAverage: textOf('[data-name="moving-averages-gauge"]'),
+    oscillator: textOf('[data-name="oscillators-gauge"]'),
+  };
+}
 
 /**
  * TradingViewシグナルサービス
@@ -14,62 +46,26 @@ export class TradingViewSignalService extends BaseSignalService {
 
   protected async fetchSignal(symbol: string): Promise<TradingSignal> {
     try {
-      const url = `https://www.tradingview.com/symbols/NASDAQ-${symbol}/technicals/`;
+      const url = tradingViewUrl(symbol);
 
       this.logger.info(`TradingView データ取得: ${url}`);
 
-      // Puppeteerでページを取得
-      const result = await ScrapingHelper.evaluate(url, async (page) => {
-        try {
-          // Technical Summary のシグナルを取得
-          await page.waitForSelector('.speedometerSignal-pyzN--tL', {
-            timeout: 10000,
-          });
-
-          const signalText = await page
-            .$eval('.speedometerSignal-pyzN--tL', (el) =>
-              el.textContent?.trim()
-            )
-            .catch(() => null);
-
-          // 移動平均線の評価を取得
-          const maSignal = await page
-            .$eval('[data-name="moving-averages-gauge"]', (el) =>
-              el.textContent?.trim()
-            )
-            .catch(() => null);
-
-          // オシレーターの評価を取得
-          const oscillatorSignal = await page
-            .$eval('[data-name="oscillators-gauge"]', (el) =>
-              el.textContent?.trim()
-            )
-            .catch(() => null);
-
-          return {
-            overall: signalText,
-            movingAverage: maSignal,
-            oscillator: oscillatorSignal,
-          };
-        } catch (error) {
-          this.logger.warn('TradingView selector error:', error);
-          return {
-            overall: null,
-            movingAverage: null,
-            oscillator: null,
-          };
-        }
-      });
-
-      if (!result || !result.overall) {
+      const html = await ScrapingHelper.fetchHTML(
+        url,
+        30000,
+        TRADINGVIEW_WAIT_SELECTOR
+      );
+      const data = parseTradingViewPage(html);
+
+      if (!data.overall) {
         throw new Error('Failed to extract TradingView signal');
       }
 
       // シグナルを変換
       const signal = this.convertToSignal(
-        result.overall,
-        result.movingAverage,
-        result.oscillator
+        data.overall,
+        data.movingAverage,
+        data.oscillator
       );
 
       return {
@@ -89,6 +85,18 @@ export class TradingViewSignalService extends BaseSignalService {
     }
   }
 
+  /**
+   * セレクタのヘルスチェック（取得できなかった項目を報告）
+   */
+  async checkSelectorHealth(symbol: string): Promise<SelectorHealthReport> {
+    return checkPageSelectors(
+      this.name,
+      tradingViewUrl(symbol),
+      parseTradingViewPage,
+      TRADINGVIEW_WAIT_SELECTOR
+    );
+  }
+
   /**
    * TradingViewのシグナルテキストを変換
    */
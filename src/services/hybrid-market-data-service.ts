@@ -1,11 +1,14 @@
 import { EventEmitter } from 'events';
 import { InteractiveBrokersIntegration } from '../brokers/interactive-brokers-integration';
+import { loadUniverse } from '../screening/universe-loader';
 import { Logger } from '../utils/logger';
 import {
   YahooFinanceService,
   YahooHistoricalData,
 } from './yahoo-finance-service';
 
+const DEFAULT_UNIVERSE_FILE = './data/universes/default-watchlist.csv';
+
 export interface HybridMarketDataConfig {
   mode: 'development' | 'production';
   dataSource: {
@@ -246,25 +249,23 @@ export class HybridMarketDataService extends EventEmitter {
 
   /**
    * 銘柄スクリーニング（Yahoo Finance使用）
+   * symbols 未指定時はユニバースファイルの銘柄を対象にする
    */
   async screenStocks(criteria: {
     minPrice?: number;
     maxPrice?: number;
     minVolume?: number;
     symbols?: string[];
+    universe?: string; // ユニバースファイル（未指定時は既定のウォッチリスト）
   }): Promise<string[]> {
     try {
       this.logger.info('銘柄スクリーニング実行');
 
-      const symbols = criteria.symbols || [
-        'AAPL',
-        'GOOGL',
-        'MSFT',
-        'TSLA',
-        'AMZN',
-        'META',
-        'NVDA',
-      ];
+      const symbols =
+        criteria.symbols ||
+        (
+          await loadUniverse(criteria.universe || DEFAULT_UNIVERSE_FILE)
+        ).members.map((member) => member.symbol);
       const quotes = await this.yahooFinanceService.getQuotes(symbols);
 
       const filtered = quotes.filter((quote) => {
@@ -0,0 +1,618 @@
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { Logger } from '../utils/logger';
+import { HistoricalInterval } from './data-integration-service';
+
+/**
+ * ローカル保存用のOHLCVバー
+ */
+export interface StoredBar {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * 系列キー（銘柄・市場・足種）
+ */
+export interface SeriesKey {
+  symbol: string;
+  market: string;
+  timeframe: HistoricalInterval;
+}
+
+/**
+ * データ品質レポート
+ */
+export interface DataQualityReport {
+  totalRows: number;
+  validBars: number;
+  invalidRows: number;
+  duplicates: Date[];
+  gaps: Array<{ from: Date; to: Date; missingBars: number }>;
+}
+
+/**
+ * 保存バージョン情報
+ */
+export interface StoreVersionInfo {
+  version: number;
+  createdAt: string;
+  source: string;
+  barCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  checksum: string;
+  duplicates: number;
+  gaps: number;
+  invalidRows: number;
+}
+
+/**
+ * 系列マニフェスト
+ */
+export interface SeriesManifest {
+  symbol: string;
+  market: string;
+  timeframe: HistoricalInterval;
+  latestVersion: number;
+  versions: StoreVersionInfo[];
+}
+
+export interface ImportOptions {
+  merge: boolean; // 既存の最新版とマージして新バージョンを作成
+  delimiter?: string; // CSV区切り文字（未指定時は自動判定）
+}
+
+export interface ImportResult {
+  key: SeriesKey;
+  version: StoreVersionInfo;
+  quality: DataQualityReport;
+}
+
+const INTERVAL_MS: Record<HistoricalInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const COLUMN_ALIASES: Record<keyof StoredBar, string[]> = {
+  date: ['date', 'datetime', 'timestamp', 'time', '日付'],
+  open: ['open', 'o', '始値'],
+  high: ['high', 'h', '高値'],
+  low: ['low', 'l', '安値'],
+  close: ['close', 'c', 'last', '終値'],
+  volume: ['volume', 'vol', 'v', '出来高'],
+};
+
+/**
+ * 8桁の YYYYMMDD をUTCの日付に変換（日付として不正な場合は null）
+ */
+function fromCompactDate(value: number): Date | null {
+  const year = Math.floor(value / 10000);
+  const month = Math.floor(value / 100) % 100;
+  const day = value % 100;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * 日時値をDateに変換（ISO文字列・YYYY/MM/DD・YYYYMMDD・エポック秒/ミリ秒/マイクロ秒）
+ */
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'bigint') {
+    return toDate(Number(value));
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return null;
+    // 8桁の整数はエポック秒より YYYYMMDD を優先する
+    if (Number.isInteger(value) && value >= 1e7 && value < 1e8) {
+      const date = fromCompactDate(value);
+      if (date) return date;
+    }
+    if (value < 1e11) return new Date(value * 1000);
+    if (value < 1e14) return new Date(value);
+    return new Date(value / 1000);
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return toDate(Number(trimmed));
+    }
+    const parsed = new Date(trimmed.replace(/\//g, '-'));
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string') {
+    const trimmed = value.trim().replace(/,/g, '');
+    return trimmed === '' ? NaN : Number(trimmed);
+  }
+  return NaN;
+}
+
+/**
+ * 行オブジェクトをバーに変換（列名は別名を許容）
+ */
+function rowToBar(row: Record<string, unknown>): StoredBar | null {
+  const normalized: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    normalized[column.trim().toLowerCase()] = value;
+  }
+
+  const pick = (field: keyof StoredBar): unknown => {
+    for (const alias of COLUMN_ALIASES[field]) {
+      if (alias in normalized) return normalized[alias];
+    }
+    return undefined;
+  };
+
+  const date = toDate(pick('date'));
+  if (!date) return null;
+
+  const volume = toNumber(pick('volume'));
+  return {
+    date,
+    open: toNumber(pick('open')),
+    high: toNumber(pick('high')),
+    low: toNumber(pick('low')),
+    close: toNumber(pick('close')),
+    volume: isNaN(volume) ? 0 : volume,
+  };
+}
+
+function isValidBar(bar: StoredBar): boolean {
+  const prices = [bar.open, bar.high, bar.low, bar.close];
+  if (prices.some((price) => !isFinite(price) || price <= 0)) return false;
+  if (bar.volume < 0) return false;
+  if (bar.high < bar.low) return false;
+  return (
+    bar.close >= bar.low &&
+    bar.close <= bar.high &&
+    bar.open >= bar.low &&
+    bar.open <= bar.high
+  );
+}
+
+/**
+ * 2つの日付の間（両端除く）の平日数
+ */
+function weekdaysBetween(from: Date, to: Date): number {
+  let count = 0;
+  const cursor = new Date(
+    Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() + 1)
+  );
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+
+  while (cursor.getTime() < end) {
+    const day = cursor.getUTCDay();
+    if (day !== 0 && day !== 6) count++;
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return count;
+}
+
+/**
+ * バー列の検証（重複・欠損・不正値）を行い、整列・重複除去済みのバーを返す
+ * 日足は平日の欠落、日中足は同一日内の欠落をギャップとして報告する（祝日も含まれる）
+ */
+export function validateBars(
+  rawBars: Array<StoredBar | null>,
+  timeframe: HistoricalInterval
+): { bars: StoredBar[]; quality: DataQualityReport } {
+  const valid = rawBars.filter(
+    (bar): bar is StoredBar => bar !== null && isValidBar(bar)
+  );
+  const invalidRows = rawBars.length - valid.length;
+
+  // 重複は後勝ち
+  const byTime = new Map<number, StoredBar>();
+  const duplicates: Date[] = [];
+  for (const bar of valid) {
+    const time = bar.date.getTime();
+    if (byTime.has(time)) {
+      duplicates.push(bar.date);
+    }
+    byTime.set(time, bar);
+  }
+
+  const bars = Array.from(byTime.values()).sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  const gaps: DataQualityReport['gaps'] = [];
+  const step = INTERVAL_MS[timeframe];
+  for (let i = 1; i < bars.length; i++) {
+    const prev = bars[i - 1].date;
+    const current = bars[i].date;
+
+    if (timeframe === '1d') {
+      const missing = weekdaysBetween(prev, current);
+      if (missing > 0) {
+        gaps.push({ from: prev, to: current, missingBars: missing });
+      }
+    } else if (
+      prev.toISOString().slice(0, 10) === current.toISOString().slice(0, 10)
+    ) {
+      const missing =
+        Math.round((current.getTime() - prev.getTime()) / step) - 1;
+      if (missing > 0) {
+        gaps.push({ from: prev, to: current, missingBars: missing });
+      }
+    }
+  }
+
+  return {
+    bars,
+    quality: {
+      totalRows: rawBars.length,
+      validBars: bars.length,
+      invalidRows,
+      duplicates,
+      gaps,
+    },
+  };
+}
+
+/**
+ * CSVの1行をセルに分割（引用符内の区切り文字と "" のエスケープに対応）
+ */
+function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (line.startsWith(separator, i)) {
+      cells.push(cell);
+      cell = '';
+      i += separator.length - 1;
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * CSVテキストをバー列に変換（先頭行はヘッダー）
+ */
+export function parseCsvBars(
+  text: string,
+  delimiter?: string
+): Array<StoredBar | null> {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+  if (lines.length < 2) return [];
+
+  const separator =
+    delimiter ||
+    [',', '\t', ';'].reduce((best, candidate) =>
+      splitCsvLine(lines[0], candidate).length >
+      splitCsvLine(lines[0], best).length
+        ? candidate
+        : best
+    );
+  const headers = splitCsvLine(lines[0], separator);
+
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line, separator);
+    const row: Record<string, unknown> = {};
+    headers.forEach((header, index) => {
+      row[header] = cells[index];
+    });
+    return rowToBar(row);
+  });
+}
+
+/**
+ * ローカルOHLCVデータストア
+ * <rootDir>/<market>/<timeframe>/<symbol>/ に v<N>.json とマニフェストを保存する
+ */
+export class LocalMarketDataStore {
+  private logger: Logger;
+  private rootDir: string;
+  private seriesCache: Map<string, StoredBar[]> = new Map();
+
+  constructor(rootDir: string = './data/market-data') {
+    this.logger = new Logger('LocalMarketDataStore');
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * ストアが利用可能か（ルートディレクトリが存在するか）
+   */
+  isAvailable(): boolean {
+    return existsSync(this.rootDir);
+  }
+
+  /**
+   * 系列を新バージョンとして保存
+   */
+  async writeSeries(
+    key: SeriesKey,
+    rawBars: Array<StoredBar | null>,
+    source: string
+  ): Promise<ImportResult> {
+    const { bars, quality } = validateBars(rawBars, key.timeframe);
+    return await this.saveVersion(key, bars, quality, source);
+  }
+
+  private async saveVersion(
+    key: SeriesKey,
+    bars: StoredBar[],
+    quality: DataQualityReport,
+    source: string
+  ): Promise<ImportResult> {
+    const dir = this.seriesDir(key);
+    await mkdir(dir, { recursive: true });
+
+    const manifest = (await this.getManifest(key)) || {
+      symbol: key.symbol,
+      market: key.market,
+      timeframe: key.timeframe,
+      latestVersion: 0,
+      versions: [],
+    };
+
+    const payload = JSON.stringify({
+      bars: bars.map((bar) => [
+        bar.date.getTime(),
+        bar.open,
+        bar.high,
+        bar.low,
+        bar.close,
+        bar.volume,
+      ]),
+    });
+
+    const version: StoreVersionInfo = {
+      version: manifest.latestVersion + 1,
+      createdAt: new Date().toISOString(),
+      source,
+      barCount: bars.length,
+      firstDate: bars[0]?.date.toISOString() ?? null,
+      lastDate: bars[bars.length - 1]?.date.toISOString() ?? null,
+      checksum: createHash('sha256').update(payload).digest('hex'),
+      duplicates: quality.duplicates.length,
+      gaps: quality.gaps.length,
+      invalidRows: quality.invalidRows,
+    };
+
+    await writeFile(
+      path.join(dir, `v${version.version}.json`),
+      payload,
+      'utf-8'
+    );
+
+    manifest.latestVersion = version.version;
+    manifest.versions.push(version);
+    await writeFile(
+      path.join(dir, 'manifest.json'),
+      JSON.stringify(manifest, null, 2),
+      'utf-8'
+    );
+
+    this.seriesCache.set(this.cacheKey(key, version.version), bars);
+    this.logger.info(
+      `✅ 系列を保存: ${key.symbol}_${key.market} ${key.timeframe} v${version.version} (${bars.length}本, 重複${quality.duplicates.length}, ギャップ${quality.gaps.length}, 不正${quality.invalidRows})`
+    );
+
+    return { key, version, quality };
+  }
+
+  /**
+   * 系列を読み込み（バージョン未指定時は最新版）
+   */
+  async readSeries(key: SeriesKey, version?: number): Promise<StoredBar[]> {
+    const manifest = await this.getManifest(key);
+    if (!manifest || manifest.latestVersion === 0) return [];
+
+    const target = version ?? manifest.latestVersion;
+    const cacheKey = this.cacheKey(key, target);
+    const cached = this.seriesCache.get(cacheKey);
+    if (cached) return cached;
+
+    const filepath = path.join(this.seriesDir(key), `v${target}.json`);
+    if (!existsSync(filepath)) {
+      throw new Error(
+        `系列バージョンが存在しません: ${key.symbol}_${key.market} ${key.timeframe} v${target}`
+      );
+    }
+
+    const content = JSON.parse(await readFile(filepath, 'utf-8'));
+    const bars: StoredBar[] = content.bars.map((row: number[]) => ({
+      date: new Date(row[0]),
+      open: row[1],
+      high: row[2],
+      low: row[3],
+      close: row[4],
+      volume: row[5],
+    }));
+
+    this.seriesCache.set(cacheKey, bars);
+    return bars;
+  }
+
+  /**
+   * 期間指定で系列を読み込み
+   */
+  async readRange(
+    key: SeriesKey,
+    startDate: Date,
+    endDate: Date,
+    version?: number
+  ): Promise<StoredBar[]> {
+    const bars = await this.readSeries(key, version);
+    return bars.filter(
+      (bar) =>
+        bar.date.getTime() >= startDate.getTime() &&
+        bar.date.getTime() <= endDate.getTime()
+    );
+  }
+
+  /**
+   * マニフェストを取得
+   */
+  async getManifest(key: SeriesKey): Promise<SeriesManifest | null> {
+    const filepath = path.join(this.seriesDir(key), 'manifest.json');
+    if (!existsSync(filepath)) return null;
+    return JSON.parse(await readFile(filepath, 'utf-8'));
+  }
+
+  /**
+   * 保存済みの全系列を列挙
+   */
+  async listSeries(): Promise<SeriesManifest[]> {
+    if (!this.isAvailable()) return [];
+
+    const manifests: SeriesManifest[] = [];
+    for (const market of await readdir(this.rootDir)) {
+      const marketDir = path.join(this.rootDir, market);
+      for (const timeframe of await readdir(marketDir)) {
+        const timeframeDir = path.join(marketDir, timeframe);
+        for (const symbol of await readdir(timeframeDir)) {
+          const manifest = await this.getManifest({
+            symbol,
+            market,
+            timeframe: timeframe as HistoricalInterval,
+          });
+          if (manifest) manifests.push(manifest);
+        }
+      }
+    }
+
+    return manifests;
+  }
+
+  /**
+   * CSVファイルを取り込み
+   */
+  async importCsv(
+    filePath: string,
+    key: SeriesKey,
+    options: ImportOptions = { merge: true }
+  ): Promise<ImportResult> {
+    const text = await readFile(filePath, 'utf-8');
+    const bars = parseCsvBars(text, options.delimiter);
+    return await this.importBars(bars, key, path.basename(filePath), options);
+  }
+
+  /**
+   * Parquetファイルを取り込み
+   */
+  async importParquet(
+    filePath: string,
+    key: SeriesKey,
+    options: ImportOptions = { merge: true }
+  ): Promise<ImportResult> {
+    const { asyncBufferFromFile, parquetReadObjects } = await import(
+      'hyparquet'
+    );
+    const file = await asyncBufferFromFile(filePath);
+    const rows = await parquetReadObjects({ file });
+    const bars = rows.map((row) => rowToBar(row));
+    return await this.importBars(bars, key, path.basename(filePath), options);
+  }
+
+  /**
+   * ファイル拡張子に応じて取り込み
+   */
+  async importFile(
+    filePath: string,
+    key: SeriesKey,
+    options: ImportOptions = { merge: true }
+  ): Promise<ImportResult> {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.parquet') {
+      return await this.importParquet(filePath, key, options);
+    }
+    if (extension === '.csv' || extension === '.tsv' || extension === '.txt') {
+      return await this.importCsv(filePath, key, options);
+    }
+    throw new Error(`未対応のファイル形式です: ${extension}`);
+  }
+
+  private async importBars(
+    bars: Array<StoredBar | null>,
+    key: SeriesKey,
+    source: string,
+    options: ImportOptions
+  ): Promise<ImportResult> {
+    const incoming = validateBars(bars, key.timeframe);
+    if (!options.merge) {
+      return await this.saveVersion(
+        key,
+        incoming.bars,
+        incoming.quality,
+        source
+      );
+    }
+
+    // 既存バーを先に置き、取り込みバーで上書きする
+    const existing = await this.readSeries(key);
+    const merged = validateBars([...existing, ...incoming.bars], key.timeframe);
+    return await this.saveVersion(
+      key,
+      merged.bars,
+      { ...incoming.quality, gaps: merged.quality.gaps },
+      source
+    );
+  }
+
+  private seriesDir(key: SeriesKey): string {
+    return path.join(
+      this.rootDir,
+      this.safeName(key.market),
+      this.safeName(key.timeframe),
+      this.safeName(key.symbol)
+    );
+  }
+
+  /**
+   * ディレクトリ名に使えない文字を置き換える（"." や ".." などドットのみの名前は拒否）
+   */
+  private safeName(name: string): string {
+    const safe = name.replace(/[^A-Za-z0-9._^=-]/g, '_');
+    if (/^\.*$/.test(safe)) {
+      throw new Error(`不正な名前です: ${name}`);
+    }
+    return safe;
+  }
+
+  private cacheKey(key: SeriesKey, version: number): string {
+    return `${key.symbol}_${key.market}_${key.timeframe}_v${version}`;
+  }
+}
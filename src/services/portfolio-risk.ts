@@ -0,0 +1,609 @@
+/**
+ * ポートフォリオリスク分析
+ * リターン系列から VaR/CVaR・相関・ベータを計算し、セクター・市場・通貨別のエクスポージャーを集計
+ */
+
+export type PortfolioMarket = 'FX' | 'US' | 'JP';
+
+/**
+ * 分析対象の保有
+ */
+export interface PortfolioHolding {
+  symbol: string;
+  market: PortfolioMarket;
+  quantity: number; // 数量（売りはマイナス、FXは基軸通貨の数量）
+  price: number; // 現在価格（建値通貨）
+  sector?: string; // 未指定時は Unknown（FXは Currency）
+  currency?: string; // 建値通貨（未指定時は市場・通貨ペアから判定）
+}
+
+/**
+ * 終値の系列
+ */
+export interface PricePoint {
+  date: Date;
+  close: number;
+}
+
+export interface PortfolioRiskConfig {
+  confidenceLevels: number[]; // VaRの信頼水準（例: 0.95）
+  horizonDays: number; // 保有期間（日）
+  baseCurrency: string; // 集計通貨
+  fxRates: Record<string, number>; // 通貨1単位あたりの集計通貨額（例: { JPY: 0.0067 }）
+  minObservations: number; // VaR・相関の計算に必要な最小リターン数
+}
+
+const DEFAULT_CONFIG: PortfolioRiskConfig = {
+  confidenceLevels: [0.95, 0.99],
+  horizonDays: 1,
+  baseCurrency: 'USD',
+  fxRates: {},
+  minObservations: 20,
+};
+
+/**
+ * VaR/CVaR（損失額を正の値で表す、集計通貨建て）
+ */
+export interface ValueAtRisk {
+  confidence: number;
+  horizonDays: number;
+  historicalVaR: number;
+  historicalCVaR: number;
+  parametricVaR: number;
+  parametricCVaR: number;
+}
+
+/**
+ * エクスポージャーの集計単位
+ */
+export interface ExposureBucket {
+  key: string;
+  long: number;
+  short: number; // 売り建ての絶対額
+  gross: number;
+  net: number;
+  grossPercent: number; // 全体のグロスに対する%
+}
+
+export interface ExposureBreakdown {
+  long: number;
+  short: number;
+  gross: number;
+  net: number;
+  bySector: ExposureBucket[];
+  byMarket: ExposureBucket[];
+  byCurrency: ExposureBucket[];
+}
+
+export interface PortfolioRiskReport {
+  asOf: Date;
+  baseCurrency: string;
+  equity: number; // 比率計算の分母（未指定時はグロスエクスポージャー）
+  exposure: ExposureBreakdown;
+  valueAtRisk: ValueAtRisk[];
+  symbols: string[]; // 相関・共分散行列の並び順
+  correlation: number[][];
+  covariance: number[][]; // 日次リターンの共分散
+  volatility: Record<string, number>; // 日次リターンの標準偏差
+  portfolioVolatility: number | null; // ポートフォリオ日次損益の標準偏差（集計通貨）
+  betas: Record<string, number | null>;
+  portfolioBeta: number | null; // equity に対するベータ
+  benchmark: string | null;
+  observations: number; // 分析に使った共通リターン数
+  missingHistory: string[]; // 履歴不足で VaR・相関から除外した銘柄
+  warnings: string[];
+}
+
+export interface PortfolioRiskInput {
+  holdings: PortfolioHolding[];
+  history: Record<string, PricePoint[]>; // 銘柄 → 終値系列
+  benchmark?: { symbol: string; series: PricePoint[] };
+  equity?: number;
+  asOf?: Date;
+}
+
+/**
+ * 終値系列を単純リターンに変換
+ */
+export function toReturns(closes: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0) {
+      returns.push(closes[i] / closes[i - 1] - 1);
+    }
+  }
+  return returns;
+}
+
+/**
+ * 複数の終値系列を共通の日付で揃える
+ * @returns 共通日付（昇順）と銘柄ごとの終値
+ */
+export function alignSeries(series: Record<string, PricePoint[]>): {
+  dates: Date[];
+  closes: Record<string, number[]>;
+} {
+  const symbols = Object.keys(series);
+  if (symbols.length === 0) return { dates: [], closes: {} };
+
+  const maps = symbols.map(
+    (symbol) =>
+      new Map(
+        series[symbol]
+          .filter((point) => point.close > 0)
+          .map((point) => [point.date.getTime(), point.close])
+      )
+  );
+  const common = [...maps[0].keys()]
+    .filter((time) => maps.every((map) => map.has(time)))
+    .sort((a, b) => a - b);
+
+  const closes: Record<string, number[]> = {};
+  symbols.forEach((symbol, i) => {
+    closes[symbol] = common.map((time) => maps[i].get(time)!);
+  });
+
+  return { dates: common.map((time) => new Date(time)), closes };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function covariance(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (n - 1);
+}
+
+/**
+ * 標準正規分布の累積分布関数の逆関数（Acklam の近似）
+ */
+export function inverseNormalCDF(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`確率は0より大きく1未満である必要があります: ${p}`);
+  }
+
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+  if (p > 1 - low) {
+    return -inverseNormalCDF(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/**
+ * ヒストリカル VaR/CVaR
+ * @param pnl 損益の系列（利益が正）
+ * @param confidence 信頼水準（例: 0.95）
+ * @returns 損失額（正の値）
+ */
+export function historicalVaR(
+  pnl: number[],
+  confidence: number
+): { valueAtRisk: number; conditionalVaR: number } {
+  if (pnl.length === 0) return { valueAtRisk: 0, conditionalVaR: 0 };
+
+  const sorted = [...pnl].sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.floor(sorted.length * (1 - confidence)));
+  const tail = sorted.slice(0, tailCount);
+
+  return {
+    valueAtRisk: Math.max(0, -sorted[tailCount - 1]),
+    conditionalVaR: Math.max(0, -mean(tail)),
+  };
+}
+
+/**
+ * パラメトリック（正規分布）VaR/CVaR
+ * @param mu 損益の平均
+ * @param sigma 損益の標準偏差
+ * @param confidence 信頼水準（例: 0.95）
+ * @returns 損失額（正の値）
+ */
+export function parametricVaR(
+  mu: number,
+  sigma: number,
+  confidence: number
+): { valueAtRisk: number; conditionalVaR: number } {
+  const z = inverseNormalCDF(confidence);
+  const density = Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+
+  return {
+    valueAtRisk: Math.max(0, z * sigma - mu),
+    conditionalVaR: Math.max(0, (sigma * density) / (1 - confidence) - mu),
+  };
+}
+
+/**
+ * リターン系列の共分散行列
+ */
+export function covarianceMatrix(returns: number[][]): number[][] {
+  return returns.map((a) => returns.map((b) => covariance(a, b)));
+}
+
+/**
+ * 終値系列から共通期間のリターン共分散を推定
+ * @param minObservations 必要な最小リターン数（不足する銘柄は除外）
+ */
+export function estimateCovariance(
+  history: Record<string, PricePoint[]>,
+  minObservations: number = DEFAULT_CONFIG.minObservations
+): { symbols: string[]; covariance: number[][]; observations: number } {
+  const usable: Record<string, PricePoint[]> = {};
+  for (const [symbol, series] of Object.entries(history)) {
+    if (series.length > minObservations) usable[symbol] = series;
+  }
+
+  const aligned = alignSeries(usable);
+  const symbols = Object.keys(usable);
+  const returns = symbols.map((symbol) => toReturns(aligned.closes[symbol]));
+  const observations = returns[0]?.length ?? 0;
+  if (observations < minObservations) {
+    return { symbols: [], covariance: [], observations };
+  }
+
+  return { symbols, covariance: covarianceMatrix(returns), observations };
+}
+
+/**
+ * 共分散行列から相関行列を計算
+ */
+export function correlationMatrix(cov: number[][]): number[][] {
+  return cov.map((row, i) =>
+    row.map((value, j) => {
+      const denominator = Math.sqrt(cov[i][i] * cov[j][j]);
+      if (i === j) return 1;
+      return denominator > 0 ? value / denominator : 0;
+    })
+  );
+}
+
+/**
+ * ベンチマークに対するベータ
+ * @returns ベンチマークの分散が0、またはデータ不足の場合は null
+ */
+export function calculateBeta(
+  returns: number[],
+  benchmarkReturns: number[]
+): number | null {
+  const n = Math.min(returns.length, benchmarkReturns.length);
+  if (n < 2) return null;
+  const variance = covariance(
+    benchmarkReturns.slice(0, n),
+    benchmarkReturns.slice(0, n)
+  );
+  if (variance === 0) return null;
+  return (
+    covariance(returns.slice(0, n), benchmarkReturns.slice(0, n)) / variance
+  );
+}
+
+/**
+ * 通貨ペア（USD/JPY, USD_JPY, USDJPY）を基軸通貨と決済通貨に分解
+ */
+export function parseCurrencyPair(
+  symbol: string
+): { base: string; quote: string } | null {
+  const normalized = symbol.toUpperCase().replace(/[/_\-.]/g, '');
+  if (!/^[A-Z]{6}$/.test(normalized)) return null;
+  return { base: normalized.slice(0, 3), quote: normalized.slice(3) };
+}
+
+/**
+ * 建値通貨（未指定時は市場・通貨ペアから判定）
+ */
+export function holdingCurrency(holding: PortfolioHolding): string {
+  if (holding.currency) return holding.currency.toUpperCase();
+  if (holding.market === 'FX') {
+    return parseCurrencyPair(holding.symbol)?.quote ?? 'USD';
+  }
+  return holding.market === 'JP' ? 'JPY' : 'USD';
+}
+
+function addToBucket(
+  buckets: Map<string, ExposureBucket>,
+  key: string,
+  value: number
+): void {
+  const bucket = buckets.get(key) ?? {
+    key,
+    long: 0,
+    short: 0,
+    gross: 0,
+    net: 0,
+    grossPercent: 0,
+  };
+  if (value >= 0) {
+    bucket.long += value;
+  } else {
+    bucket.short += -value;
+  }
+  bucket.gross = bucket.long + bucket.short;
+  bucket.net = bucket.long - bucket.short;
+  buckets.set(key, bucket);
+}
+
+function toBucketList(
+  buckets: Map<string, ExposureBucket>,
+  gross: number
+): ExposureBucket[] {
+  return [...buckets.values()]
+    .map((bucket) => ({
+      ...bucket,
+      grossPercent: gross > 0 ? (bucket.gross / gross) * 100 : 0,
+    }))
+    .sort((a, b) => b.gross - a.gross);
+}
+
+/**
+ * セクター・市場・通貨別のエクスポージャーを集計（集計通貨建て）
+ * FXの保有は基軸通貨のロングと決済通貨のショートとして通貨別に計上する
+ * @param rate 通貨1単位あたりの集計通貨額
+ */
+export function calculateExposure(
+  holdings: PortfolioHolding[],
+  rate: (currency: string) => number
+): ExposureBreakdown {
+  const bySector = new Map<string, ExposureBucket>();
+  const byMarket = new Map<string, ExposureBucket>();
+  const byCurrency = new Map<string, ExposureBucket>();
+  let long = 0;
+  let short = 0;
+
+  for (const holding of holdings) {
+    const currency = holdingCurrency(holding);
+    const value = holding.quantity * holding.price * rate(currency);
+    if (value >= 0) {
+      long += value;
+    } else {
+      short += -value;
+    }
+
+    addToBucket(
+      bySector,
+      holding.sector ?? (holding.market === 'FX' ? 'Currency' : 'Unknown'),
+      value
+    );
+    addToBucket(byMarket, holding.market, value);
+
+    const pair =
+      holding.market === 'FX' ? parseCurrencyPair(holding.symbol) : null;
+    if (pair) {
+      addToBucket(byCurrency, pair.base, holding.quantity * rate(pair.base));
+      addToBucket(byCurrency, currency, -value);
+    } else {
+      addToBucket(byCurrency, currency, value);
+    }
+  }
+
+  const gross = long + short;
+  return {
+    long,
+    short,
+    gross,
+    net: long - short,
+    bySector: toBucketList(bySector, gross),
+    byMarket: toBucketList(byMarket, gross),
+    byCurrency: toBucketList(byCurrency, gross),
+  };
+}
+
+export class PortfolioRiskAnalyzer {
+  private config: PortfolioRiskConfig;
+
+  constructor(config: Partial<PortfolioRiskConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  getConfig(): PortfolioRiskConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * ポートフォリオリスクを分析
+   */
+  analyze(input: PortfolioRiskInput): PortfolioRiskReport {
+    const warnings: string[] = [];
+    const missingRates = new Set<string>();
+    const rate = (currency: string): number => {
+      if (currency === this.config.baseCurrency) return 1;
+      const value = this.config.fxRates[currency];
+      if (value === undefined || !(value > 0)) {
+        missingRates.add(currency);
+        return 1;
+      }
+      return value;
+    };
+
+    // 同一銘柄の保有はまとめる
+    const merged = new Map<string, PortfolioHolding>();
+    for (const holding of input.holdings) {
+      const existing = merged.get(holding.symbol);
+      merged.set(
+        holding.symbol,
+        existing
+          ? { ...existing, quantity: existing.quantity + holding.quantity }
+          : { ...holding }
+      );
+    }
+    const holdings = [...merged.values()].filter((h) => h.quantity !== 0);
+
+    const exposure = calculateExposure(holdings, rate);
+    const equity =
+      input.equity !== undefined && input.equity > 0
+        ? input.equity
+        : exposure.gross;
+
+    // 履歴のある銘柄だけでリターンを揃える
+    const missingHistory: string[] = [];
+    const usable: Record<string, PricePoint[]> = {};
+    for (const holding of holdings) {
+      const series = input.history[holding.symbol] ?? [];
+      if (series.length <= this.config.minObservations) {
+        missingHistory.push(holding.symbol);
+      } else {
+        usable[holding.symbol] = series;
+      }
+    }
+
+    // ベンチマークはベータの算出時に別途揃える（保有の共通日付を減らさない）
+    const aligned = alignSeries(usable);
+    const symbols = holdings
+      .map((h) => h.symbol)
+      .filter((symbol) => usable[symbol] !== undefined);
+    const returns = symbols.map((symbol) => toReturns(aligned.closes[symbol]));
+    const observations = returns[0]?.length ?? 0;
+
+    if (symbols.length > 0 && observations < this.config.minObservations) {
+      warnings.push(
+        `共通のリターン数が不足しています（${observations}/${this.config.minObservations}）`
+      );
+    }
+
+    const covarianceValues = covarianceMatrix(returns);
+    const correlation = correlationMatrix(covarianceValues);
+    const volatility: Record<string, number> = {};
+    symbols.forEach((symbol, i) => {
+      volatility[symbol] = Math.sqrt(covarianceValues[i][i]);
+    });
+
+    // 保有額（集計通貨）で重み付けした日次損益系列
+    const values = symbols.map((symbol) => {
+      const holding = merged.get(symbol)!;
+      return holding.quantity * holding.price * rate(holdingCurrency(holding));
+    });
+    const pnl: number[] = [];
+    for (let t = 0; t < observations; t++) {
+      pnl.push(
+        values.reduce((sum, value, i) => sum + value * returns[i][t], 0)
+      );
+    }
+
+    // 保有期間が1日を超える場合は√日数で拡大（ヒストリカルも同様）
+    const enough = observations >= this.config.minObservations;
+    const scale = Math.sqrt(this.config.horizonDays);
+    const pnlMean = pnl.length > 0 ? mean(pnl) : 0;
+    const pnlSigma = pnl.length > 1 ? Math.sqrt(covariance(pnl, pnl)) : 0;
+
+    const valueAtRisk: ValueAtRisk[] = enough
+      ? this.config.confidenceLevels.map((confidence) => {
+          const historical = historicalVaR(pnl, confidence);
+          const parametric = parametricVaR(
+            pnlMean * this.config.horizonDays,
+            pnlSigma * scale,
+            confidence
+          );
+          return {
+            confidence,
+            horizonDays: this.config.horizonDays,
+            historicalVaR: historical.valueAtRisk * scale,
+            historicalCVaR: historical.conditionalVaR * scale,
+            parametricVaR: parametric.valueAtRisk,
+            parametricCVaR: parametric.conditionalVaR,
+          };
+        })
+      : [];
+
+    const betas: Record<string, number | null> = {};
+    let portfolioBeta: number | null = null;
+    if (input.benchmark && enough) {
+      const benchmarkSeries = input.benchmark.series;
+      symbols.forEach((symbol) => {
+        const pair = alignSeries({
+          asset: usable[symbol],
+          benchmark: benchmarkSeries,
+        });
+        betas[symbol] = calculateBeta(
+          toReturns(pair.closes.asset),
+          toReturns(pair.closes.benchmark)
+        );
+      });
+
+      // 損益系列はベンチマークの終値がある期間だけ対にする
+      const benchmarkCloses = new Map(
+        benchmarkSeries
+          .filter((point) => point.close > 0)
+          .map((point) => [point.date.getTime(), point.close])
+      );
+      const pairedPnl: number[] = [];
+      const benchmarkReturns: number[] = [];
+      for (let t = 0; t < observations; t++) {
+        const from = benchmarkCloses.get(aligned.dates[t].getTime());
+        const to = benchmarkCloses.get(aligned.dates[t + 1].getTime());
+        if (from === undefined || to === undefined) continue;
+        pairedPnl.push(pnl[t]);
+        benchmarkReturns.push(to / from - 1);
+      }
+      const dollarBeta = calculateBeta(pairedPnl, benchmarkReturns);
+      portfolioBeta =
+        dollarBeta !== null && equity > 0 ? dollarBeta / equity : null;
+    }
+
+    if (missingHistory.length > 0) {
+      warnings.push(
+        `履歴不足のため VaR・相関から除外: ${missingHistory.join(', ')}`
+      );
+    }
+    if (missingRates.size > 0) {
+      warnings.push(
+        `為替レート未設定のため1として換算: ${[...missingRates].join(', ')}`
+      );
+    }
+
+    return {
+      asOf: input.asOf ?? new Date(),
+      baseCurrency: this.config.baseCurrency,
+      equity,
+      exposure,
+      valueAtRisk,
+      symbols,
+      correlation,
+      covariance: covarianceValues,
+      volatility,
+      portfolioVolatility: enough ? pnlSigma : null,
+      betas,
+      portfolioBeta,
+      benchmark: input.benchmark?.symbol ?? null,
+      observations,
+      missingHistory,
+      warnings,
+    };
+  }
+}
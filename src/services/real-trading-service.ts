@@ -110,10 +110,21 @@ export interface RealAccount {
   lastUpdated: Date;
 }
 
+/**
+ * 発注失敗の種類（BROKER_ERROR のみがブローカー・通信の失敗）
+ */
+export type OrderErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'RISK_REJECTED'
+  | 'UNSUPPORTED_MARKET'
+  | 'BROKER_ERROR'
+  | 'INTERNAL_ERROR';
+
 export interface OrderResult {
   success: boolean;
   orderId?: string;
   error?: string;
+  errorCode?: OrderErrorCode;
   order?: RealOrder;
 }
 
@@ -264,30 +275,62 @@ export class RealTradingService {
   ): Promise<OrderResult> {
     try {
       if (!this.isInitialized) {
-        return { success: false, error: 'サービスが初期化されていません' };
+        return {
+          success: false,
+          error: 'サービスが初期化されていません',
+          errorCode: 'NOT_INITIALIZED',
+        };
       }
 
-      // リスクチェック
-      const riskCheck = await this.riskManager.checkOrderRisk(order);
+      // 発注前リスクチェック（成行注文は取得した現在価格で評価する）
+      this.syncRiskState();
+      await this.refreshReferencePrice(order.symbol, order.market);
+      const riskCheck = this.riskManager.checkOrderRisk({
+        symbol: order.symbol,
+        side: order.side,
+        quantity: order.quantity,
+        price: order.price,
+        market: order.market,
+      });
       if (!riskCheck.allowed) {
-        return { success: false, error: riskCheck.reason };
+        console.log(`🛑 発注前リスクチェックで拒否: ${riskCheck.reason}`);
+        return {
+          success: false,
+          error: riskCheck.reason,
+          errorCode: 'RISK_REJECTED',
+        };
       }
 
       // ブローカーを決定
       const broker = this.determineBroker(order.market);
       if (!broker) {
-        return { success: false, error: '対応していない市場です' };
+        return {
+          success: false,
+          error: '対応していない市場です',
+          errorCode: 'UNSUPPORTED_MARKET',
+        };
       }
 
       // 統一注文形式に変換
       const unifiedOrder = this.convertToUnifiedOrder(order, broker);
 
-      // 注文発注
-      const result = await this.tradingIntegration.placeOrder(unifiedOrder);
+      // 注文発注（例外・失敗応答はブローカーエラーとして返す）
+      let result: Awaited<ReturnType<TradingIntegrationService['placeOrder']>>;
+      try {
+        result = await this.tradingIntegration.placeOrder(unifiedOrder);
+      } catch (error) {
+        console.error('❌ ブローカー発注エラー:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : '不明なエラー',
+          errorCode: 'BROKER_ERROR',
+        };
+      }
       if (!result.success || !result.order) {
         return {
           success: false,
           error: result.error || '注文発注に失敗しました',
+          errorCode: 'BROKER_ERROR',
         };
       }
 
@@ -296,6 +339,14 @@ export class RealTradingService {
 
       // 注文を保存
       this.orders.set(realOrder.id, realOrder);
+      if (realOrder.filledQuantity > 0) {
+        this.riskManager.recordFill(
+          realOrder.symbol,
+          realOrder.side,
+          realOrder.filledQuantity,
+          realOrder.averagePrice
+        );
+      }
 
       // 口座情報を更新
       await this.updateAccount(broker);
@@ -309,10 +360,50 @@ export class RealTradingService {
       return {
         success: false,
         error: error instanceof Error ? error.message : '不明なエラー',
+        errorCode: 'INTERNAL_ERROR',
       };
     }
   }
 
+  /**
+   * 口座・ポジション情報を発注前リスクチェックに反映
+   */
+  private syncRiskState(): void {
+    const accounts = Array.from(this.accounts.values());
+    if (accounts.length > 0) {
+      this.riskManager.updateAccountState({
+        equity: accounts.reduce((sum, a) => sum + a.totalValue, 0),
+        dailyPnL: accounts.reduce((sum, a) => sum + a.dayPnL, 0),
+      });
+    }
+
+    const positions = Array.from(this.positions.values());
+    this.riskManager.syncHoldings(
+      positions.map((p) => ({
+        symbol: p.symbol,
+        quantity: p.side === 'LONG' ? p.quantity : -p.quantity,
+        averagePrice: p.averagePrice,
+      }))
+    );
+    for (const position of positions) {
+      this.riskManager.updateLastPrice(position.symbol, position.currentPrice);
+    }
+  }
+
+  /**
+   * 発注前リスクチェックの直近約定価格を市場データから更新
+   * 取得できない場合は保有ポジションの評価価格のまま判定する
+   */
+  private async refreshReferencePrice(
+    symbol: string,
+    market: 'FX' | 'US' | 'JP'
+  ): Promise<void> {
+    const price = await this.getCurrentPrice(symbol, market);
+    if (price) {
+      this.riskManager.updateLastPrice(symbol, price);
+    }
+  }
+
   /**
    * 市場に基づいてブローカーを決定
    */
@@ -3,6 +3,8 @@
  * ポジションサイジング、ストップロス、テイクプロフィット等のリスク管理機能
  */
 
+import type { PortfolioRiskReport } from './portfolio-risk';
+
 export interface RiskParameters {
   maxPositionSize: number; // 最大ポジションサイズ（円）
   maxPortfolioRisk: number; // 最大ポートフォリオリスク（%）
@@ -10,6 +12,65 @@ export interface RiskParameters {
   takeProfitPercent: number; // テイクプロフィット率（%）
   maxDailyLoss: number; // 最大日次損失（円）
   maxDrawdown: number; // 最大ドローダウン（%）
+  preTrade?: Partial<PreTradeRiskLimits>; // 発注前チェックの上限（未指定は既定値）
+}
+
+/**
+ * 発注前リスクチェックの上限
+ */
+export interface PreTradeRiskLimits {
+  maxOrderNotional: number; // 1注文の最大約定代金（未指定時は maxPositionSize）
+  maxOrderShares: number; // 1注文の最大数量
+  priceCollarPercent: number; // 直近約定価格からの許容乖離（%）
+  maxSymbolConcentration: number; // 1銘柄の評価額上限（口座評価額に対する%）
+  maxOrdersPerMinute: number; // 1分あたりの最大発注数
+}
+
+const DEFAULT_PRE_TRADE_LIMITS: Omit<PreTradeRiskLimits, 'maxOrderNotional'> = {
+  maxOrderShares: 10000,
+  priceCollarPercent: 5,
+  maxSymbolConcentration: 50,
+  maxOrdersPerMinute: 10,
+};
+
+/**
+ * 発注前チェックの対象注文
+ */
+export interface OrderRiskRequest {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price?: number; // 指値・想定約定価格（未指定時は直近約定価格で評価）
+  market?: string;
+}
+
+export type OrderRiskRejectCode =
+  | 'INVALID_ORDER'
+  | 'NO_REFERENCE_PRICE'
+  | 'MAX_NOTIONAL'
+  | 'MAX_SHARES'
+  | 'PRICE_COLLAR'
+  | 'DAILY_LOSS'
+  | 'DRAWDOWN'
+  | 'CONCENTRATION'
+  | 'ORDER_RATE';
+
+export interface OrderRiskReject {
+  code: OrderRiskRejectCode;
+  message: string;
+  limit?: number;
+  actual?: number;
+}
+
+/**
+ * 発注前チェックの結果
+ */
+export interface OrderRiskResult {
+  allowed: boolean;
+  reason?: string; // 拒否理由の要約
+  rejects: OrderRiskReject[];
+  notional: number | null; // 評価に使った約定代金
+  reducesRisk: boolean; // 保有を減らす注文か
 }
 
 export interface PositionRisk {
@@ -27,11 +88,24 @@ export interface PortfolioRisk {
   riskPercentage: number;
   isWithinRiskLimit: boolean;
   recommendedAction: 'HOLD' | 'REDUCE' | 'STOP';
+  valueAtRisk?: number; // 分析結果がある場合の最大信頼水準のヒストリカルVaR
+  expectedShortfall?: number; // 同 CVaR
 }
 
 export class RiskManager {
   private riskParameters: RiskParameters;
 
+  // 発注前チェック用の状態
+  private lastPrices: Map<string, number> = new Map();
+  private holdings: Map<string, { quantity: number; averagePrice: number }> =
+    new Map();
+  private orderTimestamps: number[] = [];
+  private equity: number | null = null;
+  private peakEquity: number | null = null;
+  private dailyPnL: number = 0;
+  private dailyPnLDate: string = new Date().toDateString();
+  private portfolioRiskReport: PortfolioRiskReport | null = null;
+
   constructor(riskParameters: RiskParameters) {
     this.riskParameters = riskParameters;
   }
@@ -143,6 +217,12 @@ export class RiskManager {
       totalRisk += positionRisk;
     }
 
+    // VaR分析がある場合は含み損益の幅とVaRの大きい方をリスクとする
+    const tail = this.getTailRisk();
+    if (tail) {
+      totalRisk = Math.max(totalRisk, tail.valueAtRisk);
+    }
+
     // リスク率を計算
     const riskPercentage = (totalRisk / accountBalance) * 100;
 
@@ -164,6 +244,36 @@ export class RiskManager {
       riskPercentage,
       isWithinRiskLimit,
       recommendedAction,
+      ...(tail ?? {}),
+    };
+  }
+
+  /**
+   * ポートフォリオリスク分析結果を設定（サイジング・リスク判定で参照）
+   */
+  setPortfolioRiskReport(report: PortfolioRiskReport | null): void {
+    this.portfolioRiskReport = report;
+  }
+
+  getPortfolioRiskReport(): PortfolioRiskReport | null {
+    return this.portfolioRiskReport;
+  }
+
+  /**
+   * 最大信頼水準のヒストリカルVaR/CVaR
+   */
+  private getTailRisk(): {
+    valueAtRisk: number;
+    expectedShortfall: number;
+  } | null {
+    const levels = this.portfolioRiskReport?.valueAtRisk ?? [];
+    if (levels.length === 0) return null;
+    const worst = levels.reduce((a, b) =>
+      b.confidence > a.confidence ? b : a
+    );
+    return {
+      valueAtRisk: worst.historicalVaR,
+      expectedShortfall: worst.historicalCVaR,
     };
   }
 
@@ -187,6 +297,272 @@ export class RiskManager {
     return drawdown <= this.riskParameters.maxDrawdown;
   }
 
+  /**
+   * 発注前リスクチェック
+   * 発注するすべての経路はこのチェックを通過させること。
+   * 保有を減らす注文（決済）は損失・集中度の制限では止めず、価格乖離のみ判定する
+   * @param order 発注内容
+   * @param now 判定時刻（バックテストではシミュレーション時刻）
+   * @returns 判定結果（拒否時は理由の一覧）
+   */
+  checkOrderRisk(
+    order: OrderRiskRequest,
+    now: Date = new Date()
+  ): OrderRiskResult {
+    this.rollDailyPnL(now);
+    const limits = this.getPreTradeLimits();
+    const rejects: OrderRiskReject[] = [];
+    const reject = (
+      code: OrderRiskRejectCode,
+      message: string,
+      limit?: number,
+      actual?: number
+    ) => rejects.push({ code, message, limit, actual });
+
+    const held = this.holdings.get(order.symbol)?.quantity ?? 0;
+    const reducesRisk =
+      order.side === 'SELL' ? held >= order.quantity : -held >= order.quantity;
+
+    if (!Number.isFinite(order.quantity) || order.quantity <= 0) {
+      reject('INVALID_ORDER', `数量が不正です: ${order.quantity}`);
+      return this.toOrderRiskResult(rejects, null, reducesRisk);
+    }
+
+    const lastPrice = this.lastPrices.get(order.symbol);
+    const price = order.price ?? lastPrice;
+    if (price === undefined || !(price > 0)) {
+      reject('NO_REFERENCE_PRICE', `${order.symbol} の評価価格がありません`);
+      return this.toOrderRiskResult(rejects, null, reducesRisk);
+    }
+    const notional = price * order.quantity;
+
+    // 価格カラー（直近約定価格からの乖離）
+    if (order.price !== undefined && lastPrice !== undefined) {
+      const deviation = (Math.abs(order.price - lastPrice) / lastPrice) * 100;
+      if (deviation > limits.priceCollarPercent) {
+        reject(
+          'PRICE_COLLAR',
+          `注文価格が直近約定価格から${deviation.toFixed(2)}%乖離しています`,
+          limits.priceCollarPercent,
+          deviation
+        );
+      }
+    }
+
+    if (!reducesRisk) {
+      if (notional > limits.maxOrderNotional) {
+        reject(
+          'MAX_NOTIONAL',
+          `約定代金が上限を超えています`,
+          limits.maxOrderNotional,
+          notional
+        );
+      }
+
+      if (order.quantity > limits.maxOrderShares) {
+        reject(
+          'MAX_SHARES',
+          `数量が上限を超えています`,
+          limits.maxOrderShares,
+          order.quantity
+        );
+      }
+
+      if (!this.checkDailyLossLimit(this.dailyPnL)) {
+        reject(
+          'DAILY_LOSS',
+          `日次損失制限に達しています`,
+          -this.riskParameters.maxDailyLoss,
+          this.dailyPnL
+        );
+      }
+
+      if (
+        this.equity !== null &&
+        this.peakEquity &&
+        !this.checkDrawdownLimit(this.equity, this.peakEquity)
+      ) {
+        reject(
+          'DRAWDOWN',
+          `ドローダウン制限に達しています`,
+          this.riskParameters.maxDrawdown,
+          ((this.peakEquity - this.equity) / this.peakEquity) * 100
+        );
+      }
+
+      if (this.equity) {
+        const concentration =
+          ((Math.abs(held) * price + notional) / this.equity) * 100;
+        if (concentration > limits.maxSymbolConcentration) {
+          reject(
+            'CONCENTRATION',
+            `${order.symbol} の比率が上限を超えます`,
+            limits.maxSymbolConcentration,
+            concentration
+          );
+        }
+      }
+
+      // 発注頻度（暴走した発注ループの防止）
+      const since = now.getTime() - 60 * 1000;
+      this.orderTimestamps = this.orderTimestamps.filter((t) => t > since);
+      if (this.orderTimestamps.length >= limits.maxOrdersPerMinute) {
+        reject(
+          'ORDER_RATE',
+          `発注頻度が上限を超えています`,
+          limits.maxOrdersPerMinute,
+          this.orderTimestamps.length + 1
+        );
+      }
+    }
+
+    const result = this.toOrderRiskResult(rejects, notional, reducesRisk);
+    if (result.allowed) {
+      this.orderTimestamps.push(now.getTime());
+    }
+    return result;
+  }
+
+  /**
+   * 直近約定価格を更新
+   */
+  updateLastPrice(symbol: string, price: number): void {
+    if (price > 0) {
+      this.lastPrices.set(symbol, price);
+    }
+  }
+
+  /**
+   * 口座評価額・日次損益を更新（ピーク評価額は自動で追跡）
+   */
+  updateAccountState(state: {
+    equity?: number;
+    dailyPnL?: number;
+    now?: Date;
+  }): void {
+    const now = state.now ?? new Date();
+    this.rollDailyPnL(now);
+    if (state.equity !== undefined) {
+      this.equity = state.equity;
+      this.peakEquity = Math.max(this.peakEquity ?? state.equity, state.equity);
+    }
+    if (state.dailyPnL !== undefined) {
+      this.dailyPnL = state.dailyPnL;
+    }
+  }
+
+  /**
+   * 保有数量を外部の保有一覧で置き換え（起動時の復元・ブローカー照合用）
+   */
+  syncHoldings(
+    positions: Array<{ symbol: string; quantity: number; averagePrice: number }>
+  ): void {
+    this.holdings = new Map(
+      positions.map((p) => [
+        p.symbol,
+        { quantity: p.quantity, averagePrice: p.averagePrice },
+      ])
+    );
+  }
+
+  /**
+   * 約定を反映（保有数量・直近約定価格・日次の確定損益を更新）
+   */
+  recordFill(
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    quantity: number,
+    price: number,
+    now: Date = new Date()
+  ): void {
+    this.rollDailyPnL(now);
+    this.updateLastPrice(symbol, price);
+
+    const holding = this.holdings.get(symbol) ?? {
+      quantity: 0,
+      averagePrice: 0,
+    };
+    const signed = side === 'BUY' ? quantity : -quantity;
+    const next = holding.quantity + signed;
+
+    if (
+      holding.quantity === 0 ||
+      Math.sign(holding.quantity) === Math.sign(signed)
+    ) {
+      // 新規・買い増し（売り増し）は平均単価を更新
+      holding.averagePrice =
+        (holding.averagePrice * Math.abs(holding.quantity) + price * quantity) /
+        Math.abs(next);
+    } else {
+      // 決済分の損益を確定
+      const closed = Math.min(quantity, Math.abs(holding.quantity));
+      this.dailyPnL +=
+        (price - holding.averagePrice) * closed * Math.sign(holding.quantity);
+      if (Math.sign(next) !== Math.sign(holding.quantity) && next !== 0) {
+        // ドテンした場合は残りを新規建てとして扱う
+        holding.averagePrice = price;
+      }
+    }
+
+    holding.quantity = next;
+    if (next === 0) {
+      this.holdings.delete(symbol);
+    } else {
+      this.holdings.set(symbol, holding);
+    }
+  }
+
+  /**
+   * 発注前チェック用の状態をクリア（バックテストの再実行用）
+   */
+  resetTradingState(): void {
+    this.lastPrices.clear();
+    this.holdings.clear();
+    this.orderTimestamps = [];
+    this.equity = null;
+    this.peakEquity = null;
+    this.dailyPnL = 0;
+  }
+
+  /**
+   * 発注前チェックの上限（既定値で補完）
+   */
+  getPreTradeLimits(): PreTradeRiskLimits {
+    return {
+      ...DEFAULT_PRE_TRADE_LIMITS,
+      maxOrderNotional: this.riskParameters.maxPositionSize,
+      ...this.riskParameters.preTrade,
+    };
+  }
+
+  private toOrderRiskResult(
+    rejects: OrderRiskReject[],
+    notional: number | null,
+    reducesRisk: boolean
+  ): OrderRiskResult {
+    return {
+      allowed: rejects.length === 0,
+      reason:
+        rejects.length > 0
+          ? rejects.map((r) => `[${r.code}] ${r.message}`).join(', ')
+          : undefined,
+      rejects,
+      notional,
+      reducesRisk,
+    };
+  }
+
+  /**
+   * 日付が変わったら日次損益をリセット
+   */
+  private rollDailyPnL(now: Date): void {
+    const today = now.toDateString();
+    if (today !== this.dailyPnLDate) {
+      this.dailyPnLDate = today;
+      this.dailyPnL = 0;
+    }
+  }
+
   /**
    * リスクパラメータを更新
    * @param newParameters 新しいリスクパラメータ
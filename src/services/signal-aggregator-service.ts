@@ -4,6 +4,20 @@ import {
   ISignalService,
   TradingSignal,
 } from './external-signals/base-signal-service';
+import { SignalOutcomeStore } from './signal-outcome-store';
+
+/**
+ * 集約方式
+ * - majority: 単純多数決（票数）
+ * - weighted: ソースごとの重みで加重投票
+ * - confidence: 重み × 確信度 で加重
+ * - accuracy: 過去の的中率が50%を上回る分を重みにする
+ */
+export type AggregationMode =
+  | 'majority'
+  | 'weighted'
+  | 'confidence'
+  | 'accuracy';
 
 /**
  * 集約されたシグナル
@@ -18,6 +32,11 @@ export interface AggregatedSignal {
   shouldBuy: boolean; // 購入すべきか（過半数判定）
   shouldSell: boolean; // 売却すべきか（過半数判定）
   signals: TradingSignal[]; // 個別シグナル詳細
+  mode: AggregationMode; // 集約方式
+  buyScore: number; // 重み付きの買い比率（0〜1）
+  sellScore: number; // 重み付きの売り比率（0〜1）
+  score: number; // buyScore - sellScore（-1〜1）
+  sourceWeights: { [source: string]: number }; // 各ソースに適用した重み
   timestamp: Date;
 }
 
@@ -33,6 +52,22 @@ export interface SignalAggregatorConfig {
   timeout: number;
   // 最小必要ソース数
   minSources: number;
+  // 集約方式
+  mode: AggregationMode;
+  // ソースごとの重み（TradingSignal.source をキーとする、未指定は1）
+  sourceWeights: { [source: string]: number };
+  // accuracy モード: 的中率を採用する最小サンプル数（未満は defaultHitRate）
+  // 重みは max(0, 的中率 - 0.5)（的中率50%以下のソースは使わない）
+  minAccuracySamples: number;
+  defaultHitRate: number; // 実績不足のソースの的中率（0.5より大きくし、重みを0にしない）
+}
+
+/**
+ * シグナル実績の記録設定
+ */
+export interface SignalTrackingOptions {
+  store: SignalOutcomeStore;
+  getPrice?: (symbol: string) => Promise<number>; // 指定時は取得したシグナルを価格付きで記録
 }
 
 /**
@@ -43,14 +78,17 @@ export class SignalAggregatorService extends EventEmitter {
   private logger: Logger;
   private signalServices: ISignalService[];
   private config: SignalAggregatorConfig;
+  private tracking?: SignalTrackingOptions;
 
   constructor(
     services: ISignalService[],
-    config?: Partial<SignalAggregatorConfig>
+    config?: Partial<SignalAggregatorConfig>,
+    tracking?: SignalTrackingOptions
   ) {
     super();
     this.logger = new Logger('SignalAggregator');
     this.signalServices = services;
+    this.tracking = tracking;
 
     // デフォルト設定
     this.config = {
@@ -62,9 +100,26 @@ export class SignalAggregatorService extends EventEmitter {
       },
       timeout: 30000, // 30秒
       minSources: 2, // 最低2サイト必要
+      mode: 'majority',
+      sourceWeights: {},
+      minAccuracySamples: 20,
+      defaultHitRate: 0.55,
       ...config,
     };
 
+    if (this.config.mode === 'accuracy') {
+      if (!(this.config.defaultHitRate > 0.5)) {
+        throw new Error(
+          `accuracy モードの defaultHitRate は0.5より大きくしてください: ${this.config.defaultHitRate}`
+        );
+      }
+      if (!this.tracking) {
+        this.logger.warn(
+          `⚠️ accuracy モードですが実績ストアが未設定のため、全ソースを既定の的中率 ${(this.config.defaultHitRate * 100).toFixed(0)}% で等しく重み付けします`
+        );
+      }
+    }
+
     this.logger.info(
       `シグナル統合サービス初期化: ${services.length}サービス登録`
     );
@@ -116,6 +171,8 @@ export class SignalAggregatorService extends EventEmitter {
         );
       }
 
+      await this.recordSignals(symbol, validSignals);
+
       // シグナルを集計
       const buySignals = validSignals.filter((s) => s.signal === 'BUY').length;
       const holdSignals = validSignals.filter(
@@ -128,10 +185,35 @@ export class SignalAggregatorService extends EventEmitter {
       const buyPercentage = (buySignals / totalSources) * 100;
       const sellPercentage = (sellSignals / totalSources) * 100;
 
-      // 過半数判定
+      // 重み付きスコア（majority では全ソースの重みが1になり票数の比率と一致）
+      const sourceWeights = await this.calculateSourceWeights(validSignals);
+      const totalWeight = validSignals.reduce(
+        (sum, s) => sum + this.signalWeight(s, sourceWeights),
+        0
+      );
+      const weightOf = (side: TradingSignal['signal']) =>
+        totalWeight > 0
+          ? validSignals
+              .filter((s) => s.signal === side)
+              .reduce(
+                (sum, s) => sum + this.signalWeight(s, sourceWeights),
+                0
+              ) / totalWeight
+          : 0;
+      const buyScore = weightOf('BUY');
+      const sellScore = weightOf('SELL');
+
+      // 過半数判定（majority は票数、それ以外は重み付き比率で判定）
       const requiredVotes = this.calculateRequiredVotes(totalSources);
-      const shouldBuy = buySignals >= requiredVotes;
-      const shouldSell = sellSignals >= requiredVotes;
+      const requiredRatio = this.config.requiredVoteRatio[totalSources] || 0.67;
+      const shouldBuy =
+        this.config.mode === 'majority'
+          ? buySignals >= requiredVotes
+          : buyScore >= requiredRatio;
+      const shouldSell =
+        this.config.mode === 'majority'
+          ? sellSignals >= requiredVotes
+          : sellScore >= requiredRatio;
 
       const result: AggregatedSignal = {
         symbol,
@@ -143,6 +225,11 @@ export class SignalAggregatorService extends EventEmitter {
         shouldBuy,
         shouldSell,
         signals: validSignals,
+        mode: this.config.mode,
+        buyScore,
+        sellScore,
+        score: buyScore - sellScore,
+        sourceWeights,
         timestamp: new Date(),
       };
 
@@ -160,6 +247,11 @@ export class SignalAggregatorService extends EventEmitter {
       this.logger.info(
         `  必要票数: ${requiredVotes}票 (${(this.config.requiredVoteRatio[totalSources] || 0.67) * 100}%)`
       );
+      if (this.config.mode !== 'majority') {
+        this.logger.info(
+          `  スコア(${this.config.mode}): BUY=${(buyScore * 100).toFixed(1)}% SELL=${(sellScore * 100).toFixed(1)}%`
+        );
+      }
       this.logger.info(`  判定: 購入=${shouldBuy}, 売却=${shouldSell}`);
 
       this.emit('signalsAggregated', result);
@@ -198,7 +290,7 @@ export class SignalAggregatorService extends EventEmitter {
   filterBuyRecommendations(signals: AggregatedSignal[]): AggregatedSignal[] {
     return signals
       .filter((s) => s.shouldBuy)
-      .sort((a, b) => b.buyPercentage - a.buyPercentage);
+      .sort((a, b) => b.buyScore - a.buyScore);
   }
 
   /**
@@ -207,7 +299,7 @@ export class SignalAggregatorService extends EventEmitter {
   filterSellRecommendations(signals: AggregatedSignal[]): AggregatedSignal[] {
     return signals
       .filter((s) => s.shouldSell)
-      .sort((a, b) => b.sellSignals - a.sellSignals);
+      .sort((a, b) => b.sellScore - a.sellScore);
   }
 
   /**
@@ -230,6 +322,95 @@ export class SignalAggregatorService extends EventEmitter {
     return best;
   }
 
+  /**
+   * 購入候補を買い推奨率の高い順に上位N件選択
+   */
+  selectTopBuyCandidates(
+    signals: AggregatedSignal[],
+    count: number
+  ): AggregatedSignal[] {
+    const selected = this.filterBuyRecommendations(signals).slice(
+      0,
+      Math.max(0, count)
+    );
+
+    selected.forEach((s, i) => {
+      this.logger.info(
+        `候補${i + 1}: ${s.symbol} (買い推奨率: ${s.buyPercentage.toFixed(1)}%)`
+      );
+    });
+
+    return selected;
+  }
+
+  /**
+   * 集約方式に応じたソースごとの重み
+   */
+  private async calculateSourceWeights(
+    signals: TradingSignal[]
+  ): Promise<{ [source: string]: number }> {
+    const weights: { [source: string]: number } = {};
+    const hitRates =
+      this.config.mode === 'accuracy' && this.tracking
+        ? await this.tracking.store.getHitRates()
+        : null;
+
+    for (const signal of signals) {
+      switch (this.config.mode) {
+        case 'majority':
+          weights[signal.source] = 1;
+          break;
+        case 'weighted':
+        case 'confidence':
+          weights[signal.source] =
+            this.config.sourceWeights[signal.source] ?? 1;
+          break;
+        case 'accuracy': {
+          const rate = hitRates?.get(signal.source);
+          const hitRate =
+            rate && rate.samples >= this.config.minAccuracySamples
+              ? rate.hitRate
+              : this.config.defaultHitRate;
+          weights[signal.source] = Math.max(0, hitRate - 0.5);
+          break;
+        }
+      }
+    }
+    return weights;
+  }
+
+  /**
+   * 1シグナルの重み（confidence モードでは確信度を掛ける）
+   */
+  private signalWeight(
+    signal: TradingSignal,
+    sourceWeights: { [source: string]: number }
+  ): number {
+    const weight = sourceWeights[signal.source] ?? 0;
+    return this.config.mode === 'confidence'
+      ? weight * (signal.confidence / 100)
+      : weight;
+  }
+
+  /**
+   * 取得したシグナルを実績ストアに記録（失敗しても集約は継続）
+   */
+  private async recordSignals(
+    symbol: string,
+    signals: TradingSignal[]
+  ): Promise<void> {
+    if (!this.tracking?.getPrice) return;
+
+    try {
+      const price = await this.tracking.getPrice(symbol);
+      for (const signal of signals) {
+        await this.tracking.store.record(signal, price);
+      }
+    } catch (error) {
+      this.logger.warn(`シグナル記録をスキップ: ${symbol}`, error);
+    }
+  }
+
   /**
    * 過半数に必要な票数を計算
    */
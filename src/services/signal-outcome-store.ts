@@ -0,0 +1,472 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { Logger } from '../utils/logger';
+import { TradingSignal } from './external-signals/base-signal-service';
+
+type SignalSide = TradingSignal['signal'];
+
+/**
+ * 結果判定の期間
+ * - duration: シグナルから一定時間後
+ * - close: シグナル当日の引け
+ * - nextClose: 翌営業日の引け
+ */
+export type OutcomeHorizon =
+  | { name: string; type: 'duration'; minutes: number }
+  | { name: string; type: 'close' }
+  | { name: string; type: 'nextClose' };
+
+/**
+ * 記録済みシグナル
+ */
+export interface SignalRecord {
+  id: string;
+  source: string;
+  symbol: string;
+  signal: SignalSide;
+  confidence: number;
+  timestamp: Date;
+  priceAtSignal: number;
+  outcomes: { [horizon: string]: SignalOutcome };
+}
+
+/**
+ * シグナル後の値動きによる正誤判定
+ */
+export interface SignalOutcome {
+  horizon: string;
+  price: number;
+  labeledAt: Date;
+  return: number; // (price - priceAtSignal) / priceAtSignal
+  actual: SignalSide; // 値動きから見た正解（holdBand 以内は HOLD）
+  correct: boolean;
+}
+
+/**
+ * ソース別の的中率
+ */
+export interface SourceHitRate {
+  source: string;
+  samples: number;
+  hits: number;
+  hitRate: number;
+}
+
+/**
+ * 結果判定に使う価格
+ */
+export interface OutcomePriceProvider {
+  // 指定時刻時点の価格（取得できない場合は null。未判定のまま次回に再試行する）
+  getPriceAt(symbol: string, time: Date, now: Date): Promise<number | null>;
+  // 指定日の終値（取得できない場合は null。未判定のまま次回に再試行する）
+  getClosePrice(symbol: string, date: Date): Promise<number | null>;
+}
+
+export type ScorecardGroupBy = 'source' | 'symbol' | 'timeOfDay';
+
+/**
+ * スコアカードの1行（BUY / SELL それぞれの適合率・再現率）
+ */
+export interface ScorecardRow {
+  group: string;
+  samples: number;
+  accuracy: number;
+  buy: { signals: number; precision: number | null; recall: number | null };
+  sell: { signals: number; precision: number | null; recall: number | null };
+  averageReturnAfterBuy: number | null;
+  averageReturnAfterSell: number | null;
+}
+
+export interface ScorecardQuery {
+  horizon?: string;
+  groupBy?: ScorecardGroupBy;
+  since?: Date;
+  source?: string;
+  symbol?: string;
+}
+
+export interface SignalOutcomeStoreConfig {
+  filePath: string;
+  holdBand: number; // HOLD を正解とみなす値動きの幅（例: 0.005 = ±0.5%）
+  horizons: OutcomeHorizon[];
+  closeTime: string; // 引け時刻（ローカル時刻 'HH:MM'）
+}
+
+type JournalLine =
+  | {
+      type: 'signal';
+      id: string;
+      source: string;
+      symbol: string;
+      signal: SignalSide;
+      confidence: number;
+      timestamp: string;
+      priceAtSignal: number;
+    }
+  | {
+      type: 'outcome';
+      id: string;
+      horizon: string;
+      price: number;
+      labeledAt: string;
+      return: number;
+      actual: SignalSide;
+      correct: boolean;
+    };
+
+const DEFAULT_CONFIG: SignalOutcomeStoreConfig = {
+  filePath: './data/signal-outcomes/signals.jsonl',
+  holdBand: 0.005,
+  horizons: [
+    { name: '30m', type: 'duration', minutes: 30 },
+    { name: 'close', type: 'close' },
+    { name: 'nextDay', type: 'nextClose' },
+  ],
+  closeTime: '16:00',
+};
+
+/**
+ * シグナル実績ストア
+ * 取得したシグナルと、期間ごとの値動きによる正誤を追記型ファイルに保存する
+ */
+export class SignalOutcomeStore {
+  private logger: Logger;
+  private config: SignalOutcomeStoreConfig;
+  private records: Map<string, SignalRecord> = new Map();
+  private loading?: Promise<void>;
+  private sequence: number = 0;
+
+  constructor(config: Partial<SignalOutcomeStoreConfig> = {}) {
+    this.logger = new Logger('SignalOutcomeStore');
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  getHorizons(): OutcomeHorizon[] {
+    return this.config.horizons;
+  }
+
+  /**
+   * シグナルを記録
+   */
+  async record(
+    signal: TradingSignal,
+    priceAtSignal: number
+  ): Promise<SignalRecord> {
+    await this.load();
+
+    const timestamp = signal.timestamp ?? new Date();
+    const record: SignalRecord = {
+      id: `${signal.source}_${signal.symbol}_${timestamp.getTime()}_${++this.sequence}`,
+      source: signal.source,
+      symbol: signal.symbol,
+      signal: signal.signal,
+      confidence: signal.confidence,
+      timestamp,
+      priceAtSignal,
+      outcomes: {},
+    };
+
+    await this.append({
+      type: 'signal',
+      id: record.id,
+      source: record.source,
+      symbol: record.symbol,
+      signal: record.signal,
+      confidence: record.confidence,
+      timestamp: timestamp.toISOString(),
+      priceAtSignal,
+    });
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  /**
+   * シグナルの結果を記録（指定期間後の価格で正誤を判定）
+   */
+  async labelOutcome(
+    recordId: string,
+    horizon: string,
+    price: number,
+    labeledAt: Date = new Date()
+  ): Promise<SignalOutcome> {
+    await this.load();
+
+    const record = this.records.get(recordId);
+    if (!record) {
+      throw new Error(`シグナル記録が見つかりません: ${recordId}`);
+    }
+
+    const ret = (price - record.priceAtSignal) / record.priceAtSignal;
+    const actual = this.classifyReturn(ret);
+    const outcome: SignalOutcome = {
+      horizon,
+      price,
+      labeledAt,
+      return: ret,
+      actual,
+      correct: record.signal === actual,
+    };
+
+    await this.append({
+      type: 'outcome',
+      id: recordId,
+      horizon,
+      price,
+      labeledAt: labeledAt.toISOString(),
+      return: ret,
+      actual,
+      correct: outcome.correct,
+    });
+    record.outcomes[horizon] = outcome;
+    return outcome;
+  }
+
+  /**
+   * 判定期限を過ぎた全期間の結果を付ける
+   * 判定期限時点の価格が取得できないシグナルは未判定のまま残し、次回に再試行する
+   */
+  async labelDue(
+    prices: OutcomePriceProvider,
+    now: Date = new Date()
+  ): Promise<number> {
+    await this.load();
+
+    let labeled = 0;
+    for (const horizon of this.config.horizons) {
+      for (const record of this.getPendingRecords(horizon.name, now)) {
+        try {
+          const dueAt = this.dueTime(record.timestamp, horizon);
+          const price =
+            horizon.type === 'duration'
+              ? await prices.getPriceAt(record.symbol, dueAt, now)
+              : await prices.getClosePrice(record.symbol, dueAt);
+          if (price === null) continue;
+          await this.labelOutcome(record.id, horizon.name, price, now);
+          labeled++;
+        } catch (error) {
+          this.logger.warn(
+            `${record.symbol} の結果判定をスキップ (${horizon.name}):`,
+            error
+          );
+        }
+      }
+    }
+    return labeled;
+  }
+
+  /**
+   * 指定期間の判定期限を過ぎた未判定のシグナル
+   */
+  getPendingRecords(horizon: string, now: Date = new Date()): SignalRecord[] {
+    const def = this.findHorizon(horizon);
+    return Array.from(this.records.values()).filter(
+      (r) =>
+        !r.outcomes[horizon] &&
+        this.dueTime(r.timestamp, def).getTime() <= now.getTime()
+    );
+  }
+
+  getRecords(): SignalRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * ソース別の的中率（期間未指定時は最初の期間）
+   */
+  async getHitRates(
+    horizon: string = this.config.horizons[0].name,
+    since?: Date
+  ): Promise<Map<string, SourceHitRate>> {
+    await this.load();
+
+    const rates = new Map<string, SourceHitRate>();
+    for (const record of this.records.values()) {
+      const outcome = record.outcomes[horizon];
+      if (!outcome) continue;
+      if (since && record.timestamp < since) continue;
+
+      const rate = rates.get(record.source) || {
+        source: record.source,
+        samples: 0,
+        hits: 0,
+        hitRate: 0,
+      };
+      rate.samples++;
+      if (outcome.correct) rate.hits++;
+      rate.hitRate = rate.hits / rate.samples;
+      rates.set(record.source, rate);
+    }
+    return rates;
+  }
+
+  /**
+   * スコアカード（ソース・銘柄・時間帯ごとの適合率／再現率）
+   */
+  async getScorecard(query: ScorecardQuery = {}): Promise<ScorecardRow[]> {
+    await this.load();
+
+    const horizon = query.horizon ?? this.config.horizons[0].name;
+    const groupBy = query.groupBy ?? 'source';
+    const groups = new Map<
+      string,
+      Array<{ record: SignalRecord; outcome: SignalOutcome }>
+    >();
+
+    for (const record of this.records.values()) {
+      const outcome = record.outcomes[horizon];
+      if (!outcome) continue;
+      if (query.since && record.timestamp < query.since) continue;
+      if (query.source && record.source !== query.source) continue;
+      if (query.symbol && record.symbol !== query.symbol) continue;
+
+      const key =
+        groupBy === 'timeOfDay'
+          ? `${String(record.timestamp.getHours()).padStart(2, '0')}:00`
+          : record[groupBy];
+      const items = groups.get(key) || [];
+      items.push({ record, outcome });
+      groups.set(key, items);
+    }
+
+    const ratio = (num: number, den: number) => (den > 0 ? num / den : null);
+    const avg = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((sum, v) => sum + v, 0) / values.length
+        : null;
+    const sideStats = (
+      items: Array<{ record: SignalRecord; outcome: SignalOutcome }>,
+      side: SignalSide
+    ) => {
+      const predicted = items.filter((i) => i.record.signal === side);
+      const actual = items.filter((i) => i.outcome.actual === side);
+      const truePositive = predicted.filter((i) => i.outcome.actual === side);
+      return {
+        signals: predicted.length,
+        precision: ratio(truePositive.length, predicted.length),
+        recall: ratio(truePositive.length, actual.length),
+      };
+    };
+    const returnsAfter = (
+      items: Array<{ record: SignalRecord; outcome: SignalOutcome }>,
+      side: SignalSide
+    ) =>
+      items
+        .filter((i) => i.record.signal === side)
+        .map((i) => i.outcome.return);
+
+    return Array.from(groups.entries())
+      .map(([group, items]) => ({
+        group,
+        samples: items.length,
+        accuracy: items.filter((i) => i.outcome.correct).length / items.length,
+        buy: sideStats(items, 'BUY'),
+        sell: sideStats(items, 'SELL'),
+        averageReturnAfterBuy: avg(returnsAfter(items, 'BUY')),
+        averageReturnAfterSell: avg(returnsAfter(items, 'SELL')),
+      }))
+      .sort((a, b) => a.group.localeCompare(b.group));
+  }
+
+  /**
+   * 値動きを BUY / HOLD / SELL に分類（holdBand 以内は HOLD）
+   */
+  classifyReturn(ret: number): SignalSide {
+    if (ret > this.config.holdBand) return 'BUY';
+    if (ret < -this.config.holdBand) return 'SELL';
+    return 'HOLD';
+  }
+
+  /**
+   * ファイルから記録を読み込む（2回目以降は何もしない）
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readJournal();
+    }
+    return this.loading;
+  }
+
+  private async readJournal(): Promise<void> {
+    if (!existsSync(this.config.filePath)) return;
+
+    const lines = (await readFile(this.config.filePath, 'utf-8')).split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let entry: JournalLine;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        this.logger.warn('⚠️ 不正な記録行を読み飛ばします');
+        continue;
+      }
+
+      if (entry.type === 'signal') {
+        this.records.set(entry.id, {
+          id: entry.id,
+          source: entry.source,
+          symbol: entry.symbol,
+          signal: entry.signal,
+          confidence: entry.confidence,
+          timestamp: new Date(entry.timestamp),
+          priceAtSignal: entry.priceAtSignal,
+          outcomes: {},
+        });
+      } else {
+        const record = this.records.get(entry.id);
+        if (record) {
+          record.outcomes[entry.horizon] = {
+            horizon: entry.horizon,
+            price: entry.price,
+            labeledAt: new Date(entry.labeledAt),
+            return: entry.return,
+            actual: entry.actual,
+            correct: entry.correct,
+          };
+        }
+      }
+    }
+    this.logger.info(`📂 シグナル記録を読み込み: ${this.records.size}件`);
+  }
+
+  /**
+   * 判定期限（引けは土日を飛ばし、引け後のシグナルは翌営業日の引けとする）
+   */
+  private dueTime(timestamp: Date, horizon: OutcomeHorizon): Date {
+    if (horizon.type === 'duration') {
+      return new Date(timestamp.getTime() + horizon.minutes * 60000);
+    }
+
+    const [hour, minute] = this.config.closeTime.split(':').map(Number);
+    const due = new Date(timestamp);
+    due.setHours(hour, minute, 0, 0);
+
+    let daysAhead = horizon.type === 'nextClose' ? 1 : 0;
+    if (timestamp.getTime() > due.getTime()) daysAhead++;
+    while (daysAhead > 0 || due.getDay() === 0 || due.getDay() === 6) {
+      due.setDate(due.getDate() + 1);
+      if (due.getDay() !== 0 && due.getDay() !== 6) daysAhead--;
+    }
+    return due;
+  }
+
+  private findHorizon(name: string): OutcomeHorizon {
+    const horizon = this.config.horizons.find((h) => h.name === name);
+    if (!horizon) {
+      throw new Error(`未定義の判定期間です: ${name}`);
+    }
+    return horizon;
+  }
+
+  private async append(line: JournalLine): Promise<void> {
+    const dir = path.dirname(this.config.filePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+    await appendFile(
+      this.config.filePath,
+      JSON.stringify(line) + '\n',
+      'utf-8'
+    );
+  }
+}
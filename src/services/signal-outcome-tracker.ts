@@ -0,0 +1,107 @@
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/logger';
+import {
+  OutcomePriceProvider,
+  SignalOutcomeStore,
+} from './signal-outcome-store';
+
+/**
+ * 価格取得元（HybridMarketDataService が満たす）
+ */
+export interface OutcomeMarketDataSource {
+  getMarketData(symbol: string): Promise<{ price: number }>;
+  getHistoricalData(
+    symbol: string,
+    startDate: Date | string,
+    endDate?: Date | string
+  ): Promise<Array<{ date: Date; close: number }>>;
+}
+
+/**
+ * 市場データサービスから結果判定用の価格取得を作成
+ * 時点の価格は日中の履歴がないため、判定期限から maxQuoteLagMs 以内に限り現在の気配を使う
+ */
+export function createOutcomePriceProvider(
+  source: OutcomeMarketDataSource,
+  maxQuoteLagMs: number = 10 * 60 * 1000
+): OutcomePriceProvider {
+  return {
+    getPriceAt: async (symbol, time, now) => {
+      const lag = now.getTime() - time.getTime();
+      if (lag < 0 || lag > maxQuoteLagMs) return null;
+      return (await source.getMarketData(symbol)).price;
+    },
+    getClosePrice: async (symbol, date) => {
+      const start = new Date(date);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(start);
+      end.setDate(end.getDate() + 1);
+      const bars = await source.getHistoricalData(symbol, start, end);
+      const bar = bars.find(
+        (b) => new Date(b.date).toDateString() === start.toDateString()
+      );
+      return bar ? bar.close : null;
+    },
+  };
+}
+
+/**
+ * シグナル結果判定のバックグラウンドジョブ
+ * 一定間隔で判定期限を過ぎたシグナルに結果を付ける
+ */
+export class SignalOutcomeTracker extends EventEmitter {
+  private logger: Logger;
+  private store: SignalOutcomeStore;
+  private prices: OutcomePriceProvider;
+  private timer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(store: SignalOutcomeStore, prices: OutcomePriceProvider) {
+    super();
+    this.logger = new Logger('SignalOutcomeTracker');
+    this.store = store;
+    this.prices = prices;
+  }
+
+  /**
+   * ジョブ開始（デフォルト5分間隔）
+   */
+  start(intervalMs: number = 5 * 60 * 1000): void {
+    if (this.timer) {
+      this.logger.warn('結果判定ジョブは既に実行中です');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => this.emit('error', error));
+    }, intervalMs);
+    this.logger.info(`✅ 結果判定ジョブを開始 (${intervalMs / 1000}秒間隔)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      this.logger.info('結果判定ジョブを停止しました');
+    }
+  }
+
+  /**
+   * 1回分の判定処理（前回の処理中は重複実行しない）
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const labeled = await this.store.labelDue(this.prices, now);
+      if (labeled > 0) {
+        this.logger.info(`🔄 シグナル結果を判定: ${labeled}件`);
+        this.emit('outcomesLabeled', labeled);
+      }
+      return labeled;
+    } finally {
+      this.running = false;
+    }
+  }
+}
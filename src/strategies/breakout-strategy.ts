@@ -0,0 +1,291 @@
+/**
+ * ブレイクアウト戦略
+ * 寄り付きレンジ（分足・時間足）または直近の高値・安値チャネル（日足）の突破に順張りする
+ */
+
+import { TradingStrategy, StrategyConfig, Signal } from './trading-strategy';
+import type { StrategyDefinition } from './strategy-plugin';
+import { RealTradingService } from '../services/real-trading-service';
+import { DataIntegrationService } from '../services/data-integration-service';
+
+const TIMEFRAME_MINUTES: Record<StrategyConfig['timeframe'], number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '4h': 240,
+  '1d': 1440,
+};
+
+export interface BreakoutStrategyConfig extends StrategyConfig {
+  mode: 'opening_range' | 'channel';
+  openingRangeMinutes: number; // 寄り付きからレンジを確定するまでの時間
+  channelPeriod: number; // チャネルの期間（直近の足を除く本数）
+  breakoutBuffer: number; // レンジ端からの突破幅（例: 0.001 = 0.1%）
+  volumeMultiplier: number; // 突破足の出来高が平均の何倍以上か（0で確認しない）
+  allowShort: boolean; // 下抜けで売りシグナルを出す
+}
+
+interface BreakoutRange {
+  high: number;
+  low: number;
+  averageVolume: number;
+}
+
+export class BreakoutStrategy extends TradingStrategy {
+  constructor(
+    config: BreakoutStrategyConfig,
+    tradingService: RealTradingService,
+    dataService: DataIntegrationService
+  ) {
+    super(config, tradingService, dataService);
+  }
+
+  // updateConfig 後も最新の設定を参照する
+  private get breakoutConfig(): BreakoutStrategyConfig {
+    return this.config as BreakoutStrategyConfig;
+  }
+
+  /**
+   * ブレイクアウトシグナルを生成
+   */
+  async generateSignals(): Promise<Signal[]> {
+    const signals: Signal[] = [];
+
+    for (const symbol of this.breakoutConfig.symbols) {
+      for (const market of this.breakoutConfig.markets) {
+        try {
+          const signal = await this.generateBreakoutSignal(symbol, market);
+          if (signal) {
+            signals.push(signal);
+            this.saveSignal(signal);
+          }
+        } catch (error) {
+          console.error(
+            `❌ ブレイクアウトシグナル生成エラー (${symbol}):`,
+            error
+          );
+        }
+      }
+    }
+
+    console.log(`✅ ブレイクアウトシグナル生成完了: ${signals.length}個`);
+    return signals;
+  }
+
+  /**
+   * 個別のブレイクアウトシグナルを生成
+   */
+  private async generateBreakoutSignal(
+    symbol: string,
+    market: 'FX' | 'US' | 'JP'
+  ): Promise<Signal | null> {
+    const historicalData = await this.getHistoricalData(
+      symbol,
+      market,
+      this.breakoutConfig.lookbackPeriod
+    );
+    if (!historicalData || historicalData.data.length < 2) return null;
+
+    const bars = historicalData.data;
+    const range =
+      this.breakoutConfig.mode === 'opening_range'
+        ? this.openingRange(bars)
+        : this.channelRange(bars);
+    if (!range) return null;
+
+    const last = bars[bars.length - 1];
+    const { breakoutBuffer, volumeMultiplier } = this.breakoutConfig;
+    const upper = range.high * (1 + breakoutBuffer);
+    const lower = range.low * (1 - breakoutBuffer);
+
+    let side: 'BUY' | 'SELL' | null = null;
+    if (last.close > upper) side = 'BUY';
+    else if (last.close < lower && this.breakoutConfig.allowShort) {
+      side = 'SELL';
+    }
+    if (!side) return null;
+
+    const relativeVolume =
+      range.averageVolume > 0 ? last.volume / range.averageVolume : 0;
+    if (volumeMultiplier > 0 && relativeVolume < volumeMultiplier) return null;
+
+    const width = range.high - range.low;
+    const penetration =
+      width > 0
+        ? (side === 'BUY' ? last.close - range.high : range.low - last.close) /
+          width
+        : 1;
+    // 突破幅がレンジ幅の半分で最大強度
+    const strength = Math.min(Math.max(penetration * 2, 0.1), 1);
+    const confidence = Math.min(
+      0.5 + Math.min(relativeVolume / 4, 0.3) + strength * 0.2,
+      1
+    );
+
+    const label =
+      this.breakoutConfig.mode === 'opening_range'
+        ? '寄り付きレンジ'
+        : 'チャネル';
+    const reason = `${label}${side === 'BUY' ? '上抜け' : '下抜け'}: 終値(${last.close.toFixed(2)}), レンジ(${range.low.toFixed(2)}-${range.high.toFixed(2)}), 出来高倍率(${relativeVolume.toFixed(2)})`;
+
+    return await this.generateSignal(
+      symbol,
+      market,
+      side,
+      strength,
+      confidence,
+      reason,
+      {
+        rangeHigh: range.high,
+        rangeLow: range.low,
+        rangeWidth: width,
+        relativeVolume,
+        penetration,
+      }
+    );
+  }
+
+  /**
+   * 当日の寄り付きレンジ（レンジ確定前・確定直後の足はシグナルなし）
+   */
+  private openingRange(
+    bars: Array<{ date: Date; high: number; low: number; volume: number }>
+  ): BreakoutRange | null {
+    const sessionDay = this.dayKey(bars[bars.length - 1].date);
+    const session = bars.filter((bar) => this.dayKey(bar.date) === sessionDay);
+    const rangeBars = Math.ceil(
+      this.breakoutConfig.openingRangeMinutes /
+        TIMEFRAME_MINUTES[this.breakoutConfig.timeframe]
+    );
+    if (session.length <= rangeBars) return null;
+
+    const opening = session.slice(0, rangeBars);
+    return {
+      high: Math.max(...opening.map((bar) => bar.high)),
+      low: Math.min(...opening.map((bar) => bar.low)),
+      averageVolume:
+        opening.reduce((sum, bar) => sum + bar.volume, 0) / opening.length,
+    };
+  }
+
+  /**
+   * 直近の足を除いた期間の高値・安値チャネル
+   */
+  private channelRange(
+    bars: Array<{ high: number; low: number; volume: number }>
+  ): BreakoutRange | null {
+    const { channelPeriod } = this.breakoutConfig;
+    if (bars.length < channelPeriod + 1) return null;
+
+    const channel = bars.slice(-channelPeriod - 1, -1);
+    return {
+      high: Math.max(...channel.map((bar) => bar.high)),
+      low: Math.min(...channel.map((bar) => bar.low)),
+      averageVolume:
+        channel.reduce((sum, bar) => sum + bar.volume, 0) / channel.length,
+    };
+  }
+
+  /**
+   * 取引日の判定キー（米国・日本市場の立会時間は UTC の同じ日に収まる）
+   */
+  private dayKey(date: Date): string {
+    return new Date(date).toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * ブレイクアウト戦略の定義
+ */
+export const breakoutStrategyDefinition: StrategyDefinition<BreakoutStrategyConfig> =
+  {
+    id: 'breakout',
+    name: 'ブレイクアウト',
+    description: '寄り付きレンジまたは高値・安値チャネルの突破に順張りする',
+    parameters: {
+      mode: {
+        type: 'choice',
+        values: ['opening_range', 'channel'],
+        default: 'channel',
+        description: 'レンジの種類（opening_range は日中足のみ）',
+      },
+      openingRangeMinutes: {
+        type: 'int',
+        default: 30,
+        min: 5,
+        max: 120,
+        step: 5,
+        description: '寄り付きレンジの時間（分）',
+      },
+      channelPeriod: {
+        type: 'int',
+        default: 20,
+        min: 5,
+        max: 100,
+        step: 5,
+        description: 'チャネルの期間',
+      },
+      breakoutBuffer: {
+        type: 'float',
+        default: 0.001,
+        min: 0,
+        max: 0.02,
+        step: 0.001,
+        description: 'レンジ端からの突破幅',
+      },
+      volumeMultiplier: {
+        type: 'float',
+        default: 1.5,
+        min: 0,
+        max: 5,
+        step: 0.25,
+        description: '突破足の出来高倍率',
+      },
+      allowShort: {
+        type: 'boolean',
+        default: false,
+        description: '下抜けで売りシグナルを出す',
+      },
+    },
+    indicators: ['donchian', 'opening_range', 'volume'],
+    timeframes: ['1m', '5m', '15m', '1h', '1d'],
+    defaultConfig: {
+      name: 'Breakout',
+      description: 'ブレイクアウト戦略',
+      timeframe: '1d',
+      lookbackPeriod: 30,
+      riskManagement: {
+        maxPositionSize: 10000,
+        stopLossPercent: 2.5,
+        takeProfitPercent: 5,
+        maxDailyLoss: 1000,
+      },
+      technicalIndicators: {
+        sma: { periods: [] },
+        ema: { periods: [] },
+        rsi: { period: 14, oversold: 30, overbought: 70 },
+        macd: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+        bollinger: { period: 20, stdDev: 2 },
+      },
+      mode: 'channel',
+      openingRangeMinutes: 30,
+      channelPeriod: 20,
+      breakoutBuffer: 0.001,
+      volumeMultiplier: 1.5,
+      allowShort: false,
+      enabled: true,
+    },
+    // 寄り付きレンジは1日分の足、チャネルは期間＋直近の足
+    requiredBars: (config) =>
+      config.mode === 'opening_range'
+        ? Math.ceil((6.5 * 60) / TIMEFRAME_MINUTES[config.timeframe])
+        : config.channelPeriod + 1,
+    validate: (config) =>
+      config.mode === 'opening_range' &&
+      TIMEFRAME_MINUTES[config.timeframe] >= config.openingRangeMinutes
+        ? ['寄り付きレンジには期間より短い日中足が必要です']
+        : [],
+    create: (config, { tradingService, dataService }) =>
+      new BreakoutStrategy(config, tradingService, dataService),
+  };
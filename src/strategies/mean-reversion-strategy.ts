@@ -0,0 +1,231 @@
+/**
+ * 平均回帰戦略
+ * ボリンジャーバンドから大きく乖離した価格の平均への回帰を狙う
+ */
+
+import { TradingStrategy, StrategyConfig, Signal } from './trading-strategy';
+import type { StrategyDefinition } from './strategy-plugin';
+import { RealTradingService } from '../services/real-trading-service';
+import { DataIntegrationService } from '../services/data-integration-service';
+import type { FeatureConfig } from '../features/feature-store';
+
+export interface MeanReversionStrategyConfig extends StrategyConfig {
+  entryZScore: number; // 移動平均からの乖離（標準偏差の倍数）がこれ以上でエントリー
+  rsiFilter: boolean; // RSI の売られすぎ・買われすぎで確認する
+  allowShort: boolean; // 上方乖離で売りシグナルを出す
+}
+
+export class MeanReversionStrategy extends TradingStrategy {
+  constructor(
+    config: MeanReversionStrategyConfig,
+    tradingService: RealTradingService,
+    dataService: DataIntegrationService
+  ) {
+    super(config, tradingService, dataService);
+  }
+
+  // updateConfig 後も最新の設定を参照する
+  private get reversionConfig(): MeanReversionStrategyConfig {
+    return this.config as MeanReversionStrategyConfig;
+  }
+
+  protected featureConfig(): Partial<FeatureConfig> {
+    const { bollinger, rsi } = this.reversionConfig.technicalIndicators;
+    return {
+      bollinger: { period: bollinger.period, stdDev: bollinger.stdDev },
+      rsiPeriod: rsi.period,
+    };
+  }
+
+  /**
+   * 平均回帰シグナルを生成
+   */
+  async generateSignals(): Promise<Signal[]> {
+    const signals: Signal[] = [];
+
+    for (const symbol of this.reversionConfig.symbols) {
+      for (const market of this.reversionConfig.markets) {
+        try {
+          const signal = await this.generateReversionSignal(symbol, market);
+          if (signal) {
+            signals.push(signal);
+            this.saveSignal(signal);
+          }
+        } catch (error) {
+          console.error(`❌ 平均回帰シグナル生成エラー (${symbol}):`, error);
+        }
+      }
+    }
+
+    console.log(`✅ 平均回帰シグナル生成完了: ${signals.length}個`);
+    return signals;
+  }
+
+  /**
+   * 個別の平均回帰シグナルを生成
+   */
+  private async generateReversionSignal(
+    symbol: string,
+    market: 'FX' | 'US' | 'JP'
+  ): Promise<Signal | null> {
+    const { bollinger, rsi } = this.reversionConfig.technicalIndicators;
+    const historicalData = await this.getHistoricalData(
+      symbol,
+      market,
+      this.reversionConfig.lookbackPeriod
+    );
+    if (
+      !historicalData ||
+      historicalData.data.length < Math.max(bollinger.period, rsi.period + 1)
+    ) {
+      return null;
+    }
+
+    // 特徴量ストアで未計算のバーのみ計算
+    const features = this.syncFeatures(symbol, historicalData);
+    const bands = features?.bollinger ?? null;
+    const stdDev = bands ? (bands.upper - bands.middle) / bollinger.stdDev : 0;
+    if (stdDev === 0) return null;
+
+    const mean = bands.middle;
+    const price = features.close;
+    const zScore = (price - mean) / stdDev;
+    const rsiValue = features.rsi ?? 50;
+    const { entryZScore } = this.reversionConfig;
+
+    let side: 'BUY' | 'SELL' | null = null;
+    if (zScore <= -entryZScore) {
+      side = 'BUY';
+      if (this.reversionConfig.rsiFilter && rsiValue > rsi.oversold) {
+        return null;
+      }
+    } else if (zScore >= entryZScore && this.reversionConfig.allowShort) {
+      side = 'SELL';
+      if (this.reversionConfig.rsiFilter && rsiValue < rsi.overbought) {
+        return null;
+      }
+    }
+    if (!side) return null;
+
+    // 乖離がエントリー水準の2倍で最大強度
+    const strength = Math.min(Math.abs(zScore) / (entryZScore * 2), 1);
+    // RSI が極端なほど信頼度を上げる
+    const rsiExtremity =
+      side === 'BUY'
+        ? (rsi.oversold - Math.min(rsiValue, rsi.oversold)) / rsi.oversold
+        : (Math.max(rsiValue, rsi.overbought) - rsi.overbought) /
+          (100 - rsi.overbought);
+    const confidence = Math.min(0.5 + strength * 0.3 + rsiExtremity * 0.2, 1);
+
+    const { upper: upperBand, lower: lowerBand } = bands;
+    const reason = `${side === 'BUY' ? '下方' : '上方'}乖離からの平均回帰: zスコア(${zScore.toFixed(2)}), RSI(${rsiValue.toFixed(1)}), 移動平均(${mean.toFixed(2)})`;
+
+    return await this.generateSignal(
+      symbol,
+      market,
+      side,
+      strength,
+      confidence,
+      reason,
+      {
+        zScore,
+        rsi: rsiValue,
+        sma: mean,
+        upperBand,
+        lowerBand,
+        bandWidth: (upperBand - lowerBand) / mean,
+      }
+    );
+  }
+}
+
+/**
+ * 平均回帰戦略の定義
+ */
+export const meanReversionStrategyDefinition: StrategyDefinition<MeanReversionStrategyConfig> =
+  {
+    id: 'meanReversion',
+    name: '平均回帰',
+    description: 'ボリンジャーバンドの外側から移動平均への回帰を狙う',
+    parameters: {
+      'technicalIndicators.bollinger.period': {
+        type: 'int',
+        default: 20,
+        min: 10,
+        max: 50,
+        step: 5,
+        description: '移動平均・標準偏差の期間',
+      },
+      'technicalIndicators.bollinger.stdDev': {
+        type: 'float',
+        default: 2,
+        min: 1,
+        max: 3,
+        step: 0.5,
+        description: 'バンド幅（標準偏差の倍数）',
+      },
+      entryZScore: {
+        type: 'float',
+        default: 2,
+        min: 1,
+        max: 3.5,
+        step: 0.25,
+        description: 'エントリーする乖離（標準偏差の倍数）',
+      },
+      'technicalIndicators.rsi.period': {
+        type: 'int',
+        default: 14,
+        min: 2,
+        max: 30,
+        description: 'RSI の期間',
+      },
+      rsiFilter: {
+        type: 'boolean',
+        default: true,
+        description: 'RSI の売られすぎ・買われすぎで確認する',
+      },
+      allowShort: {
+        type: 'boolean',
+        default: false,
+        description: '上方乖離で売りシグナルを出す',
+      },
+    },
+    indicators: ['sma', 'bollinger', 'rsi'],
+    timeframes: ['5m', '15m', '1h', '4h', '1d'],
+    defaultConfig: {
+      name: 'MeanReversion',
+      description: 'ボリンジャーバンド平均回帰戦略',
+      timeframe: '1d',
+      lookbackPeriod: 40,
+      riskManagement: {
+        maxPositionSize: 10000,
+        stopLossPercent: 1.5,
+        takeProfitPercent: 3,
+        maxDailyLoss: 1000,
+      },
+      technicalIndicators: {
+        sma: { periods: [20] },
+        ema: { periods: [] },
+        rsi: { period: 14, oversold: 30, overbought: 70 },
+        macd: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+        bollinger: { period: 20, stdDev: 2 },
+      },
+      entryZScore: 2,
+      rsiFilter: true,
+      allowShort: false,
+      enabled: true,
+    },
+    requiredBars: (config) =>
+      Math.max(
+        config.technicalIndicators.bollinger.period,
+        config.technicalIndicators.rsi.period + 1
+      ),
+    validate: (config) => {
+      const { oversold, overbought } = config.technicalIndicators.rsi;
+      return oversold < overbought
+        ? []
+        : ['RSI の売られすぎ水準は買われすぎ水準より小さくしてください'];
+    },
+    create: (config, { tradingService, dataService }) =>
+      new MeanReversionStrategy(config, tradingService, dataService),
+  };
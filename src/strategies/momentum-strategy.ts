@@ -3,15 +3,15 @@
  * 価格の勢いを利用した取引戦略
  */
 
-import {
-  TradingStrategy,
-  StrategyConfig,
-  Signal,
-  OrderResult,
-  RebalanceResult,
-} from './trading-strategy';
+import { TradingStrategy, StrategyConfig, Signal } from './trading-strategy';
+import type { StrategyDefinition } from './strategy-plugin';
 import { RealTradingService } from '../services/real-trading-service';
 import { DataIntegrationService } from '../services/data-integration-service';
+import type { FeatureConfig, FeatureSnapshot } from '../features/feature-store';
+
+// トレンド確認に使う移動平均の期間
+const TREND_SHORT_PERIOD = 5;
+const TREND_LONG_PERIOD = 20;
 
 export interface MomentumStrategyConfig extends StrategyConfig {
   momentumPeriods: number[];
@@ -22,15 +22,21 @@ export interface MomentumStrategyConfig extends StrategyConfig {
 }
 
 export class MomentumStrategy extends TradingStrategy {
-  private momentumConfig: MomentumStrategyConfig;
-
   constructor(
     config: MomentumStrategyConfig,
     tradingService: RealTradingService,
     dataService: DataIntegrationService
   ) {
     super(config, tradingService, dataService);
-    this.momentumConfig = config;
+  }
+
+  // updateConfig 後も最新の設定を参照する
+  private get momentumConfig(): MomentumStrategyConfig {
+    return this.config as MomentumStrategyConfig;
+  }
+
+  protected featureConfig(): Partial<FeatureConfig> {
+    return { smaPeriods: [TREND_SHORT_PERIOD, TREND_LONG_PERIOD] };
   }
 
   /**
@@ -74,7 +80,7 @@ export class MomentumStrategy extends TradingStrategy {
   ): Promise<Signal | null> {
     try {
       // 履歴データを取得
-      const historicalData = await this.dataService.getHistoricalData(
+      const historicalData = await this.getHistoricalData(
         symbol,
         market,
         this.momentumConfig.lookbackPeriod
@@ -89,6 +95,7 @@ export class MomentumStrategy extends TradingStrategy {
 
       const prices = historicalData.data.map((d) => d.close);
       const volumes = historicalData.data.map((d) => d.volume);
+      const features = this.syncFeatures(symbol, historicalData);
 
       // モメンタム計算
       const momentum = this.calculateMomentum(
@@ -118,7 +125,7 @@ export class MomentumStrategy extends TradingStrategy {
 
       // トレンド確認
       if (this.momentumConfig.trendConfirmation) {
-        const trendConfirmed = this.confirmTrend(prices, momentum);
+        const trendConfirmed = this.confirmTrend(features, momentum);
         if (!trendConfirmed) {
           return null;
         }
@@ -265,15 +272,14 @@ export class MomentumStrategy extends TradingStrategy {
   /**
    * トレンドを確認
    */
-  private confirmTrend(prices: number[], momentum: number): boolean {
-    // 短期と中期の移動平均を比較
-    const shortPeriod = 5;
-    const longPeriod = 20;
-
-    if (prices.length < longPeriod) return false;
-
-    const shortMA = this.calculateSMA(prices, shortPeriod);
-    const longMA = this.calculateSMA(prices, longPeriod);
+  private confirmTrend(
+    features: FeatureSnapshot | null,
+    momentum: number
+  ): boolean {
+    // 短期と中期の移動平均を比較（特徴量ストアの値）
+    const shortMA = features?.sma[TREND_SHORT_PERIOD] ?? null;
+    const longMA = features?.sma[TREND_LONG_PERIOD] ?? null;
+    if (shortMA === null || longMA === null) return false;
 
     // モメンタムの方向と移動平均の方向が一致しているか確認
     const maTrend = shortMA > longMA ? 1 : -1;
@@ -344,194 +350,79 @@ export class MomentumStrategy extends TradingStrategy {
 
     return `${direction}モメンタム検出: ${momentumStr}モメンタム(${momentum.toFixed(4)}), ボリューム${volumeStr}(${volumeMomentum.toFixed(4)}), 価格変化(${priceChange.toFixed(4)}), ボリューム変化(${volumeChange.toFixed(4)})`;
   }
-
-  /**
-   * 単純移動平均を計算
-   */
-  private calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return 0;
-    const sum = prices.slice(-period).reduce((sum, price) => sum + price, 0);
-    return sum / period;
-  }
-
-  /**
-   * 注文を執行
-   */
-  async executeOrders(signals: Signal[]): Promise<OrderResult[]> {
-    try {
-      const results: OrderResult[] = [];
-
-      for (const signal of signals) {
-        try {
-          // リスクチェック
-          const riskCheck = await this.riskManager.checkOrderRisk({
-            symbol: signal.symbol,
-            market: signal.market,
-            side: signal.side,
-            quantity: signal.quantity,
-            price: signal.price,
-          });
-
-          if (!riskCheck.allowed) {
-            results.push({
-              success: false,
-              error: riskCheck.reason,
-              signal,
-            });
-            continue;
-          }
-
-          // 注文発注
-          const orderResult = await this.tradingService.placeOrder({
-            symbol: signal.symbol,
-            market: signal.market,
-            side: signal.side,
-            quantity: signal.quantity,
-            type: 'MARKET',
-            timeInForce: 'GTC',
-            clientOrderId: signal.id,
-          });
-
-          results.push({
-            success: orderResult.success,
-            orderId: orderResult.orderId,
-            error: orderResult.error,
-            signal,
-          });
-
-          if (orderResult.success) {
-            console.log(
-              `✅ モメンタム注文執行成功: ${signal.symbol} ${signal.side} ${signal.quantity}`
-            );
-          } else {
-            console.log(
-              `❌ モメンタム注文執行失敗: ${signal.symbol} ${signal.side} - ${orderResult.error}`
-            );
-          }
-        } catch (error) {
-          console.error(
-            `❌ モメンタム注文執行エラー (${signal.symbol}):`,
-            error
-          );
-          results.push({
-            success: false,
-            error: error instanceof Error ? error.message : '不明なエラー',
-            signal,
-          });
-        }
-      }
-
-      console.log(`✅ モメンタム注文執行完了: ${results.length}件`);
-      return results;
-    } catch (error) {
-      console.error('❌ モメンタム注文執行エラー:', error);
-      return [];
-    }
-  }
-
-  /**
-   * リバランスを実行
-   */
-  async rebalance(): Promise<RebalanceResult> {
-    try {
-      console.log('🔄 モメンタム戦略リバランス実行中...');
-
-      // 現在のポジションを取得
-      const positions = await this.tradingService.getPositions();
-
-      // 新しいシグナルを生成
-      const signals = await this.generateSignals();
-
-      // 既存ポジションと新しいシグナルの比較
-      const rebalanceOrders: OrderResult[] = [];
-
-      for (const position of positions) {
-        const signal = signals.find(
-          (s) => s.symbol === position.symbol && s.market === position.market
-        );
-
-        if (!signal) {
-          // シグナルがない場合はポジションをクローズ
-          const closeOrder = await this.tradingService.placeOrder({
-            symbol: position.symbol,
-            market: position.market,
-            side: position.side === 'LONG' ? 'SELL' : 'BUY',
-            quantity: position.quantity,
-            type: 'MARKET',
-            timeInForce: 'GTC',
-          });
-
-          rebalanceOrders.push({
-            success: closeOrder.success,
-            orderId: closeOrder.orderId,
-            error: closeOrder.error,
-            signal: {
-              id: `rebalance_${position.symbol}`,
-              symbol: position.symbol,
-              market: position.market,
-              side: position.side === 'LONG' ? 'SELL' : 'BUY',
-              strength: 1,
-              confidence: 1,
-              price: position.currentPrice,
-              quantity: position.quantity,
-              reason: 'リバランス: シグナルなし',
-              indicators: {},
-              createdAt: new Date(),
-              strategy: this.config.name,
-            },
-          });
-        } else if (
-          signal.side !== (position.side === 'LONG' ? 'BUY' : 'SELL')
-        ) {
-          // シグナルの方向が異なる場合はポジションを反転
-          const reverseOrder = await this.tradingService.placeOrder({
-            symbol: position.symbol,
-            market: position.market,
-            side: signal.side,
-            quantity: position.quantity + signal.quantity,
-            type: 'MARKET',
-            timeInForce: 'GTC',
-          });
-
-          rebalanceOrders.push({
-            success: reverseOrder.success,
-            orderId: reverseOrder.orderId,
-            error: reverseOrder.error,
-            signal,
-          });
-        }
-      }
-
-      // 新しいシグナルの注文を執行
-      const newSignals = signals.filter(
-        (s) =>
-          !positions.some((p) => p.symbol === s.symbol && p.market === s.market)
-      );
-      const newOrders = await this.executeOrders(newSignals);
-      rebalanceOrders.push(...newOrders);
-
-      const successfulOrders = rebalanceOrders.filter((r) => r.success).length;
-      const totalOrders = rebalanceOrders.length;
-
-      console.log(
-        `✅ モメンタム戦略リバランス完了: ${successfulOrders}/${totalOrders} 成功`
-      );
-
-      return {
-        success: successfulOrders > 0,
-        orders: rebalanceOrders,
-        totalOrders,
-        successfulOrders,
-      };
-    } catch (error) {
-      console.error('❌ モメンタム戦略リバランスエラー:', error);
-      return {
-        success: false,
-        orders: [],
-        totalOrders: 0,
-        successfulOrders: 0,
-        error: error instanceof Error ? error.message : '不明なエラー',
-      };
-    }
-  }
 }
+
+/**
+ * モメンタム戦略の定義
+ */
+export const momentumStrategyDefinition: StrategyDefinition<MomentumStrategyConfig> =
+  {
+    id: 'momentum',
+    name: 'モメンタム',
+    description: '価格・出来高の勢いに順張りする',
+    parameters: {
+      momentumPeriods: {
+        type: 'choice',
+        values: [
+          [3, 7, 14],
+          [5, 10, 20],
+          [10, 20, 50],
+        ],
+        default: [5, 10, 20],
+        description: 'モメンタムの計算期間',
+      },
+      priceChangeThreshold: {
+        type: 'float',
+        default: 0.02,
+        min: 0.005,
+        max: 0.1,
+        step: 0.005,
+        description: 'シグナルとみなす最小強度',
+      },
+      trendConfirmation: {
+        type: 'boolean',
+        default: true,
+        description: '移動平均の向きで確認する',
+      },
+      volumeConfirmation: {
+        type: 'boolean',
+        default: true,
+        description: '出来高の増加で確認する',
+      },
+    },
+    indicators: ['momentum', 'volume', 'sma'],
+    timeframes: ['5m', '15m', '1h', '4h', '1d'],
+    defaultConfig: {
+      name: 'Momentum',
+      description: 'モメンタム戦略',
+      timeframe: '1d',
+      lookbackPeriod: 50,
+      riskManagement: {
+        maxPositionSize: 10000,
+        stopLossPercent: 2,
+        takeProfitPercent: 4,
+        maxDailyLoss: 1000,
+      },
+      technicalIndicators: {
+        sma: { periods: [5, 20] },
+        ema: { periods: [] },
+        rsi: { period: 14, oversold: 30, overbought: 70 },
+        macd: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+        bollinger: { period: 20, stdDev: 2 },
+      },
+      momentumPeriods: [5, 10, 20],
+      volumeThreshold: 0.1,
+      priceChangeThreshold: 0.02,
+      trendConfirmation: true,
+      volumeConfirmation: true,
+      enabled: true,
+    },
+    // 最長期間の変化率と、トレンド確認の20本移動平均
+    requiredBars: (config) =>
+      Math.max(
+        Math.max(...config.momentumPeriods) + 1,
+        config.trendConfirmation ? 20 : 0
+      ),
+    create: (config, { tradingService, dataService }) =>
+      new MomentumStrategy(config, tradingService, dataService),
+  };
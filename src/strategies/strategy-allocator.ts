@@ -0,0 +1,612 @@
+/**
+ * 複数戦略の資金配分
+ * 1つの口座で複数の戦略を動かし、資金配分・銘柄ごとの注文の相殺・戦略別の損益帰属を行う
+ */
+
+import { EventEmitter } from 'events';
+import { RiskManager, RiskParameters } from '../services/risk-manager';
+import type {
+  Signal,
+  StrategyPerformance,
+  TradingStrategy,
+} from './trading-strategy';
+
+/**
+ * アロケーターが使う口座操作（RealTradingService を想定。発注先のブローカーは市場から決まる）
+ */
+export interface AllocatorTradingService {
+  getAccount(): Promise<{ totalValue: number } | null>;
+  getCurrentPrice(
+    symbol: string,
+    market: Signal['market']
+  ): Promise<number | null>;
+  placeOrder(order: {
+    symbol: string;
+    market: Signal['market'];
+    side: 'BUY' | 'SELL';
+    quantity: number;
+    type: 'MARKET';
+    timeInForce: 'GTC';
+  }): Promise<{
+    success: boolean;
+    orderId?: string;
+    error?: string;
+    order?: { averagePrice: number };
+  }>;
+}
+
+export type AllocationMethod = 'fixed' | 'inverse_volatility' | 'sharpe';
+
+export interface AllocatedStrategy {
+  id: string;
+  strategy: TradingStrategy;
+  weight?: number; // fixed の配分比率（未指定は均等）
+}
+
+export interface StrategyAllocatorConfig {
+  method: AllocationMethod;
+  capital?: number; // 配分する資金（未指定時は口座評価額）
+  returnWindow: number; // inverse_volatility・sharpe で参照する直近サイクル数
+  minObservations: number; // これ未満のリターンしかない間は fixed で配分
+  minWeight: number; // 1戦略の最小配分比率
+  maxWeight: number; // 1戦略の最大配分比率
+  riskFreeRate: number; // 年率（シャープレシオ用）
+  periodsPerYear: number; // 1年あたりのサイクル数（年率換算用）
+  riskManagement: RiskParameters; // 口座全体の発注前リスクチェック
+}
+
+const DEFAULT_CONFIG: Omit<StrategyAllocatorConfig, 'riskManagement'> = {
+  method: 'fixed',
+  returnWindow: 30,
+  minObservations: 5,
+  minWeight: 0,
+  maxWeight: 1,
+  riskFreeRate: 0.02,
+  periodsPerYear: 252,
+};
+
+/**
+ * 戦略ごとの建玉（数量は符号付き: 買いが正）
+ */
+interface BookPosition {
+  symbol: string;
+  market: Signal['market'];
+  quantity: number;
+  averagePrice: number;
+  openedAt: Date;
+}
+
+/**
+ * 戦略ごとの帳簿（損益帰属用）
+ */
+interface StrategyBook {
+  positions: Map<string, BookPosition>;
+  realizedPnL: number;
+  closedTrades: number[]; // 決済ごとの損益
+  equityHistory: Array<{ date: Date; equity: number }>; // 配分資金に対する損益の推移
+  returns: number[]; // サイクルごとのリターン
+  allocatedCapital: number;
+  startedAt: Date;
+}
+
+/**
+ * 戦略ごとの数量変更（相殺前）
+ */
+interface StrategyOrderDelta {
+  id: string;
+  symbol: string;
+  market: Signal['market'];
+  quantity: number; // 符号付き
+  price: number;
+}
+
+export interface NettedOrder {
+  symbol: string;
+  market: Signal['market'];
+  side: 'BUY' | 'SELL';
+  quantity: number; // 口座として発注した数量（相殺後）
+  grossQuantity: number; // 戦略ごとの変更数量の絶対値の合計
+  crossedQuantity: number; // 戦略間で相殺した数量
+  price: number;
+  success: boolean;
+  orderId?: string;
+  error?: string;
+  contributions: Array<{ id: string; quantity: number }>;
+}
+
+export interface AllocationCycleResult {
+  timestamp: Date;
+  capital: number;
+  weights: Record<string, number>;
+  orders: NettedOrder[];
+  performance: Record<string, StrategyPerformance>;
+}
+
+export class StrategyAllocator extends EventEmitter {
+  private config: StrategyAllocatorConfig;
+  private tradingService: AllocatorTradingService;
+  private strategies: AllocatedStrategy[];
+  private books: Map<string, StrategyBook> = new Map();
+  private riskManager: RiskManager;
+  private weights: Record<string, number> = {};
+
+  constructor(
+    strategies: AllocatedStrategy[],
+    tradingService: AllocatorTradingService,
+    config: Partial<StrategyAllocatorConfig> &
+      Pick<StrategyAllocatorConfig, 'riskManagement'>
+  ) {
+    super();
+    if (strategies.length === 0) {
+      throw new Error('配分する戦略がありません');
+    }
+    this.strategies = strategies;
+    this.tradingService = tradingService;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.riskManager = new RiskManager(this.config.riskManagement);
+  }
+
+  /**
+   * 各戦略を初期化
+   */
+  async initialize(now: Date = new Date()): Promise<boolean> {
+    await this.riskManager.initialize();
+    for (const { id, strategy } of this.strategies) {
+      if (!(await strategy.initialize())) {
+        console.log(`❌ 戦略の初期化に失敗しました: ${id}`);
+        return false;
+      }
+      this.books.set(id, {
+        positions: new Map(),
+        realizedPnL: 0,
+        closedTrades: [],
+        equityHistory: [],
+        returns: [],
+        allocatedCapital: 0,
+        startedAt: now,
+      });
+    }
+    console.log(
+      `✅ 戦略アロケーター初期化完了: ${this.strategies.map((s) => s.id).join(', ')} (${this.config.method})`
+    );
+    return true;
+  }
+
+  /**
+   * 1サイクル実行
+   * 配分比率を更新 → 各戦略のシグナルから目標建玉を算出 → 銘柄ごとに相殺して発注 → 損益を帰属
+   */
+  async runCycle(now: Date = new Date()): Promise<AllocationCycleResult> {
+    if (this.books.size === 0) {
+      throw new Error('戦略アロケーターが初期化されていません');
+    }
+
+    const capital = await this.resolveCapital();
+    this.weights = this.calculateWeights();
+    for (const { id } of this.strategies) {
+      this.books.get(id)!.allocatedCapital = capital * this.weights[id];
+    }
+
+    const deltas: StrategyOrderDelta[] = [];
+    for (const allocated of this.strategies) {
+      try {
+        deltas.push(...(await this.targetDeltas(allocated)));
+      } catch (error) {
+        console.error(`❌ 戦略 ${allocated.id} のシグナル生成エラー:`, error);
+      }
+    }
+
+    const orders: NettedOrder[] = [];
+    for (const group of this.groupBySymbol(deltas)) {
+      orders.push(await this.executeNetted(group, now));
+    }
+
+    await this.markToMarket(now);
+    const performance: Record<string, StrategyPerformance> = {};
+    for (const { id, strategy } of this.strategies) {
+      performance[id] = this.getPerformance(id, now);
+      strategy.setPerformance(performance[id]);
+    }
+
+    const result: AllocationCycleResult = {
+      timestamp: now,
+      capital,
+      weights: { ...this.weights },
+      orders,
+      performance,
+    };
+    const crossed = orders.reduce((sum, o) => sum + o.crossedQuantity, 0);
+    console.log(
+      `✅ 配分サイクル完了: 発注${orders.filter((o) => o.quantity > 0).length}件 / 相殺${crossed}株 / 配分 ${Object.entries(
+        this.weights
+      )
+        .map(([id, w]) => `${id}=${(w * 100).toFixed(1)}%`)
+        .join(', ')}`
+    );
+    this.emit('cycleCompleted', result);
+    return result;
+  }
+
+  /**
+   * 現在の配分比率
+   */
+  getWeights(): Record<string, number> {
+    return { ...this.weights };
+  }
+
+  /**
+   * 戦略ごとの建玉（符号付き数量）
+   */
+  getStrategyPositions(id: string): BookPosition[] {
+    return Array.from(this.getBook(id).positions.values()).map((p) => ({
+      ...p,
+    }));
+  }
+
+  /**
+   * 戦略に帰属した成績
+   */
+  getPerformance(id: string, now: Date = new Date()): StrategyPerformance {
+    const book = this.getBook(id);
+    const history = book.equityHistory;
+    const totalReturn = history.length
+      ? history[history.length - 1].equity
+      : book.realizedPnL;
+    const base = book.allocatedCapital || 1;
+
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const { equity } of history) {
+      peak = Math.max(peak, base + equity);
+      maxDrawdown = Math.max(maxDrawdown, (peak - (base + equity)) / peak);
+    }
+
+    const wins = book.closedTrades.filter((pnl) => pnl > 0);
+    const losses = book.closedTrades.filter((pnl) => pnl <= 0);
+    const grossWin = wins.reduce((sum, pnl) => sum + pnl, 0);
+    const grossLoss = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0));
+
+    return {
+      strategy: id,
+      period: { start: book.startedAt, end: now },
+      totalReturn,
+      totalReturnPercent: (totalReturn / base) * 100,
+      sharpeRatio: this.sharpeRatio(book.returns),
+      maxDrawdown: maxDrawdown * 100,
+      winRate: book.closedTrades.length
+        ? (wins.length / book.closedTrades.length) * 100
+        : 0,
+      totalTrades: book.closedTrades.length,
+      winningTrades: wins.length,
+      losingTrades: losses.length,
+      averageWin: wins.length ? grossWin / wins.length : 0,
+      averageLoss: losses.length ? grossLoss / losses.length : 0,
+      profitFactor: grossLoss > 0 ? grossWin / grossLoss : 0,
+    };
+  }
+
+  private getBook(id: string): StrategyBook {
+    const book = this.books.get(id);
+    if (!book) {
+      throw new Error(`未登録の戦略です: ${id}`);
+    }
+    return book;
+  }
+
+  /**
+   * 現在価格を取得（発注前リスクチェックの直近約定価格にも反映）
+   */
+  private async getQuote(
+    symbol: string,
+    market: Signal['market']
+  ): Promise<number | null> {
+    const price = await this.tradingService.getCurrentPrice(symbol, market);
+    if (price) {
+      this.riskManager.updateLastPrice(symbol, price);
+    }
+    return price;
+  }
+
+  private async resolveCapital(): Promise<number> {
+    if (this.config.capital !== undefined) return this.config.capital;
+    const account = await this.tradingService.getAccount();
+    if (!account || account.totalValue <= 0) {
+      throw new Error('口座評価額を取得できません');
+    }
+    this.riskManager.updateAccountState({ equity: account.totalValue });
+    return account.totalValue;
+  }
+
+  /**
+   * 配分比率を計算（履歴が足りない間は fixed）
+   */
+  private calculateWeights(): Record<string, number> {
+    const fixed = this.strategies.map((s) => s.weight ?? 1);
+    let raw = fixed;
+
+    const windows = this.strategies.map((s) =>
+      this.getBook(s.id).returns.slice(-this.config.returnWindow)
+    );
+    const enoughHistory = windows.every(
+      (r) => r.length >= this.config.minObservations
+    );
+
+    if (this.config.method === 'inverse_volatility' && enoughHistory) {
+      const vols = windows.map((r) => standardDeviation(r));
+      const floor = Math.min(...vols.filter((v) => v > 0), Infinity);
+      raw = vols.map((v) => 1 / (v > 0 ? v : floor === Infinity ? 1 : floor));
+    } else if (this.config.method === 'sharpe' && enoughHistory) {
+      const sharpes = windows.map((r) => Math.max(this.sharpeRatio(r), 0));
+      // すべて0以下なら fixed のまま
+      if (sharpes.some((s) => s > 0)) raw = sharpes;
+    }
+
+    const weights = this.clampWeights(raw);
+    return Object.fromEntries(
+      this.strategies.map((s, i) => [s.id, weights[i]])
+    );
+  }
+
+  /**
+   * 合計1に正規化し、最小・最大比率で制限（制限した分は残りの戦略に再配分）
+   */
+  private clampWeights(raw: number[]): number[] {
+    const { minWeight, maxWeight } = this.config;
+    const bounded = new Map<number, number>();
+    let weights: number[] = [];
+
+    for (let pass = 0; pass <= raw.length; pass++) {
+      const free = raw.map((_, i) => i).filter((i) => !bounded.has(i));
+      const freeTotal = free.reduce((sum, i) => sum + raw[i], 0);
+      const remaining =
+        1 - Array.from(bounded.values()).reduce((sum, w) => sum + w, 0);
+      weights = raw.map(
+        (w, i) =>
+          bounded.get(i) ??
+          (freeTotal > 0
+            ? (w / freeTotal) * remaining
+            : remaining / free.length)
+      );
+
+      const violated = free.filter(
+        (i) => weights[i] > maxWeight || weights[i] < minWeight
+      );
+      if (violated.length === 0) break;
+      violated.forEach((i) =>
+        bounded.set(i, weights[i] > maxWeight ? maxWeight : minWeight)
+      );
+    }
+    return weights;
+  }
+
+  /**
+   * 戦略のシグナルから目標建玉との差分を算出
+   * シグナルのない建玉は決済、シグナルは配分資金を強度に応じて割り当てる
+   */
+  private async targetDeltas({
+    id,
+    strategy,
+  }: AllocatedStrategy): Promise<StrategyOrderDelta[]> {
+    const book = this.getBook(id);
+    const signals = await strategy.generateSignals();
+    const perSignal = book.allocatedCapital / Math.max(signals.length, 1);
+    const deltas: StrategyOrderDelta[] = [];
+    const seen = new Set<string>();
+
+    for (const signal of signals) {
+      const key = positionKey(signal.symbol, signal.market);
+      seen.add(key);
+      if (signal.price <= 0) continue;
+
+      const budgetQuantity = Math.floor(
+        (perSignal * signal.strength) / signal.price
+      );
+      const target =
+        Math.min(signal.quantity, budgetQuantity) *
+        (signal.side === 'BUY' ? 1 : -1);
+      const current = book.positions.get(key)?.quantity ?? 0;
+      if (target !== current) {
+        deltas.push({
+          id,
+          symbol: signal.symbol,
+          market: signal.market,
+          quantity: target - current,
+          price: signal.price,
+        });
+      }
+    }
+
+    for (const [key, position] of book.positions) {
+      if (seen.has(key)) continue;
+      const price =
+        (await this.getQuote(position.symbol, position.market)) ??
+        position.averagePrice;
+      deltas.push({
+        id,
+        symbol: position.symbol,
+        market: position.market,
+        quantity: -position.quantity,
+        price,
+      });
+    }
+    return deltas;
+  }
+
+  private groupBySymbol(deltas: StrategyOrderDelta[]): StrategyOrderDelta[][] {
+    const groups = new Map<string, StrategyOrderDelta[]>();
+    for (const delta of deltas) {
+      const key = positionKey(delta.symbol, delta.market);
+      groups.set(key, [...(groups.get(key) ?? []), delta]);
+    }
+    return Array.from(groups.values());
+  }
+
+  /**
+   * 銘柄ごとに差分を相殺して口座として1件だけ発注し、約定を各戦略に帰属させる
+   * 発注できなかった場合はどの戦略の帳簿も更新しない
+   */
+  private async executeNetted(
+    group: StrategyOrderDelta[],
+    now: Date
+  ): Promise<NettedOrder> {
+    const { symbol, market } = group[0];
+    const net = group.reduce((sum, d) => sum + d.quantity, 0);
+    const gross = group.reduce((sum, d) => sum + Math.abs(d.quantity), 0);
+    const price = group[group.length - 1].price;
+    const order: NettedOrder = {
+      symbol,
+      market,
+      side: net >= 0 ? 'BUY' : 'SELL',
+      quantity: Math.abs(net),
+      grossQuantity: gross,
+      crossedQuantity: gross - Math.abs(net),
+      price,
+      success: true,
+      contributions: group.map((d) => ({ id: d.id, quantity: d.quantity })),
+    };
+
+    if (net !== 0) {
+      // 最新の価格を取得してシグナル価格との乖離も判定
+      await this.getQuote(symbol, market);
+      const risk = this.riskManager.checkOrderRisk(
+        { symbol, side: order.side, quantity: order.quantity, price, market },
+        now
+      );
+      const result = risk.allowed
+        ? await this.tradingService.placeOrder({
+            symbol,
+            market,
+            side: order.side,
+            quantity: order.quantity,
+            type: 'MARKET',
+            timeInForce: 'GTC',
+          })
+        : { success: false, orderId: undefined, error: risk.reason };
+
+      order.success = result.success;
+      order.orderId = result.orderId;
+      order.error = result.error;
+      if (!result.success) {
+        console.log(
+          `❌ 相殺後の注文が失敗しました: ${symbol} ${order.side} ${order.quantity} - ${result.error}`
+        );
+        return order;
+      }
+      const filledPrice =
+        'order' in result && result.order?.averagePrice
+          ? result.order.averagePrice
+          : price;
+      order.price = filledPrice;
+      this.riskManager.recordFill(
+        symbol,
+        order.side,
+        order.quantity,
+        filledPrice,
+        now
+      );
+    }
+
+    for (const delta of group) {
+      this.applyFill(delta, order.price, now);
+    }
+    return order;
+  }
+
+  /**
+   * 戦略の帳簿に約定を反映（決済分の損益を確定）
+   */
+  private applyFill(delta: StrategyOrderDelta, price: number, now: Date): void {
+    const book = this.getBook(delta.id);
+    const key = positionKey(delta.symbol, delta.market);
+    const position = book.positions.get(key) ?? {
+      symbol: delta.symbol,
+      market: delta.market,
+      quantity: 0,
+      averagePrice: 0,
+      openedAt: now,
+    };
+    const next = position.quantity + delta.quantity;
+
+    if (
+      position.quantity === 0 ||
+      Math.sign(position.quantity) === Math.sign(delta.quantity)
+    ) {
+      position.averagePrice =
+        (position.averagePrice * Math.abs(position.quantity) +
+          price * Math.abs(delta.quantity)) /
+        Math.abs(next);
+    } else {
+      const closed = Math.min(
+        Math.abs(delta.quantity),
+        Math.abs(position.quantity)
+      );
+      const pnl =
+        (price - position.averagePrice) * closed * Math.sign(position.quantity);
+      book.realizedPnL += pnl;
+      book.closedTrades.push(pnl);
+      if (next !== 0 && Math.sign(next) !== Math.sign(position.quantity)) {
+        // ドテンした場合は残りを新規建てとして扱う
+        position.averagePrice = price;
+        position.openedAt = now;
+      }
+    }
+
+    position.quantity = next;
+    if (next === 0) {
+      book.positions.delete(key);
+    } else {
+      book.positions.set(key, position);
+    }
+  }
+
+  /**
+   * 時価評価して戦略ごとの損益推移・リターンを記録
+   */
+  private async markToMarket(now: Date): Promise<void> {
+    const prices = new Map<string, number>();
+    for (const book of this.books.values()) {
+      let unrealized = 0;
+      for (const [key, position] of book.positions) {
+        if (!prices.has(key)) {
+          prices.set(
+            key,
+            (await this.getQuote(position.symbol, position.market)) ??
+              position.averagePrice
+          );
+        }
+        unrealized +=
+          (prices.get(key)! - position.averagePrice) * position.quantity;
+      }
+
+      const equity = book.realizedPnL + unrealized;
+      const previous = book.equityHistory[book.equityHistory.length - 1];
+      if (previous && book.allocatedCapital > 0) {
+        book.returns.push((equity - previous.equity) / book.allocatedCapital);
+      }
+      book.equityHistory.push({ date: now, equity });
+    }
+  }
+
+  private sharpeRatio(returns: number[]): number {
+    if (returns.length < 2) return 0;
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const std = standardDeviation(returns);
+    if (std === 0) return 0;
+    const { riskFreeRate, periodsPerYear } = this.config;
+    return (
+      ((mean - riskFreeRate / periodsPerYear) / std) * Math.sqrt(periodsPerYear)
+    );
+  }
+}
+
+function positionKey(symbol: string, market: string): string {
+  return `${symbol}_${market}`;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * 戦略プラグインの定義
+ * 戦略はパラメータスキーマ・必要な指標・対応する足種を宣言し、StrategyRegistry に登録する
+ */
+
+import type { RealTradingService } from '../services/real-trading-service';
+import type { DataIntegrationService } from '../services/data-integration-service';
+import type { StrategyConfig, TradingStrategy } from './trading-strategy';
+
+/**
+ * パラメータの型と範囲（キーはドット区切りで入れ子の設定を指定: 'technicalIndicators.bollinger.period'）
+ */
+export type StrategyParameterSchema =
+  | {
+      type: 'int' | 'float';
+      default: number;
+      min: number;
+      max: number;
+      step?: number;
+      description: string;
+    }
+  | { type: 'boolean'; default: boolean; description: string }
+  | { type: 'choice'; values: any[]; default: any; description: string };
+
+/**
+ * 戦略が使用する指標
+ */
+export type StrategyIndicator =
+  | 'sma'
+  | 'ema'
+  | 'rsi'
+  | 'macd'
+  | 'bollinger'
+  | 'atr'
+  | 'volume'
+  | 'momentum'
+  | 'donchian'
+  | 'opening_range';
+
+/**
+ * 戦略の実行に必要なサービス
+ * バックテストでは時点指定ビュー（setMarketDataView）が価格・履歴の取得を置き換える
+ */
+export interface StrategyServices {
+  tradingService: RealTradingService;
+  dataService: DataIntegrationService;
+}
+
+/**
+ * 登録用の戦略定義
+ */
+export interface StrategyDefinition<C extends StrategyConfig = StrategyConfig> {
+  id: string; // 登録名（自動売買設定のキーと同じ）
+  name: string;
+  description: string;
+  parameters: Record<string, StrategyParameterSchema>;
+  indicators: StrategyIndicator[];
+  timeframes: StrategyConfig['timeframe'][];
+  defaultConfig: Omit<C, 'symbols' | 'markets'>;
+  // 必要な履歴本数（lookbackPeriod はこれ以上に引き上げる）
+  requiredBars(config: C): number;
+  // パラメータ範囲以外の整合性チェック（エラーメッセージを返す）
+  validate?(config: C): string[];
+  create(config: C, services: StrategyServices): TradingStrategy;
+}
+
+/**
+ * 一覧表示用の定義（生成関数を除く）
+ */
+export type StrategyDescriptor = Omit<
+  StrategyDefinition,
+  'create' | 'requiredBars' | 'validate' | 'defaultConfig'
+>;
@@ -0,0 +1,228 @@
+/**
+ * 戦略レジストリ
+ * 登録された戦略プラグインを設定・パラメータから生成する（バックテスト・ペーパー・本番で共通）
+ */
+
+import type { ParameterSpace } from '../backtesting/parameter-search';
+import { breakoutStrategyDefinition } from './breakout-strategy';
+import { meanReversionStrategyDefinition } from './mean-reversion-strategy';
+import { momentumStrategyDefinition } from './momentum-strategy';
+import type {
+  StrategyDefinition,
+  StrategyDescriptor,
+  StrategyServices,
+} from './strategy-plugin';
+import type { StrategyConfig, TradingStrategy } from './trading-strategy';
+
+/**
+ * 生成時の上書き設定（symbols・markets は必須、入れ子の設定は既定値に部分的にマージ）
+ */
+export type StrategyOverrides = Pick<StrategyConfig, 'symbols' | 'markets'> &
+  Record<string, any>;
+
+export class StrategyRegistry {
+  private definitions: Map<string, StrategyDefinition<any>> = new Map();
+
+  /**
+   * 戦略を登録（同じIDは上書き）
+   */
+  register<C extends StrategyConfig>(definition: StrategyDefinition<C>): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  get(id: string): StrategyDefinition {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`未登録の戦略です: ${id}`);
+    }
+    return definition;
+  }
+
+  /**
+   * 登録済み戦略の一覧（API・画面表示用）
+   */
+  list(): StrategyDescriptor[] {
+    return Array.from(this.definitions.values()).map(
+      ({ id, name, description, parameters, indicators, timeframes }) => ({
+        id,
+        name,
+        description,
+        parameters,
+        indicators,
+        timeframes,
+      })
+    );
+  }
+
+  /**
+   * 既定設定・上書き設定・パラメータから戦略設定を組み立てて検証する
+   * lookbackPeriod は戦略が必要とする履歴本数以上に引き上げる
+   */
+  buildConfig(
+    id: string,
+    overrides: StrategyOverrides,
+    parameters: Record<string, any> = {}
+  ): StrategyConfig {
+    const definition = this.get(id);
+    const config = mergeConfig(
+      structuredClone(definition.defaultConfig),
+      overrides
+    ) as StrategyConfig;
+
+    for (const [key, value] of Object.entries(parameters)) {
+      if (!definition.parameters[key]) {
+        throw new Error(`${id}: 未定義のパラメータです: ${key}`);
+      }
+      setPath(config, key, value);
+    }
+
+    const errors = [
+      ...this.validateParameters(definition, config),
+      ...(definition.validate?.(config) ?? []),
+    ];
+    if (!definition.timeframes.includes(config.timeframe)) {
+      errors.push(
+        `足種 ${config.timeframe} には対応していません (${definition.timeframes.join(', ')})`
+      );
+    }
+    if (errors.length > 0) {
+      throw new Error(`${id}: 設定が不正です: ${errors.join(' / ')}`);
+    }
+
+    config.lookbackPeriod = Math.max(
+      config.lookbackPeriod,
+      definition.requiredBars(config)
+    );
+    return config;
+  }
+
+  /**
+   * 戦略を生成
+   */
+  create(
+    id: string,
+    overrides: StrategyOverrides,
+    services: StrategyServices,
+    parameters: Record<string, any> = {}
+  ): TradingStrategy {
+    const config = this.buildConfig(id, overrides, parameters);
+    return this.get(id).create(config, services);
+  }
+
+  /**
+   * パラメータスキーマを最適化の探索範囲に変換（keys 指定時はその項目のみ）
+   */
+  toParameterSpace(id: string, keys?: string[]): ParameterSpace {
+    const { parameters } = this.get(id);
+    const space: ParameterSpace = {};
+
+    for (const key of keys ?? Object.keys(parameters)) {
+      const schema = parameters[key];
+      if (!schema) {
+        throw new Error(`${id}: 未定義のパラメータです: ${key}`);
+      }
+      if (schema.type === 'boolean') {
+        space[key] = { type: 'choice', values: [true, false] };
+      } else if (schema.type === 'choice') {
+        space[key] = { type: 'choice', values: schema.values };
+      } else {
+        space[key] = {
+          type: schema.type,
+          min: schema.min,
+          max: schema.max,
+          step: schema.step,
+        };
+      }
+    }
+    return space;
+  }
+
+  private validateParameters(
+    definition: StrategyDefinition,
+    config: StrategyConfig
+  ): string[] {
+    const errors: string[] = [];
+
+    for (const [key, schema] of Object.entries(definition.parameters)) {
+      const value = getPath(config, key);
+      if (schema.type === 'boolean') {
+        if (typeof value !== 'boolean') errors.push(`${key} は真偽値です`);
+      } else if (schema.type === 'choice') {
+        const serialized = JSON.stringify(value);
+        if (!schema.values.some((v) => JSON.stringify(v) === serialized)) {
+          errors.push(
+            `${key} は ${JSON.stringify(schema.values)} のいずれかです`
+          );
+        }
+      } else if (
+        typeof value !== 'number' ||
+        !Number.isFinite(value) ||
+        (schema.type === 'int' && !Number.isInteger(value)) ||
+        value < schema.min ||
+        value > schema.max
+      ) {
+        errors.push(
+          `${key} は ${schema.min}〜${schema.max} の${schema.type === 'int' ? '整数' : '数値'}です`
+        );
+      }
+    }
+    return errors;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * 入れ子の設定をマージ（配列は置き換え）
+ */
+function mergeConfig(
+  base: Record<string, any>,
+  overrides: Record<string, any>
+): Record<string, any> {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    base[key] =
+      isPlainObject(value) && isPlainObject(base[key])
+        ? mergeConfig(base[key], value)
+        : value;
+  }
+  return base;
+}
+
+function getPath(target: Record<string, any>, key: string): any {
+  return key
+    .split('.')
+    .reduce(
+      (value, segment) => (value == null ? value : value[segment]),
+      target
+    );
+}
+
+function setPath(target: Record<string, any>, key: string, value: any): void {
+  const path = key.split('.');
+  let node = target;
+  for (const segment of path.slice(0, -1)) {
+    node[segment] = isPlainObject(node[segment]) ? node[segment] : {};
+    node = node[segment];
+  }
+  node[path[path.length - 1]] = value;
+}
+
+/**
+ * 組み込み戦略を登録済みの既定レジストリ
+ */
+export const strategyRegistry = new StrategyRegistry();
+strategyRegistry.register(momentumStrategyDefinition);
+strategyRegistry.register(meanReversionStrategyDefinition);
+strategyRegistry.register(breakoutStrategyDefinition);
@@ -4,9 +4,22 @@
  */
 
 import { RealTradingService } from '../services/real-trading-service';
-import { DataIntegrationService } from '../services/data-integration-service';
+import {
+  DataIntegrationService,
+  HistoricalData,
+} from '../services/data-integration-service';
 import { TechnicalAnalyzer } from '../agents/technical-analyzer';
-import { RiskManager } from '../services/risk-manager';
+import {
+  FeatureConfig,
+  FeatureSnapshot,
+  FeatureStore,
+  featureStoreFor,
+} from '../features/feature-store';
+import {
+  OrderRiskRequest,
+  OrderRiskResult,
+  RiskManager,
+} from '../services/risk-manager';
 
 export interface StrategyConfig {
   name: string;
@@ -82,6 +95,20 @@ export interface StrategyPerformance {
   profitFactor: number;
 }
 
+/**
+ * 時点指定の市場データビュー
+ * バックテスト時に設定すると、戦略はシミュレーション時刻以前のデータのみ参照する
+ */
+export interface MarketDataView {
+  getCurrentTime(): Date;
+  getHistoricalData(
+    symbol: string,
+    market: string,
+    lookback: number
+  ): HistoricalData | null;
+  getCurrentPrice(symbol: string, market: string): number | null;
+}
+
 export abstract class TradingStrategy {
   protected config: StrategyConfig;
   protected tradingService: RealTradingService;
@@ -91,6 +118,8 @@ export abstract class TradingStrategy {
   protected isRunning: boolean = false;
   protected signals: Map<string, Signal> = new Map();
   protected performance: StrategyPerformance | null = null;
+  protected marketDataView: MarketDataView | null = null;
+  private backtestFeatures: FeatureStore | null = null; // バックテスト実行ごとの特徴量ストア
 
   constructor(
     config: StrategyConfig,
@@ -161,20 +190,330 @@ export abstract class TradingStrategy {
     console.log(`⏹️ ${this.config.name} 戦略停止`);
   }
 
+  /**
+   * 時点指定の市場データビューを設定（nullでライブデータに戻す）
+   */
+  setMarketDataView(view: MarketDataView | null): void {
+    this.marketDataView = view;
+    this.backtestFeatures = view
+      ? new FeatureStore(this.featureConfig())
+      : null;
+  }
+
+  /**
+   * 戦略で使う指標の設定（既定の設定で足りる場合は共有の特徴量ストアを使う）
+   */
+  protected featureConfig(): Partial<FeatureConfig> {
+    return {};
+  }
+
+  /**
+   * 履歴データを特徴量ストアに同期し、最新バーの特徴量を取得
+   * 未計算のバーのみ逐次計算する
+   */
+  protected syncFeatures(
+    symbol: string,
+    history: HistoricalData
+  ): FeatureSnapshot | null {
+    const store =
+      this.backtestFeatures ?? featureStoreFor(this.featureConfig());
+    const bars = history.data.map((d) => ({
+      timestamp: new Date(d.date),
+      open: d.open,
+      high: d.high,
+      low: d.low,
+      close: d.close,
+      volume: d.volume,
+    }));
+    return store.sync(symbol, this.config.timeframe, bars).latest();
+  }
+
+  /**
+   * 現在時刻（バックテスト中はシミュレーション時刻）
+   */
+  protected now(): Date {
+    return this.marketDataView
+      ? this.marketDataView.getCurrentTime()
+      : new Date();
+  }
+
+  /**
+   * 履歴データを取得（バックテスト中は時点指定ビューから取得）
+   */
+  protected async getHistoricalData(
+    symbol: string,
+    market: 'FX' | 'US' | 'JP',
+    lookback: number
+  ): Promise<HistoricalData | null> {
+    if (this.marketDataView) {
+      return this.marketDataView.getHistoricalData(symbol, market, lookback);
+    }
+    return await this.dataService.getHistoricalData(symbol, market, lookback);
+  }
+
+  /**
+   * 現在価格を取得（バックテスト中は時点指定ビューから取得）
+   * 取得した価格は発注前リスクチェックの直近約定価格にも反映する
+   */
+  protected async getCurrentPrice(
+    symbol: string,
+    market: 'FX' | 'US' | 'JP'
+  ): Promise<number | null> {
+    const price = this.marketDataView
+      ? this.marketDataView.getCurrentPrice(symbol, market)
+      : await this.tradingService.getCurrentPrice(symbol, market);
+    if (price) {
+      this.riskManager.updateLastPrice(symbol, price);
+    }
+    return price;
+  }
+
+  /**
+   * 発注前リスクチェック（戦略からの発注は必ず事前に通す）
+   */
+  protected checkOrderRisk(
+    order: OrderRiskRequest & { price: number }
+  ): OrderRiskResult {
+    const result = this.riskManager.checkOrderRisk(order, this.now());
+    if (!result.allowed) {
+      console.log(
+        `🛑 ${this.config.name} 発注前リスクチェックで拒否: ${order.symbol} ${result.reason}`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 約定をリスク管理に反映
+   */
+  protected recordFill(order: OrderRiskRequest & { price: number }): void {
+    this.riskManager.recordFill(
+      order.symbol,
+      order.side,
+      order.quantity,
+      order.price,
+      this.now()
+    );
+  }
+
   /**
    * シグナルを生成（抽象メソッド）
    */
   abstract generateSignals(): Promise<Signal[]>;
 
   /**
-   * 注文を執行（抽象メソッド）
+   * 注文を執行（発注前リスクチェックを通したシグナルのみ成行で発注）
    */
-  abstract executeOrders(signals: Signal[]): Promise<OrderResult[]>;
+  async executeOrders(signals: Signal[]): Promise<OrderResult[]> {
+    try {
+      const results: OrderResult[] = [];
+
+      for (const signal of signals) {
+        try {
+          // 発注前リスクチェック（最新の価格を取得してシグナル価格との乖離も判定）
+          await this.getCurrentPrice(signal.symbol, signal.market);
+          const riskCheck = this.checkOrderRisk(signal);
+
+          if (!riskCheck.allowed) {
+            results.push({
+              success: false,
+              error: riskCheck.reason,
+              signal,
+            });
+            continue;
+          }
+
+          // 注文発注
+          const orderResult = await this.tradingService.placeOrder({
+            symbol: signal.symbol,
+            market: signal.market,
+            side: signal.side,
+            quantity: signal.quantity,
+            type: 'MARKET',
+            timeInForce: 'GTC',
+            clientOrderId: signal.id,
+          });
+
+          results.push({
+            success: orderResult.success,
+            orderId: orderResult.orderId,
+            error: orderResult.error,
+            signal,
+          });
+
+          if (orderResult.success) {
+            this.recordFill(signal);
+            console.log(
+              `✅ ${this.config.name} 注文執行成功: ${signal.symbol} ${signal.side} ${signal.quantity}`
+            );
+          } else {
+            console.log(
+              `❌ ${this.config.name} 注文執行失敗: ${signal.symbol} ${signal.side} - ${orderResult.error}`
+            );
+          }
+        } catch (error) {
+          console.error(
+            `❌ ${this.config.name} 注文執行エラー (${signal.symbol}):`,
+            error
+          );
+          results.push({
+            success: false,
+            error: error instanceof Error ? error.message : '不明なエラー',
+            signal,
+          });
+        }
+      }
+
+      console.log(`✅ ${this.config.name} 注文執行完了: ${results.length}件`);
+      return results;
+    } catch (error) {
+      console.error(`❌ ${this.config.name} 注文執行エラー:`, error);
+      return [];
+    }
+  }
 
   /**
-   * リバランスを実行（抽象メソッド）
+   * リバランスを実行
+   * シグナルのない保有は決済し、逆方向のシグナルは反転、新規シグナルは発注する
    */
-  abstract rebalance(): Promise<RebalanceResult>;
+  async rebalance(): Promise<RebalanceResult> {
+    try {
+      console.log(`🔄 ${this.config.name} リバランス実行中...`);
+
+      // 現在のポジションを取得
+      const positions = await this.tradingService.getPositions();
+
+      this.riskManager.syncHoldings(
+        positions.map((p) => ({
+          symbol: p.symbol,
+          quantity: p.side === 'LONG' ? p.quantity : -p.quantity,
+          averagePrice: p.averagePrice,
+        }))
+      );
+      for (const position of positions) {
+        this.riskManager.updateLastPrice(
+          position.symbol,
+          position.currentPrice
+        );
+      }
+
+      // 新しいシグナルを生成
+      const signals = await this.generateSignals();
+
+      // 既存ポジションと新しいシグナルの比較
+      const rebalanceOrders: OrderResult[] = [];
+
+      for (const position of positions) {
+        const signal = signals.find(
+          (s) => s.symbol === position.symbol && s.market === position.market
+        );
+
+        if (!signal) {
+          // シグナルがない場合はポジションをクローズ
+          const closeRequest = {
+            symbol: position.symbol,
+            market: position.market,
+            side: (position.side === 'LONG' ? 'SELL' : 'BUY') as 'BUY' | 'SELL',
+            quantity: position.quantity,
+            price: position.currentPrice,
+          };
+          const closeRisk = this.checkOrderRisk(closeRequest);
+          const closeOrder = closeRisk.allowed
+            ? await this.tradingService.placeOrder({
+                symbol: position.symbol,
+                market: position.market,
+                side: closeRequest.side,
+                quantity: position.quantity,
+                type: 'MARKET',
+                timeInForce: 'GTC',
+              })
+            : { success: false, orderId: undefined, error: closeRisk.reason };
+          if (closeOrder.success) this.recordFill(closeRequest);
+
+          rebalanceOrders.push({
+            success: closeOrder.success,
+            orderId: closeOrder.orderId,
+            error: closeOrder.error,
+            signal: {
+              id: `rebalance_${position.symbol}`,
+              symbol: position.symbol,
+              market: position.market,
+              side: position.side === 'LONG' ? 'SELL' : 'BUY',
+              strength: 1,
+              confidence: 1,
+              price: position.currentPrice,
+              quantity: position.quantity,
+              reason: 'リバランス: シグナルなし',
+              indicators: {},
+              createdAt: this.now(),
+              strategy: this.config.name,
+            },
+          });
+        } else if (
+          signal.side !== (position.side === 'LONG' ? 'BUY' : 'SELL')
+        ) {
+          // シグナルの方向が異なる場合はポジションを反転
+          const reverseRequest = {
+            symbol: position.symbol,
+            market: position.market,
+            side: signal.side,
+            quantity: position.quantity + signal.quantity,
+            price: signal.price,
+          };
+          const reverseRisk = this.checkOrderRisk(reverseRequest);
+          const reverseOrder = reverseRisk.allowed
+            ? await this.tradingService.placeOrder({
+                symbol: position.symbol,
+                market: position.market,
+                side: signal.side,
+                quantity: position.quantity + signal.quantity,
+                type: 'MARKET',
+                timeInForce: 'GTC',
+              })
+            : { success: false, orderId: undefined, error: reverseRisk.reason };
+          if (reverseOrder.success) this.recordFill(reverseRequest);
+
+          rebalanceOrders.push({
+            success: reverseOrder.success,
+            orderId: reverseOrder.orderId,
+            error: reverseOrder.error,
+            signal,
+          });
+        }
+      }
+
+      // 新しいシグナルの注文を執行
+      const newSignals = signals.filter(
+        (s) =>
+          !positions.some((p) => p.symbol === s.symbol && p.market === s.market)
+      );
+      const newOrders = await this.executeOrders(newSignals);
+      rebalanceOrders.push(...newOrders);
+
+      const successfulOrders = rebalanceOrders.filter((r) => r.success).length;
+      const totalOrders = rebalanceOrders.length;
+
+      console.log(
+        `✅ ${this.config.name} リバランス完了: ${successfulOrders}/${totalOrders} 成功`
+      );
+
+      return {
+        success: successfulOrders > 0,
+        orders: rebalanceOrders,
+        totalOrders,
+        successfulOrders,
+      };
+    } catch (error) {
+      console.error(`❌ ${this.config.name} リバランスエラー:`, error);
+      return {
+        success: false,
+        orders: [],
+        totalOrders: 0,
+        successfulOrders: 0,
+        error: error instanceof Error ? error.message : '不明なエラー',
+      };
+    }
+  }
 
   /**
    * 戦略のパフォーマンスを計算
@@ -223,6 +562,13 @@ export abstract class TradingStrategy {
     }
   }
 
+  /**
+   * 外部で算出した成績を設定（複数戦略で口座を共有する場合の損益帰属）
+   */
+  setPerformance(performance: StrategyPerformance): void {
+    this.performance = performance;
+  }
+
   /**
    * 戦略のパフォーマンスを取得
    */
@@ -263,11 +609,9 @@ export abstract class TradingStrategy {
     reason: string,
     indicators: Record<string, number>
   ): Promise<Signal> {
-    const signalId = `${this.config.name}_${symbol}_${Date.now()}`;
-    const currentPrice = await this.tradingService.getCurrentPrice(
-      symbol,
-      market
-    );
+    const createdAt = this.now();
+    const signalId = `${this.config.name}_${symbol}_${createdAt.getTime()}`;
+    const currentPrice = await this.getCurrentPrice(symbol, market);
 
     if (!currentPrice) {
       throw new Error(`現在価格を取得できません: ${symbol}`);
@@ -307,7 +651,7 @@ export abstract class TradingStrategy {
       takeProfit,
       reason,
       indicators,
-      createdAt: new Date(),
+      createdAt,
       strategy: this.config.name,
     };
 
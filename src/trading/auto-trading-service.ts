@@ -1,10 +1,25 @@
 import { EventEmitter } from 'events';
-import { PositionSizer } from '../agents/position-sizer';
+import {
+  CovarianceEstimate,
+  PositionSizer,
+  SizingModeConfig,
+} from '../agents/position-sizer';
 import { TechnicalAnalyzer } from '../agents/technical-analyzer';
 import { TradingMLService } from '../ml/trading-ml-service';
-import { RealTradingService } from '../services/real-trading-service';
+import { LocalMarketDataStore } from '../services/local-market-data-store';
+import {
+  estimateCovariance,
+  PortfolioRiskAnalyzer,
+  PricePoint,
+} from '../services/portfolio-risk';
+import {
+  OrderResult,
+  RealPosition,
+  RealTradingService,
+} from '../services/real-trading-service';
 import { RiskManager } from '../services/risk-manager';
 import { TradingStrategy } from '../strategies/trading-strategy';
+import { KillSwitch } from './kill-switch';
 import { Logger } from '../utils/logger';
 
 export interface AutoTradingConfig {
@@ -30,6 +45,7 @@ export interface AutoTradingConfig {
     maxPortfolioRisk: number;
     emergencyStop: boolean;
   };
+  sizing?: SizingModeConfig; // サイジング方式（correlation は取引サイクルごとに日足から共分散を推定）
   monitoring: {
     checkInterval: number; // milliseconds
     alertThresholds: {
@@ -94,11 +110,15 @@ export class AutoTradingService extends EventEmitter {
   private realTradingService: RealTradingService;
   private monitoringInterval?: NodeJS.Timeout;
   private tradingInterval?: NodeJS.Timeout;
+  private killSwitch?: KillSwitch;
+  private sizingContext?: { covariance: CovarianceEstimate; equity: number };
+  private marketDataStore: LocalMarketDataStore = new LocalMarketDataStore();
 
-  constructor(config: AutoTradingConfig) {
+  constructor(config: AutoTradingConfig, killSwitch?: KillSwitch) {
     super();
     this.config = config;
     this.logger = new Logger('AutoTradingService');
+    this.killSwitch = killSwitch;
 
     // Initialize services
     this.riskManager = new RiskManager({
@@ -284,9 +304,19 @@ export class AutoTradingService extends EventEmitter {
   private async executeTradingCycle(): Promise<void> {
     if (!this.currentSession) return;
 
+    // キルスイッチ停止中は新規の取引を行わない
+    if (this.killSwitch?.isHalted()) return;
+
     try {
       // Get market data
       const marketData = await this.getMarketData();
+      this.killSwitch?.recordDataUpdate();
+      for (const data of marketData) {
+        this.riskManager.updateLastPrice(data.symbol, data.price);
+      }
+      if (this.config.sizing?.mode === 'correlation') {
+        await this.refreshCovarianceEstimate(marketData);
+      }
 
       // Generate trading signals
       const signals = await this.generateTradingSignals(marketData);
@@ -374,7 +404,8 @@ export class AutoTradingService extends EventEmitter {
     return {
       symbol: marketData.symbol,
       action,
-      quantity: this.positionSizer.calculatePositionSize(
+      quantity: this.sizeSignal(
+        marketData.symbol,
         marketData.price,
         confidence
       ),
@@ -386,28 +417,175 @@ export class AutoTradingService extends EventEmitter {
     };
   }
 
+  /**
+   * シグナルの数量（correlation モードでは保有との相関を考慮）
+   */
+  private sizeSignal(
+    symbol: string,
+    price: number,
+    confidence: number
+  ): number {
+    if (this.config.sizing?.mode === 'correlation') {
+      if (this.sizingContext) {
+        const { maxMarginalContribution, targetVolatility } =
+          this.config.sizing;
+        const result = this.positionSizer.calculateCorrelationAware({
+          symbol,
+          entryPrice: price,
+          equity: this.sizingContext.equity,
+          maxValue: this.config.riskManagement.maxPositionSize,
+          book: (this.currentSession?.positions ?? []).map((p) => ({
+            symbol: p.symbol,
+            value: p.quantity * p.currentPrice,
+          })),
+          covariance: this.sizingContext.covariance,
+          options: {
+            ...(maxMarginalContribution !== undefined
+              ? { maxMarginalContribution }
+              : {}),
+            ...(targetVolatility !== undefined ? { targetVolatility } : {}),
+          },
+        });
+        return result.recommendedSize;
+      }
+      this.logger.warn('共分散を推定できないため通常のサイジングを使用します');
+    }
+
+    return this.positionSizer.calculatePositionSize(price, confidence);
+  }
+
+  /**
+   * 日足の終値系列（ローカル保存の日足。取得できない銘柄は含めない）
+   */
+  private async loadDailyHistory(
+    targets: Array<{ symbol: string; market: string }>
+  ): Promise<Record<string, PricePoint[]>> {
+    const lookbackDays = this.config.sizing?.lookbackDays ?? 90;
+    const end = new Date();
+    const start = new Date(end.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+
+    const history: Record<string, PricePoint[]> = {};
+    for (const { symbol, market } of targets) {
+      try {
+        const bars = await this.marketDataStore.readRange(
+          { symbol, market, timeframe: '1d' },
+          start,
+          end
+        );
+        if (bars.length > 0) {
+          history[symbol] = bars.map((bar) => ({
+            date: bar.date,
+            close: bar.close,
+          }));
+        }
+      } catch (error) {
+        this.logger.warn(`⚠️ ${symbol} の履歴取得に失敗しました:`, error);
+      }
+    }
+    return history;
+  }
+
+  /**
+   * 保有のポートフォリオリスク（VaR・相関）を分析して RiskManager に設定
+   */
+  private async refreshPortfolioRisk(positions: RealPosition[]): Promise<void> {
+    if (positions.length === 0) {
+      this.riskManager.setPortfolioRiskReport(null);
+      return;
+    }
+
+    const account = await this.realTradingService.getAccount();
+    const report = new PortfolioRiskAnalyzer().analyze({
+      holdings: positions.map((p) => ({
+        symbol: p.symbol,
+        market: p.market,
+        quantity: p.side === 'SHORT' ? -p.quantity : p.quantity,
+        price: p.currentPrice,
+      })),
+      history: await this.loadDailyHistory(positions),
+      equity: account?.totalValue,
+    });
+    this.riskManager.setPortfolioRiskReport(report);
+    for (const warning of report.warnings) {
+      this.logger.warn(`⚠️ ポートフォリオリスク: ${warning}`);
+    }
+  }
+
+  /**
+   * 相関考慮サイジングに使う共分散（候補銘柄と保有の日足から推定）と口座評価額を更新
+   * どちらかが得られない場合は通常のサイジングに戻す
+   */
+  private async refreshCovarianceEstimate(
+    marketData: Array<{ symbol: string; market?: string }>
+  ): Promise<void> {
+    this.sizingContext = undefined;
+    try {
+      const account = await this.realTradingService.getAccount();
+      if (!account || !(account.totalValue > 0)) {
+        this.logger.warn('⚠️ 口座評価額を取得できないため共分散を更新しません');
+        return;
+      }
+
+      const targets = new Map<string, string>();
+      for (const position of await this.realTradingService.getPositions()) {
+        targets.set(position.symbol, position.market);
+      }
+      for (const data of marketData) {
+        if (!targets.has(data.symbol)) {
+          targets.set(data.symbol, data.market ?? 'US');
+        }
+      }
+
+      const history = await this.loadDailyHistory(
+        Array.from(targets, ([symbol, market]) => ({ symbol, market }))
+      );
+      const estimate = estimateCovariance(history);
+      if (estimate.symbols.length === 0) {
+        this.logger.warn(
+          `⚠️ 共分散の推定に必要な履歴が不足しています（${estimate.observations}件）`
+        );
+        return;
+      }
+
+      const covariance: CovarianceEstimate = {
+        symbols: estimate.symbols,
+        covariance: estimate.covariance,
+        periodsPerYear: 252,
+      };
+      this.sizingContext = { covariance, equity: account.totalValue };
+    } catch (error) {
+      this.logger.warn('⚠️ 共分散の推定に失敗しました:', error);
+    }
+  }
+
   /**
    * 取引シグナルの処理
    */
   private async processTradingSignal(signal: TradingSignal): Promise<void> {
     try {
-      // Risk check
-      const riskCheck = await this.riskManager.validateTrade({
+      if (signal.action === 'hold') {
+        return;
+      }
+
+      // 発注前リスクチェック
+      const side = signal.action === 'buy' ? 'BUY' : 'SELL';
+      const riskCheck = this.riskManager.checkOrderRisk({
         symbol: signal.symbol,
+        side,
         quantity: signal.quantity,
         price: signal.price,
-        action: signal.action,
       });
 
-      if (!riskCheck.approved) {
+      if (!riskCheck.allowed) {
         this.logger.warn(
           `取引がリスクチェックで拒否されました: ${riskCheck.reason}`
         );
+        this.emit('orderRejected', { signal, risk: riskCheck });
         return;
       }
 
       // Execute trade
-      const order = await this.realTradingService.placeOrder({
+      const order = await this.placeOrder({
         symbol: signal.symbol,
         side: signal.action,
         quantity: signal.quantity,
@@ -415,6 +593,15 @@ export class AutoTradingService extends EventEmitter {
         type: 'market',
       });
 
+      if (order.success) {
+        this.riskManager.recordFill(
+          signal.symbol,
+          side,
+          signal.quantity,
+          signal.price
+        );
+      }
+
       this.logger.info(
         `取引を執行しました: ${signal.symbol} ${signal.action} ${signal.quantity} @ ${signal.price}`
       );
@@ -452,6 +639,22 @@ export class AutoTradingService extends EventEmitter {
         takeProfit: pos.takeProfit,
       }));
 
+      // 決済注文を発注前チェックで「保有を減らす注文」と判定できるよう同期
+      this.riskManager.syncHoldings(
+        this.currentSession.positions.map((p) => ({
+          symbol: p.symbol,
+          quantity: p.quantity,
+          averagePrice: p.entryPrice,
+        }))
+      );
+      for (const position of this.currentSession.positions) {
+        this.riskManager.updateLastPrice(
+          position.symbol,
+          position.currentPrice
+        );
+      }
+      await this.refreshPortfolioRisk(currentPositions);
+
       // Calculate total PnL
       this.currentSession.totalPnL = this.currentSession.positions.reduce(
         (sum, pos) => sum + pos.unrealizedPnL,
@@ -499,7 +702,21 @@ export class AutoTradingService extends EventEmitter {
     reason: string
   ): Promise<void> {
     try {
-      const order = await this.realTradingService.placeOrder({
+      const riskCheck = this.riskManager.checkOrderRisk({
+        symbol: position.symbol,
+        side: position.quantity > 0 ? 'SELL' : 'BUY',
+        quantity: Math.abs(position.quantity),
+        price: position.currentPrice,
+      });
+      if (!riskCheck.allowed) {
+        this.logger.warn(
+          `ポジションのクローズがリスクチェックで拒否されました: ${riskCheck.reason}`
+        );
+        this.emit('orderRejected', { position, risk: riskCheck });
+        return;
+      }
+
+      const order = await this.placeOrder({
         symbol: position.symbol,
         side: position.quantity > 0 ? 'sell' : 'buy',
         quantity: Math.abs(position.quantity),
@@ -519,6 +736,22 @@ export class AutoTradingService extends EventEmitter {
     }
   }
 
+  /**
+   * 発注（ブローカー・通信の成否をキルスイッチのブローカーエラー判定に記録）
+   * リスクチェックによる拒否や未初期化などはブローカーエラーに数えない
+   */
+  private async placeOrder(
+    order: Parameters<RealTradingService['placeOrder']>[0]
+  ): Promise<OrderResult> {
+    const result = await this.realTradingService.placeOrder(order);
+    if (result.success) {
+      this.killSwitch?.recordBrokerSuccess();
+    } else if (result.errorCode === 'BROKER_ERROR') {
+      await this.killSwitch?.recordBrokerError(result.error);
+    }
+    return result;
+  }
+
   /**
    * 監視の実行
    */
@@ -526,6 +759,15 @@ export class AutoTradingService extends EventEmitter {
     if (!this.currentSession) return;
 
     try {
+      // 日次損益と口座評価額をキルスイッチに反映（上限超過で全プロセスの取引を停止）
+      if (this.killSwitch) {
+        const account = await this.realTradingService.getAccount();
+        await this.killSwitch.updatePnL({
+          dailyPnL: this.currentSession.totalPnL,
+          equity: account?.totalValue > 0 ? account.totalValue : undefined,
+        });
+      }
+
       // Check daily loss limit
       if (
         this.currentSession.totalPnL < -this.config.riskManagement.maxDailyLoss
@@ -586,6 +828,8 @@ export class AutoTradingService extends EventEmitter {
         clearInterval(this.tradingInterval);
         this.tradingInterval = undefined;
       }
+      // 停止中は市場データの鮮度を判定しない
+      this.killSwitch?.resetDataFreshness();
 
       // Update session
       if (this.currentSession) {
@@ -1,10 +1,41 @@
 import { EventEmitter } from 'events';
-import cron from 'node-cron';
 import { Logger } from '../utils/logger';
-import { SignalAggregatorService } from '../services/signal-aggregator-service';
+import {
+  AggregatedSignal,
+  SignalAggregatorService,
+} from '../services/signal-aggregator-service';
 import { HybridMarketDataService } from '../services/hybrid-market-data-service';
 import { InteractiveBrokersIntegration } from '../brokers/interactive-brokers-integration';
+import {
+  BrokerOrder,
+  BrokerPosition,
+} from '../brokers/broker-integration-service';
 import { DayTradingConfig } from '../config/day-trading-config';
+import { calculateATR, evaluateExit } from './exit-policy';
+import { StockScreener } from '../screening/stock-screener';
+import { OrderRiskRejectCode, RiskManager } from '../services/risk-manager';
+import { PositionSizer } from '../agents/position-sizer';
+import {
+  estimateCovariance,
+  PortfolioRiskAnalyzer,
+  PricePoint,
+} from '../services/portfolio-risk';
+import { KillSwitch } from './kill-switch';
+import { ScheduledTask, SchedulerClock, systemClock } from './scheduler-clock';
+import {
+  SchedulerJournalEntry,
+  SchedulerOrder,
+  SchedulerStateJournal,
+} from './scheduler-state-journal';
+
+const DEFAULT_UNIVERSE_FILE = './data/universes/default-watchlist.csv';
+
+// 口座単位のリスク制限（この拒否が出たら残りの候補も購入しない）
+const ACCOUNT_LEVEL_REJECTS: OrderRiskRejectCode[] = [
+  'DAILY_LOSS',
+  'DRAWDOWN',
+  'ORDER_RATE',
+];
 
 /**
  * ポジション情報
@@ -17,6 +48,14 @@ export interface Position {
   currentPrice: number;
   profitRate: number;
   profitAmount: number;
+  stopLoss: number; // 建玉ごとのストップロス（損益率）
+  takeProfit: number; // 建玉ごとのテイクプロフィット（損益率）
+  initialQuantity: number; // 段階利確前の当初数量
+  highestPrice: number; // 保有期間中の最高値
+  trailingStopPrice: number | null; // 現在のトレーリングストップ価格
+  breakevenActive: boolean; // 建値ストップ発動済みか
+  filledTiers: number; // 約定済みの段階利確の段数
+  atr: number | null; // エントリー時点のATR（ATRトレール用）
 }
 
 /**
@@ -31,6 +70,21 @@ export interface TradeHistory {
   profitRate?: number;
   profitAmount?: number;
   reason: string;
+  orderId?: string; // 約定した注文（部分約定は同じ注文の複数の取引になる）
+}
+
+/**
+ * 約定待ちの注文（約定はブローカーの orderUpdated で届いた分だけ反映する）
+ */
+interface WorkingOrder {
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  filledQuantity: number; // 反映済みの約定数量
+  filledValue: number; // 反映済みの約定金額（差分の約定価格の算出用）
+  quotePrice: number; // 約定価格が通知されない場合に使う発注時の価格
+  reason: string;
 }
 
 /**
@@ -43,26 +97,79 @@ export class DayTradingScheduler extends EventEmitter {
   private signalAggregator: SignalAggregatorService;
   private marketDataService: HybridMarketDataService;
   private brokerIntegration: InteractiveBrokersIntegration;
+  private journal?: SchedulerStateJournal;
+  private killSwitch?: KillSwitch;
+  private screener: StockScreener;
+  private riskManager: RiskManager;
+  private clock: SchedulerClock;
 
   private isRunning: boolean = false;
-  private currentPosition: Position | null = null;
+  private positions: Map<string, Position> = new Map();
   private tradeHistory: TradeHistory[] = [];
-  private buyTask?: cron.ScheduledTask;
-  private sellTask?: NodeJS.Timeout;
-  private forceCloseTask?: cron.ScheduledTask;
+  private pendingOrders: Map<string, SchedulerOrder> = new Map(); // ポジション記録前の購入注文
+  private workingOrders: Map<string, WorkingOrder> = new Map();
+  private orderUpdates: Promise<void> = Promise.resolve(); // 約定の反映を1件ずつ行う
+  private accountEquity: number | null = null; // 直近に取得できた口座評価額
+  private buyTask?: ScheduledTask;
+  private sellTask?: ScheduledTask;
+  private forceCloseTask?: ScheduledTask;
 
+  /**
+   * @param clock 時計（シミュレーションでは仮想時計を渡す）
+   * @param screener 銘柄スクリーナー（未指定時は marketDataService から作成）
+   */
   constructor(
     config: DayTradingConfig,
     signalAggregator: SignalAggregatorService,
     marketDataService: HybridMarketDataService,
-    brokerIntegration: InteractiveBrokersIntegration
+    brokerIntegration: InteractiveBrokersIntegration,
+    journal?: SchedulerStateJournal,
+    killSwitch?: KillSwitch,
+    clock: SchedulerClock = systemClock,
+    screener?: StockScreener
   ) {
     super();
     this.config = config;
     this.signalAggregator = signalAggregator;
     this.marketDataService = marketDataService;
     this.brokerIntegration = brokerIntegration;
+    this.journal = journal;
+    this.killSwitch = killSwitch;
+    this.clock = clock;
+    this.screener = screener ?? new StockScreener(marketDataService);
+    this.riskManager = this.createRiskManager();
     this.logger = new Logger('DayTradingScheduler');
+
+    // 約定・取消はブローカーから非同期に届く
+    this.brokerIntegration.on('orderUpdated', (order: BrokerOrder) => {
+      if (this.workingOrders.has(order.orderId)) {
+        this.enqueueOrderUpdate(order);
+      }
+    });
+
+    // キルスイッチの後処理（決済）でブローカー側の保有が変わるため照合し直す
+    this.killSwitch?.on('haltActionsCompleted', () => {
+      this.reconcilePositions().catch((error) =>
+        this.logger.error('キルスイッチ作動後の照合に失敗しました:', error)
+      );
+    });
+  }
+
+  /**
+   * 発注前リスクチェック用の RiskManager を設定から作成
+   */
+  private createRiskManager(): RiskManager {
+    const rm = this.config.riskManagement;
+    return new RiskManager({
+      maxPositionSize: rm.maxPositionSize,
+      maxPortfolioRisk: 100,
+      stopLossPercent: Math.abs(rm.stopLoss) * 100,
+      takeProfitPercent: rm.takeProfit * 100,
+      maxDailyLoss:
+        rm.maxDailyLoss ?? rm.maxTotalExposure * Math.abs(rm.emergencyStopLoss),
+      maxDrawdown: 100,
+      preTrade: rm.preTrade,
+    });
   }
 
   /**
@@ -89,6 +196,9 @@ export class DayTradingScheduler extends EventEmitter {
 
     this.isRunning = true;
 
+    // ジャーナルからの状態復元（保有中のポジションがあれば売却監視を再開）
+    await this.recoverState();
+
     // 購入フェーズのスケジュール設定
     this.scheduleBuyPhase();
 
@@ -121,7 +231,8 @@ export class DayTradingScheduler extends EventEmitter {
       this.buyTask.stop();
     }
     if (this.sellTask) {
-      clearInterval(this.sellTask);
+      this.sellTask.stop();
+      this.sellTask = undefined;
     }
     if (this.forceCloseTask) {
       this.forceCloseTask.stop();
@@ -136,12 +247,10 @@ export class DayTradingScheduler extends EventEmitter {
    * 購入フェーズのスケジュール設定
    */
   private scheduleBuyPhase(): void {
-    const [hour, minute] = this.config.schedule.buyTime.split(':');
-    const cronExpression = `${minute} ${hour} * * 1-5`; // 月-金
+    const { buyTime } = this.config.schedule;
+    this.logger.info(`購入フェーズスケジュール: 平日 ${buyTime}`);
 
-    this.logger.info(`購入フェーズスケジュール: ${cronExpression}`);
-
-    this.buyTask = cron.schedule(cronExpression, async () => {
+    this.buyTask = this.clock.scheduleWeekdays(buyTime, async () => {
       await this.executeBuyPhase();
     });
   }
@@ -150,14 +259,15 @@ export class DayTradingScheduler extends EventEmitter {
    * 強制決済のスケジュール設定
    */
   private scheduleForceClose(): void {
-    const [hour, minute] = this.config.schedule.forceCloseTime.split(':');
-    const cronExpression = `${minute} ${hour} * * 1-5`; // 月-金
-
-    this.logger.info(`強制決済スケジュール: ${cronExpression}`);
+    const { forceCloseTime } = this.config.schedule;
+    this.logger.info(`強制決済スケジュール: 平日 ${forceCloseTime}`);
 
-    this.forceCloseTask = cron.schedule(cronExpression, async () => {
-      await this.forceClosePositions();
-    });
+    this.forceCloseTask = this.clock.scheduleWeekdays(
+      forceCloseTime,
+      async () => {
+        await this.forceClosePositions();
+      }
+    );
   }
 
   /**
@@ -166,32 +276,39 @@ export class DayTradingScheduler extends EventEmitter {
   private async executeBuyPhase(): Promise<void> {
     try {
       this.logger.info('\n🔍 ========== 購入フェーズ開始 ==========');
-      this.logger.info(`日時: ${new Date().toLocaleString()}`);
+      this.logger.info(`日時: ${this.clock.now().toLocaleString()}`);
+
+      if (this.isHalted()) {
+        return;
+      }
+      const equity = await this.refreshAccountState();
+      await this.refreshPortfolioRisk(equity);
 
-      // 既にポジションがある場合はスキップ
-      if (this.currentPosition) {
+      // 保有上限に達している場合はスキップ
+      const { maxPositions, maxDailyTrades } = this.config.riskManagement;
+      const heldSymbols = this.heldOrOrderedSymbols();
+      if (heldSymbols.size >= maxPositions) {
         this.logger.info(
-          '⚠️ 既にポジションを保有中のため、購入をスキップします'
+          `⚠️ 保有銘柄数が上限（${maxPositions}銘柄）に達しているため、購入をスキップします`
         );
         return;
       }
 
       // 1日の取引数制限チェック
-      const today = new Date().toDateString();
-      const todayTrades = this.tradeHistory.filter(
-        (t) => t.date.toDateString() === today && t.action === 'BUY'
-      ).length;
+      const todayTrades = this.countTodayBuyOrders();
 
-      if (todayTrades >= this.config.riskManagement.maxDailyTrades) {
+      if (todayTrades >= maxDailyTrades) {
         this.logger.info(
-          `⚠️ 本日の取引上限（${this.config.riskManagement.maxDailyTrades}回）に達しました`
+          `⚠️ 本日の取引上限（${maxDailyTrades}回）に達しました`
         );
         return;
       }
 
-      // 1. 候補銘柄のスクリーニング
+      // 1. 候補銘柄のスクリーニング（保有中・購入注文の約定待ちの銘柄は除外）
       this.logger.info('\n📊 Step 1: 候補銘柄のスクリーニング');
-      const candidates = await this.screenCandidates();
+      const candidates = (await this.screenCandidates()).filter(
+        (symbol) => !heldSymbols.has(symbol)
+      );
       this.logger.info(`候補銘柄: ${candidates.join(', ')}`);
 
       if (candidates.length === 0) {
@@ -204,18 +321,27 @@ export class DayTradingScheduler extends EventEmitter {
       const signals =
         await this.signalAggregator.aggregateMultipleSignals(candidates);
 
-      // 3. 最適候補の選択
-      this.logger.info('\n🎯 Step 3: 最適候補の選択');
-      const best = this.signalAggregator.selectBestBuyCandidate(signals);
+      // 3. 上位候補の選択（空き枠と本日の残り取引数の範囲内）
+      this.logger.info('\n🎯 Step 3: 上位候補の選択');
+      const slots = Math.min(
+        maxPositions - heldSymbols.size,
+        maxDailyTrades - todayTrades
+      );
+      const selected = this.signalAggregator.selectTopBuyCandidates(
+        signals,
+        slots
+      );
 
-      if (!best) {
+      if (selected.length === 0) {
         this.logger.info('❌ 購入推奨銘柄なし、本日は見送り');
         return;
       }
 
-      this.logger.info(`✅ 最適候補: ${best.symbol}`);
-      this.logger.info(`買い推奨率: ${best.buyPercentage.toFixed(1)}%`);
-      this.logger.info(`賛成: ${best.buySignals}/${best.totalSources}サイト`);
+      selected.forEach((signal) => {
+        this.logger.info(
+          `✅ ${signal.symbol}: 買い推奨率 ${signal.buyPercentage.toFixed(1)}% (賛成 ${signal.buySignals}/${signal.totalSources}サイト)`
+        );
+      });
 
       // 4. 購入実行
       if (this.config.trading.confirmBeforeTrade) {
@@ -223,14 +349,20 @@ export class DayTradingScheduler extends EventEmitter {
           '\n⚠️ 取引前確認が有効です（config.trading.confirmBeforeTrade）'
         );
         this.logger.info('実際の取引はスキップします');
-        this.emit('buySignalGenerated', best);
+        selected.forEach((signal) => this.emit('buySignalGenerated', signal));
         return;
       }
 
-      await this.executeBuy(best.symbol, best);
-
-      // 売却チェック開始
-      this.startSellMonitoring();
+      for (const signal of selected) {
+        if (this.isHalted()) break;
+        try {
+          const bought = await this.executeBuy(signal.symbol, signal);
+          if (!bought) break;
+        } catch (error) {
+          // 1銘柄の失敗で残りの候補の購入は止めない
+          this.logger.warn(`${signal.symbol} の購入をスキップ:`, error);
+        }
+      }
     } catch (error) {
       this.logger.error('購入フェーズでエラーが発生しました:', error);
       this.emit('error', error);
@@ -241,70 +373,117 @@ export class DayTradingScheduler extends EventEmitter {
    * 候補銘柄のスクリーニング
    */
   private async screenCandidates(): Promise<string[]> {
-    const candidates = await this.marketDataService.screenStocks({
-      minVolume: this.config.screening.minVolume,
-      minPrice: this.config.screening.minPrice,
-      maxPrice: this.config.screening.maxPrice,
-    });
+    const { screening } = this.config;
+    const snapshot = await this.screener.getDailySnapshot(
+      screening.universe || DEFAULT_UNIVERSE_FILE,
+      {
+        ...screening.filters,
+        minVolume: screening.minVolume,
+        minPrice: screening.minPrice,
+        maxPrice: screening.maxPrice,
+        excludeSectors: screening.excludeSectors,
+      },
+      this.clock.now()
+    );
 
-    return candidates.slice(0, this.config.screening.candidateCount);
+    return snapshot.results
+      .slice(0, screening.candidateCount)
+      .map((stock) => stock.symbol);
   }
 
   /**
    * 購入実行
+   * エクスポージャー上限や口座単位のリスク制限で以降の購入ができない場合は false を返す
    */
-  private async executeBuy(symbol: string, signal: any): Promise<void> {
+  private async executeBuy(
+    symbol: string,
+    signal: AggregatedSignal
+  ): Promise<boolean> {
     try {
       this.logger.info('\n💰 Step 4: 購入実行');
       this.logger.info(`銘柄: ${symbol}`);
 
       // 市場データ取得
-      const marketData = await this.marketDataService.getMarketData(symbol);
-      const price = marketData.price;
-
-      // ポジションサイズ計算
-      const quantity = Math.floor(
-        this.config.riskManagement.maxPositionSize / price
+      const price = await this.getQuote(symbol);
+
+      // ポジションサイズ計算（1銘柄の上限とポートフォリオ残枠の小さい方）
+      const remainingExposure =
+        this.config.riskManagement.maxTotalExposure - this.getTotalExposure();
+      const budget = Math.min(
+        this.config.riskManagement.maxPositionSize,
+        remainingExposure
       );
+      let quantity = Math.floor(budget / price);
+
+      if (quantity < 1) {
+        this.logger.info(
+          `⚠️ エクスポージャー上限のため購入できません（残枠: $${Math.max(0, remainingExposure).toFixed(2)}）`
+        );
+        return false;
+      }
+
+      // 相関考慮サイジング（保有と連動する銘柄は縮小）
+      if (this.config.riskManagement.sizing?.mode === 'correlation') {
+        quantity = Math.min(
+          quantity,
+          await this.sizeByCorrelation(symbol, price, budget)
+        );
+        if (quantity < 1) {
+          this.logger.info(
+            `⚠️ 保有との相関によるリスク上限のため ${symbol} は購入しません`
+          );
+          return true;
+        }
+      }
 
       this.logger.info(`購入価格: $${price.toFixed(2)}`);
       this.logger.info(`購入数量: ${quantity}株`);
       this.logger.info(`購入金額: $${(price * quantity).toFixed(2)}`);
 
-      // 注文実行
-      const order = await this.brokerIntegration.placeOrder({
+      // 発注前リスクチェック
+      const risk = this.riskManager.checkOrderRisk(
+        {
+          symbol,
+          side: 'BUY',
+          quantity,
+          price,
+        },
+        this.clock.now()
+      );
+      if (!risk.allowed) {
+        this.logger.warn(`🛑 発注前リスクチェックで拒否: ${risk.reason}`);
+        this.emit('orderRejected', { symbol, side: 'BUY', quantity, risk });
+        return !risk.rejects.some((r) =>
+          ACCOUNT_LEVEL_REJECTS.includes(r.code)
+        );
+      }
+
+      // 注文実行（ポジションは約定した数量・価格で記録する）
+      const order = await this.placeBrokerOrder({
         symbol,
         side: 'buy',
         quantity,
         type: 'market',
       });
-
-      this.logger.info(
-        `✅ 購入完了: ${symbol} × ${quantity}株 @ $${price.toFixed(2)}`
-      );
-
-      // ポジション記録
-      this.currentPosition = {
+      const pendingOrder: SchedulerOrder = {
+        orderId: order.orderId,
         symbol,
         quantity,
-        entryPrice: price,
-        entryTime: new Date(),
-        currentPrice: price,
-        profitRate: 0,
-        profitAmount: 0,
+        placedAt: this.clock.now().toISOString(),
       };
+      this.pendingOrders.set(order.orderId, pendingOrder);
+      await this.writeJournal({
+        type: 'orderPlaced',
+        timestamp: this.clock.now().toISOString(),
+        order: pendingOrder,
+      });
 
-      // 取引履歴に追加
-      this.tradeHistory.push({
-        date: new Date(),
-        symbol,
-        action: 'BUY',
-        quantity,
-        price,
+      this.logger.info(`✅ 購入注文を発注: ${symbol} × ${quantity}株`);
+      await this.trackOrder(order, {
+        quotePrice: price,
         reason: `シグナル集約: ${signal.buySignals}/${signal.totalSources}サイトが推奨`,
       });
-
-      this.emit('buyExecuted', this.currentPosition);
+      return true;
     } catch (error) {
       this.logger.error('購入実行に失敗しました:', error);
       throw error;
@@ -315,10 +494,10 @@ export class DayTradingScheduler extends EventEmitter {
    * 売却監視の開始
    */
   private startSellMonitoring(): void {
-    const [hour, minute] = this.config.schedule.sellCheckStart.split(':');
-    const now = new Date();
-    const sellCheckTime = new Date(now);
-    sellCheckTime.setHours(parseInt(hour), parseInt(minute), 0, 0);
+    const now = this.clock.now();
+    const sellCheckTime = this.clock.todayAt(
+      this.config.schedule.sellCheckStart
+    );
 
     // 売却チェック開始時刻まで待機
     const waitTime = sellCheckTime.getTime() - now.getTime();
@@ -328,7 +507,7 @@ export class DayTradingScheduler extends EventEmitter {
         `⏰ ${this.config.schedule.sellCheckStart}から売却チェックを開始します`
       );
 
-      setTimeout(() => {
+      this.clock.setTimeout(() => {
         this.logger.info('\n🔄 売却監視を開始します');
         this.startSellChecks();
       }, waitTime);
@@ -343,155 +522,522 @@ export class DayTradingScheduler extends EventEmitter {
    * 売却チェックの開始
    */
   private startSellChecks(): void {
-    this.sellTask = setInterval(async () => {
+    if (this.sellTask) {
+      return;
+    }
+    this.sellTask = this.clock.setInterval(async () => {
       await this.executeSellPhase();
     }, this.config.schedule.sellCheckInterval);
   }
 
   /**
-   * 売却フェーズ実行
+   * 売却フェーズ実行（保有中の全銘柄をチェック）
    */
   private async executeSellPhase(): Promise<void> {
-    try {
-      if (!this.currentPosition) {
-        return;
+    for (const position of Array.from(this.positions.values())) {
+      try {
+        await this.checkPosition(position);
+      } catch (error) {
+        this.logger.error(
+          `売却フェーズでエラーが発生しました: ${position.symbol}`,
+          error
+        );
+        this.emit('error', error);
       }
+    }
 
-      // 現在価格を取得
-      const marketData = await this.marketDataService.getMarketData(
-        this.currentPosition.symbol
-      );
-      const currentPrice = marketData.price;
-
-      // 損益計算
-      const profitRate =
-        (currentPrice - this.currentPosition.entryPrice) /
-        this.currentPosition.entryPrice;
-      const profitAmount =
-        (currentPrice - this.currentPosition.entryPrice) *
-        this.currentPosition.quantity;
-
-      // ポジション更新
-      this.currentPosition.currentPrice = currentPrice;
-      this.currentPosition.profitRate = profitRate;
-      this.currentPosition.profitAmount = profitAmount;
-
-      this.logger.debug(
-        `📊 ${this.currentPosition.symbol}: $${currentPrice.toFixed(2)} (${(profitRate * 100).toFixed(2)}%)`
+    const equity = await this.refreshAccountState();
+
+    // 本日の確定損益＋含み損益と口座評価額でキルスイッチの損失・ドローダウン条件を判定
+    if (this.killSwitch) {
+      const unrealized = this.getPositions().reduce(
+        (sum, p) => sum + p.profitAmount,
+        0
       );
+      await this.killSwitch.updatePnL({
+        dailyPnL: this.getTodayStats().totalProfit + unrealized,
+        equity: equity ?? undefined,
+      });
+    }
+  }
 
-      // ストップロス判定
-      if (profitRate <= this.config.riskManagement.stopLoss) {
-        this.logger.warn(
-          `⚠️ ストップロス発動: ${this.currentPosition.symbol} (${(profitRate * 100).toFixed(2)}%)`
-        );
-        await this.executeSell('ストップロス');
-        return;
-      }
+  /**
+   * 現在価格を取得（発注前リスクチェックの直近約定価格にも反映）
+   */
+  private async getQuote(symbol: string): Promise<number> {
+    const marketData = await this.marketDataService.getMarketData(symbol);
+    this.riskManager.updateLastPrice(symbol, marketData.price);
+    return marketData.price;
+  }
 
-      // 緊急ストップロス判定
-      if (profitRate <= this.config.riskManagement.emergencyStopLoss) {
-        this.logger.error(
-          `🚨 緊急ストップロス発動: ${this.currentPosition.symbol} (${(profitRate * 100).toFixed(2)}%)`
+  /**
+   * 口座評価額と本日の損益（確定＋含み）を発注前リスクチェックに反映
+   * @returns 口座評価額（取得できない場合は null で、前回の値のまま判定する）
+   */
+  private async refreshAccountState(): Promise<number | null> {
+    try {
+      const account = await this.brokerIntegration.getAccount();
+      const equity =
+        account.balance +
+        account.positions.reduce(
+          (sum, p) =>
+            sum + (p.side === 'long' ? 1 : -1) * p.quantity * p.currentPrice,
+          0
         );
-        await this.executeSell('緊急ストップロス');
-        return;
+      const unrealized = this.getPositions().reduce(
+        (sum, p) => sum + p.profitAmount,
+        0
+      );
+      this.riskManager.updateAccountState({
+        equity,
+        dailyPnL: this.getTodayStats().totalProfit + unrealized,
+        now: this.clock.now(),
+      });
+      this.accountEquity = equity;
+      return equity;
+    } catch (error) {
+      this.logger.warn('⚠️ 口座情報を取得できませんでした:', error);
+      return null;
+    }
+  }
+
+  /**
+   * キルスイッチ作動中か（作動中は新規購入しない。決済は継続する）
+   */
+  private isHalted(): boolean {
+    if (!this.killSwitch?.isHalted()) {
+      return false;
+    }
+    const state = this.killSwitch.getState();
+    this.logger.warn(
+      `🛑 キルスイッチ作動中のため購入しません（${state.trigger}: ${state.reason}）`
+    );
+    return true;
+  }
+
+  /**
+   * ブローカーへの発注（成否をキルスイッチのエラー判定に反映）
+   */
+  private async placeBrokerOrder(
+    request: Parameters<InteractiveBrokersIntegration['placeOrder']>[0]
+  ): ReturnType<InteractiveBrokersIntegration['placeOrder']> {
+    try {
+      const order = await this.brokerIntegration.placeOrder(request);
+      this.killSwitch?.recordBrokerSuccess();
+      return order;
+    } catch (error) {
+      await this.killSwitch?.recordBrokerError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * 1銘柄の損益更新と売却判定
+   */
+  private async checkPosition(position: Position): Promise<void> {
+    // 現在価格を取得
+    const currentPrice = await this.getQuote(position.symbol);
+    this.killSwitch?.recordDataUpdate();
+
+    // 損益計算・ポジション更新
+    position.currentPrice = currentPrice;
+    position.profitRate =
+      (currentPrice - position.entryPrice) / position.entryPrice;
+    position.profitAmount =
+      (currentPrice - position.entryPrice) * position.quantity;
+    const profitRate = position.profitRate;
+
+    this.logger.debug(
+      `📊 ${position.symbol}: $${currentPrice.toFixed(2)} (${(profitRate * 100).toFixed(2)}%)`
+    );
+
+    // 決済ポリシー（緊急ストップ・建値/トレーリングストップ・時間切れ・段階利確）
+    const decision = evaluateExit(
+      position,
+      currentPrice,
+      this.config.exitPolicy,
+      this.config.riskManagement.emergencyStopLoss,
+      this.clock.now()
+    );
+    if (decision.action === 'sell') {
+      this.logger.warn(
+        `⚠️ 決済条件成立: ${position.symbol} ${decision.reason}`
+      );
+      // 段階利確の段数は一部決済のジャーナルに含めるため先に更新する
+      const previousTiers = position.filledTiers;
+      if (decision.tierIndex !== undefined) {
+        position.filledTiers = decision.tierIndex + 1;
       }
+      try {
+        await this.executeSell(position, decision.reason, decision.quantity);
+      } catch (error) {
+        position.filledTiers = previousTiers;
+        throw error;
+      }
+      return;
+    }
 
-      // テイクプロフィット判定（+5%以上）
-      if (profitRate >= this.config.riskManagement.takeProfit) {
-        this.logger.info(
-          `✅ 目標利益達成: ${this.currentPosition.symbol} (+${(profitRate * 100).toFixed(2)}%)`
-        );
+    // テイクプロフィット判定（売りシグナルの過半数で確定）
+    if (profitRate >= position.takeProfit) {
+      this.logger.info(
+        `✅ 目標利益達成: ${position.symbol} (+${(profitRate * 100).toFixed(2)}%)`
+      );
 
-        // シグナル確認
-        const signal = await this.signalAggregator.aggregateSignals(
-          this.currentPosition.symbol
-        );
+      // シグナル確認
+      const signal = await this.signalAggregator.aggregateSignals(
+        position.symbol
+      );
 
-        this.logger.info(
-          `シグナル確認: SELL=${signal.sellSignals}/${signal.totalSources}`
-        );
+      this.logger.info(
+        `シグナル確認: SELL=${signal.sellSignals}/${signal.totalSources}`
+      );
 
-        // 売りシグナルが過半数、または+7%以上なら即売却
-        if (signal.shouldSell || profitRate >= 0.07) {
-          await this.executeSell(
-            `目標達成 (+${(profitRate * 100).toFixed(2)}%)`
-          );
-        } else {
-          this.logger.info('保持継続（売りシグナルが過半数未満）');
-        }
+      if (signal.shouldSell) {
+        await this.executeSell(
+          position,
+          `目標達成・売りシグナル過半数 (+${(profitRate * 100).toFixed(2)}%)`
+        );
+      } else {
+        this.logger.info('保持継続（売りシグナルが過半数未満）');
       }
-    } catch (error) {
-      this.logger.error('売却フェーズでエラーが発生しました:', error);
-      this.emit('error', error);
     }
   }
 
   /**
-   * 売却実行
+   * 売却実行（数量が保有数量未満の場合は一部決済）
    */
-  private async executeSell(reason: string): Promise<void> {
-    if (!this.currentPosition) {
-      this.logger.warn('売却対象のポジションがありません');
+  private async executeSell(
+    position: Position,
+    reason: string,
+    quantity: number = position.quantity
+  ): Promise<void> {
+    if (!this.positions.has(position.symbol)) {
+      this.logger.warn(`売却対象のポジションがありません: ${position.symbol}`);
+      return;
+    }
+
+    // 約定待ちの売却注文の分は売らない
+    const sellQuantity = Math.min(
+      quantity,
+      position.quantity - this.unfilledQuantity(position.symbol, 'sell')
+    );
+    if (sellQuantity <= 0) {
+      this.logger.info(`売却注文の約定待ち: ${position.symbol}`);
       return;
     }
 
     try {
       this.logger.info('\n💰 ========== 売却実行 ==========');
-      this.logger.info(`銘柄: ${this.currentPosition.symbol}`);
+      this.logger.info(`銘柄: ${position.symbol}`);
       this.logger.info(`理由: ${reason}`);
-      this.logger.info(
-        `購入価格: $${this.currentPosition.entryPrice.toFixed(2)}`
-      );
-      this.logger.info(
-        `現在価格: $${this.currentPosition.currentPrice.toFixed(2)}`
-      );
-      this.logger.info(
-        `損益率: ${(this.currentPosition.profitRate * 100).toFixed(2)}%`
-      );
-      this.logger.info(
-        `損益額: $${this.currentPosition.profitAmount.toFixed(2)}`
+      this.logger.info(`購入価格: $${position.entryPrice.toFixed(2)}`);
+      this.logger.info(`現在価格: $${position.currentPrice.toFixed(2)}`);
+      this.logger.info(`損益率: ${(position.profitRate * 100).toFixed(2)}%`);
+      this.logger.info(`損益額: $${position.profitAmount.toFixed(2)}`);
+
+      // 発注前リスクチェック（決済は価格乖離のみ判定される）
+      const risk = this.riskManager.checkOrderRisk(
+        {
+          symbol: position.symbol,
+          side: 'SELL',
+          quantity: sellQuantity,
+          price: position.currentPrice,
+        },
+        this.clock.now()
       );
+      if (!risk.allowed) {
+        this.emit('orderRejected', {
+          symbol: position.symbol,
+          side: 'SELL',
+          quantity: sellQuantity,
+          risk,
+        });
+        throw new Error(`発注前リスクチェックで拒否: ${risk.reason}`);
+      }
 
-      // 注文実行
-      const order = await this.brokerIntegration.placeOrder({
-        symbol: this.currentPosition.symbol,
+      // 注文実行（ポジションは約定した数量・価格の分だけ減らす）
+      const order = await this.placeBrokerOrder({
+        symbol: position.symbol,
         side: 'sell',
-        quantity: this.currentPosition.quantity,
+        quantity: sellQuantity,
         type: 'market',
       });
-
       this.logger.info(
-        `✅ 売却完了: ${this.currentPosition.symbol} × ${this.currentPosition.quantity}株`
+        `✅ 売却注文を発注: ${position.symbol} × ${sellQuantity}株`
       );
-
-      // 取引履歴に追加
-      this.tradeHistory.push({
-        date: new Date(),
-        symbol: this.currentPosition.symbol,
-        action: 'SELL',
-        quantity: this.currentPosition.quantity,
-        price: this.currentPosition.currentPrice,
-        profitRate: this.currentPosition.profitRate,
-        profitAmount: this.currentPosition.profitAmount,
+      await this.trackOrder(order, {
+        quotePrice: position.currentPrice,
         reason,
       });
+    } catch (error) {
+      this.logger.error('売却実行に失敗しました:', error);
+      throw error;
+    }
+  }
 
-      this.emit('sellExecuted', this.currentPosition);
+  /**
+   * 発注した注文の約定を追跡（発注中に届いた約定もここで反映する）
+   */
+  private async trackOrder(
+    order: BrokerOrder,
+    options: { quotePrice: number; reason: string }
+  ): Promise<void> {
+    this.workingOrders.set(order.orderId, {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      filledQuantity: 0,
+      filledValue: 0,
+      quotePrice: options.quotePrice,
+      reason: options.reason,
+    });
+    await this.enqueueOrderUpdate(order);
+  }
 
-      // ポジションクリア
-      this.currentPosition = null;
+  private enqueueOrderUpdate(order: BrokerOrder): Promise<void> {
+    const update = { ...order };
+    this.orderUpdates = this.orderUpdates
+      .then(() => this.applyOrderUpdate(update))
+      .catch((error) => {
+        this.logger.error(`約定の反映に失敗しました: ${order.orderId}`, error);
+        this.emit('error', error);
+      });
+    return this.orderUpdates;
+  }
 
-      // 売却監視停止
-      if (this.sellTask) {
-        clearInterval(this.sellTask);
-        this.sellTask = undefined;
+  /**
+   * 注文の状態を反映（前回からの約定差分をポジション・リスク管理に記録）
+   */
+  private async applyOrderUpdate(order: BrokerOrder): Promise<void> {
+    const working = this.workingOrders.get(order.orderId);
+    if (!working) return;
+
+    const filledQuantity = order.filledQuantity ?? 0;
+    const quantity = filledQuantity - working.filledQuantity;
+    if (quantity > 0) {
+      const filledValue =
+        (order.averagePrice ?? working.quotePrice) * filledQuantity;
+      const price = (filledValue - working.filledValue) / quantity;
+      working.filledQuantity = filledQuantity;
+      working.filledValue = filledValue;
+
+      if (working.side === 'buy') {
+        await this.applyBuyFill(working, quantity, price);
+      } else {
+        await this.applySellFill(working, quantity, price);
       }
-    } catch (error) {
-      this.logger.error('売却実行に失敗しました:', error);
-      throw error;
     }
+
+    if (order.status !== 'pending') {
+      this.workingOrders.delete(order.orderId);
+      if (working.filledQuantity < working.quantity) {
+        this.logger.warn(
+          `⚠️ 注文終了（${order.status}）: ${working.symbol} 約定${working.filledQuantity}/${working.quantity}株`
+        );
+      }
+      if (this.pendingOrders.delete(order.orderId)) {
+        await this.writeJournal({
+          type: 'orderClosed',
+          timestamp: this.clock.now().toISOString(),
+          orderId: order.orderId,
+        });
+      }
+    }
+  }
+
+  /**
+   * 購入の約定を反映（初回の約定でポジションを建て、以後は数量と平均取得単価を更新）
+   */
+  private async applyBuyFill(
+    working: WorkingOrder,
+    quantity: number,
+    price: number
+  ): Promise<void> {
+    const now = this.clock.now();
+    this.riskManager.recordFill(working.symbol, 'BUY', quantity, price, now);
+    this.logger.info(
+      `✅ 購入約定: ${working.symbol} × ${quantity}株 @ $${price.toFixed(2)}`
+    );
+
+    const trade: TradeHistory = {
+      date: now,
+      symbol: working.symbol,
+      action: 'BUY',
+      quantity,
+      price,
+      reason: working.reason,
+      orderId: working.orderId,
+    };
+    this.tradeHistory.push(trade);
+
+    const existing = this.positions.get(working.symbol);
+    if (existing) {
+      const total = existing.quantity + quantity;
+      existing.entryPrice =
+        (existing.entryPrice * existing.quantity + price * quantity) / total;
+      existing.quantity = total;
+      existing.initialQuantity += quantity;
+      existing.profitAmount =
+        (existing.currentPrice - existing.entryPrice) * total;
+      await this.writeJournal({
+        type: 'positionIncreased',
+        timestamp: now.toISOString(),
+        position: existing,
+        trade,
+      });
+      return;
+    }
+
+    // ポジション記録（損切り・利確の閾値はエントリー時点の設定で固定）
+    const position: Position = {
+      symbol: working.symbol,
+      quantity,
+      entryPrice: price,
+      entryTime: now,
+      currentPrice: price,
+      profitRate: 0,
+      profitAmount: 0,
+      stopLoss: this.config.riskManagement.stopLoss,
+      takeProfit: this.config.riskManagement.takeProfit,
+      initialQuantity: quantity,
+      highestPrice: price,
+      trailingStopPrice: null,
+      breakevenActive: false,
+      filledTiers: 0,
+      atr: await this.fetchEntryATR(working.symbol),
+    };
+    this.positions.set(working.symbol, position);
+
+    await this.writeJournal({
+      type: 'positionOpened',
+      timestamp: now.toISOString(),
+      position,
+      trade,
+    });
+    this.clearPendingOrders(working.symbol);
+
+    this.emit('buyExecuted', position);
+    this.startSellMonitoring();
+  }
+
+  /**
+   * 売却の約定を反映（保有数量未満なら一部決済）
+   */
+  private async applySellFill(
+    working: WorkingOrder,
+    filled: number,
+    price: number
+  ): Promise<void> {
+    const position = this.positions.get(working.symbol);
+    if (!position) {
+      this.logger.warn(
+        `⚠️ 約定した売却注文のポジションがありません: ${working.symbol}`
+      );
+      return;
+    }
+
+    const now = this.clock.now();
+    const quantity = Math.min(filled, position.quantity);
+    const isPartial = quantity < position.quantity;
+    this.riskManager.recordFill(working.symbol, 'SELL', quantity, price, now);
+
+    this.logger.info(
+      `✅ ${isPartial ? '一部' : ''}売却約定: ${working.symbol} × ${quantity}株 @ $${price.toFixed(2)}`
+    );
+
+    // 取引履歴に追加
+    const trade: TradeHistory = {
+      date: now,
+      symbol: working.symbol,
+      action: 'SELL',
+      quantity,
+      price,
+      profitRate: (price - position.entryPrice) / position.entryPrice,
+      profitAmount: (price - position.entryPrice) * quantity,
+      reason: working.reason,
+      orderId: working.orderId,
+    };
+    this.tradeHistory.push(trade);
+
+    if (isPartial) {
+      position.quantity -= quantity;
+      position.profitAmount =
+        (position.currentPrice - position.entryPrice) * position.quantity;
+
+      await this.writeJournal({
+        type: 'positionReduced',
+        timestamp: now.toISOString(),
+        position,
+        trade,
+      });
+
+      this.emit('partialSellExecuted', { position, trade });
+      return;
+    }
+
+    this.emit('sellExecuted', position);
+
+    // ポジションクリア
+    this.positions.delete(working.symbol);
+
+    await this.writeJournal({
+      type: 'positionClosed',
+      timestamp: now.toISOString(),
+      symbol: working.symbol,
+      trade,
+    });
+
+    // 全銘柄を決済したら売却監視停止
+    if (this.positions.size === 0 && this.sellTask) {
+      this.sellTask.stop();
+      this.sellTask = undefined;
+      // 監視していない間はデータ鮮度を判定しない
+      this.killSwitch?.resetDataFreshness();
+    }
+  }
+
+  /**
+   * 約定待ちの注文の未約定数量
+   */
+  private unfilledQuantity(symbol: string, side: 'buy' | 'sell'): number {
+    return Array.from(this.workingOrders.values())
+      .filter((o) => o.symbol === symbol && o.side === side)
+      .reduce((sum, o) => sum + o.quantity - o.filledQuantity, 0);
+  }
+
+  /**
+   * 保有中または購入注文の約定待ちの銘柄
+   */
+  private heldOrOrderedSymbols(): Set<string> {
+    const symbols = new Set(this.positions.keys());
+    for (const order of this.workingOrders.values()) {
+      if (order.side === 'buy') symbols.add(order.symbol);
+    }
+    return symbols;
+  }
+
+  /**
+   * 本日の購入注文数（部分約定で複数の取引になった注文は1回と数える）
+   */
+  private countTodayBuyOrders(): number {
+    const today = this.clock.now().toDateString();
+    const orderIds = new Set<string>();
+    let count = 0;
+    for (const trade of this.tradeHistory) {
+      if (trade.action !== 'BUY' || trade.date.toDateString() !== today) {
+        continue;
+      }
+      if (trade.orderId) {
+        orderIds.add(trade.orderId);
+      } else {
+        count++;
+      }
+    }
+    for (const order of this.workingOrders.values()) {
+      if (order.side === 'buy') orderIds.add(order.orderId);
+    }
+    return count + orderIds.size;
   }
 
   /**
@@ -500,19 +1046,441 @@ export class DayTradingScheduler extends EventEmitter {
   private async forceClosePositions(): Promise<void> {
     this.logger.info('\n⏰ ========== 強制決済時刻 ==========');
 
-    if (this.currentPosition) {
-      this.logger.warn('市場クローズのため強制決済を実行します');
-      await this.executeSell('強制決済（市場クローズ）');
-    } else {
+    if (this.positions.size === 0) {
       this.logger.info('保有ポジションなし');
+      return;
+    }
+
+    this.logger.warn(
+      `市場クローズのため強制決済を実行します（${this.positions.size}銘柄）`
+    );
+    for (const position of Array.from(this.positions.values())) {
+      try {
+        await this.executeSell(position, '強制決済（市場クローズ）');
+      } catch (error) {
+        this.logger.error(`強制決済に失敗しました: ${position.symbol}`, error);
+        this.emit('error', error);
+      }
+    }
+  }
+
+  /**
+   * ジャーナルから状態を復元し、ブローカーの保有ポジションと照合する
+   */
+  private async recoverState(): Promise<void> {
+    if (!this.journal) {
+      return;
+    }
+
+    try {
+      const state = await this.journal.load();
+      this.positions = new Map(state.positions.map((p) => [p.symbol, p]));
+      this.tradeHistory = state.tradeHistory;
+      this.pendingOrders = new Map(
+        state.pendingOrders.map((o) => [o.orderId, o])
+      );
+
+      const today = this.clock.now().toDateString();
+      const todayTrades = this.tradeHistory.filter(
+        (t) => t.date.toDateString() === today
+      );
+      const todayBuys = todayTrades.filter((t) => t.action === 'BUY').length;
+      this.logger.info(
+        `🔄 ジャーナルから復元: ポジション${this.positions.size}件 / 本日の購入${todayBuys}回`
+      );
+
+      await this.resumePendingOrders();
+      await this.reconcilePositions();
+      this.riskManager.syncHoldings(
+        this.getPositions().map((p) => ({
+          symbol: p.symbol,
+          quantity: p.quantity,
+          averagePrice: p.entryPrice,
+        }))
+      );
+      this.riskManager.updateAccountState({
+        dailyPnL: todayTrades.reduce(
+          (sum, t) => sum + (t.profitAmount || 0),
+          0
+        ),
+        now: this.clock.now(),
+      });
+
+      if (this.positions.size > 0) {
+        this.startSellMonitoring();
+      }
+      this.emit('stateRecovered', this.getPositions());
+    } catch (error) {
+      this.logger.error('状態の復元に失敗しました:', error);
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * 再起動前の購入注文をブローカーの注文状況と照合する
+   * ブローカーにある注文は約定を追跡し（終了済みなら約定分を反映して破棄）、確認できない注文は前日以前のものを期限切れとして破棄する
+   */
+  private async resumePendingOrders(): Promise<void> {
+    if (this.pendingOrders.size === 0) {
+      return;
+    }
+
+    let brokerOrders = new Map<string, BrokerOrder>();
+    try {
+      brokerOrders = new Map(
+        (await this.brokerIntegration.getOrders()).map((o) => [o.orderId, o])
+      );
+    } catch (error) {
+      this.logger.warn(
+        '⚠️ ブローカーの注文を取得できないため発注時刻のみで判定します:',
+        error
+      );
+    }
+
+    const now = this.clock.now();
+    for (const order of Array.from(this.pendingOrders.values())) {
+      const brokerOrder = brokerOrders.get(order.orderId);
+      if (brokerOrder) {
+        await this.trackOrder(brokerOrder, {
+          quotePrice: brokerOrder.price,
+          reason: '再起動前の購入注文',
+        });
+        continue;
+      }
+      if (new Date(order.placedAt).toDateString() === now.toDateString()) {
+        continue;
+      }
+
+      this.logger.warn(
+        `⚠️ 前回までのセッションの購入注文を破棄: ${order.symbol} × ${order.quantity}株 (${order.orderId})`
+      );
+      this.pendingOrders.delete(order.orderId);
+      await this.writeJournal({
+        type: 'orderClosed',
+        timestamp: now.toISOString(),
+        orderId: order.orderId,
+      });
+    }
+  }
+
+  /**
+   * ブローカーの保有ポジションと照合してジャーナルの内容を修正する
+   * 取り込むのはこのスケジューラーの発注で追跡できる保有のみで、長期保有など他の保有は不一致として報告する
+   */
+  private async reconcilePositions(): Promise<void> {
+    let brokerPositions: BrokerPosition[];
+    try {
+      brokerPositions = await this.brokerIntegration.getPositions();
+    } catch (error) {
+      this.logger.warn(
+        '⚠️ ブローカーのポジションを取得できないため照合をスキップ:',
+        error
+      );
+      return;
+    }
+
+    const brokerLongs = new Map<string, BrokerPosition>(
+      brokerPositions
+        .filter((p) => p.side === 'long' && p.quantity > 0)
+        .map((p) => [p.symbol, p])
+    );
+    const now = this.clock.now();
+
+    // ジャーナルにあるがブローカーに存在しない → 破棄
+    for (const position of this.getPositions()) {
+      const broker = brokerLongs.get(position.symbol);
+      if (!broker) {
+        this.logger.warn(
+          `⚠️ ブローカーに存在しないポジションを破棄: ${position.symbol}`
+        );
+        this.positions.delete(position.symbol);
+        await this.writeJournal({
+          type: 'positionRemoved',
+          timestamp: now.toISOString(),
+          symbol: position.symbol,
+          reason: 'ブローカーに存在しない',
+        });
+      } else if (broker.quantity < position.quantity) {
+        this.logger.warn(
+          `⚠️ 数量をブローカーに合わせて修正: ${position.symbol} ${position.quantity} → ${broker.quantity}株`
+        );
+        position.quantity = broker.quantity;
+        await this.writeJournal({
+          type: 'positionAdjusted',
+          timestamp: now.toISOString(),
+          position,
+          reason: '数量不一致',
+        });
+      } else if (broker.quantity > position.quantity) {
+        // 超過分はスケジューラー以外の保有（決済対象にしない）
+        this.reportDiscrepancy(
+          position.symbol,
+          broker.quantity,
+          position.quantity
+        );
+      }
+    }
+
+    // ブローカーにあるがジャーナルに存在しない → 発注済みの購入注文で追跡できる分のみ取り込み
+    for (const broker of brokerLongs.values()) {
+      if (this.positions.has(broker.symbol)) continue;
+
+      const orderedQuantity = Array.from(this.pendingOrders.values())
+        .filter((o) => o.symbol === broker.symbol)
+        .reduce((sum, o) => sum + o.quantity, 0);
+      if (orderedQuantity === 0) {
+        this.reportDiscrepancy(broker.symbol, broker.quantity, 0);
+        continue;
+      }
+
+      const quantity = Math.min(broker.quantity, orderedQuantity);
+      if (broker.quantity > quantity) {
+        this.reportDiscrepancy(broker.symbol, broker.quantity, quantity);
+      }
+
+      const position: Position = {
+        symbol: broker.symbol,
+        quantity,
+        entryPrice: broker.entryPrice,
+        entryTime: now,
+        currentPrice: broker.currentPrice,
+        profitRate: 0,
+        profitAmount: (broker.currentPrice - broker.entryPrice) * quantity,
+        stopLoss: this.config.riskManagement.stopLoss,
+        takeProfit: this.config.riskManagement.takeProfit,
+        initialQuantity: quantity,
+        highestPrice: Math.max(broker.entryPrice, broker.currentPrice),
+        trailingStopPrice: null,
+        breakevenActive: false,
+        filledTiers: 0,
+        atr: await this.fetchEntryATR(broker.symbol),
+      };
+      this.logger.warn(
+        `⚠️ 記録前に中断した購入注文のポジションを取り込み: ${broker.symbol} × ${quantity}株`
+      );
+      this.positions.set(broker.symbol, position);
+      await this.writeJournal({
+        type: 'positionAdjusted',
+        timestamp: now.toISOString(),
+        position,
+        reason: '発注済みの購入注文からポジションを取り込み',
+      });
+      this.clearPendingOrders(broker.symbol);
+    }
+  }
+
+  /**
+   * スケジューラーで追跡できないブローカー側の保有を報告（取り込み・決済はしない）
+   */
+  private reportDiscrepancy(
+    symbol: string,
+    brokerQuantity: number,
+    trackedQuantity: number
+  ): void {
+    this.logger.warn(
+      `⚠️ スケジューラー外の保有のため取り込みません: ${symbol} ブローカー${brokerQuantity}株 / 管理対象${trackedQuantity}株`
+    );
+    this.emit('positionDiscrepancy', {
+      symbol,
+      brokerQuantity,
+      trackedQuantity,
+    });
+  }
+
+  private clearPendingOrders(symbol: string): void {
+    for (const [orderId, order] of this.pendingOrders) {
+      if (order.symbol === symbol) this.pendingOrders.delete(orderId);
+    }
+  }
+
+  /**
+   * ATRトレール用にエントリー時点のATRを取得（取得できない場合は率ベースにフォールバック）
+   */
+  private async fetchEntryATR(symbol: string): Promise<number | null> {
+    const { trailingStop } = this.config.exitPolicy;
+    if (!trailingStop.enabled || trailingStop.mode !== 'atr') {
+      return null;
+    }
+
+    try {
+      const now = this.clock.now();
+      const startDate = new Date(now);
+      // 休日を考慮して期間の2倍＋αの暦日を取得
+      startDate.setDate(
+        startDate.getDate() - (trailingStop.atrPeriod * 2 + 10)
+      );
+      const bars = await this.marketDataService.getHistoricalData(
+        symbol,
+        startDate,
+        now
+      );
+      const atr = calculateATR(bars, trailingStop.atrPeriod);
+      if (atr === null) {
+        this.logger.warn(`⚠️ ATRを計算できません（データ不足）: ${symbol}`);
+      }
+      return atr;
+    } catch (error) {
+      this.logger.warn(`⚠️ ATR用の履歴データ取得に失敗: ${symbol}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * ジャーナルへの書き込み（失敗しても取引処理は継続する）
+   */
+  private async writeJournal(entry: SchedulerJournalEntry): Promise<void> {
+    if (!this.journal) {
+      return;
+    }
+    try {
+      await this.journal.append(entry);
+    } catch (error) {
+      this.logger.error('ジャーナルの書き込みに失敗しました:', error);
+      this.emit('error', error);
     }
   }
 
   /**
-   * 現在のポジション取得
+   * 保有中の全ポジション取得
+   */
+  getPositions(): Position[] {
+    return Array.from(this.positions.values());
+  }
+
+  /**
+   * 現在のポジション取得（複数保有時は最初に建てたポジション）
    */
   getCurrentPosition(): Position | null {
-    return this.currentPosition;
+    return this.getPositions()[0] ?? null;
+  }
+
+  /**
+   * 相関考慮のサイジング（日足の共分散・口座評価額と現在の保有から購入可能な株数を求める）
+   * 履歴・口座評価額が取得できない場合は予算のみで決める
+   */
+  private async sizeByCorrelation(
+    symbol: string,
+    price: number,
+    budget: number
+  ): Promise<number> {
+    const equity = this.accountEquity;
+    if (equity === null || !(equity > 0)) {
+      this.logger.warn(
+        '⚠️ 口座評価額を取得できないため相関考慮サイジングをスキップします'
+      );
+      return Math.floor(budget / price);
+    }
+
+    const sizing = this.config.riskManagement.sizing;
+    const positions = this.getPositions();
+    const history = await this.loadDailyHistory([
+      symbol,
+      ...positions.map((p) => p.symbol),
+    ]);
+
+    const estimate = estimateCovariance(history);
+    const sizer = new PositionSizer({
+      accountBalance: equity,
+      riskPerTrade: Math.abs(this.config.riskManagement.stopLoss) * 100,
+      maxPositionSize: this.config.riskManagement.maxPositionSize,
+      minPositionSize: 0,
+      maxPortfolioRisk: 100,
+    });
+    const result = sizer.calculateCorrelationAware({
+      symbol,
+      entryPrice: price,
+      equity,
+      maxValue: budget,
+      book: positions.map((p) => ({
+        symbol: p.symbol,
+        value: p.quantity * p.currentPrice,
+      })),
+      covariance: { ...estimate, periodsPerYear: 252 },
+      options: {
+        ...(sizing?.maxMarginalContribution !== undefined
+          ? { maxMarginalContribution: sizing.maxMarginalContribution }
+          : {}),
+        ...(sizing?.targetVolatility !== undefined
+          ? { targetVolatility: sizing.targetVolatility }
+          : {}),
+      },
+    });
+
+    this.logger.info(
+      `📐 相関考慮サイジング: ${result.recommendedSize}株（制約: ${result.limitedBy}, リスク寄与 ${result.marginalContribution.toFixed(1)}%, ボラティリティ ${result.portfolioVolatility.toFixed(1)}%）`
+    );
+    if (result.bookScale < 1) {
+      this.logger.warn(
+        `⚠️ ブック全体が目標ボラティリティを超過しています（縮小率: ${result.bookScale.toFixed(2)}）`
+      );
+    }
+    return result.recommendedSize;
+  }
+
+  /**
+   * 日足の終値系列（取得できない銘柄は含めない）
+   */
+  private async loadDailyHistory(
+    symbols: string[]
+  ): Promise<Record<string, PricePoint[]>> {
+    const lookbackDays = this.config.riskManagement.sizing?.lookbackDays ?? 90;
+    const end = this.clock.now();
+    const start = new Date(end.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+
+    const history: Record<string, PricePoint[]> = {};
+    for (const target of symbols) {
+      try {
+        const bars = await this.marketDataService.getHistoricalData(
+          target,
+          start,
+          end
+        );
+        history[target] = bars.map((bar) => ({
+          date: bar.date,
+          close: bar.close,
+        }));
+      } catch (error) {
+        this.logger.warn(`⚠️ ${target} の履歴取得に失敗しました:`, error);
+      }
+    }
+    return history;
+  }
+
+  /**
+   * 保有のポートフォリオリスク（VaR・相関）を分析して RiskManager に設定
+   */
+  private async refreshPortfolioRisk(equity: number | null): Promise<void> {
+    const positions = this.getPositions();
+    if (positions.length === 0) {
+      this.riskManager.setPortfolioRiskReport(null);
+      return;
+    }
+
+    const report = new PortfolioRiskAnalyzer().analyze({
+      holdings: positions.map((p) => ({
+        symbol: p.symbol,
+        market: 'US',
+        quantity: p.quantity,
+        price: p.currentPrice,
+      })),
+      history: await this.loadDailyHistory(positions.map((p) => p.symbol)),
+      equity: equity ?? undefined,
+      asOf: this.clock.now(),
+    });
+    this.riskManager.setPortfolioRiskReport(report);
+    for (const warning of report.warnings) {
+      this.logger.warn(`⚠️ ポートフォリオリスク: ${warning}`);
+    }
+  }
+
+  /**
+   * ポートフォリオ全体のエクスポージャー（USD）
+   */
+  getTotalExposure(): number {
+    return this.getPositions().reduce(
+      (sum, p) => sum + p.currentPrice * p.quantity,
+      0
+    );
   }
 
   /**
@@ -532,7 +1500,7 @@ export class DayTradingScheduler extends EventEmitter {
     totalProfit: number;
     winRate: number;
   } {
-    const today = new Date().toDateString();
+    const today = this.clock.now().toDateString();
     const todayTrades = this.tradeHistory.filter(
       (t) => t.date.toDateString() === today && t.action === 'SELL'
     );
@@ -560,7 +1528,7 @@ export class DayTradingScheduler extends EventEmitter {
    */
   generateDailyReport(): string {
     const stats = this.getTodayStats();
-    const today = new Date().toLocaleDateString();
+    const today = this.clock.now().toLocaleDateString();
 
     const report = `
 ========== デイリーレポート ==========
@@ -575,7 +1543,7 @@ export class DayTradingScheduler extends EventEmitter {
 
 【取引履歴】
 ${this.tradeHistory
-  .filter((t) => t.date.toDateString() === new Date().toDateString())
+  .filter((t) => t.date.toDateString() === this.clock.now().toDateString())
   .map(
     (t, i) =>
       `${i + 1}. ${t.action} ${t.symbol} × ${t.quantity}株 @ $${t.price.toFixed(2)}
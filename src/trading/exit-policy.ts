@@ -0,0 +1,156 @@
+import type { ExitPolicyConfig } from '../config/day-trading-config';
+import type { Position } from './day-trading-scheduler';
+
+/**
+ * 決済判定の結果
+ */
+export type ExitDecision =
+  | { action: 'hold' }
+  | {
+      action: 'sell';
+      quantity: number;
+      reason: string;
+      tierIndex?: number; // 段階利確の場合の段番号
+    };
+
+/**
+ * ATR（Average True Range）の計算
+ */
+export function calculateATR(
+  bars: Array<{ high: number; low: number; close: number }>,
+  period: number
+): number | null {
+  if (bars.length < period + 1) {
+    return null;
+  }
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const prevClose = bars[i - 1].close;
+    trueRanges.push(
+      Math.max(
+        bars[i].high - bars[i].low,
+        Math.abs(bars[i].high - prevClose),
+        Math.abs(bars[i].low - prevClose)
+      )
+    );
+  }
+
+  const recent = trueRanges.slice(-period);
+  return recent.reduce((sum, tr) => sum + tr, 0) / recent.length;
+}
+
+/**
+ * 現在価格に対する決済判定
+ * 高値・トレーリングストップ・建値ストップの追跡状態は position を直接更新する
+ */
+export function evaluateExit(
+  position: Position,
+  price: number,
+  policy: ExitPolicyConfig,
+  emergencyStopLoss: number,
+  now: Date = new Date()
+): ExitDecision {
+  const { entryPrice } = position;
+  const profitRate = (price - entryPrice) / entryPrice;
+  const pct = (rate: number) =>
+    `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(2)}%`;
+  const sellAll = (reason: string): ExitDecision => ({
+    action: 'sell',
+    quantity: position.quantity,
+    reason,
+  });
+
+  position.highestPrice = Math.max(position.highestPrice, price);
+  const peakProfitRate = (position.highestPrice - entryPrice) / entryPrice;
+
+  // 緊急ストップロスは通常のストップより先に判定する
+  if (profitRate <= emergencyStopLoss) {
+    return sellAll(`緊急ストップロス (${pct(profitRate)})`);
+  }
+
+  // 建値ストップの発動
+  if (
+    policy.breakevenTrigger !== null &&
+    !position.breakevenActive &&
+    peakProfitRate >= policy.breakevenTrigger
+  ) {
+    position.breakevenActive = true;
+  }
+
+  // トレーリングストップの更新（段階利確後は残りを必ずトレール）
+  const { trailingStop } = policy;
+  if (
+    trailingStop.enabled &&
+    (peakProfitRate >= trailingStop.activationProfit ||
+      position.filledTiers > 0)
+  ) {
+    const distance =
+      trailingStop.mode === 'atr' && position.atr
+        ? position.atr * trailingStop.atrMultiplier
+        : position.highestPrice * trailingStop.percentage;
+    const candidate = position.highestPrice - distance;
+    position.trailingStopPrice = Math.max(
+      position.trailingStopPrice ?? candidate,
+      candidate
+    );
+  }
+
+  // 有効なストップのうち最も高いものを適用
+  const stops: Array<{ price: number; reason: string }> = [
+    { price: entryPrice * (1 + position.stopLoss), reason: 'ストップロス' },
+  ];
+  if (position.breakevenActive) {
+    stops.push({ price: entryPrice, reason: '建値ストップ' });
+  }
+  if (position.trailingStopPrice !== null) {
+    stops.push({
+      price: position.trailingStopPrice,
+      reason: `トレーリングストップ (高値 $${position.highestPrice.toFixed(2)})`,
+    });
+  }
+  const activeStop = stops.reduce((a, b) => (b.price > a.price ? b : a));
+  if (price <= activeStop.price) {
+    return sellAll(
+      `${activeStop.reason} @ $${activeStop.price.toFixed(2)} (${pct(profitRate)})`
+    );
+  }
+
+  // 時間ベースの決済
+  if (policy.maxHoldingMinutes !== null) {
+    const heldMinutes = (now.getTime() - position.entryTime.getTime()) / 60000;
+    if (heldMinutes >= policy.maxHoldingMinutes) {
+      return sellAll(
+        `時間切れ決済 (${Math.floor(heldMinutes)}分保有, ${pct(profitRate)})`
+      );
+    }
+  }
+
+  if (
+    policy.strongProfitExit !== null &&
+    profitRate >= policy.strongProfitExit
+  ) {
+    return sellAll(`目標達成 (${pct(profitRate)})`);
+  }
+
+  // 段階利確
+  const tiers = [...policy.scaleOutTiers].sort(
+    (a, b) => a.profitRate - b.profitRate
+  );
+  const tierIndex = position.filledTiers;
+  const tier = tiers[tierIndex];
+  if (tier && profitRate >= tier.profitRate) {
+    const quantity = Math.min(
+      position.quantity,
+      Math.max(1, Math.round(position.initialQuantity * tier.sellRatio))
+    );
+    return {
+      action: 'sell',
+      quantity,
+      tierIndex,
+      reason: `段階利確 ${tierIndex + 1}/${tiers.length}: ${pct(tier.profitRate)}で${(tier.sellRatio * 100).toFixed(0)}% (${pct(profitRate)})`,
+    };
+  }
+
+  return { action: 'hold' };
+}
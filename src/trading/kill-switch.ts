@@ -0,0 +1,438 @@
+import { EventEmitter } from 'events';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { Logger } from '../utils/logger';
+import type { BaseBrokerIntegration } from '../brokers/broker-integration-service';
+
+/**
+ * 停止のきっかけ
+ */
+export type KillSwitchTrigger =
+  | 'dailyLoss'
+  | 'drawdown'
+  | 'brokerErrors'
+  | 'staleData'
+  | 'manual';
+
+/**
+ * 永続化される停止状態（再起動後も明示的に再稼働するまで停止を維持）
+ */
+export interface KillSwitchState {
+  halted: boolean;
+  tripId: string | null;
+  trigger: KillSwitchTrigger | null;
+  reason: string | null;
+  trippedAt: string | null;
+  trippedBy: string | null;
+  rearmedAt: string | null;
+  rearmedBy: string | null;
+  peakEquity: number | null; // ドローダウン判定用の評価額ピーク
+}
+
+export interface KillSwitchConfig {
+  stateFile: string;
+  maxDailyLoss: number | null; // 日次損失の上限（正の値、null で無効）
+  maxDrawdownPercent: number | null; // 評価額ピークからの下落率の上限（%）
+  maxConsecutiveBrokerErrors: number | null; // ブローカーエラーの連続回数の上限
+  maxDataAgeMs: number | null; // 市場データの最終更新からの許容時間
+  flattenOnTrip: boolean; // 停止時に全ポジションを成行決済するか
+  watchIntervalMs: number; // 状態ファイルの監視間隔
+}
+
+/**
+ * 停止時の注文キャンセル・決済に使うブローカー操作
+ */
+export type KillSwitchBroker = Pick<
+  BaseBrokerIntegration,
+  'getOrders' | 'cancelOrder' | 'getPositions' | 'placeOrder'
+>;
+
+/**
+ * 停止時の後処理の結果
+ */
+export interface HaltActionResult {
+  tripId: string;
+  cancelledOrders: number;
+  flattenedPositions: number;
+  errors: string[];
+}
+
+const DEFAULT_CONFIG: KillSwitchConfig = {
+  stateFile: './data/kill-switch/state.json',
+  maxDailyLoss: null,
+  maxDrawdownPercent: null,
+  maxConsecutiveBrokerErrors: 5,
+  maxDataAgeMs: 5 * 60 * 1000,
+  flattenOnTrip: false,
+  watchIntervalMs: 5000,
+};
+
+const ARMED_STATE: Omit<KillSwitchState, 'rearmedAt' | 'rearmedBy'> = {
+  halted: false,
+  tripId: null,
+  trigger: null,
+  reason: null,
+  trippedAt: null,
+  trippedBy: null,
+  peakEquity: null,
+};
+
+/**
+ * ポートフォリオ全体のキルスイッチ
+ * 条件を満たすと自動で停止し、作業中の注文をキャンセル（設定により全決済）する。
+ * 停止状態はファイルに保存され、別プロセス（APIルート）からの停止・再稼働も監視で反映する
+ */
+export class KillSwitch extends EventEmitter {
+  private logger: Logger;
+  private config: KillSwitchConfig;
+  private state: KillSwitchState = {
+    ...ARMED_STATE,
+    rearmedAt: null,
+    rearmedBy: null,
+  };
+  private broker?: KillSwitchBroker;
+  private handledTripId: string | null = null;
+  private consecutiveBrokerErrors: number = 0;
+  private lastDataAt: Date | null = null;
+  private watchTimer?: NodeJS.Timeout;
+
+  constructor(config: Partial<KillSwitchConfig> = {}) {
+    super();
+    this.logger = new Logger('KillSwitch');
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 保存済みの状態を読み込む
+   * 停止状態で起動した場合、停止時の後処理は既に実行済みとして扱う
+   */
+  async load(): Promise<KillSwitchState> {
+    const stored = await this.readStateFile();
+    if (stored) {
+      this.state = stored;
+      this.handledTripId = stored.tripId;
+      if (stored.halted) {
+        this.logger.warn(
+          `⚠️ 停止状態で起動しました（${stored.trigger}: ${stored.reason}）。再稼働するまで新規発注は行いません`
+        );
+      }
+    }
+    return this.getState();
+  }
+
+  /**
+   * 停止時の後処理に使うブローカーを設定
+   */
+  attachBroker(broker: KillSwitchBroker): void {
+    this.broker = broker;
+  }
+
+  isHalted(): boolean {
+    return this.state.halted;
+  }
+
+  getState(): KillSwitchState {
+    return { ...this.state };
+  }
+
+  getConfig(): KillSwitchConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 停止（既に停止中なら何もしない）
+   */
+  async trip(
+    trigger: KillSwitchTrigger,
+    reason: string,
+    by: string = 'system'
+  ): Promise<boolean> {
+    if (this.state.halted) {
+      return false;
+    }
+
+    const now = new Date();
+    this.state = {
+      ...this.state,
+      halted: true,
+      tripId: `${now.getTime()}_${trigger}`,
+      trigger,
+      reason,
+      trippedAt: now.toISOString(),
+      trippedBy: by,
+    };
+    await this.saveState();
+
+    this.logger.error(`🛑 キルスイッチ作動 (${trigger}): ${reason}`);
+    this.emit('tripped', this.getState());
+    await this.runHaltActions();
+    return true;
+  }
+
+  /**
+   * 再稼働（停止中でなければ何もしない）
+   */
+  async rearm(by: string, note?: string): Promise<boolean> {
+    if (!this.state.halted) {
+      return false;
+    }
+
+    this.state = {
+      ...ARMED_STATE,
+      peakEquity: this.state.peakEquity,
+      rearmedAt: new Date().toISOString(),
+      rearmedBy: by,
+    };
+    this.consecutiveBrokerErrors = 0;
+    this.lastDataAt = null;
+    await this.saveState();
+
+    this.logger.info(
+      `✅ キルスイッチを再稼働: ${by}${note ? ` (${note})` : ''}`
+    );
+    this.emit('rearmed', this.getState());
+    return true;
+  }
+
+  /**
+   * 損益・評価額の更新（日次損失とドローダウンを判定）
+   */
+  async updatePnL(update: {
+    dailyPnL?: number;
+    equity?: number;
+  }): Promise<void> {
+    const { maxDailyLoss, maxDrawdownPercent } = this.config;
+
+    if (update.equity !== undefined) {
+      const peak = Math.max(
+        this.state.peakEquity ?? update.equity,
+        update.equity
+      );
+      if (peak !== this.state.peakEquity) {
+        // 別プロセスの停止・再稼働を上書きしないよう先に反映する
+        await this.syncFromFile();
+        this.state.peakEquity = peak;
+        await this.saveState();
+      }
+    }
+    if (this.state.halted) return;
+
+    if (
+      maxDailyLoss !== null &&
+      update.dailyPnL !== undefined &&
+      update.dailyPnL <= -maxDailyLoss
+    ) {
+      await this.trip(
+        'dailyLoss',
+        `日次損失 $${update.dailyPnL.toFixed(2)} が上限 -$${maxDailyLoss} に達しました`
+      );
+      return;
+    }
+
+    if (
+      maxDrawdownPercent !== null &&
+      update.equity !== undefined &&
+      this.state.peakEquity
+    ) {
+      const drawdown =
+        ((this.state.peakEquity - update.equity) / this.state.peakEquity) * 100;
+      if (drawdown >= maxDrawdownPercent) {
+        await this.trip(
+          'drawdown',
+          `ドローダウン ${drawdown.toFixed(2)}% が上限 ${maxDrawdownPercent}% に達しました`
+        );
+      }
+    }
+  }
+
+  /**
+   * ブローカーエラーの記録（連続回数が上限に達したら停止）
+   */
+  async recordBrokerError(error: unknown): Promise<void> {
+    this.consecutiveBrokerErrors++;
+    const limit = this.config.maxConsecutiveBrokerErrors;
+    if (limit !== null && this.consecutiveBrokerErrors >= limit) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.trip(
+        'brokerErrors',
+        `ブローカーエラーが${this.consecutiveBrokerErrors}回連続しました（最新: ${message}）`
+      );
+    }
+  }
+
+  recordBrokerSuccess(): void {
+    this.consecutiveBrokerErrors = 0;
+  }
+
+  /**
+   * 市場データの受信を記録
+   */
+  recordDataUpdate(at: Date = new Date()): void {
+    this.lastDataAt = at;
+  }
+
+  /**
+   * 市場データの監視を終了（次に受信するまで鮮度を判定しない）
+   */
+  resetDataFreshness(): void {
+    this.lastDataAt = null;
+  }
+
+  /**
+   * 市場データの鮮度を判定（一度も受信していなければ判定しない）
+   */
+  async checkDataFreshness(now: Date = new Date()): Promise<void> {
+    const { maxDataAgeMs } = this.config;
+    if (maxDataAgeMs === null || !this.lastDataAt || this.state.halted) {
+      return;
+    }
+
+    const age = now.getTime() - this.lastDataAt.getTime();
+    if (age > maxDataAgeMs) {
+      await this.trip(
+        'staleData',
+        `市場データが${Math.round(age / 1000)}秒間更新されていません`
+      );
+    }
+  }
+
+  /**
+   * 状態ファイルとデータ鮮度の監視を開始
+   */
+  startWatching(): void {
+    if (this.watchTimer) return;
+
+    this.watchTimer = setInterval(() => {
+      this.syncFromFile()
+        .then(() => this.checkDataFreshness())
+        .catch((error) =>
+          this.logger.warn('⚠️ キルスイッチ監視エラー:', error)
+        );
+    }, this.config.watchIntervalMs);
+  }
+
+  stopWatching(): void {
+    if (this.watchTimer) {
+      clearInterval(this.watchTimer);
+      this.watchTimer = undefined;
+    }
+  }
+
+  /**
+   * 別プロセスによる停止・再稼働を反映
+   */
+  private async syncFromFile(): Promise<void> {
+    const stored = await this.readStateFile();
+    if (!stored) return;
+
+    if (stored.halted && stored.tripId !== this.handledTripId) {
+      this.state = stored;
+      this.logger.error(
+        `🛑 キルスイッチ作動を検知 (${stored.trigger}, ${stored.trippedBy}): ${stored.reason}`
+      );
+      this.emit('tripped', this.getState());
+      await this.runHaltActions();
+    } else if (!stored.halted && this.state.halted) {
+      this.state = stored;
+      this.consecutiveBrokerErrors = 0;
+      this.lastDataAt = null;
+      this.logger.info(`✅ キルスイッチの再稼働を検知: ${stored.rearmedBy}`);
+      this.emit('rearmed', this.getState());
+    }
+  }
+
+  /**
+   * 停止時の後処理（作業中の注文のキャンセルと、設定により全決済）
+   */
+  private async runHaltActions(): Promise<void> {
+    const tripId = this.state.tripId;
+    if (!tripId || tripId === this.handledTripId) return;
+    this.handledTripId = tripId;
+
+    const result: HaltActionResult = {
+      tripId,
+      cancelledOrders: 0,
+      flattenedPositions: 0,
+      errors: [],
+    };
+    const message = (error: unknown) =>
+      error instanceof Error ? error.message : String(error);
+
+    if (!this.broker) {
+      this.logger.warn(
+        '⚠️ ブローカー未設定のため注文キャンセル・決済は行いません'
+      );
+      this.emit('haltActionsCompleted', result);
+      return;
+    }
+
+    try {
+      const orders = await this.broker.getOrders();
+      for (const order of orders.filter((o) => o.status === 'pending')) {
+        try {
+          if (await this.broker.cancelOrder(order.orderId)) {
+            result.cancelledOrders++;
+          }
+        } catch (error) {
+          result.errors.push(`${order.orderId}: ${message(error)}`);
+        }
+      }
+    } catch (error) {
+      result.errors.push(`注文一覧の取得に失敗: ${message(error)}`);
+    }
+
+    // 緊急決済のため発注前リスクチェックは通さない
+    if (this.config.flattenOnTrip) {
+      try {
+        const positions = await this.broker.getPositions();
+        for (const position of positions.filter((p) => p.quantity > 0)) {
+          try {
+            await this.broker.placeOrder({
+              symbol: position.symbol,
+              side: position.side === 'long' ? 'sell' : 'buy',
+              quantity: position.quantity,
+              type: 'market',
+            });
+            result.flattenedPositions++;
+          } catch (error) {
+            result.errors.push(`${position.symbol}: ${message(error)}`);
+          }
+        }
+      } catch (error) {
+        result.errors.push(`ポジション一覧の取得に失敗: ${message(error)}`);
+      }
+    }
+
+    this.logger.warn(
+      `停止処理完了: 注文キャンセル${result.cancelledOrders}件 / 決済${result.flattenedPositions}件${result.errors.length > 0 ? ` / エラー${result.errors.length}件` : ''}`
+    );
+    this.emit('haltActionsCompleted', result);
+  }
+
+  private async readStateFile(): Promise<KillSwitchState | null> {
+    const filePath = this.config.stateFile;
+    if (!existsSync(filePath)) return null;
+
+    try {
+      return JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ キルスイッチ状態の読み込みに失敗: ${filePath}`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * 状態の保存（一時ファイルに書いてから置き換え）
+   */
+  private async saveState(): Promise<void> {
+    const filePath = this.config.stateFile;
+    const tmpPath = `${filePath}.tmp`;
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(this.state, null, 2), 'utf-8');
+    await rename(tmpPath, filePath);
+  }
+}
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import { Logger } from '../utils/logger';
 import { MockIBApi, MockIBContract, MockIBOrder } from '../brokers/mock-ib-api';
+import { OrderReplaceRequest } from '../brokers/order-matching-engine';
 
 export interface PaperTradingConfig {
   initialBalance: number;
@@ -143,13 +144,15 @@ export class PaperTradingSystem extends EventEmitter {
 
   /**
    * 注文の発注
+   * 約定はマッチングエンジンで判定され、orderStatus / execution イベントで通知される
    */
   async placeOrder(
     symbol: string,
     action: 'BUY' | 'SELL',
     quantity: number,
-    orderType: 'MKT' | 'LMT' = 'MKT',
-    limitPrice?: number
+    orderType: MockIBOrder['orderType'] = 'MKT',
+    limitPrice?: number,
+    options: { stopPrice?: number; tif?: MockIBOrder['tif'] } = {}
   ): Promise<number> {
     if (!this.isRunning) {
       throw new Error('ペーパートレーディングが開始されていません');
@@ -170,11 +173,12 @@ export class PaperTradingSystem extends EventEmitter {
       totalQuantity: quantity,
       orderType,
       lmtPrice: limitPrice,
-      tif: 'DAY',
+      auxPrice: options.stopPrice,
+      tif: options.tif || 'DAY',
     };
 
     this.logger.info(
-      `注文発注: ${symbol} ${action} ${quantity}株 @ ${orderType}${limitPrice ? ` $${limitPrice}` : ''}`
+      `注文発注: ${symbol} ${action} ${quantity}株 @ ${orderType}${limitPrice ? ` $${limitPrice}` : ''}${options.stopPrice ? ` (発動 $${options.stopPrice})` : ''} ${order.tif}`
     );
 
     await this.mockApi.placeOrder(orderId, contract, order);
@@ -190,6 +194,55 @@ export class PaperTradingSystem extends EventEmitter {
     this.logger.info(`注文をキャンセルしました: ${orderId}`);
   }
 
+  /**
+   * 注文の訂正（cancel/replace）
+   */
+  async modifyOrder(
+    orderId: number,
+    changes: OrderReplaceRequest
+  ): Promise<void> {
+    await this.mockApi.modifyOrder(orderId, changes);
+    this.logger.info(`注文を訂正しました: ${orderId}`, changes);
+  }
+
+  /**
+   * 未約定の注文一覧
+   */
+  getOpenOrders(): Array<{
+    orderId: number;
+    symbol: string;
+    action: 'BUY' | 'SELL';
+    orderType: MockIBOrder['orderType'];
+    totalQuantity: number;
+    filled: number;
+    status: string;
+  }> {
+    const virtualAccount = this.mockApi.getVirtualAccount();
+    return Array.from(virtualAccount.orders.values())
+      .filter(
+        (order) =>
+          order.status === 'PreSubmitted' || order.status === 'Submitted'
+      )
+      .map((order) => ({
+        orderId: order.orderId,
+        symbol: order.contract.symbol,
+        action: order.action,
+        orderType: order.orderType,
+        totalQuantity: order.totalQuantity,
+        filled: order.filled,
+        status: order.status,
+      }));
+  }
+
+  /**
+   * 取引日の終了処理（DAY注文を失効させる）
+   */
+  endTradingDay(): number {
+    const expired = this.mockApi.expireDayOrders();
+    this.logger.info(`DAY注文を失効させました: ${expired}件`);
+    return expired;
+  }
+
   /**
    * ポジション情報の取得
    */
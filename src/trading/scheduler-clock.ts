@@ -0,0 +1,249 @@
+import cron from 'node-cron';
+
+/**
+ * 停止可能なスケジュール済みタスク
+ */
+export interface ScheduledTask {
+  stop(): void;
+}
+
+/**
+ * スケジューラーが使う時計
+ * 本番は実時間（cron・タイマー）、シミュレーションでは仮想時計に差し替える
+ */
+export interface SchedulerClock {
+  now(): Date;
+  // 平日（月-金）の指定時刻（HH:MM）に実行
+  scheduleWeekdays(time: string, task: () => Promise<void>): ScheduledTask;
+  // 当日の指定時刻（HH:MM）
+  todayAt(time: string): Date;
+  setTimeout(task: () => void | Promise<void>, ms: number): ScheduledTask;
+  setInterval(task: () => Promise<void>, ms: number): ScheduledTask;
+}
+
+function parseTime(time: string): [number, number] {
+  const [hour, minute] = time.split(':').map((v) => parseInt(v, 10));
+  return [hour, minute];
+}
+
+/**
+ * 実時間の時計（サーバーのローカル時刻）
+ */
+export const systemClock: SchedulerClock = {
+  now: () => new Date(),
+  scheduleWeekdays(time, task) {
+    const [hour, minute] = parseTime(time);
+    return cron.schedule(`${minute} ${hour} * * 1-5`, task); // 月-金
+  },
+  todayAt(time) {
+    const [hour, minute] = parseTime(time);
+    const date = new Date();
+    date.setHours(hour, minute, 0, 0);
+    return date;
+  },
+  setTimeout(task, ms) {
+    const handle = setTimeout(task, ms);
+    return { stop: () => clearTimeout(handle) };
+  },
+  setInterval(task, ms) {
+    const handle = setInterval(task, ms);
+    return { stop: () => clearInterval(handle) };
+  },
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * タイムゾーンでの暦日・時刻
+ */
+function zonedParts(
+  time: number,
+  timezone: string
+): { year: number; month: number; day: number; hour: number; minute: number } {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(time));
+  const get = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  };
+}
+
+/**
+ * タイムゾーンの暦日・時刻を UTC の時刻に変換（夏時間の切り替えを考慮）
+ */
+function zonedToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (time: number) => {
+    const p = zonedParts(time, timezone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - time;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return wallClock - offsetAt(guess);
+}
+
+/**
+ * 指定日時のタイムゾーンでの日付キー（YYYY-MM-DD）
+ */
+export function toZonedDateKey(date: Date, timezone: string): string {
+  const p = zonedParts(date.getTime(), timezone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * 指定日時と同じ暦日（タイムゾーン基準）の指定時刻（HH:MM）
+ */
+export function zonedTimeOn(date: Date, time: string, timezone: string): Date {
+  const p = zonedParts(date.getTime(), timezone);
+  const [hour, minute] = parseTime(time);
+  return new Date(zonedToUtc(p.year, p.month, p.day, hour, minute, timezone));
+}
+
+interface VirtualTimer {
+  id: number;
+  due: number;
+  task: () => void | Promise<void>;
+  next: ((due: number) => number | null) | null; // 繰り返しの次回時刻
+  stopped: boolean;
+}
+
+/**
+ * 仮想時計
+ * advanceTo で時刻を進めると、その間に期限を迎えたタスクを時刻順に実行する（タスクの完了を待ってから次へ進む）
+ */
+export class VirtualClock implements SchedulerClock {
+  private current: number;
+  private timezone: string;
+  private timers: VirtualTimer[] = [];
+  private sequence: number = 0;
+
+  /**
+   * @param start 開始時刻
+   * @param timezone 取引所のタイムゾーン（平日・時刻の判定に使用）
+   */
+  constructor(start: Date, timezone: string) {
+    this.current = start.getTime();
+    this.timezone = timezone;
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  scheduleWeekdays(time: string, task: () => Promise<void>): ScheduledTask {
+    const next = (after: number) => this.nextWeekdayAt(after, time);
+    return this.addTimer(next(this.current), task, next);
+  }
+
+  todayAt(time: string): Date {
+    return zonedTimeOn(this.now(), time, this.timezone);
+  }
+
+  setTimeout(task: () => void | Promise<void>, ms: number): ScheduledTask {
+    return this.addTimer(this.current + Math.max(0, ms), task, null);
+  }
+
+  setInterval(task: () => Promise<void>, ms: number): ScheduledTask {
+    const interval = Math.max(1, ms);
+    return this.addTimer(
+      this.current + interval,
+      task,
+      (due) => due + interval
+    );
+  }
+
+  /**
+   * 指定時刻まで進め、期限を迎えたタスクを実行
+   */
+  async advanceTo(target: Date): Promise<void> {
+    const end = target.getTime();
+    for (;;) {
+      const timer = this.timers
+        .filter((t) => !t.stopped && t.due <= end)
+        .sort((a, b) => a.due - b.due || a.id - b.id)[0];
+      if (!timer) break;
+
+      this.current = Math.max(this.current, timer.due);
+      const next = timer.next?.(timer.due) ?? null;
+      if (next === null) {
+        timer.stopped = true;
+      } else {
+        timer.due = next;
+      }
+      await timer.task();
+      this.timers = this.timers.filter((t) => !t.stopped);
+    }
+    this.current = Math.max(this.current, end);
+  }
+
+  /**
+   * 予定されているタスク数
+   */
+  getPendingCount(): number {
+    return this.timers.filter((t) => !t.stopped).length;
+  }
+
+  private addTimer(
+    due: number | null,
+    task: () => void | Promise<void>,
+    next: VirtualTimer['next']
+  ): ScheduledTask {
+    const timer: VirtualTimer = {
+      id: ++this.sequence,
+      due: due ?? Infinity,
+      task,
+      next,
+      stopped: due === null,
+    };
+    this.timers.push(timer);
+    return { stop: () => (timer.stopped = true) };
+  }
+
+  /**
+   * after より後の最初の平日の指定時刻
+   */
+  private nextWeekdayAt(after: number, time: string): number | null {
+    const [hour, minute] = parseTime(time);
+    const p = zonedParts(after, this.timezone);
+    for (let i = 0; i <= 7; i++) {
+      const day = new Date(Date.UTC(p.year, p.month - 1, p.day + i));
+      const weekday = day.getUTCDay();
+      if (weekday === 0 || weekday === 6) continue;
+
+      const candidate = zonedToUtc(
+        day.getUTCFullYear(),
+        day.getUTCMonth() + 1,
+        day.getUTCDate(),
+        hour,
+        minute,
+        this.timezone
+      );
+      if (candidate > after) return candidate;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,197 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { Logger } from '../utils/logger';
+import type { Position, TradeHistory } from './day-trading-scheduler';
+
+/**
+ * スケジューラーが発注した購入注文（ポジションの記録前に異常終了しても照合で追跡できるようにする）
+ */
+export interface SchedulerOrder {
+  orderId: string;
+  symbol: string;
+  quantity: number;
+  placedAt: string; // 発注時刻（ISO 8601）
+}
+
+/**
+ * ジャーナルエントリー
+ * 1行1エントリーのJSON（JSON Lines）で追記のみ行う
+ */
+export type SchedulerJournalEntry =
+  | {
+      type: 'orderPlaced'; // 購入注文の発注直後（ポジションの記録前）
+      timestamp: string;
+      order: SchedulerOrder;
+    }
+  | {
+      type: 'orderClosed'; // 購入注文の約定完了・取消・拒否・期限切れ
+      timestamp: string;
+      orderId: string;
+    }
+  | {
+      type: 'positionOpened';
+      timestamp: string;
+      position: Position;
+      trade: TradeHistory;
+    }
+  | {
+      type: 'positionIncreased'; // 購入注文の追加約定
+      timestamp: string;
+      position: Position;
+      trade: TradeHistory;
+    }
+  | {
+      type: 'positionClosed';
+      timestamp: string;
+      symbol: string;
+      trade: TradeHistory;
+    }
+  | {
+      type: 'positionReduced'; // 段階利確などによる一部決済
+      timestamp: string;
+      position: Position;
+      trade: TradeHistory;
+    }
+  | {
+      type: 'positionAdjusted'; // 照合による数量修正・ブローカー側ポジションの取り込み
+      timestamp: string;
+      position: Position;
+      reason: string;
+    }
+  | {
+      type: 'positionRemoved'; // 照合によりブローカー側に存在しないポジションを破棄
+      timestamp: string;
+      symbol: string;
+      reason: string;
+    };
+
+/**
+ * ジャーナルから復元したスケジューラー状態
+ */
+export interface SchedulerState {
+  positions: Position[];
+  tradeHistory: TradeHistory[];
+  pendingOrders: SchedulerOrder[]; // 発注済みだがポジションに記録されていない購入注文
+}
+
+/**
+ * デイトレードスケジューラーの状態ジャーナル
+ * プロセスが異常終了しても保有ポジションと取引履歴を復元できるようにする
+ */
+export class SchedulerStateJournal {
+  private logger: Logger;
+  private filePath: string;
+
+  constructor(
+    filePath: string = './data/scheduler-state/day-trading-journal.jsonl'
+  ) {
+    this.logger = new Logger('SchedulerStateJournal');
+    this.filePath = filePath;
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * エントリーを追記
+   */
+  async append(entry: SchedulerJournalEntry): Promise<void> {
+    const dir = path.dirname(this.filePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+    await appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  /**
+   * ジャーナルを先頭から再生して状態を復元
+   */
+  async load(): Promise<SchedulerState> {
+    const positions = new Map<string, Position>();
+    const tradeHistory: TradeHistory[] = [];
+    const pendingOrders = new Map<string, SchedulerOrder>();
+    const clearPendingOrders = (symbol: string) => {
+      for (const [orderId, order] of pendingOrders) {
+        if (order.symbol === symbol) pendingOrders.delete(orderId);
+      }
+    };
+
+    if (!existsSync(this.filePath)) {
+      return { positions: [], tradeHistory, pendingOrders: [] };
+    }
+
+    const lines = (await readFile(this.filePath, 'utf-8')).split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let entry: SchedulerJournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // 書き込み途中でクラッシュした末尾行などは読み飛ばす
+        this.logger.warn(
+          `⚠️ 不正なジャーナル行を読み飛ばします: ${index + 1}行目`
+        );
+        return;
+      }
+
+      switch (entry.type) {
+        case 'orderPlaced':
+          pendingOrders.set(entry.order.orderId, {
+            ...entry.order,
+            placedAt: entry.order.placedAt ?? entry.timestamp,
+          });
+          break;
+        case 'orderClosed':
+          pendingOrders.delete(entry.orderId);
+          break;
+        case 'positionOpened':
+          positions.set(
+            entry.position.symbol,
+            this.revivePosition(entry.position)
+          );
+          tradeHistory.push(this.reviveTrade(entry.trade));
+          clearPendingOrders(entry.position.symbol);
+          break;
+        case 'positionClosed':
+          positions.delete(entry.symbol);
+          tradeHistory.push(this.reviveTrade(entry.trade));
+          break;
+        case 'positionIncreased':
+        case 'positionReduced':
+          positions.set(
+            entry.position.symbol,
+            this.revivePosition(entry.position)
+          );
+          tradeHistory.push(this.reviveTrade(entry.trade));
+          break;
+        case 'positionAdjusted':
+          positions.set(
+            entry.position.symbol,
+            this.revivePosition(entry.position)
+          );
+          clearPendingOrders(entry.position.symbol);
+          break;
+        case 'positionRemoved':
+          positions.delete(entry.symbol);
+          break;
+      }
+    });
+
+    return {
+      positions: Array.from(positions.values()),
+      tradeHistory,
+      pendingOrders: Array.from(pendingOrders.values()),
+    };
+  }
+
+  private revivePosition(position: Position): Position {
+    return { ...position, entryTime: new Date(position.entryTime) };
+  }
+
+  private reviveTrade(trade: TradeHistory): TradeHistory {
+    return { ...trade, date: new Date(trade.date) };
+  }
+}